@@ -1,6 +1,5 @@
 import { useState, useEffect } from "react";
-import { Switch, Route, useRoute, useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { Switch, Route, useRoute, useLocation, useSearch } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -10,6 +9,7 @@ import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { OnboardingDialog } from "@/components/onboarding-dialog";
 import { CreateTransactionDialog } from "@/components/create-transaction-dialog";
+import { GlobalSearch } from "@/components/global-search";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -17,18 +17,19 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Building2, LogOut, Loader2 } from "lucide-react";
 import Dashboard from "@/pages/dashboard";
 import Archive from "@/pages/archive";
+import CalendarPage from "@/pages/calendar";
+import RecycleBin from "@/pages/recycle-bin";
 import Settings from "@/pages/settings";
 import Admin from "@/pages/admin";
 import PublicFlyerPage from "@/pages/flyer-viewer";
 import NotFound from "@/pages/not-found";
-import type { Transaction } from "@shared/schema";
 
 function TransactionRoute({ createDialogOpen, setCreateDialogOpen }: { createDialogOpen: boolean; setCreateDialogOpen: (open: boolean) => void }) {
   const [, params] = useRoute("/transactions/:id");
   const transactionId = params?.id || null;
   
-  // Read tab from URL query params
-  const urlParams = new URLSearchParams(window.location.search);
+  // Read tab from URL query params (reactive, so search hits can switch tabs in place)
+  const urlParams = new URLSearchParams(useSearch());
   const urlTab = urlParams.get('tab');
   const urlFlyer = urlParams.get('flyer') === '1';
   
@@ -150,10 +151,6 @@ function AuthenticatedApp() {
   const [showOnboarding, setShowOnboarding] = useState(false);
   const { user, logout, isLoggingOut } = useAuth();
 
-  const { data: transactions = [] } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
-  });
-
   // Check if user needs onboarding (first-time login without Slack ID or email consent)
   useEffect(() => {
     if (user && !user.hasCompletedOnboarding) {
@@ -170,13 +167,13 @@ function AuthenticatedApp() {
     <SidebarProvider style={sidebarStyle as React.CSSProperties}>
       <div className="flex h-screen w-full">
         <AppSidebar
-          transactions={transactions}
           onCreateTransaction={() => setCreateDialogOpen(true)}
         />
         <div className="flex flex-col flex-1 min-w-0">
           <header className="flex items-center justify-between gap-4 p-3 border-b bg-background sticky top-0 z-50 safe-top">
             <SidebarTrigger data-testid="button-sidebar-toggle" />
             <div className="flex items-center gap-3">
+              <GlobalSearch />
               {user && (
                 <div className="flex items-center gap-2">
                   <Avatar className="h-7 w-7">
@@ -217,7 +214,9 @@ function AuthenticatedApp() {
                     setCreateDialogOpen={setCreateDialogOpen}
                   />
                 </Route>
+                <Route path="/calendar" component={CalendarPage} />
                 <Route path="/archive" component={Archive} />
+                <Route path="/recycle-bin" component={RecycleBin} />
                 <Route path="/settings" component={Settings} />
                 <Route path="/admin" component={Admin} />
                 <Route component={NotFound} />
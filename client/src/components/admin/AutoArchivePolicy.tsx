@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Archive, Eye, Play } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getStatusLabel } from "@/lib/utils/status-colors";
+import type { AutoArchivePolicy as Policy, AutoArchiveRuleSettings, AutoArchiveRunResult } from "@shared/lib/auto-archive";
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function RuleRow({ rule, onSave, isSaving }: {
+  rule: AutoArchiveRuleSettings;
+  onSave: (rule: Pick<AutoArchiveRuleSettings, "status" | "daysAfterStatus" | "isActive">) => void;
+  isSaving: boolean;
+}) {
+  const [days, setDays] = useState(String(rule.daysAfterStatus));
+
+  useEffect(() => {
+    setDays(String(rule.daysAfterStatus));
+  }, [rule.daysAfterStatus]);
+
+  const parsedDays = parseInt(days, 10);
+  const daysValid = Number.isInteger(parsedDays) && parsedDays >= 1;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3" data-testid={`auto-archive-rule-${rule.status}`}>
+      <div className="flex items-center gap-3">
+        <Switch
+          checked={rule.isActive}
+          onCheckedChange={(isActive) => onSave({ status: rule.status, daysAfterStatus: rule.daysAfterStatus, isActive })}
+          disabled={isSaving}
+          data-testid={`switch-auto-archive-${rule.status}`}
+        />
+        <div>
+          <span className="font-medium text-sm">{getStatusLabel(rule.status)}</span>
+          {rule.updatedBy && (
+            <p className="text-xs text-muted-foreground">
+              Updated by {rule.updatedBy}{rule.updatedAt && ` on ${formatDate(rule.updatedAt)}`}
+            </p>
+          )}
+        </div>
+      </div>
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Archive after</span>
+        <Input
+          type="number"
+          min={1}
+          value={days}
+          onChange={(e) => setDays(e.target.value)}
+          className="w-20 h-8"
+          data-testid={`input-auto-archive-days-${rule.status}`}
+        />
+        <span className="text-muted-foreground">days</span>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!daysValid || parsedDays === rule.daysAfterStatus || isSaving}
+          onClick={() => onSave({ status: rule.status, daysAfterStatus: parsedDays, isActive: rule.isActive })}
+          data-testid={`button-save-auto-archive-${rule.status}`}
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function AutoArchivePolicy() {
+  const { toast } = useToast();
+  const [showPreview, setShowPreview] = useState(false);
+
+  const { data: policy, isLoading } = useQuery<Policy>({
+    queryKey: ["/api/admin/auto-archive"],
+  });
+
+  const { data: preview, isFetching: previewLoading } = useQuery<AutoArchiveRunResult>({
+    queryKey: ["/api/admin/auto-archive/preview"],
+    enabled: showPreview,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ status, ...body }: Pick<AutoArchiveRuleSettings, "status" | "daysAfterStatus" | "isActive">) => {
+      const res = await apiRequest("PUT", `/api/admin/auto-archive/rules/${status}`, body);
+      return res.json();
+    },
+    onSuccess: (data: Policy) => {
+      queryClient.setQueryData(["/api/admin/auto-archive"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/auto-archive/preview"] });
+      toast({ title: "Auto-archive rule saved" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save auto-archive rule", variant: "destructive" });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/auto-archive/run");
+      return res.json() as Promise<AutoArchiveRunResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/auto-archive/preview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({
+        title: `Archived ${result.archived} transaction${result.archived !== 1 ? "s" : ""}`,
+        description: result.failed > 0 ? `${result.failed} changed during the run and will be retried tomorrow.` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Auto-archive failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const candidates = preview?.candidates ?? [];
+  const anyActive = policy?.rules.some((rule) => rule.isActive) ?? false;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base">Auto-Archive</CardTitle>
+            <CardDescription>
+              Closed and cancelled transactions are archived nightly once they have been in that status for the set
+              number of days. Reminder settings are saved so they can be restored on unarchive.
+              {policy && !policy.slackSummary && " Set AUTO_ARCHIVE_SLACK_CHANNEL_ID to post a summary to Slack."}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <Button size="sm" variant="outline" onClick={() => setShowPreview(true)} disabled={!anyActive} data-testid="button-preview-auto-archive">
+              <Eye className="h-4 w-4 mr-1" />
+              Preview
+            </Button>
+            <Button size="sm" onClick={() => runMutation.mutate()} disabled={!anyActive || runMutation.isPending} data-testid="button-run-auto-archive">
+              {runMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+              Run Now
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !policy ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="divide-y">
+            {policy.rules.map((rule) => (
+              <RuleRow key={rule.status} rule={rule} onSave={(r) => saveMutation.mutate(r)} isSaving={saveMutation.isPending} />
+            ))}
+          </div>
+        )}
+
+        {showPreview && (
+          <div className="border rounded-md" data-testid="auto-archive-preview">
+            <div className="px-3 py-2 border-b text-sm font-medium flex items-center gap-2">
+              <Archive className="h-4 w-4 text-muted-foreground" />
+              {previewLoading ? "Checking..." : `${candidates.length} transaction${candidates.length !== 1 ? "s" : ""} would be archived`}
+            </div>
+            {!previewLoading && candidates.length > 0 && (
+              <div className="divide-y max-h-64 overflow-y-auto">
+                {candidates.map((candidate) => (
+                  <div key={candidate.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                    <span className="truncate">{candidate.propertyAddress}</span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant="secondary" className="text-xs">{getStatusLabel(candidate.status)}</Badge>
+                      <span className="text-xs text-muted-foreground">since {formatDate(candidate.statusChangedAt)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
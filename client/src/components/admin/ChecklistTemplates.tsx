@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2, Pencil, ListChecks } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getStatusLabel } from "@/lib/utils/status-colors";
+import { transactionStatuses, transactionTypes } from "@shared/schema";
+import type { ChecklistTemplate, ChecklistTemplateItem } from "@shared/schema";
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  transactionType: string;
+  status: string;
+  isActive: boolean;
+  items: ChecklistTemplateItem[];
+}
+
+const EMPTY_DRAFT: TemplateDraft = {
+  name: "",
+  transactionType: "buy",
+  status: "in_contract",
+  isActive: true,
+  items: [],
+};
+
+const ANCHOR_LABELS: Record<string, string> = {
+  created: "after created",
+  contract: "after contract",
+  closing: "from closing",
+};
+
+export function ChecklistTemplates() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery<ChecklistTemplate[]>({
+    queryKey: ["/api/admin/checklist-templates"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TemplateDraft) => {
+      const { id, ...body } = data;
+      const items = body.items.filter((item) => item.title.trim());
+      const res = id
+        ? await apiRequest("PATCH", `/api/admin/checklist-templates/${id}`, { ...body, items })
+        : await apiRequest("POST", "/api/admin/checklist-templates", { ...body, items });
+      return res.json();
+    },
+    onSuccess: () => {
+      setDraft(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/checklist-templates"] });
+      toast({ title: "Template saved" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save checklist template", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/checklist-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/checklist-templates"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete checklist template", variant: "destructive" });
+    },
+  });
+
+  const updateItem = (index: number, patch: Partial<ChecklistTemplateItem>) => {
+    if (!draft) return;
+    const items = draft.items.map((item, i) => (i === index ? { ...item, ...patch } : item));
+    setDraft({ ...draft, items });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base">Checklist Templates</CardTitle>
+            <CardDescription>
+              Tasks added to a transaction when it is created or moves into the template's status.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setDraft({ ...EMPTY_DRAFT, items: [] })} data-testid="button-new-checklist-template">
+            <Plus className="h-4 w-4 mr-1" />
+            New Template
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            <ListChecks className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            No checklist templates yet
+          </div>
+        ) : (
+          <div className="divide-y">
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between gap-3 py-3" data-testid={`checklist-template-${template.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-sm">{template.name}</span>
+                    <Badge variant="outline" className="text-xs capitalize">{template.transactionType}</Badge>
+                    <Badge variant="secondary" className="text-xs">{getStatusLabel(template.status)}</Badge>
+                    {!template.isActive && <Badge variant="outline" className="text-xs">Inactive</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {(template.items || []).length} task{(template.items || []).length === 1 ? "" : "s"}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setDraft({
+                      id: template.id,
+                      name: template.name,
+                      transactionType: template.transactionType,
+                      status: template.status,
+                      isActive: template.isActive ?? true,
+                      items: template.items || [],
+                    })}
+                    data-testid={`button-edit-template-${template.id}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(template.id)}
+                    data-testid={`button-delete-template-${template.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Checklist Template" : "New Checklist Template"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Buyer - Under Contract"
+                  data-testid="input-template-name"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-3 items-end">
+                <div className="space-y-2">
+                  <Label>Transaction Type</Label>
+                  <Select value={draft.transactionType} onValueChange={(v) => setDraft({ ...draft, transactionType: v })}>
+                    <SelectTrigger data-testid="select-template-type"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {transactionTypes.map((type) => (
+                        <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select value={draft.status} onValueChange={(v) => setDraft({ ...draft, status: v })}>
+                    <SelectTrigger data-testid="select-template-status"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {transactionStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>{getStatusLabel(status)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2 pb-2">
+                  <Switch
+                    checked={draft.isActive}
+                    onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })}
+                    data-testid="switch-template-active"
+                  />
+                  <Label>Active</Label>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Tasks</Label>
+                {draft.items.map((item, index) => (
+                  <div key={index} className="flex gap-2 items-center flex-wrap">
+                    <Input
+                      value={item.title}
+                      onChange={(e) => updateItem(index, { title: e.target.value })}
+                      placeholder="Task title"
+                      className="flex-1 min-w-[180px]"
+                      data-testid={`input-template-item-${index}`}
+                    />
+                    <Select value={item.assigneeType} onValueChange={(v) => updateItem(index, { assigneeType: v as ChecklistTemplateItem["assigneeType"] })}>
+                      <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="coordinator">Coordinator</SelectItem>
+                        <SelectItem value="agent">Agent</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      value={item.dueOffsetDays ?? ""}
+                      onChange={(e) => updateItem(index, { dueOffsetDays: e.target.value === "" ? undefined : parseInt(e.target.value, 10) })}
+                      placeholder="Days"
+                      className="w-20"
+                    />
+                    <Select value={item.dueAnchor || "created"} onValueChange={(v) => updateItem(index, { dueAnchor: v as ChecklistTemplateItem["dueAnchor"] })}>
+                      <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ANCHOR_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDraft({ ...draft, items: draft.items.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraft({ ...draft, items: [...draft.items, { title: "", assigneeType: "coordinator" }] })}
+                  data-testid="button-add-template-item"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Task
+                </Button>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => draft && saveMutation.mutate(draft)}
+              disabled={!draft?.name.trim() || saveMutation.isPending}
+              data-testid="button-save-template"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
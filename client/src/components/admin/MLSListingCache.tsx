@@ -0,0 +1,72 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Database } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import type { MLSCacheMetrics } from "@shared/lib/mls-cache";
+
+function formatMinutes(minutes: number): string {
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+export function MLSListingCache() {
+  const { data: metrics, isLoading } = useQuery<MLSCacheMetrics>({
+    queryKey: ["/api/admin/mls-cache"],
+    refetchInterval: 60000,
+  });
+
+  const stats = metrics
+    ? [
+        { label: "Hit rate", value: metrics.hitRate !== null ? `${Math.round(metrics.hitRate * 100)}%` : "—" },
+        { label: "Hits", value: metrics.hits.toLocaleString() },
+        { label: "Stale hits", value: metrics.staleHits.toLocaleString() },
+        { label: "Misses", value: metrics.misses.toLocaleString() },
+        { label: "Repliers calls", value: metrics.fetches.toLocaleString() },
+        { label: "Failed calls", value: metrics.fetchFailures.toLocaleString() },
+        { label: "Cached listings", value: metrics.entries.toLocaleString() },
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Database className="h-4 w-4" />
+          MLS Listing Cache
+        </CardTitle>
+        <CardDescription>
+          Repliers listings are reused across search, detail views and the sync job.
+          {metrics && ` Counts since ${formatDateTime(metrics.since)}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !metrics ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+              {stats.map((stat) => (
+                <div key={stat.label} className="rounded-md bg-muted/50 p-3" data-testid={`mls-cache-${stat.label.toLowerCase().replace(/\s+/g, "-")}`}>
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  <p className="text-lg font-semibold">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Active listings stay fresh for {formatMinutes(metrics.ttls.activeTtlMinutes)}, closed listings for{" "}
+              {formatMinutes(metrics.ttls.closedTtlMinutes)}. Stale listings up to{" "}
+              {formatMinutes(metrics.ttls.maxStaleMinutes)} past that are served while they refresh in the background.
+              {metrics.oldestFetchedAt && ` Oldest entry fetched ${formatDateTime(metrics.oldestFetchedAt)}.`}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2, RefreshCw, History } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getFieldLabel } from "@shared/lib/field-history";
+import { MLS_SYNC_OUTCOME_LABELS, MLS_SYNC_TRIGGER_LABELS, type MLSSyncRunDetail } from "@shared/lib/mls-sync";
+import type { MLSSyncOutcome, MLSSyncRun, MLSSyncRunStatus, MLSSyncTrigger } from "@shared/schema";
+
+const STATUS_VARIANTS: Record<MLSSyncRunStatus, "default" | "secondary" | "destructive"> = {
+  running: "secondary",
+  completed: "default",
+  failed: "destructive",
+};
+
+const OUTCOME_VARIANTS: Record<MLSSyncOutcome, "default" | "secondary" | "destructive"> = {
+  success: "default",
+  skipped_rental: "secondary",
+  error: "destructive",
+};
+
+function formatDateTime(value: string | Date) {
+  return new Date(value).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+function formatDuration(run: MLSSyncRun): string {
+  if (!run.startedAt || !run.finishedAt) return "—";
+  const seconds = Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function invalidateRuns() {
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/mls-sync/runs"] });
+}
+
+export function MLSSyncRuns() {
+  const { toast } = useToast();
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<"failures" | "all">("failures");
+
+  const { data: runs = [], isLoading } = useQuery<MLSSyncRun[]>({
+    queryKey: ["/api/admin/mls-sync/runs"],
+    refetchInterval: 30000,
+  });
+
+  const { data: detail, isLoading: isDetailLoading } = useQuery<MLSSyncRunDetail>({
+    queryKey: ["/api/admin/mls-sync/runs", selectedRunId],
+    enabled: !!selectedRunId,
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/mls-sync/trigger");
+    },
+    onSuccess: () => {
+      invalidateRuns();
+      toast({ title: "MLS sync finished" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to run MLS sync", variant: "destructive" });
+    },
+  });
+
+  const resyncMutation = useMutation({
+    mutationFn: async (transactionId: string) => {
+      const res = await apiRequest("POST", `/api/admin/mls-sync/transactions/${transactionId}/resync`);
+      return res.json() as Promise<MLSSyncRunDetail>;
+    },
+    onSuccess: ({ results }) => {
+      invalidateRuns();
+      const [result] = results;
+      toast({
+        title: result?.outcome === "error" ? "Re-sync failed" : "Transaction re-synced",
+        description: result?.error ?? undefined,
+        variant: result?.outcome === "error" ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      const description = error.message.startsWith("409:")
+        ? "An MLS sync is already running - try again when it finishes"
+        : "Failed to re-sync transaction";
+      toast({ title: "Error", description, variant: "destructive" });
+    },
+  });
+
+  const results = (detail?.results ?? []).filter((result) => filter === "all" || result.outcome === "error");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <History className="h-4 w-4" />
+              MLS Sync Runs
+            </CardTitle>
+            <CardDescription>
+              Each sync of active listings, with per-transaction outcomes. Listings that keep failing are backed off.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => syncMutation.mutate()} disabled={syncMutation.isPending} data-testid="button-run-mls-sync">
+            {syncMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+            Run Sync Now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : runs.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">No sync runs recorded yet</div>
+        ) : (
+          <div className="divide-y">
+            {runs.map((run) => (
+              <button
+                key={run.id}
+                type="button"
+                className="w-full flex items-center justify-between gap-3 py-3 text-left hover:bg-muted/50 rounded-sm"
+                onClick={() => {
+                  setFilter(run.failed > 0 ? "failures" : "all");
+                  setSelectedRunId(run.id);
+                }}
+                data-testid={`mls-sync-run-${run.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-sm">{run.startedAt ? formatDateTime(run.startedAt) : "—"}</span>
+                    <Badge variant="outline" className="text-xs">{MLS_SYNC_TRIGGER_LABELS[run.trigger as MLSSyncTrigger]}</Badge>
+                    <Badge variant={STATUS_VARIANTS[run.status as MLSSyncRunStatus]} className="text-xs capitalize">{run.status}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {run.total} listing{run.total === 1 ? "" : "s"} · {formatDuration(run)}
+                    {run.error && ` · ${run.error}`}
+                  </p>
+                </div>
+                <div className="flex gap-1 flex-wrap justify-end">
+                  <Badge variant="secondary" className="text-xs">{run.successful} synced</Badge>
+                  {run.failed > 0 && <Badge variant="destructive" className="text-xs">{run.failed} failed</Badge>}
+                  {run.skippedRental > 0 && <Badge variant="outline" className="text-xs">{run.skippedRental} rental</Badge>}
+                  {run.backedOff > 0 && <Badge variant="outline" className="text-xs">{run.backedOff} backed off</Badge>}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selectedRunId} onOpenChange={(open) => !open && setSelectedRunId(null)}>
+        <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Sync Run</DialogTitle>
+            {detail && (
+              <DialogDescription>
+                {MLS_SYNC_TRIGGER_LABELS[detail.run.trigger as MLSSyncTrigger]} · {detail.run.startedAt ? formatDateTime(detail.run.startedAt) : "—"} · {formatDuration(detail.run)}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {isDetailLoading || !detail ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <Tabs value={filter} onValueChange={(v) => setFilter(v as "failures" | "all")}>
+                <TabsList>
+                  <TabsTrigger value="failures" data-testid="tab-sync-failures">Failures ({detail.run.failed})</TabsTrigger>
+                  <TabsTrigger value="all" data-testid="tab-sync-all">All ({detail.results.length})</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Transaction</TableHead>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead className="w-[1%]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-sm text-muted-foreground py-8">
+                        {filter === "failures" ? "No failures in this run" : "No transactions were synced in this run"}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    results.map((result) => (
+                      <TableRow key={result.id} data-testid={`mls-sync-result-${result.id}`}>
+                        <TableCell>
+                          <Link href={`/transactions/${result.transactionId}`} className="font-medium text-sm hover:underline">
+                            {result.address}
+                          </Link>
+                          <p className="text-xs text-muted-foreground">MLS# {result.mlsNumber}</p>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={OUTCOME_VARIANTS[result.outcome as MLSSyncOutcome]} className="text-xs">
+                            {MLS_SYNC_OUTCOME_LABELS[result.outcome as MLSSyncOutcome]}
+                          </Badge>
+                          {result.consecutiveFailures > 1 && (
+                            <p className="text-xs text-muted-foreground mt-1">{result.consecutiveFailures} in a row</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {result.error ? (
+                            <span className="text-destructive">{result.error}</span>
+                          ) : result.changedFields.length > 0 ? (
+                            result.changedFields.map((change) => getFieldLabel(change.field)).join(", ")
+                          ) : (
+                            <span className="text-muted-foreground">No changes</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => resyncMutation.mutate(result.transactionId)}
+                            disabled={resyncMutation.isPending}
+                            data-testid={`button-resync-${result.transactionId}`}
+                          >
+                            {resyncMutation.isPending && resyncMutation.variables === result.transactionId && (
+                              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                            )}
+                            Re-sync
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
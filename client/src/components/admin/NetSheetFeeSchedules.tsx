@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2, Pencil, Calculator } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DEFAULT_NET_SHEET_FEES } from "@shared/lib/net-sheets";
+import type { NetSheetFee, NetSheetFeeKind, NetSheetFeeSchedule, NetSheetType } from "@shared/schema";
+
+interface ScheduleDraft {
+  id?: string;
+  name: string;
+  isDefault: boolean;
+  fees: NetSheetFee[];
+}
+
+const SIDE_LABELS: Record<NetSheetType, string> = {
+  seller: "Seller",
+  buyer: "Buyer",
+};
+
+export function NetSheetFeeSchedules() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ScheduleDraft | null>(null);
+
+  const { data: schedules = [], isLoading } = useQuery<NetSheetFeeSchedule[]>({
+    queryKey: ["/api/admin/net-sheet-fee-schedules"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/net-sheet-fee-schedules"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/net-sheet-fee-schedules"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ScheduleDraft) => {
+      const { id, ...body } = data;
+      const fees = body.fees.filter((fee) => fee.label.trim());
+      const res = id
+        ? await apiRequest("PATCH", `/api/admin/net-sheet-fee-schedules/${id}`, { ...body, fees })
+        : await apiRequest("POST", "/api/admin/net-sheet-fee-schedules", { ...body, fees });
+      return res.json();
+    },
+    onSuccess: () => {
+      setDraft(null);
+      invalidate();
+      toast({ title: "Fee schedule saved" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save fee schedule", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/net-sheet-fee-schedules/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete fee schedule", variant: "destructive" });
+    },
+  });
+
+  const updateFee = (index: number, patch: Partial<NetSheetFee>) => {
+    if (!draft) return;
+    const fees = draft.fees.map((fee, i) => (i === index ? { ...fee, ...patch } : fee));
+    setDraft({ ...draft, fees });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base">Net Sheet Fee Schedules</CardTitle>
+            <CardDescription>
+              Title, escrow and brokerage fees applied to seller net sheets and buyer cash-to-close estimates.
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => setDraft({ name: "", isDefault: schedules.length === 0, fees: DEFAULT_NET_SHEET_FEES.map((fee) => ({ ...fee })) })}
+            data-testid="button-new-fee-schedule"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New Schedule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            <Calculator className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            No fee schedules yet - net sheets use the standard fees
+          </div>
+        ) : (
+          <div className="divide-y">
+            {schedules.map((schedule) => (
+              <div key={schedule.id} className="flex items-center justify-between gap-3 py-3" data-testid={`fee-schedule-${schedule.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-sm">{schedule.name}</span>
+                    {schedule.isDefault && <Badge variant="secondary" className="text-xs">Default</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {schedule.fees.length} fee{schedule.fees.length === 1 ? "" : "s"}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setDraft({
+                      id: schedule.id,
+                      name: schedule.name,
+                      isDefault: schedule.isDefault ?? false,
+                      fees: schedule.fees,
+                    })}
+                    data-testid={`button-edit-fee-schedule-${schedule.id}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(schedule.id)}
+                    data-testid={`button-delete-fee-schedule-${schedule.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Fee Schedule" : "New Fee Schedule"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-3 items-end">
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="fee-schedule-name">Name</Label>
+                  <Input
+                    id="fee-schedule-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Travis County"
+                    data-testid="input-fee-schedule-name"
+                  />
+                </div>
+                <div className="flex items-center gap-2 pb-2">
+                  <Switch
+                    checked={draft.isDefault}
+                    onCheckedChange={(checked) => setDraft({ ...draft, isDefault: checked })}
+                    data-testid="switch-fee-schedule-default"
+                  />
+                  <Label>Default</Label>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Fees</Label>
+                {draft.fees.map((fee, index) => (
+                  <div key={index} className="flex gap-2 items-center flex-wrap">
+                    <Input
+                      value={fee.label}
+                      onChange={(e) => updateFee(index, { label: e.target.value })}
+                      placeholder="Fee"
+                      className="flex-1 min-w-[180px]"
+                      data-testid={`input-fee-label-${index}`}
+                    />
+                    <Select value={fee.side} onValueChange={(v) => updateFee(index, { side: v as NetSheetType })}>
+                      <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(SIDE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={fee.kind} onValueChange={(v) => updateFee(index, { kind: v as NetSheetFeeKind })}>
+                      <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="flat">Flat $</SelectItem>
+                        <SelectItem value="percent">% of price</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={fee.amount}
+                      onChange={(e) => updateFee(index, { amount: e.target.value === "" ? 0 : Number(e.target.value) })}
+                      className="w-24"
+                      data-testid={`input-fee-amount-${index}`}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDraft({ ...draft, fees: draft.fees.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraft({ ...draft, fees: [...draft.fees, { label: "", side: "seller", kind: "flat", amount: 0 }] })}
+                  data-testid="button-add-fee"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Fee
+                </Button>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => draft && saveMutation.mutate(draft)}
+              disabled={!draft?.name.trim() || saveMutation.isPending}
+              data-testid="button-save-fee-schedule"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2, Building, UserPlus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { MEMBER_ROLE_LABELS } from "@shared/lib/permissions";
+import { memberRoles } from "@shared/schema";
+import type { MemberRole, Organization, OrganizationMember, Team } from "@shared/schema";
+
+interface OrganizationWithMembers extends Organization {
+  teams: Team[];
+  members: Array<OrganizationMember & { name: string | null; email: string | null }>;
+}
+
+interface MemberDraft {
+  organizationId: string;
+  email: string;
+  role: MemberRole;
+  teamId: string | null;
+}
+
+const NO_TEAM = "none";
+const ORGANIZATIONS_QUERY_KEY = ["/api/admin/organizations"];
+
+export function Organizations() {
+  const { toast } = useToast();
+  const [newOrganizationName, setNewOrganizationName] = useState("");
+  const [newTeamNames, setNewTeamNames] = useState<Record<string, string>>({});
+  const [memberDraft, setMemberDraft] = useState<MemberDraft | null>(null);
+
+  const { data: organizations = [], isLoading } = useQuery<OrganizationWithMembers[]>({
+    queryKey: ORGANIZATIONS_QUERY_KEY,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ORGANIZATIONS_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ["/api/permissions"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createOrganizationMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/admin/organizations", { name });
+      return res.json();
+    },
+    onSuccess: () => {
+      setNewOrganizationName("");
+      invalidate();
+    },
+    onError,
+  });
+
+  const deleteOrganizationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/organizations/${id}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const createTeamMutation = useMutation({
+    mutationFn: async ({ organizationId, name }: { organizationId: string; name: string }) => {
+      const res = await apiRequest("POST", `/api/admin/organizations/${organizationId}/teams`, { name });
+      return res.json();
+    },
+    onSuccess: (_data, { organizationId }) => {
+      setNewTeamNames((prev) => ({ ...prev, [organizationId]: "" }));
+      invalidate();
+    },
+    onError,
+  });
+
+  const deleteTeamMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/teams/${id}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async ({ organizationId, ...body }: MemberDraft) => {
+      const res = await apiRequest("POST", `/api/admin/organizations/${organizationId}/members`, body);
+      return res.json();
+    },
+    onSuccess: () => {
+      setMemberDraft(null);
+      invalidate();
+    },
+    onError,
+  });
+
+  const updateMemberMutation = useMutation({
+    mutationFn: async ({ id, ...body }: { id: string; role?: MemberRole; teamId?: string | null }) => {
+      const res = await apiRequest("PATCH", `/api/admin/members/${id}`, body);
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/members/${id}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Building className="h-4 w-4" />
+          Organizations & Teams
+        </CardTitle>
+        <CardDescription>
+          Roles control access: team leads see their team's transactions, marketing staff only reach marketing assets.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          organizations.map((organization) => (
+            <div key={organization.id} className="border rounded-md p-4 space-y-4" data-testid={`organization-${organization.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium">{organization.name}</p>
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setMemberDraft({ organizationId: organization.id, email: "", role: "agent", teamId: null })}
+                    data-testid={`button-add-member-${organization.id}`}
+                  >
+                    <UserPlus className="h-4 w-4 mr-1" />
+                    Add Member
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => deleteOrganizationMutation.mutate(organization.id)}
+                    data-testid={`button-delete-organization-${organization.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Teams</Label>
+                <div className="flex flex-wrap gap-2">
+                  {organization.teams.map((team) => (
+                    <Badge key={team.id} variant="secondary" className="gap-1">
+                      {team.name}
+                      <button
+                        type="button"
+                        onClick={() => deleteTeamMutation.mutate(team.id)}
+                        className="ml-1 hover:text-destructive"
+                        data-testid={`button-delete-team-${team.id}`}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    value={newTeamNames[organization.id] || ""}
+                    onChange={(e) => setNewTeamNames((prev) => ({ ...prev, [organization.id]: e.target.value }))}
+                    placeholder="New team name"
+                    className="h-8"
+                    data-testid={`input-new-team-${organization.id}`}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!newTeamNames[organization.id]?.trim() || createTeamMutation.isPending}
+                    onClick={() => createTeamMutation.mutate({ organizationId: organization.id, name: newTeamNames[organization.id].trim() })}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Members</Label>
+                {organization.members.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No members yet</p>
+                ) : (
+                  <div className="divide-y">
+                    {organization.members.map((member) => (
+                      <div key={member.id} className="flex items-center justify-between gap-2 py-2 flex-wrap" data-testid={`member-${member.id}`}>
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{member.name || member.email || "Unknown user"}</p>
+                          {member.name && <p className="text-xs text-muted-foreground truncate">{member.email}</p>}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Select
+                            value={member.role}
+                            onValueChange={(role) => updateMemberMutation.mutate({ id: member.id, role: role as MemberRole })}
+                          >
+                            <SelectTrigger className="h-8 w-36" data-testid={`select-member-role-${member.id}`}><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {memberRoles.map((role) => (
+                                <SelectItem key={role} value={role}>{MEMBER_ROLE_LABELS[role]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Select
+                            value={member.teamId || NO_TEAM}
+                            onValueChange={(teamId) => updateMemberMutation.mutate({ id: member.id, teamId: teamId === NO_TEAM ? null : teamId })}
+                          >
+                            <SelectTrigger className="h-8 w-36" data-testid={`select-member-team-${member.id}`}><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_TEAM}>No team</SelectItem>
+                              {organization.teams.map((team) => (
+                                <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            onClick={() => removeMemberMutation.mutate(member.id)}
+                            data-testid={`button-remove-member-${member.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            value={newOrganizationName}
+            onChange={(e) => setNewOrganizationName(e.target.value)}
+            placeholder="New organization name"
+            data-testid="input-new-organization"
+          />
+          <Button
+            disabled={!newOrganizationName.trim() || createOrganizationMutation.isPending}
+            onClick={() => createOrganizationMutation.mutate(newOrganizationName.trim())}
+            data-testid="button-create-organization"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!memberDraft} onOpenChange={(open) => !open && setMemberDraft(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Member</DialogTitle>
+          </DialogHeader>
+          {memberDraft && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="member-email">Email</Label>
+                <Input
+                  id="member-email"
+                  type="email"
+                  value={memberDraft.email}
+                  onChange={(e) => setMemberDraft({ ...memberDraft, email: e.target.value })}
+                  placeholder="Must have signed in at least once"
+                  data-testid="input-member-email"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Role</Label>
+                  <Select value={memberDraft.role} onValueChange={(role) => setMemberDraft({ ...memberDraft, role: role as MemberRole })}>
+                    <SelectTrigger data-testid="select-new-member-role"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {memberRoles.map((role) => (
+                        <SelectItem key={role} value={role}>{MEMBER_ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Team</Label>
+                  <Select
+                    value={memberDraft.teamId || NO_TEAM}
+                    onValueChange={(teamId) => setMemberDraft({ ...memberDraft, teamId: teamId === NO_TEAM ? null : teamId })}
+                  >
+                    <SelectTrigger data-testid="select-new-member-team"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TEAM}>No team</SelectItem>
+                      {organizations
+                        .find((o) => o.id === memberDraft.organizationId)
+                        ?.teams.map((team) => (
+                          <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMemberDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => memberDraft && addMemberMutation.mutate(memberDraft)}
+              disabled={!memberDraft?.email.trim() || addMemberMutation.isPending}
+              data-testid="button-save-member"
+            >
+              {addMemberMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, BarChart3, FileDown, FileText } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatCurrency } from "@shared/lib/commission";
+
+type ProductionReportType = "agents" | "coordinators" | "marketing";
+
+interface ProductionReport {
+  range: { from: string; to: string };
+  agents: Array<{
+    userId: string;
+    name: string;
+    closedUnits: number;
+    closedVolume: number;
+    averagePrice: number | null;
+    newUnits: number;
+    openUnits: number;
+  }>;
+  coordinators: Array<{
+    coordinatorId: string;
+    name: string;
+    activeTransactions: number;
+    closedInRange: number;
+    upcomingClosings: number;
+    activityCount: number;
+  }>;
+  marketing: Array<{
+    userId: string;
+    name: string;
+    flyers: number;
+    graphics: number;
+    flyerImages: number;
+    total: number;
+  }>;
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function EmptyRow({ columns }: { columns: number }) {
+  return (
+    <TableRow>
+      <TableCell colSpan={columns} className="text-center text-sm text-muted-foreground py-8">
+        No activity in this range
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Brokerage-wide production for broker admins: agent closings, coordinator workload
+ * and marketing output over a date range, each exportable as CSV or PDF.
+ */
+export function ProductionReports() {
+  const [from, setFrom] = useState(() => `${new Date().getFullYear()}-01-01`);
+  const [to, setTo] = useState(() => toDateKey(new Date()));
+  const [tab, setTab] = useState<ProductionReportType>("agents");
+  const rangeValid = !!from && !!to && from <= to;
+  const rangeQuery = `from=${from}&to=${to}`;
+
+  const { data: report, isLoading } = useQuery<ProductionReport>({
+    queryKey: ["/api/admin/reports/production", from, to],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/reports/production?${rangeQuery}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch production report");
+      return res.json();
+    },
+    enabled: rangeValid,
+  });
+
+  const exportReport = (format: "csv" | "pdf") => {
+    window.location.href = `/api/admin/reports/production/${tab}/export?format=${format}&${rangeQuery}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              Production Reports
+            </CardTitle>
+            <CardDescription>
+              Agent production, coordinator workload and marketing output across the brokerage
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2 flex-wrap">
+            <div className="space-y-1">
+              <Label htmlFor="report-from" className="text-xs">From</Label>
+              <Input id="report-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-8 w-36" data-testid="input-report-from" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="report-to" className="text-xs">To</Label>
+              <Input id="report-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-8 w-36" data-testid="input-report-to" />
+            </div>
+            <Button size="sm" variant="outline" onClick={() => exportReport("csv")} disabled={!rangeValid} data-testid="button-export-report-csv">
+              <FileDown className="h-4 w-4 mr-1" />
+              CSV
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => exportReport("pdf")} disabled={!rangeValid} data-testid="button-export-report-pdf">
+              <FileText className="h-4 w-4 mr-1" />
+              PDF
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!rangeValid ? (
+          <p className="text-sm text-destructive">The start date must be on or before the end date.</p>
+        ) : isLoading || !report ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Tabs value={tab} onValueChange={(v) => setTab(v as ProductionReportType)}>
+            <TabsList>
+              <TabsTrigger value="agents" data-testid="tab-report-agents">Agents</TabsTrigger>
+              <TabsTrigger value="coordinators" data-testid="tab-report-coordinators">Coordinators</TabsTrigger>
+              <TabsTrigger value="marketing" data-testid="tab-report-marketing">Marketing</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="agents">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Agent</TableHead>
+                    <TableHead className="text-right">Closed</TableHead>
+                    <TableHead className="text-right">Volume</TableHead>
+                    <TableHead className="text-right hidden sm:table-cell">Avg Price</TableHead>
+                    <TableHead className="text-right hidden sm:table-cell">New</TableHead>
+                    <TableHead className="text-right hidden sm:table-cell">Open</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.agents.length === 0 && <EmptyRow columns={6} />}
+                  {report.agents.map((row) => (
+                    <TableRow key={row.userId} data-testid={`row-agent-production-${row.userId}`}>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell className="text-right">{row.closedUnits}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.closedVolume)}</TableCell>
+                      <TableCell className="text-right hidden sm:table-cell">
+                        {row.averagePrice !== null ? formatCurrency(row.averagePrice) : "—"}
+                      </TableCell>
+                      <TableCell className="text-right hidden sm:table-cell">{row.newUnits}</TableCell>
+                      <TableCell className="text-right hidden sm:table-cell">{row.openUnits}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="coordinators">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Coordinator</TableHead>
+                    <TableHead className="text-right">Active</TableHead>
+                    <TableHead className="text-right">Closed</TableHead>
+                    <TableHead className="text-right hidden sm:table-cell">Closing in 30 Days</TableHead>
+                    <TableHead className="text-right hidden sm:table-cell">Timeline Activity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.coordinators.length === 0 && <EmptyRow columns={5} />}
+                  {report.coordinators.map((row) => (
+                    <TableRow key={row.coordinatorId} data-testid={`row-coordinator-workload-${row.coordinatorId}`}>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell className="text-right">{row.activeTransactions}</TableCell>
+                      <TableCell className="text-right">{row.closedInRange}</TableCell>
+                      <TableCell className="text-right hidden sm:table-cell">{row.upcomingClosings}</TableCell>
+                      <TableCell className="text-right hidden sm:table-cell">{row.activityCount}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="marketing">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Agent</TableHead>
+                    <TableHead className="text-right">Flyers</TableHead>
+                    <TableHead className="text-right">Graphics</TableHead>
+                    <TableHead className="text-right hidden sm:table-cell">Flyer Images</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.marketing.length === 0 && <EmptyRow columns={5} />}
+                  {report.marketing.map((row) => (
+                    <TableRow key={row.userId} data-testid={`row-marketing-output-${row.userId}`}>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell className="text-right">{row.flyers}</TableCell>
+                      <TableCell className="text-right">{row.graphics}</TableCell>
+                      <TableCell className="text-right hidden sm:table-cell">{row.flyerImages}</TableCell>
+                      <TableCell className="text-right">{row.total}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 import { useLocation } from "wouter";
-import { Home, Archive, Settings, Shield, Plus, Building2 } from "lucide-react";
+import { Home, Archive, Settings, Shield, Plus, Building2, Trash2, CalendarDays } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import {
   Sidebar,
   SidebarContent,
@@ -16,16 +17,17 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import type { Transaction } from "@shared/schema";
+import { useActiveTransactionCount } from "@/lib/transaction-filters";
 
 interface AppSidebarProps {
-  transactions: Transaction[];
   onCreateTransaction: () => void;
 }
 
 const baseNavItems = [
   { title: "Transactions", url: "/", icon: Home },
+  { title: "Calendar", url: "/calendar", icon: CalendarDays },
   { title: "Archive", url: "/archive", icon: Archive },
+  { title: "Recycle Bin", url: "/recycle-bin", icon: Trash2 },
   { title: "Settings", url: "/settings", icon: Settings },
 ];
 
@@ -33,13 +35,15 @@ const adminNavItems = [
   { title: "Admin", url: "/admin", icon: Shield },
 ];
 
-export function AppSidebar({ transactions, onCreateTransaction }: AppSidebarProps) {
+export function AppSidebar({ onCreateTransaction }: AppSidebarProps) {
   const [location, navigate] = useLocation();
   const { user } = useAuth();
-  const activeCount = transactions.filter(t => t.status !== "closed" && t.status !== "cancelled" && t.isArchived !== true).length;
+  const activeCount = useActiveTransactionCount();
+  
+  const { can } = usePermissions();
   
   // Combine nav items, adding Admin if user is admin
-  const navItems = user?.isAdmin === "true"
+  const navItems = can("admin")
     ? [...baseNavItems, ...adminNavItems]
     : baseNavItems;
 
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { DollarSign, Pencil, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { VersionConflictDialog, useVersionConflict, versionHeaders } from "@/components/transactions/version-conflict";
+import {
+  calculateCommission,
+  formatCurrency,
+  COMPANY_LEAD_AGENT_SPLIT_PERCENT,
+  DEFAULT_AGENT_SPLIT_PERCENT,
+} from "@shared/lib/commission";
+import type { CommissionType, Transaction } from "@shared/schema";
+
+interface CommissionDraft {
+  commissionType: CommissionType;
+  commissionPercent: string;
+  commissionFlat: string;
+  agentSplitPercent: string;
+  referralFeePercent: string;
+  referralPartner: string;
+}
+
+function toDraft(transaction: Transaction): CommissionDraft {
+  return {
+    commissionType: (transaction.commissionType as CommissionType) || "percent",
+    commissionPercent: transaction.commissionPercent?.toString() ?? "",
+    commissionFlat: transaction.commissionFlat?.toString() ?? "",
+    agentSplitPercent: transaction.agentSplitPercent?.toString() ?? "",
+    referralFeePercent: transaction.referralFeePercent?.toString() ?? "",
+    referralPartner: transaction.referralPartner ?? "",
+  };
+}
+
+function parseNumber(value: string): number | null {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+interface CommissionCardProps {
+  transaction: Transaction;
+}
+
+export function CommissionCard({ transaction }: CommissionCardProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<CommissionDraft | null>(null);
+  const { handleConflict, dialogProps: conflictDialogProps } = useVersionConflict();
+
+  const commission = calculateCommission(transaction);
+  const defaultSplit = transaction.isCompanyLead ? COMPANY_LEAD_AGENT_SPLIT_PERCENT : DEFAULT_AGENT_SPLIT_PERCENT;
+  const usingDefaultSplit = transaction.agentSplitPercent === null || transaction.agentSplitPercent === undefined;
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ version = transaction.version, ...data }: CommissionDraft & { version?: number }) => {
+      const flat = parseNumber(data.commissionFlat);
+      const res = await apiRequest("PATCH", `/api/transactions/${transaction.id}`, {
+        commissionType: data.commissionType,
+        commissionPercent: parseNumber(data.commissionPercent),
+        commissionFlat: flat === null ? null : Math.round(flat),
+        agentSplitPercent: parseNumber(data.agentSplitPercent),
+        referralFeePercent: parseNumber(data.referralFeePercent),
+        referralPartner: data.referralPartner.trim() || null,
+      }, versionHeaders(version));
+      return res.json();
+    },
+    onSuccess: () => {
+      setDraft(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions", transaction.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/revenue"] });
+    },
+    onError: (error: Error, data) => {
+      if (handleConflict(error, (version) => updateMutation.mutate({ ...data, version }))) return;
+      toast({ title: "Failed to update commission", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rows = commission
+    ? [
+        { label: "Gross Commission (GCI)", value: commission.gci },
+        ...(commission.referralFee > 0
+          ? [{ label: `Referral Fee${transaction.referralPartner ? ` (${transaction.referralPartner})` : ""}`, value: -commission.referralFee }]
+          : []),
+        { label: `Agent Share (${commission.agentSplitPercent}%)`, value: commission.agentShare },
+        { label: "Company Dollar", value: commission.brokerageShare },
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <DollarSign className="h-4 w-4" />
+            Commission
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => setDraft(toDraft(transaction))} data-testid="button-edit-commission">
+            <Pencil className="h-4 w-4 mr-1" />
+            Edit
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!commission ? (
+          <p className="text-sm text-muted-foreground">
+            {transaction.commissionType === "flat" || transaction.commissionPercent
+              ? "Add a list or sale price to calculate commission"
+              : "No commission terms yet"}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {commission.basePrice !== null && transaction.commissionType !== "flat" && (
+              <p className="text-xs text-muted-foreground">
+                {transaction.commissionPercent}% of {formatCurrency(commission.basePrice)}
+                {transaction.salePrice ? " sale price" : " list price"}
+              </p>
+            )}
+            {rows.map((row) => (
+              <div key={row.label} className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">{row.label}</span>
+                <span className="font-medium">{formatCurrency(row.value)}</span>
+              </div>
+            ))}
+            {usingDefaultSplit && (
+              <p className="text-xs text-muted-foreground pt-1">
+                Using the default {transaction.isCompanyLead ? "company lead " : ""}split of {defaultSplit}%
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Commission</DialogTitle>
+            <DialogDescription>
+              Leave the agent split blank to use the default ({defaultSplit}%).
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={draft.commissionType}
+                    onValueChange={(v) => setDraft({ ...draft, commissionType: v as CommissionType })}
+                  >
+                    <SelectTrigger data-testid="select-commission-type"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percent">Percent of price</SelectItem>
+                      <SelectItem value="flat">Flat fee</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {draft.commissionType === "flat" ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="commission-flat">Amount ($)</Label>
+                    <Input
+                      id="commission-flat"
+                      type="number"
+                      min="0"
+                      value={draft.commissionFlat}
+                      onChange={(e) => setDraft({ ...draft, commissionFlat: e.target.value })}
+                      data-testid="input-commission-flat"
+                    />
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="commission-percent">Rate (%)</Label>
+                    <Input
+                      id="commission-percent"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.25"
+                      value={draft.commissionPercent}
+                      onChange={(e) => setDraft({ ...draft, commissionPercent: e.target.value })}
+                      data-testid="input-commission-percent"
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="agent-split">Agent Split (%)</Label>
+                  <Input
+                    id="agent-split"
+                    type="number"
+                    min="0"
+                    max="100"
+                    placeholder={String(defaultSplit)}
+                    value={draft.agentSplitPercent}
+                    onChange={(e) => setDraft({ ...draft, agentSplitPercent: e.target.value })}
+                    data-testid="input-agent-split"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="referral-fee">Referral Fee (%)</Label>
+                  <Input
+                    id="referral-fee"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={draft.referralFeePercent}
+                    onChange={(e) => setDraft({ ...draft, referralFeePercent: e.target.value })}
+                    data-testid="input-referral-fee"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="referral-partner">Referral Partner</Label>
+                <Input
+                  id="referral-partner"
+                  value={draft.referralPartner}
+                  onChange={(e) => setDraft({ ...draft, referralPartner: e.target.value })}
+                  data-testid="input-referral-partner"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => draft && updateMutation.mutate(draft)}
+              disabled={updateMutation.isPending}
+              data-testid="button-save-commission"
+            >
+              {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <VersionConflictDialog {...conflictDialogProps} />
+    </Card>
+  );
+}
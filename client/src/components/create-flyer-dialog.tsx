@@ -1,4 +1,5 @@
 import { useState, useCallback, useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -45,7 +46,8 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useToast } from "@/hooks/use-toast";
-import type { Transaction, MLSData } from "@shared/schema";
+import type { Transaction, MLSData, OpenHouse } from "@shared/schema";
+import { getNextOpenHouse } from "@shared/lib/open-houses";
 
 import spyglassLogoBlack from "@assets/SpyglassRealty_Logo_Black_(1)_1767985123384.png";
 
@@ -621,14 +623,25 @@ export function CreateFlyerDialog({
   const watchedValues = useWatch({ control: form.control });
   const currentDescriptionLength = watchedValues.description?.length || 0;
 
-  // Clear Open House fields when status changes away from "open_house"
+  const { data: openHouses = [] } = useQuery<OpenHouse[]>({
+    queryKey: ["/api/transactions", transaction.id, "open-houses"],
+    enabled: open,
+  });
+  const nextOpenHouse = useMemo(() => getNextOpenHouse(openHouses), [openHouses]);
+
+  // Clear Open House fields when status changes away from "open_house";
+  // switching to it fills in the next scheduled open house
   useEffect(() => {
     if (watchedValues.status !== 'open_house') {
       form.setValue('openHouseDate', '');
       form.setValue('openHouseTimeStart', '13:00');
       form.setValue('openHouseTimeEnd', '16:00');
+    } else if (nextOpenHouse && !form.getValues('openHouseDate')) {
+      form.setValue('openHouseDate', nextOpenHouse.date);
+      form.setValue('openHouseTimeStart', nextOpenHouse.startTime);
+      form.setValue('openHouseTimeEnd', nextOpenHouse.endTime);
     }
-  }, [watchedValues.status, form]);
+  }, [watchedValues.status, nextOpenHouse, form]);
   
   // Sync agent profile data when it loads (for new flyers only, not edit mode)
   useEffect(() => {
@@ -46,7 +46,9 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient, getQueryFn } from "@/lib/queryClient";
+import { DuplicateWarningDialog, getDuplicatesFromError } from "@/components/transactions/duplicate-transactions";
 import type { Coordinator } from "@shared/schema";
+import type { DuplicateCheck } from "@shared/lib/duplicates";
 
 const formSchema = z.object({
   transactionType: z.enum(["buy", "sell"]).default("buy"),
@@ -219,6 +221,8 @@ export function CreateTransactionDialog({ open, onOpenChange }: CreateTransactio
   console.log("[DEBUG] Coordinators query - open:", open, "status:", status, "loading:", coordinatorsLoading, "error:", coordinatorsError, "count:", coordinators.length);
 
   const [onBehalfExpanded, setOnBehalfExpanded] = useState(false);
+  // Set when the server reports an open transaction for the same property
+  const [duplicateWarning, setDuplicateWarning] = useState<{ check: DuplicateCheck; values: FormValues } | null>(null);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -326,8 +330,8 @@ export function CreateTransactionDialog({ open, onOpenChange }: CreateTransactio
   });
 
   const createMutation = useMutation({
-    mutationFn: async (data: FormValues) => {
-      const requestData: any = { ...data };
+    mutationFn: async ({ data, allowDuplicate }: { data: FormValues; allowDuplicate?: boolean }) => {
+      const requestData: any = { ...data, allowDuplicate };
       
       if (!data.orderPhotography) {
         requestData.photographyNotes = null;
@@ -377,9 +381,15 @@ export function CreateTransactionDialog({ open, onOpenChange }: CreateTransactio
       setPropertyPhoto(null);
       setPropertyPhotoPreview(null);
       clearResults();
+      setDuplicateWarning(null);
       onOpenChange(false);
     },
-    onError: (error: Error) => {
+    onError: (error: Error, { data }) => {
+      const check = getDuplicatesFromError(error);
+      if (check) {
+        setDuplicateWarning({ check, values: data });
+        return;
+      }
       toast({
         title: "Error",
         description: error.message || "Failed to create transaction",
@@ -389,7 +399,7 @@ export function CreateTransactionDialog({ open, onOpenChange }: CreateTransactio
   });
 
   const onSubmit = (data: FormValues) => {
-    createMutation.mutate(data);
+    createMutation.mutate({ data });
   };
 
   return (
@@ -1425,6 +1435,13 @@ export function CreateTransactionDialog({ open, onOpenChange }: CreateTransactio
             </div>
           </form>
         </Form>
+
+        <DuplicateWarningDialog
+          check={duplicateWarning?.check ?? null}
+          onCancel={() => setDuplicateWarning(null)}
+          onConfirm={() => duplicateWarning && createMutation.mutate({ data: duplicateWarning.values, allowDuplicate: true })}
+          isPending={createMutation.isPending}
+        />
       </DialogContent>
     </Dialog>
   );
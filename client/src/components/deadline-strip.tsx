@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, CircleCheck, CircleX, CircleSlash, Clock, Plus, Trash2, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+import { DEADLINE_TYPE_LABELS, getDaysUntil, getEffectiveDeadlineStatus } from '@shared/lib/deadlines';
+import { deadlineTypes } from '@shared/schema';
+import type { DeadlineStatus, DeadlineType, TransactionDeadline } from '@shared/schema';
+
+interface DeadlineStripProps {
+  transactionId: string;
+  contractDate: string | null;
+}
+
+const STATUS_STYLES: Record<DeadlineStatus, { icon: typeof Clock; className: string; label: string }> = {
+  upcoming: { icon: Clock, className: 'border-blue-200 bg-blue-50 text-blue-700 dark:border-blue-900 dark:bg-blue-900/20 dark:text-blue-300', label: 'Upcoming' },
+  met: { icon: CircleCheck, className: 'border-green-200 bg-green-50 text-green-700 dark:border-green-900 dark:bg-green-900/20 dark:text-green-300', label: 'Met' },
+  missed: { icon: CircleX, className: 'border-red-200 bg-red-50 text-red-700 dark:border-red-900 dark:bg-red-900/20 dark:text-red-300', label: 'Missed' },
+  waived: { icon: CircleSlash, className: 'border-gray-200 bg-gray-50 text-gray-500 dark:border-gray-800 dark:bg-gray-800/40 dark:text-gray-400', label: 'Waived' },
+};
+
+export function DeadlineStrip({ transactionId, contractDate }: DeadlineStripProps) {
+  const { toast } = useToast();
+  const deadlinesQueryKey = ['/api/transactions', transactionId, 'deadlines'];
+
+  const { data: deadlines = [], isLoading } = useQuery<TransactionDeadline[]>({
+    queryKey: deadlinesQueryKey,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: deadlinesQueryKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions', transactionId, 'activities'] });
+  };
+
+  const addDefaultsMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/transactions/${transactionId}/deadlines/defaults`);
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to add deadlines', variant: 'destructive' });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) => {
+      const res = await apiRequest('POST', `/api/transactions/${transactionId}/deadlines`, data);
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to add deadline', variant: 'destructive' });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Record<string, unknown> }) => {
+      const res = await apiRequest('PATCH', `/api/transactions/${transactionId}/deadlines/${id}`, data);
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to update deadline', variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/transactions/${transactionId}/deadlines/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to delete deadline', variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) return null;
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto pb-1" data-testid="deadline-strip">
+      <CalendarClock className="h-4 w-4 text-muted-foreground shrink-0" />
+      {deadlines.length === 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => addDefaultsMutation.mutate()}
+          disabled={addDefaultsMutation.isPending}
+          data-testid="button-add-default-deadlines"
+        >
+          {addDefaultsMutation.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          Add standard deadlines
+        </Button>
+      )}
+      {deadlines.map((deadline) => (
+        <DeadlineChip
+          key={deadline.id}
+          deadline={deadline}
+          onUpdate={(data) => updateMutation.mutate({ id: deadline.id, data })}
+          onDelete={() => deleteMutation.mutate(deadline.id)}
+        />
+      ))}
+      <AddDeadlinePopover
+        hasContractDate={!!contractDate}
+        onAdd={(data) => createMutation.mutate(data)}
+      />
+    </div>
+  );
+}
+
+interface DeadlineChipProps {
+  deadline: TransactionDeadline;
+  onUpdate: (data: Record<string, unknown>) => void;
+  onDelete: () => void;
+}
+
+function DeadlineChip({ deadline, onUpdate, onDelete }: DeadlineChipProps) {
+  const status = getEffectiveDeadlineStatus(deadline);
+  const style = STATUS_STYLES[status];
+  const StatusIcon = style.icon;
+  const daysUntil = deadline.dueDate ? getDaysUntil(deadline.dueDate) : null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn('flex items-center gap-1.5 rounded-md border px-2.5 py-1 text-xs whitespace-nowrap shrink-0', style.className)}
+          data-testid={`deadline-${deadline.id}`}
+        >
+          <StatusIcon className="h-3.5 w-3.5" />
+          <span className="font-medium">{deadline.label}</span>
+          <span className="opacity-80">{formatDueDate(deadline.dueDate)}</span>
+          {status === 'upcoming' && daysUntil !== null && (
+            <span className="font-semibold">{daysUntil === 0 ? 'today' : `${daysUntil}d`}</span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="start">
+        <div>
+          <p className="font-medium text-sm">{deadline.label}</p>
+          <p className="text-xs text-muted-foreground">
+            {deadline.isManual
+              ? 'Date entered manually'
+              : `${deadline.offsetDays} ${deadline.dayType} days after contract`}
+            {' · '}{style.label}
+          </p>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Due date</Label>
+          <Input
+            type="date"
+            value={deadline.dueDate || ''}
+            onChange={(e) => onUpdate({ dueDate: e.target.value || null })}
+            className="h-8 text-xs"
+            data-testid={`input-deadline-due-${deadline.id}`}
+          />
+        </div>
+        <div className="flex gap-2 flex-wrap">
+          {deadline.status !== 'met' && (
+            <Button size="sm" variant="outline" onClick={() => onUpdate({ status: 'met' })} data-testid={`button-deadline-met-${deadline.id}`}>
+              Mark met
+            </Button>
+          )}
+          {deadline.status !== 'waived' && (
+            <Button size="sm" variant="outline" onClick={() => onUpdate({ status: 'waived' })} data-testid={`button-deadline-waive-${deadline.id}`}>
+              Waive
+            </Button>
+          )}
+          {deadline.status !== 'upcoming' && (
+            <Button size="sm" variant="outline" onClick={() => onUpdate({ status: 'upcoming' })}>
+              Reopen
+            </Button>
+          )}
+          <Button size="icon" variant="ghost" className="ml-auto h-8 w-8" onClick={onDelete} data-testid={`button-delete-deadline-${deadline.id}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface AddDeadlinePopoverProps {
+  hasContractDate: boolean;
+  onAdd: (data: Record<string, unknown>) => void;
+}
+
+function AddDeadlinePopover({ hasContractDate, onAdd }: AddDeadlinePopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [type, setType] = useState<DeadlineType>('other');
+  const [label, setLabel] = useState('');
+  const [mode, setMode] = useState<'calendar' | 'business' | 'manual'>('calendar');
+  const [offsetDays, setOffsetDays] = useState('');
+  const [dueDate, setDueDate] = useState('');
+
+  const handleSubmit = () => {
+    const data: Record<string, unknown> = {
+      type,
+      label: label.trim() || DEADLINE_TYPE_LABELS[type],
+    };
+    if (mode === 'manual') {
+      data.dueDate = dueDate || null;
+    } else {
+      data.offsetDays = parseInt(offsetDays, 10) || 0;
+      data.dayType = mode;
+    }
+    onAdd(data);
+    setOpen(false);
+    setLabel('');
+    setOffsetDays('');
+    setDueDate('');
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button size="icon" variant="ghost" className="h-7 w-7 shrink-0" data-testid="button-add-deadline">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="start">
+        <p className="font-medium text-sm">Add deadline</p>
+        <Select value={type} onValueChange={(v) => setType(v as DeadlineType)}>
+          <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {deadlineTypes.map((t) => (
+              <SelectItem key={t} value={t}>{DEADLINE_TYPE_LABELS[t]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder={DEADLINE_TYPE_LABELS[type]}
+          className="h-8 text-xs"
+        />
+        <Select value={mode} onValueChange={(v) => setMode(v as typeof mode)}>
+          <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="calendar">Calendar days after contract</SelectItem>
+            <SelectItem value="business">Business days after contract</SelectItem>
+            <SelectItem value="manual">Specific date</SelectItem>
+          </SelectContent>
+        </Select>
+        {mode === 'manual' ? (
+          <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className="h-8 text-xs" />
+        ) : (
+          <>
+            <Input
+              type="number"
+              min={0}
+              value={offsetDays}
+              onChange={(e) => setOffsetDays(e.target.value)}
+              placeholder="Days"
+              className="h-8 text-xs"
+            />
+            {!hasContractDate && (
+              <p className="text-xs text-muted-foreground">The due date will be set once a contract date is entered.</p>
+            )}
+          </>
+        )}
+        <Button size="sm" className="w-full" onClick={handleSubmit} data-testid="button-save-deadline">
+          Add
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function formatDueDate(dueDate: string | null): string {
+  if (!dueDate) return 'No date';
+  return new Date(`${dueDate}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
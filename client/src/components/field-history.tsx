@@ -0,0 +1,189 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { ArrowRight, History, Loader2, Undo2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import {
+  compareVersions,
+  formatFieldValue,
+  getFieldLabel,
+  type TransactionHistoryVersion,
+  type VersionSource,
+} from '@shared/lib/field-history';
+import type { TransactionVersion } from '@shared/schema';
+
+const SOURCE_LABELS: Record<VersionSource, string> = {
+  edit: 'Edit',
+  revert: 'Revert',
+  add_mls: 'MLS added',
+  offer_accepted: 'Offer accepted',
+  archive: 'Archive',
+  photos: 'Photos',
+  merge: 'Merge',
+  mls_sync: 'MLS sync',
+};
+
+interface FieldHistoryProps {
+  transactionId: string;
+}
+
+/**
+ * Every edited field of a transaction by version. Two versions can be compared,
+ * and any single change can be reverted (which itself becomes a new version).
+ */
+export function FieldHistory({ transactionId }: FieldHistoryProps) {
+  const { toast } = useToast();
+
+  const { data: versions = [], isLoading } = useQuery<TransactionHistoryVersion[]>({
+    queryKey: ['/api/transactions', transactionId, 'history'],
+  });
+
+  const latest = versions[0]?.version ?? 0;
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  // Version numbers follow the transaction's, so they can skip (writes with no tracked field)
+  const from = fromVersion ?? versions[1]?.version ?? 0;
+  const to = toVersion ?? latest;
+
+  const allChanges = useMemo(() => versions.flatMap((version) => version.changes), [versions]);
+  const comparison = useMemo(() => compareVersions(allChanges, from, to), [allChanges, from, to]);
+
+  const revertMutation = useMutation({
+    mutationFn: async (change: TransactionVersion) => {
+      const res = await apiRequest('POST', `/api/transactions/${transactionId}/history/${change.id}/revert`);
+      return res.json();
+    },
+    onSuccess: (_data, change) => {
+      toast({ title: 'Change reverted', description: `${getFieldLabel(change.field)} restored to ${formatFieldValue(change.oldValue)}.` });
+      setFromVersion(null);
+      setToVersion(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <History className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+          <h3 className="font-medium mb-2">No Changes Yet</h3>
+          <p className="text-sm text-muted-foreground">
+            Edits to this transaction's fields will be recorded here.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const versionOptions = [
+    { value: 0, label: 'Original' },
+    ...versions.slice().reverse().map((version) => ({ value: version.version, label: `Version ${version.version}` })),
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Compare Versions</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Select value={String(from)} onValueChange={(value) => setFromVersion(Number(value))}>
+              <SelectTrigger className="w-40" data-testid="select-compare-from"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {versionOptions.map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ArrowRight className="h-4 w-4 text-muted-foreground" />
+            <Select value={String(to)} onValueChange={(value) => setToVersion(Number(value))}>
+              <SelectTrigger className="w-40" data-testid="select-compare-to"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {versionOptions.map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {comparison.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No differences between these versions.</p>
+          ) : (
+            <div className="divide-y text-sm">
+              {comparison.map((change) => (
+                <div key={change.field} className="grid grid-cols-3 gap-2 py-2" data-testid={`compare-${change.field}`}>
+                  <span className="font-medium">{getFieldLabel(change.field)}</span>
+                  <span className="text-muted-foreground line-through break-words">{formatFieldValue(change.oldValue)}</span>
+                  <span className="break-words">{formatFieldValue(change.newValue)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-3">
+        {versions.map((version) => (
+          <Card key={version.version} data-testid={`history-version-${version.version}`}>
+            <CardContent className="py-4 space-y-3">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-medium text-sm">Version {version.version}</span>
+                <Badge variant="secondary" className="text-xs">{SOURCE_LABELS[version.source] || version.source}</Badge>
+                {version.audit && version.audit.status !== 'success' && (
+                  <Badge variant="destructive" className="text-xs">{version.audit.status}</Badge>
+                )}
+                <span className="text-xs text-muted-foreground ml-auto">
+                  {version.changedByEmail || 'System'}
+                  {version.createdAt && ` · ${new Date(version.createdAt).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}`}
+                </span>
+              </div>
+
+              <div className="divide-y text-sm">
+                {version.changes.map((change) => (
+                  <div key={change.id} className="flex items-center gap-2 py-2" data-testid={`history-change-${change.id}`}>
+                    <span className="font-medium w-36 shrink-0">{getFieldLabel(change.field)}</span>
+                    <span className="text-muted-foreground line-through break-words min-w-0">{formatFieldValue(change.oldValue)}</span>
+                    <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                    <span className="break-words min-w-0 flex-1">{formatFieldValue(change.newValue)}</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 shrink-0"
+                      onClick={() => revertMutation.mutate(change)}
+                      disabled={revertMutation.isPending}
+                      data-testid={`button-revert-${change.id}`}
+                    >
+                      <Undo2 className="h-3.5 w-3.5 mr-1" />
+                      Revert
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Activity as ActivityIcon, FileText, Home, Loader2, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { useDebounce } from "@/hooks/useDebounce";
+import {
+  getSearchHitUrl,
+  MIN_SEARCH_LENGTH,
+  SEARCH_HIT_LABELS,
+  searchHitTypes,
+  splitHighlights,
+  type SearchHit,
+  type SearchHitType,
+  type SearchResponse,
+} from "@shared/lib/search";
+
+const HIT_ICONS: Record<SearchHitType, typeof Home> = {
+  transaction: Home,
+  document: FileText,
+  activity: ActivityIcon,
+};
+
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-yellow-200 dark:bg-yellow-800 text-foreground rounded-sm px-0.5">{segment.text}</mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Header search (Cmd/Ctrl+K) over addresses, MLS numbers, clients, notes, documents
+ * and timeline entries. Picking a hit opens the transaction on the matching tab.
+ */
+export function GlobalSearch() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const debouncedSearch = useDebounce(search.trim(), 250);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const enabled = open && debouncedSearch.length >= MIN_SEARCH_LENGTH;
+  const { data, isFetching } = useQuery<SearchResponse>({
+    queryKey: ["/api/search", debouncedSearch],
+    queryFn: async () => {
+      const res = await fetch(`/api/search?q=${encodeURIComponent(debouncedSearch)}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    enabled,
+    staleTime: 1000 * 30,
+  });
+
+  const hits = enabled ? data?.hits ?? [] : [];
+
+  const handleSelect = (hit: SearchHit) => {
+    setOpen(false);
+    setSearch("");
+    setLocation(getSearchHitUrl(hit));
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-muted-foreground gap-2 w-9 px-0 sm:w-56 sm:justify-start sm:px-3"
+        onClick={() => setOpen(true)}
+        data-testid="button-global-search"
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden sm:inline">Search...</span>
+        <kbd className="hidden sm:inline ml-auto text-xs border rounded px-1">⌘K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <DialogTitle className="sr-only">Search</DialogTitle>
+          <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+            <CommandInput
+              value={search}
+              onValueChange={setSearch}
+              placeholder="Search addresses, clients, notes, documents..."
+              data-testid="input-global-search"
+            />
+            <CommandList className="max-h-[400px]">
+              {isFetching && hits.length === 0 && (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              )}
+              {enabled && !isFetching && <CommandEmpty>No results found.</CommandEmpty>}
+              {searchHitTypes.map((type) => {
+                const group = hits.filter((hit) => hit.type === type);
+                if (group.length === 0) return null;
+                const Icon = HIT_ICONS[type];
+                return (
+                  <CommandGroup key={type} heading={SEARCH_HIT_LABELS[type]}>
+                    {group.map((hit) => (
+                      <CommandItem
+                        key={`${hit.type}-${hit.id}`}
+                        value={`${hit.type}-${hit.id}`}
+                        onSelect={() => handleSelect(hit)}
+                        className="items-start gap-2"
+                        data-testid={`search-hit-${hit.type}-${hit.id}`}
+                      >
+                        <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium truncate">{hit.title}</span>
+                            {hit.isArchived && <Badge variant="secondary" className="text-xs">Archived</Badge>}
+                          </div>
+                          {hit.type !== "transaction" && (
+                            <p className="text-xs text-muted-foreground truncate">{hit.propertyAddress}</p>
+                          )}
+                          {hit.snippet && (
+                            <p className="text-xs text-muted-foreground line-clamp-2">
+                              <Highlighted text={hit.snippet} />
+                            </p>
+                          )}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect, useMemo } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
@@ -13,7 +13,8 @@ import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Download, Image as ImageIcon, Loader2, Copy, Check, Upload, Sparkles, Wand2, ZoomIn, X } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { Transaction } from "@shared/schema";
+import type { OpenHouse, Transaction } from "@shared/schema";
+import { getNextOpenHouse } from "@shared/lib/open-houses";
 import spyglassLogoWhite from "@assets/White-Orange_(1)_1767129299733.png";
 import spyglassLogoBlack from "@assets/Large_Logo_1767129431992.jpeg";
 import leadingRELogo from "@assets/download_(3)_1767129649170.png";
@@ -112,6 +113,21 @@ export function MarketingMaterialsDialog({
   const [openHouseTimeStart, setOpenHouseTimeStart] = useState<string>("13:00");
   const [openHouseTimeEnd, setOpenHouseTimeEnd] = useState<string>("16:00");
 
+  const { data: openHouses = [] } = useQuery<OpenHouse[]>({
+    queryKey: ["/api/transactions", transaction.id, "open-houses"],
+    enabled: open,
+  });
+  const nextOpenHouse = useMemo(() => getNextOpenHouse(openHouses), [openHouses]);
+
+  // Switching to Open House fills in the next scheduled one
+  useEffect(() => {
+    if (status === 'open_house' && nextOpenHouse && !openHouseDate) {
+      setOpenHouseDate(nextOpenHouse.date);
+      setOpenHouseTimeStart(nextOpenHouse.startTime);
+      setOpenHouseTimeEnd(nextOpenHouse.endTime);
+    }
+  }, [status, nextOpenHouse]);
+
   const saveAssetMutation = useMutation({
     mutationFn: async ({ type, imageData, fileName, config }: { type: string; imageData: string; fileName: string; config?: SocialGraphicConfig }) => {
       const metadata = { config };
@@ -0,0 +1,364 @@
+import { useRef, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, MessageSquare, Reply, Pencil, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { usePermissions } from '@/hooks/use-permissions';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { NOTE_MAX_LENGTH, type MentionablePerson, type NoteThread } from '@shared/lib/notes';
+import type { NoteMention, TransactionNote, TransactionNoteRevision } from '@shared/schema';
+
+interface NotesTabProps {
+  transactionId: string;
+}
+
+function formatDateTime(value: Date | string | null | undefined): string {
+  if (!value) return '';
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+// The "@partial name" being typed right before the caret, if any
+function getMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const match = text.slice(0, caret).match(/(^|\s)@([\w'-]*(?: [\w'-]*)?)$/);
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2].toLowerCase() };
+}
+
+interface NoteComposerProps {
+  people: MentionablePerson[];
+  initialBody?: string;
+  placeholder: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+function NoteComposer({ people, initialBody = '', placeholder, submitLabel, isPending, onSubmit, onCancel, autoFocus }: NoteComposerProps) {
+  const [body, setBody] = useState(initialBody);
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = mention
+    ? people.filter((p) => p.name.toLowerCase().includes(mention.query)).slice(0, 6)
+    : [];
+
+  const handleChange = (value: string, caret: number) => {
+    setBody(value);
+    setMention(getMentionQuery(value, caret));
+  };
+
+  const insertMention = (person: MentionablePerson) => {
+    if (!mention || !textareaRef.current) return;
+    const caret = textareaRef.current.selectionStart;
+    const next = `${body.slice(0, mention.start)}@${person.name} ${body.slice(caret)}`;
+    setBody(next);
+    setMention(null);
+    textareaRef.current.focus();
+  };
+
+  const submit = () => {
+    if (!body.trim()) return;
+    onSubmit(body.trim());
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={body}
+          placeholder={placeholder}
+          maxLength={NOTE_MAX_LENGTH}
+          autoFocus={autoFocus}
+          onChange={(e) => handleChange(e.target.value, e.target.selectionStart)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit();
+            if (e.key === 'Escape') setMention(null);
+          }}
+          className="min-h-[80px] text-sm"
+          data-testid="input-note-body"
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute z-10 left-0 right-0 mt-1 rounded-md border bg-popover shadow-md" data-testid="list-mention-suggestions">
+            {suggestions.map((person) => (
+              <button
+                key={`${person.type}:${person.id}`}
+                type="button"
+                className="w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-muted"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(person);
+                }}
+              >
+                <span>{person.name}</span>
+                <span className="text-xs text-muted-foreground capitalize">{person.type}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+        )}
+        <Button size="sm" onClick={submit} disabled={!body.trim() || isPending} data-testid="button-submit-note">
+          {isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Body text with each "@Name" that was a mention highlighted
+function NoteBody({ body, mentions }: { body: string; mentions: NoteMention[] }) {
+  if (mentions.length === 0) return <p className="text-sm whitespace-pre-wrap break-words">{body}</p>;
+
+  const names = mentions.map((m) => m.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const parts = body.split(new RegExp(`(@(?:${names.join('|')}))`, 'gi'));
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {parts.map((part, i) =>
+        i % 2 === 1
+          ? <span key={i} className="font-medium text-primary">{part}</span>
+          : part
+      )}
+    </p>
+  );
+}
+
+function NoteRevisionsDialog({ transactionId, note, onClose }: { transactionId: string; note: TransactionNote | null; onClose: () => void }) {
+  const { data: revisions = [], isLoading } = useQuery<TransactionNoteRevision[]>({
+    queryKey: ['/api/transactions', transactionId, 'notes', note?.id, 'revisions'],
+    enabled: !!note,
+  });
+
+  return (
+    <Dialog open={!!note} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Note History</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="divide-y max-h-[60vh] overflow-y-auto" data-testid="list-note-revisions">
+            {revisions.map((revision) => (
+              <div key={revision.id} className="py-3 space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  {revision.action === 'delete' ? 'Deleted' : 'Edited'} by {revision.changedBy || 'unknown'} · {formatDateTime(revision.createdAt)}
+                </p>
+                <p className="text-sm whitespace-pre-wrap break-words text-muted-foreground">{revision.body}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function NotesTab({ transactionId }: NotesTabProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [historyNote, setHistoryNote] = useState<TransactionNote | null>(null);
+  const [composerKey, setComposerKey] = useState(0);
+
+  const notesQueryKey = ['/api/transactions', transactionId, 'notes'];
+
+  const { data: threads = [], isLoading } = useQuery<NoteThread[]>({
+    queryKey: notesQueryKey,
+  });
+
+  const { data: people = [] } = useQuery<MentionablePerson[]>({
+    queryKey: ['/api/transactions', transactionId, 'notes', 'mentionable'],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: notesQueryKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions', transactionId, 'activities'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async ({ body, parentId }: { body: string; parentId?: string }) => {
+      const res = await apiRequest('POST', `/api/transactions/${transactionId}/notes`, { body, parentId });
+      return res.json();
+    },
+    onSuccess: (_data, { parentId }) => {
+      if (parentId) setReplyTo(null);
+      else setComposerKey((key) => key + 1);
+      invalidate();
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to add note', variant: 'destructive' });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ noteId, body }: { noteId: string; body: string }) => {
+      const res = await apiRequest('PATCH', `/api/transactions/${transactionId}/notes/${noteId}`, { body });
+      return res.json();
+    },
+    onSuccess: () => {
+      setEditing(null);
+      invalidate();
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to update note', variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (noteId: string) => {
+      await apiRequest('DELETE', `/api/transactions/${transactionId}/notes/${noteId}`);
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to delete note', variant: 'destructive' });
+    },
+  });
+
+  const canModify = (note: TransactionNote) => !note.deletedAt && (note.authorId === user?.id || can('admin'));
+
+  const renderNote = (note: TransactionNote, isReply: boolean) => (
+    <div key={note.id} className={isReply ? 'pl-4 border-l ml-2' : ''} data-testid={`note-${note.id}`}>
+      <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+        <span className="font-medium text-foreground text-sm">{note.authorName || note.authorEmail || 'Unknown'}</span>
+        <span>{formatDateTime(note.createdAt)}</span>
+        {note.deletedAt ? (
+          <span>deleted</span>
+        ) : note.editedAt && (
+          <button type="button" className="underline" onClick={() => setHistoryNote(note)} data-testid={`button-note-history-${note.id}`}>
+            edited
+          </button>
+        )}
+      </div>
+
+      {editing === note.id ? (
+        <div className="mt-2">
+          <NoteComposer
+            people={people}
+            initialBody={note.body}
+            placeholder="Edit note..."
+            submitLabel="Save"
+            isPending={updateMutation.isPending}
+            onSubmit={(body) => updateMutation.mutate({ noteId: note.id, body })}
+            onCancel={() => setEditing(null)}
+            autoFocus
+          />
+        </div>
+      ) : note.deletedAt ? (
+        <p className="text-sm italic text-muted-foreground mt-1">This note was deleted.</p>
+      ) : (
+        <div className="mt-1">
+          <NoteBody body={note.body} mentions={note.mentions} />
+        </div>
+      )}
+
+      {editing !== note.id && (
+        <div className="flex gap-1 mt-1">
+          {!isReply && (
+            <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => setReplyTo(note.id)} data-testid={`button-reply-note-${note.id}`}>
+              <Reply className="h-3 w-3 mr-1" />
+              Reply
+            </Button>
+          )}
+          {canModify(note) && (
+            <>
+              <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => setEditing(note.id)} data-testid={`button-edit-note-${note.id}`}>
+                <Pencil className="h-3 w-3 mr-1" />
+                Edit
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-xs"
+                onClick={() => deleteMutation.mutate(note.id)}
+                disabled={deleteMutation.isPending}
+                data-testid={`button-delete-note-${note.id}`}
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                Delete
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="pt-6">
+          <NoteComposer
+            key={composerKey}
+            people={people}
+            placeholder="Add a note... Type @ to mention a coordinator or agent"
+            submitLabel="Add Note"
+            isPending={createMutation.isPending && !replyTo}
+            onSubmit={(body) => createMutation.mutate({ body })}
+          />
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : threads.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <MessageSquare className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+            <h3 className="font-medium mb-2">No Notes Yet</h3>
+            <p className="text-sm text-muted-foreground">
+              Notes and replies from the team will appear here.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {[...threads].reverse().map((thread) => (
+            <Card key={thread.id}>
+              <CardContent className="pt-4 pb-3 space-y-3">
+                {renderNote(thread, false)}
+                {thread.replies.map((reply) => renderNote(reply, true))}
+                {replyTo === thread.id && (
+                  <div className="pl-4 ml-2 border-l">
+                    <NoteComposer
+                      people={people}
+                      placeholder="Write a reply..."
+                      submitLabel="Reply"
+                      isPending={createMutation.isPending}
+                      onSubmit={(body) => createMutation.mutate({ body, parentId: thread.id })}
+                      onCancel={() => setReplyTo(null)}
+                      autoFocus
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <NoteRevisionsDialog transactionId={transactionId} note={historyNote} onClose={() => setHistoryNote(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Cell, Line, ComposedChart, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { Loader2, Briefcase, DollarSign, Timer, TrendingDown } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from "@/components/ui/chart";
+import { getStatusConfig } from "@/lib/utils/status-colors";
+import { formatCurrency } from "@shared/lib/commission";
+
+interface PipelineSegment {
+  key: string;
+  label: string;
+  count: number;
+  volume: number;
+  closedCount: number;
+}
+
+interface PipelineReport {
+  totals: { count: number; volume: number };
+  byStatus: PipelineSegment[];
+  byType: PipelineSegment[];
+  bySource: PipelineSegment[];
+  byListing: PipelineSegment[];
+}
+
+interface ClosingsReport {
+  months: Array<{ month: string; label: string; count: number; volume: number; avgDaysToClose: number | null }>;
+  closedCount: number;
+  cancelledCount: number;
+  fallThroughRate: number | null;
+  avgDaysToClose: number | null;
+}
+
+const MONTH_OPTIONS = [
+  { value: "6", label: "Last 6 months" },
+  { value: "12", label: "Last 12 months" },
+  { value: "24", label: "Last 24 months" },
+];
+
+const SEGMENT_COLORS = ["hsl(var(--chart-1))", "hsl(var(--chart-2))"];
+
+const statusChartConfig = {
+  count: { label: "Transactions" },
+} satisfies ChartConfig;
+
+const closingsChartConfig = {
+  count: { label: "Closings", color: "hsl(var(--chart-1))" },
+  avgDaysToClose: { label: "Avg days to close", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+function formatVolume(value: number): string {
+  if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `$${Math.round(value / 1_000)}k`;
+  return formatCurrency(value);
+}
+
+function SegmentCard({ title, description, segments }: { title: string; description: string; segments: PipelineSegment[] }) {
+  const config: ChartConfig = Object.fromEntries(
+    segments.map((segment, i) => [segment.key, { label: segment.label, color: SEGMENT_COLORS[i % SEGMENT_COLORS.length] }])
+  );
+  const total = segments.reduce((sum, s) => sum + s.count, 0);
+
+  return (
+    <Card data-testid={`card-pipeline-${title.toLowerCase().replace(/\s+/g, "-")}`}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {total === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No transactions yet</p>
+        ) : (
+          <ChartContainer config={config} className="h-[160px] w-full">
+            <PieChart>
+              <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+              <Pie data={segments} dataKey="count" nameKey="key" innerRadius={40} strokeWidth={2}>
+                {segments.map((segment) => (
+                  <Cell key={segment.key} fill={`var(--color-${segment.key})`} />
+                ))}
+              </Pie>
+            </PieChart>
+          </ChartContainer>
+        )}
+        <div className="space-y-1 text-sm">
+          {segments.map((segment, i) => (
+            <div key={segment.key} className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2">
+                <span className="h-2.5 w-2.5 rounded-sm" style={{ background: SEGMENT_COLORS[i % SEGMENT_COLORS.length] }} />
+                {segment.label}
+              </span>
+              <span className="text-muted-foreground">
+                {segment.count} · {formatVolume(segment.volume)} · {segment.closedCount} closed
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Pipeline analytics: where deals sit by status, how many close each month and how
+ * fast, how many fall through, and the buy/sell, lead-source and off-market mix.
+ */
+export function PipelineView() {
+  const [months, setMonths] = useState("12");
+
+  const { data: pipeline, isLoading: pipelineLoading } = useQuery<PipelineReport>({
+    queryKey: ["/api/reports/pipeline"],
+  });
+
+  const { data: closings, isLoading: closingsLoading } = useQuery<ClosingsReport>({
+    queryKey: ["/api/reports/closings", months],
+    queryFn: async () => {
+      const res = await fetch(`/api/reports/closings?months=${months}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch closings report");
+      return res.json();
+    },
+  });
+
+  if (pipelineLoading || closingsLoading || !pipeline || !closings) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const windowLabel = MONTH_OPTIONS.find((o) => o.value === months)?.label.toLowerCase();
+  const summary = [
+    { label: "Transactions", value: String(pipeline.totals.count), detail: "Across every status", icon: Briefcase },
+    { label: "Volume", value: formatCurrency(pipeline.totals.volume), detail: "Sale price, else list price", icon: DollarSign },
+    {
+      label: "Avg Days to Close",
+      value: closings.avgDaysToClose !== null ? String(closings.avgDaysToClose) : "—",
+      detail: `Contract to closing, ${windowLabel}`,
+      icon: Timer,
+    },
+    {
+      label: "Fall-Through Rate",
+      value: closings.fallThroughRate !== null ? `${Math.round(closings.fallThroughRate * 100)}%` : "—",
+      detail: `${closings.cancelledCount} cancelled vs ${closings.closedCount} closed`,
+      icon: TrendingDown,
+    },
+  ];
+
+  const statusRows = pipeline.byStatus.filter((row) => row.count > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+        {summary.map((item) => (
+          <Card key={item.label} data-testid={`card-pipeline-${item.label.toLowerCase().replace(/\s+/g, "-")}`}>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2 text-muted-foreground text-xs">
+                <item.icon className="h-3.5 w-3.5" />
+                {item.label}
+              </div>
+              <p className="text-xl sm:text-2xl font-semibold mt-1">{item.value}</p>
+              <p className="text-xs text-muted-foreground mt-1">{item.detail}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">By Status</CardTitle>
+            <CardDescription>Transactions and volume in each stage</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {statusRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No transactions yet</p>
+            ) : (
+              <ChartContainer config={statusChartConfig} className="h-[260px] w-full">
+                <BarChart data={statusRows}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value, _name, item) => `${value} · ${formatVolume(item.payload.volume)}`}
+                      />
+                    }
+                  />
+                  <Bar dataKey="count" radius={[4, 4, 0, 0]}>
+                    {statusRows.map((row) => (
+                      <Cell key={row.key} fill={getStatusConfig(row.key).marker} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-2 flex-wrap">
+              <div>
+                <CardTitle className="text-base">Closings per Month</CardTitle>
+                <CardDescription>Closed deals by closing date, with average days from contract</CardDescription>
+              </div>
+              <Select value={months} onValueChange={setMonths}>
+                <SelectTrigger className="w-40" data-testid="select-closings-months">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MONTH_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={closingsChartConfig} className="h-[260px] w-full">
+              <ComposedChart data={closings.months}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis yAxisId="count" tickLine={false} axisLine={false} allowDecimals={false} />
+                <YAxis yAxisId="days" orientation="right" tickLine={false} axisLine={false} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar yAxisId="count" dataKey="count" fill="var(--color-count)" radius={[4, 4, 0, 0]} />
+                <Line yAxisId="days" dataKey="avgDaysToClose" stroke="var(--color-avgDaysToClose)" strokeWidth={2} connectNulls dot={false} />
+              </ComposedChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <SegmentCard title="Buy vs Sell" description="Which side of the deal" segments={pipeline.byType} />
+        <SegmentCard title="Lead Source" description="Company leads vs agent sourced" segments={pipeline.bySource} />
+        <SegmentCard title="Listing Type" description="Off-market vs MLS listings" segments={pipeline.byListing} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Loader2, DollarSign, TrendingUp, CheckCircle2, AlertCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from "@/components/ui/chart";
+import { formatCurrency } from "@shared/lib/commission";
+
+type RevenueGroupBy = "month" | "agent" | "status";
+
+interface RevenueTotals {
+  projectedGci: number;
+  closedGci: number;
+  projectedBrokerage: number;
+  closedBrokerage: number;
+  projectedCount: number;
+  closedCount: number;
+}
+
+interface RevenueReport {
+  groupBy: RevenueGroupBy;
+  totals: RevenueTotals;
+  rows: Array<RevenueTotals & { key: string; label: string }>;
+  missingCommissionCount: number;
+}
+
+const GROUP_BY_OPTIONS: Array<{ value: RevenueGroupBy; label: string }> = [
+  { value: "month", label: "By Month" },
+  { value: "agent", label: "By Agent" },
+  { value: "status", label: "By Status" },
+];
+
+const chartConfig = {
+  closedGci: { label: "Closed GCI", color: "hsl(var(--chart-1))" },
+  projectedGci: { label: "Projected GCI", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+export function RevenueView() {
+  const [groupBy, setGroupBy] = useState<RevenueGroupBy>("month");
+
+  const { data: report, isLoading } = useQuery<RevenueReport>({
+    queryKey: ["/api/reports/revenue", groupBy],
+    queryFn: async () => {
+      const res = await fetch(`/api/reports/revenue?groupBy=${groupBy}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch revenue report");
+      return res.json();
+    },
+  });
+
+  if (isLoading || !report) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const { totals } = report;
+  const summary = [
+    { label: "Projected GCI", value: totals.projectedGci, detail: `${totals.projectedCount} open deals`, icon: TrendingUp },
+    { label: "Closed GCI", value: totals.closedGci, detail: `${totals.closedCount} closed deals`, icon: CheckCircle2 },
+    { label: "Projected Company Dollar", value: totals.projectedBrokerage, detail: "Brokerage share of open deals", icon: DollarSign },
+    { label: "Closed Company Dollar", value: totals.closedBrokerage, detail: "Brokerage share of closed deals", icon: DollarSign },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+        {summary.map((item) => (
+          <Card key={item.label} data-testid={`card-revenue-${item.label.toLowerCase().replace(/\s+/g, "-")}`}>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2 text-muted-foreground text-xs">
+                <item.icon className="h-3.5 w-3.5" />
+                {item.label}
+              </div>
+              <p className="text-xl sm:text-2xl font-semibold mt-1">{formatCurrency(item.value)}</p>
+              <p className="text-xs text-muted-foreground mt-1">{item.detail}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {report.missingCommissionCount > 0 && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <AlertCircle className="h-4 w-4" />
+          {report.missingCommissionCount} transaction{report.missingCommissionCount === 1 ? " has" : "s have"} no commission terms and {report.missingCommissionCount === 1 ? "is" : "are"} not included.
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-2 flex-wrap">
+            <div>
+              <CardTitle className="text-base">Gross Commission Income</CardTitle>
+              <CardDescription>Projected vs closed, by expected closing date</CardDescription>
+            </div>
+            <Select value={groupBy} onValueChange={(v) => setGroupBy(v as RevenueGroupBy)}>
+              <SelectTrigger className="w-36" data-testid="select-revenue-group-by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GROUP_BY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {report.rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No commission data yet</p>
+          ) : (
+            <>
+              <ChartContainer config={chartConfig} className="h-[260px] w-full">
+                <BarChart data={report.rows}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} tickFormatter={(v) => `$${Math.round(v / 1000)}k`} />
+                  <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatCurrency(Number(value))} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="closedGci" stackId="gci" fill="var(--color-closedGci)" radius={[0, 0, 4, 4]} />
+                  <Bar dataKey="projectedGci" stackId="gci" fill="var(--color-projectedGci)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{GROUP_BY_OPTIONS.find((o) => o.value === groupBy)?.label.replace("By ", "")}</TableHead>
+                    <TableHead className="text-right">Projected GCI</TableHead>
+                    <TableHead className="text-right">Closed GCI</TableHead>
+                    <TableHead className="text-right hidden sm:table-cell">Company Dollar</TableHead>
+                    <TableHead className="text-right hidden sm:table-cell">Deals</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rows.map((row) => (
+                    <TableRow key={row.key} data-testid={`row-revenue-${row.key}`}>
+                      <TableCell className="font-medium">{row.label}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.projectedGci)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.closedGci)}</TableCell>
+                      <TableCell className="text-right hidden sm:table-cell">
+                        {formatCurrency(row.projectedBrokerage + row.closedBrokerage)}
+                      </TableCell>
+                      <TableCell className="text-right hidden sm:table-cell">{row.projectedCount + row.closedCount}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CalendarDays, Copy, Loader2, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getStatusLabel } from "@/lib/utils/status-colors";
+import { transactionStatuses } from "@shared/schema";
+import type { CalendarFeedSummary } from "@shared/lib/calendar";
+
+const FEEDS_QUERY_KEY = ["/api/calendar-feeds"];
+
+export async function copyFeedUrl(url: string, toast: ReturnType<typeof useToast>["toast"]) {
+  try {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Feed URL copied", description: "Paste it into Google or Apple Calendar as a subscription." });
+  } catch {
+    toast({ title: "Copy failed", description: url, variant: "destructive" });
+  }
+}
+
+export function CalendarFeeds() {
+  const { toast } = useToast();
+  const [statuses, setStatuses] = useState<string[]>([]);
+
+  const { data: feeds = [], isLoading } = useQuery<CalendarFeedSummary[]>({
+    queryKey: FEEDS_QUERY_KEY,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/calendar-feeds", { statuses });
+      return res.json() as Promise<CalendarFeedSummary>;
+    },
+    onSuccess: (feed) => {
+      setStatuses([]);
+      queryClient.invalidateQueries({ queryKey: FEEDS_QUERY_KEY });
+      copyFeedUrl(feed.url, toast);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to create calendar feed", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/calendar-feeds/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: FEEDS_QUERY_KEY });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to revoke calendar feed", variant: "destructive" });
+    },
+  });
+
+  const toggleStatus = (status: string, checked: boolean) => {
+    setStatuses((current) => checked ? [...current, status] : current.filter((s) => s !== status));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Feeds
+        </CardTitle>
+        <CardDescription>
+          Subscribe to contract, closing, go-live and photography dates in Google or Apple Calendar.
+          Anyone with a feed URL can read it, so revoke feeds you no longer use.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label className="text-sm">Statuses to include (none selected = all)</Label>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {transactionStatuses.map((status) => (
+              <label key={status} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={statuses.includes(status)}
+                  onCheckedChange={(checked) => toggleStatus(status, checked === true)}
+                  data-testid={`checkbox-feed-status-${status}`}
+                />
+                {getStatusLabel(status)}
+              </label>
+            ))}
+          </div>
+          <Button size="sm" onClick={() => createMutation.mutate()} disabled={createMutation.isPending} data-testid="button-create-calendar-feed">
+            {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+            New Feed
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : feeds.length > 0 && (
+          <div className="divide-y border rounded-md">
+            {feeds.map((feed) => (
+              <div key={feed.id} className="flex items-center justify-between gap-3 px-3 py-2" data-testid={`calendar-feed-${feed.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap text-sm">
+                    {feed.transactionId ? (
+                      <span className="font-medium truncate">{feed.propertyAddress ?? "Deleted transaction"}</span>
+                    ) : (
+                      <span className="font-medium">All my transactions</span>
+                    )}
+                    {feed.statuses.map((status) => (
+                      <Badge key={status} variant="secondary" className="text-xs">{getStatusLabel(status)}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {feed.lastAccessedAt
+                      ? `Last synced ${new Date(feed.lastAccessedAt).toLocaleString()}`
+                      : "Not synced yet"}
+                  </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button size="icon" variant="ghost" onClick={() => copyFeedUrl(feed.url, toast)} data-testid={`button-copy-feed-${feed.id}`}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => deleteMutation.mutate(feed.id)} data-testid={`button-revoke-feed-${feed.id}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, ListChecks, Plus, Trash2, Calendar } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+import type { TransactionTask, Coordinator, TaskAssigneeType } from '@shared/schema';
+
+interface TasksTabProps {
+  transactionId: string;
+  coordinators: Coordinator[];
+}
+
+export function TasksTab({ transactionId, coordinators }: TasksTabProps) {
+  const { toast } = useToast();
+  const [newTitle, setNewTitle] = useState('');
+  const [newAssigneeType, setNewAssigneeType] = useState<TaskAssigneeType>('coordinator');
+  const [newDueDate, setNewDueDate] = useState('');
+
+  const tasksQueryKey = ['/api/transactions', transactionId, 'tasks'];
+
+  const { data: tasks = [], isLoading } = useQuery<TransactionTask[]>({
+    queryKey: tasksQueryKey,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: tasksQueryKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions', transactionId, 'activities'] });
+  };
+
+  const createTaskMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/transactions/${transactionId}/tasks`, {
+        title: newTitle.trim(),
+        assigneeType: newAssigneeType,
+        dueDate: newDueDate || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      setNewTitle('');
+      setNewDueDate('');
+      invalidate();
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to add task', variant: 'destructive' });
+    },
+  });
+
+  const updateTaskMutation = useMutation({
+    mutationFn: async ({ taskId, data }: { taskId: string; data: Partial<TransactionTask> }) => {
+      const res = await apiRequest('PATCH', `/api/transactions/${transactionId}/tasks/${taskId}`, data);
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to update task', variant: 'destructive' });
+    },
+  });
+
+  const deleteTaskMutation = useMutation({
+    mutationFn: async (taskId: string) => {
+      await apiRequest('DELETE', `/api/transactions/${transactionId}/tasks/${taskId}`);
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to delete task', variant: 'destructive' });
+    },
+  });
+
+  const completedCount = tasks.filter((t) => t.isCompleted).length;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <h2 className="text-xl font-semibold">Closing Checklist</h2>
+        {tasks.length > 0 && (
+          <Badge variant="secondary" data-testid="badge-task-progress">
+            {completedCount} of {tasks.length} complete
+          </Badge>
+        )}
+      </div>
+
+      <form
+        className="flex gap-2 flex-wrap"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (newTitle.trim()) createTaskMutation.mutate();
+        }}
+      >
+        <Input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          placeholder="Add a task..."
+          className="flex-1 min-w-[200px]"
+          data-testid="input-new-task"
+        />
+        <Select value={newAssigneeType} onValueChange={(v) => setNewAssigneeType(v as TaskAssigneeType)}>
+          <SelectTrigger className="w-36" data-testid="select-new-task-assignee">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="coordinator">Coordinator</SelectItem>
+            <SelectItem value="agent">Agent</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={newDueDate}
+          onChange={(e) => setNewDueDate(e.target.value)}
+          className="w-40"
+          data-testid="input-new-task-due"
+        />
+        <Button type="submit" disabled={!newTitle.trim() || createTaskMutation.isPending} data-testid="button-add-task">
+          {createTaskMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+        </Button>
+      </form>
+
+      {tasks.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <ListChecks className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+            <h3 className="font-medium mb-2">No Tasks Yet</h3>
+            <p className="text-sm text-muted-foreground">
+              Tasks are added from checklist templates as the transaction progresses, or you can add them above.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {tasks.map((task) => (
+            <TaskRow
+              key={task.id}
+              task={task}
+              coordinators={coordinators}
+              onToggle={(checked) => updateTaskMutation.mutate({ taskId: task.id, data: { isCompleted: checked } })}
+              onDueDateChange={(dueDate) => updateTaskMutation.mutate({ taskId: task.id, data: { dueDate: dueDate || null } })}
+              onDelete={() => deleteTaskMutation.mutate(task.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface TaskRowProps {
+  task: TransactionTask;
+  coordinators: Coordinator[];
+  onToggle: (checked: boolean) => void;
+  onDueDateChange: (dueDate: string) => void;
+  onDelete: () => void;
+}
+
+function TaskRow({ task, coordinators, onToggle, onDueDateChange, onDelete }: TaskRowProps) {
+  const overdue = !task.isCompleted && isOverdue(task.dueDate);
+  const coordinator = task.assigneeType === 'coordinator'
+    ? coordinators.find((c) => c.id === task.assigneeId)
+    : undefined;
+  const assigneeLabel = coordinator?.name || (task.assigneeType === 'agent' ? 'Agent' : 'Coordinator');
+
+  return (
+    <Card data-testid={`task-${task.id}`}>
+      <CardContent className="py-3 flex items-center gap-3">
+        <Checkbox
+          checked={!!task.isCompleted}
+          onCheckedChange={(checked) => onToggle(checked === true)}
+          data-testid={`checkbox-task-${task.id}`}
+        />
+        <div className="flex-1 min-w-0">
+          <p className={cn('text-sm font-medium', task.isCompleted && 'line-through text-muted-foreground')}>
+            {task.title}
+          </p>
+          {task.description && (
+            <p className="text-xs text-muted-foreground mt-0.5">{task.description}</p>
+          )}
+        </div>
+        <Badge variant="outline" className="text-xs">{assigneeLabel}</Badge>
+        <div className="flex items-center gap-1">
+          <Calendar className={cn('h-3.5 w-3.5', overdue ? 'text-destructive' : 'text-muted-foreground')} />
+          <Input
+            type="date"
+            value={task.dueDate || ''}
+            onChange={(e) => onDueDateChange(e.target.value)}
+            className={cn('h-8 w-36 text-xs', overdue && 'text-destructive')}
+            data-testid={`input-task-due-${task.id}`}
+          />
+        </div>
+        <Button size="icon" variant="ghost" onClick={onDelete} data-testid={`button-delete-task-${task.id}`}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function isOverdue(dueDate: string | null | undefined): boolean {
+  if (!dueDate) return false;
+  const today = new Date().toISOString().split('T')[0];
+  return dueDate < today;
+}
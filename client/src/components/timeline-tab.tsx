@@ -1,11 +1,13 @@
 import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Loader2, Activity } from 'lucide-react';
 import { useState } from 'react';
 import { cn } from '@/lib/utils';
 import { getEventConfig, CATEGORY_FILTERS } from '@/lib/timeline-config';
+import { FieldHistory } from './field-history';
 import type { Activity as ActivityType } from '@shared/schema';
 
 interface TimelineTabProps {
@@ -14,6 +16,7 @@ interface TimelineTabProps {
 
 export function TimelineTab({ transactionId }: TimelineTabProps) {
   const [categoryFilter, setCategoryFilter] = useState('all');
+  const [view, setView] = useState<'activity' | 'history'>('activity');
 
   const { data: events = [], isLoading } = useQuery<ActivityType[]>({
     queryKey: ['/api/transactions', transactionId, 'activities', categoryFilter],
@@ -30,6 +33,39 @@ export function TimelineTab({ transactionId }: TimelineTabProps) {
 
   const groupedEvents = groupEventsByDate(events);
 
+  const viewToggle = (
+    <div className="flex gap-1">
+      <Button
+        size="sm"
+        variant={view === 'activity' ? 'secondary' : 'ghost'}
+        onClick={() => setView('activity')}
+        data-testid="button-timeline-activity"
+      >
+        Activity
+      </Button>
+      <Button
+        size="sm"
+        variant={view === 'history' ? 'secondary' : 'ghost'}
+        onClick={() => setView('history')}
+        data-testid="button-timeline-history"
+      >
+        Field History
+      </Button>
+    </div>
+  );
+
+  if (view === 'history') {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <h2 className="text-xl font-semibold">Field History</h2>
+          {viewToggle}
+        </div>
+        <FieldHistory transactionId={transactionId} />
+      </div>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -42,18 +78,21 @@ export function TimelineTab({ transactionId }: TimelineTabProps) {
     <div className="space-y-6">
       <div className="flex items-center justify-between gap-4 flex-wrap">
         <h2 className="text-xl font-semibold">Activity Timeline</h2>
-        <Select value={categoryFilter} onValueChange={setCategoryFilter}>
-          <SelectTrigger className="w-44" data-testid="select-timeline-filter">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            {CATEGORY_FILTERS.map((filter) => (
-              <SelectItem key={filter.value} value={filter.value} data-testid={`option-filter-${filter.value}`}>
-                {filter.label}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        <div className="flex items-center gap-2 flex-wrap">
+          {viewToggle}
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger className="w-44" data-testid="select-timeline-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CATEGORY_FILTERS.map((filter) => (
+                <SelectItem key={filter.value} value={filter.value} data-testid={`option-filter-${filter.value}`}>
+                  {filter.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       {events.length === 0 ? (
@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Users, Plus, Trash2, Mail, Phone, Building2, ExternalLink, Loader2, Search } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useDebounce } from "@/hooks/useDebounce";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { contactRoles } from "@shared/schema";
+import type { ContactRole, TransactionContact } from "@shared/schema";
+
+const CONTACT_ROLE_LABELS: Record<ContactRole, string> = {
+  buyer: "Buyer",
+  seller: "Seller",
+  buyer_agent: "Buyer's Agent",
+  listing_agent: "Listing Agent",
+  lender: "Lender",
+  title_officer: "Title Officer",
+  escrow_officer: "Escrow Officer",
+  inspector: "Inspector",
+  appraiser: "Appraiser",
+  attorney: "Attorney",
+  other: "Other",
+};
+
+interface FUBSearchResult {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+}
+
+interface ContactDraft {
+  role: ContactRole;
+  name: string;
+  email: string;
+  phone: string;
+  company: string;
+  fubPersonId: string | null;
+}
+
+const EMPTY_DRAFT: ContactDraft = { role: "lender", name: "", email: "", phone: "", company: "", fubPersonId: null };
+
+interface TransactionContactsCardProps {
+  transactionId: string;
+}
+
+export function TransactionContactsCard({ transactionId }: TransactionContactsCardProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ContactDraft | null>(null);
+  const [fubQuery, setFubQuery] = useState("");
+  const debouncedFubQuery = useDebounce(fubQuery, 300);
+
+  const contactsQueryKey = ["/api/transactions", transactionId, "contacts"];
+
+  const { data: contacts = [], isLoading } = useQuery<TransactionContact[]>({
+    queryKey: contactsQueryKey,
+  });
+
+  const { data: fubResults = [], isFetching: fubSearching } = useQuery<FUBSearchResult[]>({
+    queryKey: ["/api/fub/search", debouncedFubQuery],
+    queryFn: async () => {
+      const res = await fetch(`/api/fub/search?q=${encodeURIComponent(debouncedFubQuery)}`, { credentials: "include" });
+      if (!res.ok) return [];
+      return res.json();
+    },
+    enabled: !!draft && debouncedFubQuery.length >= 2,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: ContactDraft) => {
+      const res = await apiRequest("POST", `/api/transactions/${transactionId}/contacts`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      setDraft(null);
+      setFubQuery("");
+      queryClient.invalidateQueries({ queryKey: contactsQueryKey });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to add contact", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (contactId: string) => {
+      await apiRequest("DELETE", `/api/transactions/${transactionId}/contacts/${contactId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: contactsQueryKey });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to remove contact", variant: "destructive" });
+    },
+  });
+
+  const selectFubPerson = (person: FUBSearchResult) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      name: `${person.firstName} ${person.lastName}`.trim(),
+      email: person.email || "",
+      phone: person.phone || "",
+      fubPersonId: String(person.id),
+    });
+    setFubQuery("");
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Users className="h-4 w-4" />
+            Parties
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => setDraft({ ...EMPTY_DRAFT })} data-testid="button-add-contact">
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : contacts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No lender, title or co-op agent contacts yet</p>
+        ) : (
+          <div className="divide-y">
+            {contacts.map((contact) => (
+              <div key={contact.id} className="flex items-start justify-between gap-3 py-3 first:pt-0 last:pb-0" data-testid={`contact-${contact.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-medium text-sm">{contact.name}</p>
+                    <Badge variant="secondary" className="text-xs">
+                      {CONTACT_ROLE_LABELS[contact.role as ContactRole] || contact.role}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center gap-4 text-xs text-muted-foreground mt-1 flex-wrap">
+                    {contact.company && (
+                      <span className="flex items-center gap-1"><Building2 className="h-3 w-3" />{contact.company}</span>
+                    )}
+                    {contact.email && (
+                      <a href={`mailto:${contact.email}`} className="flex items-center gap-1 hover:underline">
+                        <Mail className="h-3 w-3" />{contact.email}
+                      </a>
+                    )}
+                    {contact.phone && (
+                      <a href={`tel:${contact.phone}`} className="flex items-center gap-1 hover:underline">
+                        <Phone className="h-3 w-3" />{contact.phone}
+                      </a>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {contact.fubPersonId && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => window.open(`https://spyglassrealty.followupboss.com/2/people/view/${contact.fubPersonId}`, "_blank")}
+                      data-testid={`button-contact-fub-${contact.id}`}
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => deleteMutation.mutate(contact.id)}
+                    data-testid={`button-delete-contact-${contact.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Contact</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select value={draft.role} onValueChange={(v) => setDraft({ ...draft, role: v as ContactRole })}>
+                  <SelectTrigger data-testid="select-contact-role"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {contactRoles.map((role) => (
+                      <SelectItem key={role} value={role}>{CONTACT_ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Link Follow Up Boss person (optional)</Label>
+                <div className="relative">
+                  <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={fubQuery}
+                    onChange={(e) => setFubQuery(e.target.value)}
+                    placeholder={draft.fubPersonId ? "Linked - search to change" : "Search FUB..."}
+                    className="pl-8"
+                    data-testid="input-contact-fub-search"
+                  />
+                </div>
+                {fubQuery.length >= 2 && (
+                  <div className="border rounded-md max-h-40 overflow-y-auto">
+                    {fubSearching ? (
+                      <div className="p-2 text-xs text-muted-foreground">Searching...</div>
+                    ) : fubResults.length === 0 ? (
+                      <div className="p-2 text-xs text-muted-foreground">No matches</div>
+                    ) : (
+                      fubResults.map((person) => (
+                        <button
+                          key={person.id}
+                          type="button"
+                          className="w-full text-left px-2 py-1.5 text-sm hover-elevate"
+                          onClick={() => selectFubPerson(person)}
+                        >
+                          {person.firstName} {person.lastName}
+                          {person.email && <span className="text-xs text-muted-foreground ml-2">{person.email}</span>}
+                        </button>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact-name">Name</Label>
+                <Input id="contact-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} data-testid="input-contact-name" />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="contact-email">Email</Label>
+                  <Input id="contact-email" type="email" value={draft.email} onChange={(e) => setDraft({ ...draft, email: e.target.value })} data-testid="input-contact-email" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="contact-phone">Phone</Label>
+                  <Input id="contact-phone" value={draft.phone} onChange={(e) => setDraft({ ...draft, phone: e.target.value })} data-testid="input-contact-phone" />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact-company">Company</Label>
+                <Input id="contact-company" value={draft.company} onChange={(e) => setDraft({ ...draft, company: e.target.value })} data-testid="input-contact-company" />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => draft && createMutation.mutate(draft)}
+              disabled={!draft?.name.trim() || createMutation.isPending}
+              data-testid="button-save-contact"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -73,6 +73,7 @@ import {
   Star,
   Camera,
   Palette,
+  CalendarDays,
 } from "lucide-react";
 import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogHeader, DialogFooter } from "@/components/ui/dialog";
 import {
@@ -105,6 +106,20 @@ import { FlyerGenerator } from "./marketing/FlyerGenerator";
 import { PropertyPhotos } from "./marketing/PropertyPhotos";
 import { PhotoGalleryModal } from "./photo-gallery-modal";
 import { TimelineTab } from "./timeline-tab";
+import { TasksTab } from "./tasks-tab";
+import { NotesTab } from "./notes-tab";
+import { copyFeedUrl } from "./settings/CalendarFeeds";
+import type { CalendarFeedSummary } from "@shared/lib/calendar";
+import { DeadlineStrip } from "./deadline-strip";
+import { TransactionContactsCard } from "./transaction-contacts-card";
+import { TransactionOpenHousesCard } from "./transaction-open-houses-card";
+import { TransactionOffersCard } from "./transaction-offers-card";
+import { TransactionNetSheetsCard } from "./transaction-net-sheets-card";
+import { TransactionPriceHistoryCard } from "./transaction-price-history-card";
+import { DuplicateTransactionsBanner } from "./transactions/duplicate-transactions";
+import { VersionConflictDialog, getVersionConflict, useVersionConflict, versionHeaders } from "./transactions/version-conflict";
+import { CommissionCard } from "./commission-card";
+import { TransactionStatusSelect } from "./transactions/transaction-status-select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -631,6 +646,7 @@ const ROOM_TYPES = [
 export function TransactionDetails({ transaction, coordinators, activities, onBack, initialTab = "overview", initialFlyer = false }: TransactionDetailsProps) {
   const [activeTab, setActiveTab] = useState(initialTab);
   const { toast } = useToast();
+  const { handleConflict, dialogProps: conflictDialogProps } = useVersionConflict();
   const [flyerDialogOpen, setFlyerDialogOpen] = useState(false);
   const [showFlyerGenerator, setShowFlyerGenerator] = useState(() => {
     if (initialFlyer) return true;
@@ -865,16 +881,18 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
     },
   });
 
+  // version defaults to the one on screen; the conflict dialog retries with the server's
   const updateTransactionMutation = useMutation({
-    mutationFn: async (data: Partial<Transaction>) => {
-      const res = await apiRequest("PATCH", `/api/transactions/${transaction.id}`, data);
+    mutationFn: async ({ version = transaction.version, ...data }: Partial<Transaction>) => {
+      const res = await apiRequest("PATCH", `/api/transactions/${transaction.id}`, data, versionHeaders(version));
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions", transaction.id] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
     },
-    onError: () => {
+    onError: (error: Error, data) => {
+      if (handleConflict(error, (version) => updateTransactionMutation.mutate({ ...data, version }))) return;
       toast({ title: "Failed to update transaction", variant: "destructive" });
     },
   });
@@ -901,10 +919,25 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
     },
   });
 
+  // Per-transaction .ics feed; the server returns the existing one if there is one
+  const calendarFeedMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/calendar-feeds", { transactionId: transaction.id });
+      return res.json() as Promise<CalendarFeedSummary>;
+    },
+    onSuccess: (feed) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar-feeds"] });
+      copyFeedUrl(feed.url, toast);
+    },
+    onError: () => {
+      toast({ title: "Failed to create calendar feed", variant: "destructive" });
+    },
+  });
+
   // Archive transaction mutation
   const archiveTransactionMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest("PATCH", `/api/transactions/${transaction.id}/archive`);
+    mutationFn: async (version: number | void) => {
+      const res = await apiRequest("PATCH", `/api/transactions/${transaction.id}/archive`, undefined, versionHeaders(version ?? transaction.version));
       return res.json();
     },
     onSuccess: () => {
@@ -917,6 +950,7 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
       onBack();
     },
     onError: (error: any) => {
+      if (handleConflict(error, (version) => archiveTransactionMutation.mutate(version))) return;
       toast({ 
         title: "Failed to archive transaction", 
         description: error.message || "Please try again.",
@@ -927,8 +961,8 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
   
   // Unarchive/restore transaction mutation
   const unarchiveTransactionMutation = useMutation({
-    mutationFn: async (restoreNotifications: boolean) => {
-      const res = await apiRequest("PATCH", `/api/transactions/${transaction.id}/unarchive`, { restoreNotifications });
+    mutationFn: async ({ restoreNotifications, version = transaction.version }: { restoreNotifications: boolean; version?: number }) => {
+      const res = await apiRequest("PATCH", `/api/transactions/${transaction.id}/unarchive`, { restoreNotifications }, versionHeaders(version));
       return res.json();
     },
     onSuccess: (data: any) => {
@@ -943,7 +977,11 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       setShowUnarchiveDialog(false);
     },
-    onError: (error: any) => {
+    onError: (error: any, variables) => {
+      if (handleConflict(error, (version) => unarchiveTransactionMutation.mutate({ ...variables, version }))) {
+        setShowUnarchiveDialog(false);
+        return;
+      }
       toast({ 
         title: "Failed to restore transaction", 
         description: error.message || "Please try again.",
@@ -960,10 +998,11 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
     },
     onSuccess: () => {
       toast({ 
-        title: "Transaction deleted",
-        description: "The transaction has been permanently deleted."
+        title: "Moved to recycle bin",
+        description: "The transaction can be restored from the Recycle Bin until it is permanently removed."
       });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/recycle-bin"] });
       onBack();
     },
     onError: (error: any) => {
@@ -1013,10 +1052,10 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
 
   // Set primary photo mutation
   const setPrimaryPhotoMutation = useMutation({
-    mutationFn: async (photoIndex: number) => {
+    mutationFn: async ({ photoIndex, version = transaction.version }: { photoIndex: number; version?: number }) => {
       const res = await apiRequest("PATCH", `/api/transactions/${transaction.id}/photos/primary`, {
         primaryPhotoIndex: photoIndex,
-      });
+      }, versionHeaders(version));
       return res.json();
     },
     onSuccess: () => {
@@ -1024,7 +1063,8 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
       queryClient.invalidateQueries({ queryKey: ["/api/transactions", transaction.id] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
     },
-    onError: (error: any) => {
+    onError: (error: any, variables) => {
+      if (handleConflict(error, (version) => setPrimaryPhotoMutation.mutate({ ...variables, version }))) return;
       toast({ 
         title: "Failed to set primary photo", 
         description: error.message || "Please try again.",
@@ -1036,7 +1076,7 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
   // Delete photo mutation
   const deletePhotoMutation = useMutation({
     mutationFn: async (photoIndex: number) => {
-      const res = await apiRequest("DELETE", `/api/transactions/${transaction.id}/photos/${photoIndex}`);
+      const res = await apiRequest("DELETE", `/api/transactions/${transaction.id}/photos/${photoIndex}`, undefined, versionHeaders(transaction.version));
       return res.json();
     },
     onSuccess: () => {
@@ -1045,6 +1085,12 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
     },
     onError: (error: any) => {
+      // The index points into a list that has since changed - never retry it blindly
+      if (getVersionConflict(error)) {
+        toast({ title: "Photos changed", description: "The photo list was updated by someone else. Try again on the latest version." });
+        queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+        return;
+      }
       toast({ 
         title: "Failed to delete photo", 
         description: error.message || "Please try again.",
@@ -1178,6 +1224,9 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
               <Badge className={`shrink-0 ${getStatusBadgeStyle(displayStatus)}`} data-testid="badge-detail-status">
                 {statusLabel}
               </Badge>
+              {!isOffMarket && (
+                <TransactionStatusSelect transaction={transaction} className="h-7 w-auto gap-1 text-xs shrink-0" />
+              )}
             </div>
             {transaction.mlsNumber && (
               <div className="flex items-center gap-1.5 mt-1 text-muted-foreground">
@@ -1189,6 +1238,17 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
         </div>
 
         <div className="flex items-center gap-2 flex-wrap pl-10 sm:pl-0">
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5 sm:gap-2 text-xs sm:text-sm h-8 sm:h-9"
+            data-testid="button-calendar-feed"
+            onClick={() => calendarFeedMutation.mutate()}
+            disabled={calendarFeedMutation.isPending}
+          >
+            <CalendarDays className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+            <span className="hidden xs:inline">Add to</span> Calendar
+          </Button>
           {transaction.slackChannelId ? (
             <Button 
               variant="outline" 
@@ -1247,7 +1307,7 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
                     data-testid="menu-item-delete"
                   >
                     <Trash2 className="w-4 h-4 mr-2" />
-                    Delete Permanently
+                    Move to Recycle Bin
                   </DropdownMenuItem>
                   
                   <DropdownMenuSeparator />
@@ -1286,7 +1346,7 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
                   <div className="px-2 py-1.5">
                     <p className="text-xs text-muted-foreground flex items-start gap-1.5">
                       <Info className="w-3 h-3 mt-0.5 flex-shrink-0" />
-                      <span>To permanently delete, archive first, then delete from the Archive section.</span>
+                      <span>To delete, archive first, then move it to the Recycle Bin from the Archive section.</span>
                     </p>
                   </div>
                 </>
@@ -1348,7 +1408,7 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
                 <AlertDialogAction
                   onClick={() => {
                     const shouldRestoreNotifications = Boolean(transaction.previousReminderSettings) && restoreNotificationsOnUnarchive;
-                    unarchiveTransactionMutation.mutate(shouldRestoreNotifications);
+                    unarchiveTransactionMutation.mutate({ restoreNotifications: shouldRestoreNotifications });
                   }}
                   disabled={unarchiveTransactionMutation.isPending}
                 >
@@ -1358,28 +1418,30 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
             </AlertDialogContent>
           </AlertDialog>
           
-          {/* Delete Transaction Permanently Dialog */}
+          <VersionConflictDialog {...conflictDialogProps} />
+
+          {/* Move to Recycle Bin Dialog */}
           <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
             <AlertDialogContent>
               <AlertDialogHeader>
                 <AlertDialogTitle className="flex items-center gap-2 text-red-600">
                   <Trash2 className="w-5 h-5" />
-                  Delete Transaction Permanently?
+                  Move Transaction to Recycle Bin?
                 </AlertDialogTitle>
                 <AlertDialogDescription className="space-y-4">
                   <p>
-                    You are about to permanently delete the transaction for:
+                    You are about to delete the transaction for:
                   </p>
                   <p className="font-semibold text-foreground">
                     {transaction.propertyAddress}
                   </p>
                   <div className="bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800 rounded-md p-3">
                     <p className="text-red-800 dark:text-red-200 text-sm font-medium">
-                      This action cannot be undone!
+                      It can be restored from the Recycle Bin until the retention period ends.
                     </p>
                     <p className="text-red-700 dark:text-red-300 text-sm mt-1">
-                      All transaction data, documents, timeline entries, and associated 
-                      records will be permanently removed from the system.
+                      After that, all transaction data, documents, photos, and associated 
+                      records are permanently removed from the system.
                     </p>
                   </div>
                 </AlertDialogDescription>
@@ -1394,7 +1456,7 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
                   disabled={deleteTransactionMutation.isPending}
                   className="bg-red-600 hover:bg-red-700 text-white focus:ring-red-600"
                 >
-                  {deleteTransactionMutation.isPending ? "Deleting..." : "Yes, Delete Permanently"}
+                  {deleteTransactionMutation.isPending ? "Deleting..." : "Move to Recycle Bin"}
                 </AlertDialogAction>
               </AlertDialogFooter>
             </AlertDialogContent>
@@ -1667,6 +1729,10 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
         </DialogContent>
       </Dialog>
 
+      {!isOffMarket && (
+        <DeadlineStrip transactionId={transaction.id} contractDate={transaction.contractDate} />
+      )}
+
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
         <div className="overflow-x-auto -mx-4 px-4 sm:mx-0 sm:px-0">
           <TabsList className="inline-flex w-auto min-w-full sm:w-auto">
@@ -1684,11 +1750,14 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
                 <Badge variant="secondary" className="ml-1 sm:ml-2 text-[10px] sm:text-xs">{marketingAssets.length}</Badge>
               )}
             </TabsTrigger>
+            <TabsTrigger value="tasks" className="text-xs sm:text-sm" data-testid="tab-tasks">Tasks</TabsTrigger>
+            <TabsTrigger value="notes" className="text-xs sm:text-sm" data-testid="tab-notes">Notes</TabsTrigger>
             <TabsTrigger value="timeline" className="text-xs sm:text-sm" data-testid="tab-timeline">Timeline</TabsTrigger>
           </TabsList>
         </div>
 
         <TabsContent value="overview" className="space-y-6">
+          <DuplicateTransactionsBanner transaction={transaction} />
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
             <Card>
               <CardHeader className="pb-3">
@@ -2014,6 +2083,13 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
             </Card>
           )}
 
+          <TransactionContactsCard transactionId={transaction.id} />
+
+          {transaction.transactionType === "sell" && <TransactionOffersCard transaction={transaction} />}
+
+          <TransactionNetSheetsCard transaction={transaction} />
+
+          <CommissionCard transaction={transaction} />
 
           {/* Media Section with Photo Modal */}
           {overviewPhotos.length > 0 && (
@@ -2421,6 +2497,8 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
                     </CardContent>
                   </Card>
                 )}
+
+                <TransactionPriceHistoryCard transactionId={transaction.id} />
               </div>
               
               {/* Right Column - Stats & Details */}
@@ -2942,6 +3020,8 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
             </p>
           </div>
 
+          <TransactionOpenHousesCard transactionId={transaction.id} />
+
           {/* Property Photos Section - Two Separate Cards */}
           {(() => {
             // Filter out MLS photos that may have been incorrectly stored in propertyImages
@@ -3126,7 +3206,7 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
                                   size="icon"
                                   variant="ghost"
                                   className="h-7 w-7 text-white hover:bg-white/20"
-                                  onClick={() => setPrimaryPhotoMutation.mutate(index)}
+                                  onClick={() => setPrimaryPhotoMutation.mutate({ photoIndex: index })}
                                   data-testid={`button-set-primary-${index}`}
                                 >
                                   <Star className={cn("h-4 w-4", primaryIndex === index && "fill-yellow-400 text-yellow-400")} />
@@ -3486,6 +3566,14 @@ export function TransactionDetails({ transaction, coordinators, activities, onBa
           )}
         </TabsContent>
 
+        <TabsContent value="tasks" className="space-y-6">
+          <TasksTab transactionId={transaction.id} coordinators={coordinators} />
+        </TabsContent>
+
+        <TabsContent value="notes" className="space-y-6">
+          <NotesTab transactionId={transaction.id} />
+        </TabsContent>
+
         <TabsContent value="timeline" className="space-y-6">
           <TimelineTab transactionId={transaction.id} />
         </TabsContent>
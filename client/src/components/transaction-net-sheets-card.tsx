@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Calculator, Download, Loader2, Plus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@shared/lib/commission";
+import {
+  DEFAULT_NET_SHEET_FEES,
+  DEFAULT_NET_SHEET_FEE_SCHEDULE_NAME,
+  NET_SHEET_TYPE_LABELS,
+  calculateNetSheet,
+  getNetSheetDefaults,
+  type NetSheetInputs,
+  type NetSheetResult,
+} from "@shared/lib/net-sheets";
+import { hoaFrequencies, type HoaFrequency, type NetSheet, type NetSheetFeeSchedule, type NetSheetType, type Transaction } from "@shared/schema";
+
+// Value used by the schedule select for "no schedule" - the default schedule, else the standard fees
+const DEFAULT_SCHEDULE = "default";
+
+// Numeric inputs, keyed by their NetSheetInputs field
+interface InputField {
+  key: string;
+  label: string;
+  unit: "$" | "%" | "mo";
+}
+
+const COMMON_FIELDS: InputField[] = [
+  { key: "price", label: "Price", unit: "$" },
+  { key: "annualPropertyTax", label: "Annual property tax", unit: "$" },
+  { key: "hoaDues", label: "HOA dues", unit: "$" },
+  { key: "sellerConcessions", label: "Seller concessions", unit: "$" },
+  { key: "otherCosts", label: "Other costs", unit: "$" },
+];
+
+const SELLER_FIELDS: InputField[] = [
+  { key: "listingCommissionPercent", label: "Listing commission", unit: "%" },
+  { key: "buyerAgentCommissionPercent", label: "Buyer agent commission", unit: "%" },
+  { key: "loanPayoff", label: "Loan payoff", unit: "$" },
+];
+
+const BUYER_FIELDS: InputField[] = [
+  { key: "downPaymentPercent", label: "Down payment", unit: "%" },
+  { key: "earnestMoney", label: "Earnest money", unit: "$" },
+  { key: "optionFee", label: "Option fee", unit: "$" },
+  { key: "lenderFees", label: "Lender fees", unit: "$" },
+  { key: "annualInsurance", label: "Annual insurance", unit: "$" },
+  { key: "taxReserveMonths", label: "Tax reserves", unit: "mo" },
+  { key: "insuranceReserveMonths", label: "Insurance reserves", unit: "mo" },
+];
+
+const HOA_FREQUENCY_LABELS: Record<HoaFrequency, string> = {
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  annually: "Annually",
+};
+
+function getTotalLabel(type: NetSheetType): string {
+  return type === "seller" ? "Estimated net proceeds" : "Estimated cash to close";
+}
+
+interface CalculatorDraft {
+  inputs: NetSheetInputs;
+  feeScheduleId: string;
+}
+
+interface TransactionNetSheetsCardProps {
+  transaction: Transaction;
+}
+
+/**
+ * Seller net sheet and buyer cash-to-close calculators. The preview recalculates as
+ * inputs change; saving stores a new version the server recalculates and can export as PDF.
+ */
+export function TransactionNetSheetsCard({ transaction }: TransactionNetSheetsCardProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<CalculatorDraft | null>(null);
+
+  const netSheetsQueryKey = ["/api/transactions", transaction.id, "net-sheets"];
+
+  const { data: sheets = [], isLoading } = useQuery<NetSheet[]>({
+    queryKey: netSheetsQueryKey,
+  });
+
+  const { data: schedules = [] } = useQuery<NetSheetFeeSchedule[]>({
+    queryKey: ["/api/net-sheet-fee-schedules"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CalculatorDraft) => {
+      const res = await apiRequest("POST", `/api/transactions/${transaction.id}/net-sheets`, {
+        inputs: data.inputs,
+        feeScheduleId: data.feeScheduleId === DEFAULT_SCHEDULE ? null : data.feeScheduleId,
+      });
+      return res.json() as Promise<NetSheet>;
+    },
+    onSuccess: (sheet) => {
+      setDraft(null);
+      queryClient.invalidateQueries({ queryKey: netSheetsQueryKey });
+      toast({ title: "Net sheet saved", description: `${NET_SHEET_TYPE_LABELS[sheet.type as NetSheetType]} version ${sheet.version}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Net sheet not saved", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const defaultSchedule = schedules.find((schedule) => schedule.isDefault);
+  const selectedSchedule = draft && draft.feeScheduleId !== DEFAULT_SCHEDULE
+    ? schedules.find((schedule) => schedule.id === draft.feeScheduleId)
+    : defaultSchedule;
+  const preview: NetSheetResult | null = draft
+    ? calculateNetSheet(draft.inputs, selectedSchedule?.fees ?? DEFAULT_NET_SHEET_FEES)
+    : null;
+
+  const startNew = (type: NetSheetType) => {
+    setDraft({ inputs: getNetSheetDefaults(type, transaction), feeScheduleId: DEFAULT_SCHEDULE });
+  };
+
+  // Reopen a saved version to adjust it; saving again makes the next version
+  const startFrom = (sheet: NetSheet) => {
+    const scheduleExists = schedules.some((schedule) => schedule.id === sheet.feeScheduleId);
+    setDraft({
+      inputs: sheet.inputs as NetSheetInputs,
+      feeScheduleId: sheet.feeScheduleId && scheduleExists ? sheet.feeScheduleId : DEFAULT_SCHEDULE,
+    });
+  };
+
+  const updateInput = (key: string, value: string) => {
+    if (!draft) return;
+    setDraft({ ...draft, inputs: { ...draft.inputs, [key]: value === "" ? 0 : Number(value) } as NetSheetInputs });
+  };
+
+  const typeFields = draft?.inputs.type === "seller" ? SELLER_FIELDS : BUYER_FIELDS;
+  const primaryType: NetSheetType = transaction.transactionType === "buy" ? "buyer" : "seller";
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Calculator className="h-4 w-4" />
+            Net Sheets
+          </CardTitle>
+          <div className="flex gap-1">
+            {[primaryType, primaryType === "seller" ? "buyer" as const : "seller" as const].map((type) => (
+              <Button key={type} size="sm" variant="outline" onClick={() => startNew(type)} data-testid={`button-new-net-sheet-${type}`}>
+                <Plus className="h-4 w-4 mr-1" />
+                {type === "seller" ? "Seller Net" : "Cash to Close"}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : sheets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No net sheets saved yet</p>
+        ) : (
+          <div className="divide-y">
+            {sheets.map((sheet) => {
+              const result = sheet.result as NetSheetResult;
+              return (
+                <div key={sheet.id} className="flex items-center justify-between gap-3 py-2" data-testid={`net-sheet-${sheet.id}`}>
+                  <button type="button" className="min-w-0 text-left" onClick={() => startFrom(sheet)}>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium">{NET_SHEET_TYPE_LABELS[sheet.type as NetSheetType]}</span>
+                      <Badge variant="secondary" className="text-xs">v{sheet.version}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {getTotalLabel(sheet.type as NetSheetType)} {formatCurrency(result.total)}
+                      {" · "}
+                      {sheet.createdAt ? format(new Date(sheet.createdAt), "MMM d, yyyy") : ""}
+                      {sheet.createdByEmail ? ` · ${sheet.createdByEmail}` : ""}
+                    </p>
+                  </button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => { window.location.href = `/api/transactions/${transaction.id}/net-sheets/${sheet.id}/pdf`; }}
+                    data-testid={`button-download-net-sheet-${sheet.id}`}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft ? NET_SHEET_TYPE_LABELS[draft.inputs.type] : "Net Sheet"}</DialogTitle>
+          </DialogHeader>
+          {draft && preview && (
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label>Fee schedule</Label>
+                  <Select value={draft.feeScheduleId} onValueChange={(v) => setDraft({ ...draft, feeScheduleId: v })}>
+                    <SelectTrigger data-testid="select-net-sheet-fee-schedule"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_SCHEDULE}>
+                        {defaultSchedule ? `${defaultSchedule.name} (default)` : DEFAULT_NET_SHEET_FEE_SCHEDULE_NAME}
+                      </SelectItem>
+                      {schedules.filter((schedule) => !schedule.isDefault).map((schedule) => (
+                        <SelectItem key={schedule.id} value={schedule.id}>{schedule.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="net-sheet-closing-date">Closing date</Label>
+                    <Input
+                      id="net-sheet-closing-date"
+                      type="date"
+                      value={draft.inputs.closingDate}
+                      onChange={(e) => e.target.value && setDraft({ ...draft, inputs: { ...draft.inputs, closingDate: e.target.value } })}
+                      data-testid="input-net-sheet-closingDate"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>HOA frequency</Label>
+                    <Select
+                      value={draft.inputs.hoaFrequency}
+                      onValueChange={(v) => setDraft({ ...draft, inputs: { ...draft.inputs, hoaFrequency: v as HoaFrequency } })}
+                    >
+                      <SelectTrigger data-testid="select-net-sheet-hoa-frequency"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {hoaFrequencies.map((frequency) => (
+                          <SelectItem key={frequency} value={frequency}>{HOA_FREQUENCY_LABELS[frequency]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {[...COMMON_FIELDS, ...typeFields].map((field) => (
+                    <div key={field.key} className="space-y-2">
+                      <Label htmlFor={`net-sheet-${field.key}`}>
+                        {field.label} <span className="text-muted-foreground">({field.unit})</span>
+                      </Label>
+                      <Input
+                        id={`net-sheet-${field.key}`}
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={(draft.inputs as unknown as Record<string, number>)[field.key]}
+                        onChange={(e) => updateInput(field.key, e.target.value)}
+                        data-testid={`input-net-sheet-${field.key}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="rounded-md border p-4 space-y-1 self-start" data-testid="net-sheet-preview">
+                {preview.lines.map((line, index) => (
+                  <div key={index} className="flex justify-between gap-3 text-sm">
+                    <span className="text-muted-foreground">{line.label}</span>
+                    <span className={cn("tabular-nums", line.amount < 0 && "text-red-600 dark:text-red-400")}>
+                      {formatCurrency(line.amount)}
+                    </span>
+                  </div>
+                ))}
+                {preview.loanAmount !== null && (
+                  <div className="flex justify-between gap-3 text-xs text-muted-foreground pt-1">
+                    <span>Loan amount</span>
+                    <span className="tabular-nums">{formatCurrency(preview.loanAmount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between gap-3 border-t pt-2 mt-2 font-semibold">
+                  <span>{getTotalLabel(preview.type)}</span>
+                  <span className="tabular-nums" data-testid="text-net-sheet-total">{formatCurrency(preview.total)}</span>
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => draft && saveMutation.mutate(draft)}
+              disabled={!draft || draft.inputs.price <= 0 || saveMutation.isPending}
+              data-testid="button-save-net-sheet"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Version
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,487 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { HandCoins, Plus, Trash2, Loader2, CheckCircle2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { VersionConflictDialog, useVersionConflict, versionHeaders } from "./transactions/version-conflict";
+import { formatCurrency } from "@shared/lib/commission";
+import {
+  ESTIMATED_SELLER_CLOSING_COST_PERCENT,
+  FINANCING_TYPE_LABELS,
+  OFFER_STATUS_LABELS,
+  canAcceptOffers,
+  estimateSellerNet,
+  isOpenOfferStatus,
+  type SellerNetEstimate,
+} from "@shared/lib/offers";
+import { financingTypes, type FinancingType, type Offer, type OfferStatus, type Transaction } from "@shared/schema";
+
+interface OfferDraft {
+  buyerName: string;
+  buyerAgentName: string;
+  buyerAgentBrokerage: string;
+  buyerAgentEmail: string;
+  buyerAgentPhone: string;
+  price: string;
+  financingType: FinancingType;
+  downPaymentPercent: string;
+  earnestMoney: string;
+  optionFee: string;
+  optionDays: string;
+  sellerConcessions: string;
+  buyerAgentCommissionPercent: string;
+  closeDate: string;
+  notes: string;
+}
+
+const EMPTY_DRAFT: OfferDraft = {
+  buyerName: "",
+  buyerAgentName: "",
+  buyerAgentBrokerage: "",
+  buyerAgentEmail: "",
+  buyerAgentPhone: "",
+  price: "",
+  financingType: "conventional",
+  downPaymentPercent: "",
+  earnestMoney: "",
+  optionFee: "",
+  optionDays: "",
+  sellerConcessions: "",
+  buyerAgentCommissionPercent: "",
+  closeDate: "",
+  notes: "",
+};
+
+// Statuses an agent sets by hand - accepting goes through its own route
+const MANUAL_STATUSES: OfferStatus[] = ["received", "countered", "rejected", "withdrawn"];
+
+// "$450,000" or "450000" -> 450000; blank -> null
+function parseDollars(value: string): number | null {
+  const digits = value.replace(/[^0-9.]/g, "");
+  return digits ? Math.round(Number(digits)) : null;
+}
+
+function parseNumber(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+function toOfferBody(draft: OfferDraft) {
+  return {
+    buyerName: draft.buyerName,
+    buyerAgentName: draft.buyerAgentName,
+    buyerAgentBrokerage: draft.buyerAgentBrokerage,
+    buyerAgentEmail: draft.buyerAgentEmail,
+    buyerAgentPhone: draft.buyerAgentPhone,
+    price: parseDollars(draft.price),
+    financingType: draft.financingType,
+    downPaymentPercent: parseNumber(draft.downPaymentPercent),
+    earnestMoney: parseDollars(draft.earnestMoney),
+    optionFee: parseDollars(draft.optionFee),
+    optionDays: parseNumber(draft.optionDays),
+    sellerConcessions: parseDollars(draft.sellerConcessions),
+    buyerAgentCommissionPercent: parseNumber(draft.buyerAgentCommissionPercent),
+    closeDate: draft.closeDate,
+    notes: draft.notes,
+  };
+}
+
+function formatDate(dateStr: string | null): string {
+  if (!dateStr) return "—";
+  return new Date(`${dateStr}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function formatOptionalCurrency(value: number | null): string {
+  return value !== null ? formatCurrency(value) : "—";
+}
+
+interface ComparisonRow {
+  label: string;
+  value: (offer: Offer, net: SellerNetEstimate) => string;
+  emphasis?: boolean;
+}
+
+const COMPARISON_ROWS: ComparisonRow[] = [
+  { label: "Price", value: (offer) => formatCurrency(offer.price), emphasis: true },
+  { label: "Financing", value: (offer) => FINANCING_TYPE_LABELS[offer.financingType as FinancingType] ?? offer.financingType },
+  { label: "Down payment", value: (offer) => (offer.downPaymentPercent !== null ? `${offer.downPaymentPercent}%` : "—") },
+  { label: "Earnest money", value: (offer) => formatOptionalCurrency(offer.earnestMoney) },
+  {
+    label: "Option",
+    value: (offer) => offer.optionFee !== null || offer.optionDays !== null
+      ? `${formatOptionalCurrency(offer.optionFee)} / ${offer.optionDays ?? "—"} days`
+      : "—",
+  },
+  { label: "Close date", value: (offer) => formatDate(offer.closeDate) },
+  { label: "Listing commission", value: (_offer, net) => `-${formatCurrency(net.listingCommission)}` },
+  {
+    label: "Buyer agent comp",
+    value: (offer, net) => offer.buyerAgentCommissionPercent !== null
+      ? `-${formatCurrency(net.buyerAgentCommission)} (${offer.buyerAgentCommissionPercent}%)`
+      : "—",
+  },
+  { label: "Seller concessions", value: (_offer, net) => (net.sellerConcessions ? `-${formatCurrency(net.sellerConcessions)}` : "—") },
+  { label: `Est. closing costs (${ESTIMATED_SELLER_CLOSING_COST_PERCENT}%)`, value: (_offer, net) => `-${formatCurrency(net.closingCosts)}` },
+];
+
+interface TransactionOffersCardProps {
+  transaction: Transaction;
+}
+
+/**
+ * Offers on a listing, compared side by side by estimated seller net. Accepting one
+ * writes its price and dates to the transaction and puts an active listing under contract.
+ */
+export function TransactionOffersCard({ transaction }: TransactionOffersCardProps) {
+  const { toast } = useToast();
+  const { handleConflict, dialogProps: conflictDialogProps } = useVersionConflict();
+  const [draft, setDraft] = useState<OfferDraft | null>(null);
+  const [accepting, setAccepting] = useState<Offer | null>(null);
+  const [contractDate, setContractDate] = useState(() => new Date().toISOString().slice(0, 10));
+
+  const offersQueryKey = ["/api/transactions", transaction.id, "offers"];
+
+  const { data: offers = [], isLoading } = useQuery<Offer[]>({
+    queryKey: offersQueryKey,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: OfferDraft) => {
+      const res = await apiRequest("POST", `/api/transactions/${transaction.id}/offers`, toOfferBody(data));
+      return res.json();
+    },
+    onSuccess: () => {
+      setDraft(null);
+      queryClient.invalidateQueries({ queryKey: offersQueryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Offer not saved", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ offerId, status }: { offerId: string; status: OfferStatus }) => {
+      const res = await apiRequest("PATCH", `/api/transactions/${transaction.id}/offers/${offerId}`, { status });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: offersQueryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Offer not updated", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (offerId: string) => {
+      await apiRequest("DELETE", `/api/transactions/${transaction.id}/offers/${offerId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: offersQueryKey });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete offer", variant: "destructive" });
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async ({ offer, version = transaction.version }: { offer: Offer; version?: number }) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/transactions/${transaction.id}/offers/${offer.id}/accept`,
+        { contractDate },
+        versionHeaders(version)
+      );
+      return res.json();
+    },
+    onSuccess: (_data, { offer }) => {
+      setAccepting(null);
+      queryClient.invalidateQueries({ queryKey: offersQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({ title: "Offer accepted", description: `${formatCurrency(offer.price)} from ${offer.buyerAgentName}` });
+    },
+    onError: (error: Error, variables) => {
+      if (handleConflict(error, (version) => acceptMutation.mutate({ ...variables, version }))) return;
+      toast({ title: "Offer not accepted", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const estimates = new Map(offers.map((offer) => [offer.id, estimateSellerNet(offer, transaction)]));
+  const openOffers = offers.filter((offer) => isOpenOfferStatus(offer.status));
+  const bestNet = openOffers.length > 1
+    ? Math.max(...openOffers.map((offer) => estimates.get(offer.id)!.net))
+    : null;
+  const hasAccepted = offers.some((offer) => offer.status === "accepted");
+  const draftValid = !!draft?.buyerAgentName.trim() && (parseDollars(draft.price) ?? 0) > 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <HandCoins className="h-4 w-4" />
+              Offers
+            </CardTitle>
+            {offers.length > 0 && (
+              <CardDescription className="mt-1">
+                Estimated seller net is before loan payoff and prorations
+              </CardDescription>
+            )}
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setDraft({ ...EMPTY_DRAFT })} data-testid="button-add-offer">
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : offers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No offers recorded yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-40" />
+                  {offers.map((offer) => (
+                    <TableHead key={offer.id} className="min-w-[170px] align-top py-2" data-testid={`offer-column-${offer.id}`}>
+                      <div className="space-y-1">
+                        <p className="font-medium text-foreground">{offer.buyerAgentName}</p>
+                        {offer.buyerAgentBrokerage && <p className="text-xs">{offer.buyerAgentBrokerage}</p>}
+                        <Badge variant={offer.status === "accepted" ? "default" : "secondary"} className="text-xs">
+                          {OFFER_STATUS_LABELS[offer.status as OfferStatus] ?? offer.status}
+                        </Badge>
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {COMPARISON_ROWS.map((row) => (
+                  <TableRow key={row.label}>
+                    <TableCell className="text-xs text-muted-foreground">{row.label}</TableCell>
+                    {offers.map((offer) => (
+                      <TableCell key={offer.id} className={cn("text-sm", row.emphasis && "font-medium")}>
+                        {row.value(offer, estimates.get(offer.id)!)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="text-xs font-medium">Est. seller net</TableCell>
+                  {offers.map((offer) => {
+                    const net = estimates.get(offer.id)!.net;
+                    return (
+                      <TableCell
+                        key={offer.id}
+                        className={cn("text-sm font-semibold", bestNet !== null && net === bestNet && "text-green-600 dark:text-green-400")}
+                        data-testid={`text-offer-net-${offer.id}`}
+                      >
+                        {formatCurrency(net)}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+                <TableRow>
+                  <TableCell />
+                  {offers.map((offer) => (
+                    <TableCell key={offer.id} className="space-y-2">
+                      {offer.status !== "accepted" && (
+                        <Select
+                          value={offer.status}
+                          onValueChange={(status) => statusMutation.mutate({ offerId: offer.id, status: status as OfferStatus })}
+                        >
+                          <SelectTrigger className="h-8 text-xs" data-testid={`select-offer-status-${offer.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {MANUAL_STATUSES.map((status) => (
+                              <SelectItem key={status} value={status}>{OFFER_STATUS_LABELS[status]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <div className="flex gap-1">
+                        {!hasAccepted && canAcceptOffers(transaction) && isOpenOfferStatus(offer.status) && (
+                          <Button size="sm" className="h-8 flex-1" onClick={() => setAccepting(offer)} data-testid={`button-accept-offer-${offer.id}`}>
+                            <CheckCircle2 className="h-4 w-4 mr-1" />
+                            Accept
+                          </Button>
+                        )}
+                        {offer.status !== "accepted" && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            onClick={() => deleteMutation.mutate(offer.id)}
+                            data-testid={`button-delete-offer-${offer.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add Offer</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="offer-agent-name">Buyer's agent</Label>
+                  <Input id="offer-agent-name" value={draft.buyerAgentName} onChange={(e) => setDraft({ ...draft, buyerAgentName: e.target.value })} data-testid="input-offer-agent-name" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="offer-agent-brokerage">Brokerage</Label>
+                  <Input id="offer-agent-brokerage" value={draft.buyerAgentBrokerage} onChange={(e) => setDraft({ ...draft, buyerAgentBrokerage: e.target.value })} data-testid="input-offer-agent-brokerage" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="offer-agent-email">Agent email</Label>
+                  <Input id="offer-agent-email" type="email" value={draft.buyerAgentEmail} onChange={(e) => setDraft({ ...draft, buyerAgentEmail: e.target.value })} data-testid="input-offer-agent-email" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="offer-agent-phone">Agent phone</Label>
+                  <Input id="offer-agent-phone" value={draft.buyerAgentPhone} onChange={(e) => setDraft({ ...draft, buyerAgentPhone: e.target.value })} data-testid="input-offer-agent-phone" />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="offer-buyer-name">Buyer</Label>
+                <Input id="offer-buyer-name" value={draft.buyerName} onChange={(e) => setDraft({ ...draft, buyerName: e.target.value })} data-testid="input-offer-buyer-name" />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="offer-price">Price</Label>
+                  <Input id="offer-price" inputMode="numeric" placeholder="$" value={draft.price} onChange={(e) => setDraft({ ...draft, price: e.target.value })} data-testid="input-offer-price" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Financing</Label>
+                  <Select value={draft.financingType} onValueChange={(v) => setDraft({ ...draft, financingType: v as FinancingType })}>
+                    <SelectTrigger data-testid="select-offer-financing"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {financingTypes.map((type) => (
+                        <SelectItem key={type} value={type}>{FINANCING_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="offer-down-payment">Down payment %</Label>
+                  <Input id="offer-down-payment" type="number" min={0} max={100} value={draft.downPaymentPercent} onChange={(e) => setDraft({ ...draft, downPaymentPercent: e.target.value })} data-testid="input-offer-down-payment" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="offer-earnest-money">Earnest money</Label>
+                  <Input id="offer-earnest-money" inputMode="numeric" placeholder="$" value={draft.earnestMoney} onChange={(e) => setDraft({ ...draft, earnestMoney: e.target.value })} data-testid="input-offer-earnest-money" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="offer-option-fee">Option fee</Label>
+                  <Input id="offer-option-fee" inputMode="numeric" placeholder="$" value={draft.optionFee} onChange={(e) => setDraft({ ...draft, optionFee: e.target.value })} data-testid="input-offer-option-fee" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="offer-option-days">Option days</Label>
+                  <Input id="offer-option-days" type="number" min={0} value={draft.optionDays} onChange={(e) => setDraft({ ...draft, optionDays: e.target.value })} data-testid="input-offer-option-days" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="offer-concessions">Seller concessions</Label>
+                  <Input id="offer-concessions" inputMode="numeric" placeholder="$" value={draft.sellerConcessions} onChange={(e) => setDraft({ ...draft, sellerConcessions: e.target.value })} data-testid="input-offer-concessions" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="offer-buyer-agent-comp">Buyer agent comp %</Label>
+                  <Input id="offer-buyer-agent-comp" type="number" min={0} max={100} step={0.25} value={draft.buyerAgentCommissionPercent} onChange={(e) => setDraft({ ...draft, buyerAgentCommissionPercent: e.target.value })} data-testid="input-offer-buyer-agent-comp" />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="offer-close-date">Close date</Label>
+                <Input id="offer-close-date" type="date" value={draft.closeDate} onChange={(e) => setDraft({ ...draft, closeDate: e.target.value })} data-testid="input-offer-close-date" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="offer-notes">Notes</Label>
+                <Textarea id="offer-notes" rows={2} value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} data-testid="input-offer-notes" />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => draft && createMutation.mutate(draft)}
+              disabled={!draftValid || createMutation.isPending}
+              data-testid="button-save-offer"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!accepting} onOpenChange={(open) => !open && setAccepting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Accept this offer?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {accepting && (
+                <>
+                  The sale price becomes {formatCurrency(accepting.price)}
+                  {accepting.closeDate && <>, closing {formatDate(accepting.closeDate)}</>}
+                  , and the listing moves to In Contract.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="offer-contract-date">Contract date</Label>
+            <Input id="offer-contract-date" type="date" value={contractDate} onChange={(e) => setContractDate(e.target.value)} data-testid="input-offer-contract-date" />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (accepting) acceptMutation.mutate({ offer: accepting });
+              }}
+              disabled={!contractDate || acceptMutation.isPending}
+              data-testid="button-confirm-accept-offer"
+            >
+              {acceptMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Accept Offer
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <VersionConflictDialog {...conflictDialogProps} />
+    </Card>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CalendarClock, Plus, Trash2, ClipboardList, Loader2, User } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import {
+  formatOpenHouseDate,
+  formatOpenHouseTimeRange,
+  isOpenHouseUpcoming,
+  isValidOpenHouseWindow,
+} from "@shared/lib/open-houses";
+import type { OpenHouse, OpenHouseSignIn } from "@shared/schema";
+
+interface OpenHouseDraft {
+  date: string;
+  startTime: string;
+  endTime: string;
+  hostedByMe: boolean;
+  hostName: string;
+  notes: string;
+}
+
+const EMPTY_DRAFT: OpenHouseDraft = { date: "", startTime: "13:00", endTime: "16:00", hostedByMe: true, hostName: "", notes: "" };
+
+const EMPTY_SIGN_IN: OpenHouseSignIn = { name: "", email: "", phone: "" };
+
+interface TransactionOpenHousesCardProps {
+  transactionId: string;
+}
+
+export function TransactionOpenHousesCard({ transactionId }: TransactionOpenHousesCardProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<OpenHouseDraft | null>(null);
+  const [signInsFor, setSignInsFor] = useState<OpenHouse | null>(null);
+  const [signInDraft, setSignInDraft] = useState<OpenHouseSignIn>(EMPTY_SIGN_IN);
+
+  const openHousesQueryKey = ["/api/transactions", transactionId, "open-houses"];
+
+  const { data: openHouses = [], isLoading } = useQuery<OpenHouse[]>({
+    queryKey: openHousesQueryKey,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: openHousesQueryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/open-houses"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: OpenHouseDraft) => {
+      const res = await apiRequest("POST", `/api/transactions/${transactionId}/open-houses`, {
+        date: data.date,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        hostUserId: data.hostedByMe ? user?.id : null,
+        hostName: data.hostedByMe ? null : data.hostName,
+        notes: data.notes,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      setDraft(null);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Open house not scheduled", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (openHouseId: string) => {
+      await apiRequest("DELETE", `/api/transactions/${transactionId}/open-houses/${openHouseId}`);
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: "Error", description: "Failed to cancel open house", variant: "destructive" });
+    },
+  });
+
+  const signInsMutation = useMutation({
+    mutationFn: async ({ openHouseId, signIns }: { openHouseId: string; signIns: OpenHouseSignIn[] }) => {
+      const res = await apiRequest("PATCH", `/api/transactions/${transactionId}/open-houses/${openHouseId}`, { signIns });
+      return res.json() as Promise<OpenHouse>;
+    },
+    onSuccess: (openHouse) => {
+      setSignInsFor(openHouse);
+      setSignInDraft(EMPTY_SIGN_IN);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Sign-in sheet not saved", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const saveSignIns = (signIns: OpenHouseSignIn[]) => {
+    if (!signInsFor) return;
+    signInsMutation.mutate({ openHouseId: signInsFor.id, signIns });
+  };
+
+  const addSignIn = () => {
+    if (!signInsFor || !signInDraft.name.trim()) return;
+    saveSignIns([
+      ...(signInsFor.signIns ?? []),
+      {
+        name: signInDraft.name.trim(),
+        email: signInDraft.email?.trim() || null,
+        phone: signInDraft.phone?.trim() || null,
+      },
+    ]);
+  };
+
+  const draftValid = !!draft?.date
+    && isValidOpenHouseWindow(draft.startTime, draft.endTime)
+    && (draft.hostedByMe || !!draft.hostName.trim());
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Open Houses
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => setDraft({ ...EMPTY_DRAFT })} data-testid="button-add-open-house">
+            <Plus className="h-4 w-4 mr-1" />
+            Schedule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : openHouses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No open houses scheduled</p>
+        ) : (
+          <div className="divide-y">
+            {openHouses.map((openHouse) => {
+              const upcoming = isOpenHouseUpcoming(openHouse);
+              const signInCount = openHouse.signIns?.length ?? 0;
+              return (
+                <div key={openHouse.id} className="flex items-start justify-between gap-3 py-3 first:pt-0 last:pb-0" data-testid={`open-house-${openHouse.id}`}>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-medium text-sm">{formatOpenHouseDate(openHouse.date)}</p>
+                      {!upcoming && <Badge variant="secondary" className="text-xs">Past</Badge>}
+                    </div>
+                    <div className="flex items-center gap-4 text-xs text-muted-foreground mt-1 flex-wrap">
+                      <span>{formatOpenHouseTimeRange(openHouse)}</span>
+                      {openHouse.hostName && (
+                        <span className="flex items-center gap-1"><User className="h-3 w-3" />{openHouse.hostName}</span>
+                      )}
+                      {signInCount > 0 && <span>{signInCount} sign-in{signInCount === 1 ? "" : "s"}</span>}
+                    </div>
+                    {openHouse.notes && <p className="text-xs text-muted-foreground mt-1">{openHouse.notes}</p>}
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      title="Sign-in sheet"
+                      onClick={() => {
+                        setSignInsFor(openHouse);
+                        setSignInDraft(EMPTY_SIGN_IN);
+                      }}
+                      data-testid={`button-open-house-sign-ins-${openHouse.id}`}
+                    >
+                      <ClipboardList className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => deleteMutation.mutate(openHouse.id)}
+                      data-testid={`button-delete-open-house-${openHouse.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Schedule Open House</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="open-house-date">Date</Label>
+                <Input id="open-house-date" type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} data-testid="input-schedule-open-house-date" />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="open-house-start">Start</Label>
+                  <Input id="open-house-start" type="time" step={900} value={draft.startTime} onChange={(e) => setDraft({ ...draft, startTime: e.target.value })} data-testid="input-schedule-open-house-start" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="open-house-end">End</Label>
+                  <Input id="open-house-end" type="time" step={900} value={draft.endTime} onChange={(e) => setDraft({ ...draft, endTime: e.target.value })} data-testid="input-schedule-open-house-end" />
+                </div>
+              </div>
+              {!isValidOpenHouseWindow(draft.startTime, draft.endTime) && (
+                <p className="text-xs text-destructive">End time must be after start time</p>
+              )}
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="open-house-hosted-by-me"
+                  checked={draft.hostedByMe}
+                  onCheckedChange={(checked) => setDraft({ ...draft, hostedByMe: checked === true })}
+                  data-testid="checkbox-schedule-open-house-hosted-by-me"
+                />
+                <Label htmlFor="open-house-hosted-by-me">I'm hosting</Label>
+              </div>
+              {!draft.hostedByMe && (
+                <div className="space-y-2">
+                  <Label htmlFor="open-house-host">Hosting agent</Label>
+                  <Input id="open-house-host" value={draft.hostName} onChange={(e) => setDraft({ ...draft, hostName: e.target.value })} data-testid="input-schedule-open-house-host" />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="open-house-notes">Notes</Label>
+                <Textarea id="open-house-notes" rows={2} value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} data-testid="input-schedule-open-house-notes" />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => draft && createMutation.mutate(draft)}
+              disabled={!draftValid || createMutation.isPending}
+              data-testid="button-save-open-house"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!signInsFor} onOpenChange={(open) => !open && setSignInsFor(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Sign-in Sheet</DialogTitle>
+          </DialogHeader>
+          {signInsFor && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {formatOpenHouseDate(signInsFor.date)}, {formatOpenHouseTimeRange(signInsFor)}
+              </p>
+              {(signInsFor.signIns ?? []).length === 0 ? (
+                <p className="text-sm text-muted-foreground">No visitors recorded yet</p>
+              ) : (
+                <div className="divide-y border rounded-md max-h-60 overflow-y-auto">
+                  {(signInsFor.signIns ?? []).map((signIn, index) => (
+                    <div key={index} className="flex items-center justify-between gap-2 px-3 py-2" data-testid={`open-house-sign-in-${index}`}>
+                      <div className="min-w-0 text-sm">
+                        <p className="font-medium">{signIn.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {[signIn.email, signIn.phone].filter(Boolean).join(" · ")}
+                        </p>
+                      </div>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        disabled={signInsMutation.isPending}
+                        onClick={() => saveSignIns((signInsFor.signIns ?? []).filter((_, i) => i !== index))}
+                        data-testid={`button-delete-sign-in-${index}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Add visitor</Label>
+                <Input placeholder="Name" value={signInDraft.name} onChange={(e) => setSignInDraft({ ...signInDraft, name: e.target.value })} data-testid="input-sign-in-name" />
+                <div className="grid grid-cols-2 gap-2">
+                  <Input type="email" placeholder="Email" value={signInDraft.email ?? ""} onChange={(e) => setSignInDraft({ ...signInDraft, email: e.target.value })} data-testid="input-sign-in-email" />
+                  <Input placeholder="Phone" value={signInDraft.phone ?? ""} onChange={(e) => setSignInDraft({ ...signInDraft, phone: e.target.value })} data-testid="input-sign-in-phone" />
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSignInsFor(null)}>Done</Button>
+            <Button
+              onClick={addSignIn}
+              disabled={!signInDraft.name.trim() || signInsMutation.isPending}
+              data-testid="button-add-sign-in"
+            >
+              {signInsMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { LineChart as LineChartIcon, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+import { getStatusLabel } from "@/lib/utils/status-colors";
+import { formatCurrency } from "@shared/lib/commission";
+import { getTotalPriceChange } from "@shared/lib/listing-history";
+import type { MLSListingHistoryEntry } from "@shared/schema";
+
+const chartConfig = {
+  listPrice: { label: "List price", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+function formatPriceTick(value: number): string {
+  if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(2)}M`;
+  return `$${Math.round(value / 1000)}K`;
+}
+
+interface TransactionPriceHistoryCardProps {
+  transactionId: string;
+}
+
+/**
+ * List price over time from MLS sync snapshots, with status changes listed below.
+ * History starts with the first sync after it was enabled, so older listings show a partial picture.
+ */
+export function TransactionPriceHistoryCard({ transactionId }: TransactionPriceHistoryCardProps) {
+  const { data: history = [], isLoading } = useQuery<MLSListingHistoryEntry[]>({
+    queryKey: ["/api/transactions", transactionId, "listing-history"],
+  });
+
+  const points = history
+    .filter((entry) => entry.listPrice && entry.capturedAt)
+    .map((entry) => ({
+      date: format(new Date(entry.capturedAt!), "MMM d"),
+      listPrice: entry.listPrice,
+    }));
+  const statusChanges = history.filter((entry, index) => index > 0 && entry.status !== history[index - 1].status);
+  const totalChange = getTotalPriceChange(history);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <LineChartIcon className="h-4 w-4" />
+          Price History
+        </CardTitle>
+        {totalChange && totalChange.amount !== 0 && (
+          <CardDescription
+            className={cn(totalChange.amount < 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400")}
+            data-testid="text-total-price-change"
+          >
+            {totalChange.amount > 0 ? "+" : "-"}{formatCurrency(Math.abs(totalChange.amount))} ({totalChange.percent > 0 ? "+" : ""}{totalChange.percent}%) since first synced
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : points.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No price history yet - it builds up with each MLS sync</p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-[200px] w-full">
+            <LineChart data={points}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={64} domain={["auto", "auto"]} tickFormatter={formatPriceTick} />
+              <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatCurrency(Number(value))} />} />
+              <Line type="stepAfter" dataKey="listPrice" stroke="var(--color-listPrice)" strokeWidth={2} dot />
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        {statusChanges.length > 0 && (
+          <div className="space-y-1">
+            {statusChanges.map((entry) => (
+              <div key={entry.id} className="flex justify-between gap-3 text-sm" data-testid={`listing-status-change-${entry.id}`}>
+                <span>{getStatusLabel(entry.status || "Unknown")}</span>
+                <span className="text-muted-foreground">
+                  {entry.capturedAt ? format(new Date(entry.capturedAt), "MMM d, yyyy") : ""}
+                  {entry.daysOnMarket !== null ? ` · ${entry.daysOnMarket} DOM` : ""}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
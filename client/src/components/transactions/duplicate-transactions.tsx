@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { AlertTriangle, GitMerge, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DUPLICATE_REASON_LABELS, type DuplicateCheck, type DuplicateTransaction, type HiddenDuplicate } from "@shared/lib/duplicates";
+import { getTransactionStatusLabel } from "@shared/lib/status-machine";
+import type { Transaction } from "@shared/schema";
+
+/**
+ * apiRequest errors look like `409: {"code": "duplicate_transaction", ...}`; returns
+ * the duplicates when the create was rejected for that reason.
+ */
+export function getDuplicatesFromError(error: Error): DuplicateCheck | null {
+  if (!error.message.startsWith("409:")) return null;
+  try {
+    const body = JSON.parse(error.message.replace(/^409:\s*/, ""));
+    if (body.code !== "duplicate_transaction") return null;
+    return { duplicates: body.duplicates ?? [], hidden: body.hidden ?? [] };
+  } catch {
+    return null;
+  }
+}
+
+function formatReasons(reasons: HiddenDuplicate["reasons"]) {
+  return reasons.map((reason) => DUPLICATE_REASON_LABELS[reason]).join(", ");
+}
+
+// Matches the user can't open: only the owner and why they matched, no link
+function HiddenDuplicateList({ hidden }: { hidden: HiddenDuplicate[] }) {
+  return (
+    <>
+      {hidden.map((duplicate, index) => (
+        <p key={index} className="text-sm text-muted-foreground" data-testid={`hidden-duplicate-${index}`}>
+          Another agent's transaction
+          {duplicate.ownerName && ` · ${duplicate.ownerName}`}
+          {" · "}
+          {formatReasons(duplicate.reasons)}
+        </p>
+      ))}
+    </>
+  );
+}
+
+function DuplicateList({ duplicates, hidden = [] }: { duplicates: DuplicateTransaction[]; hidden?: HiddenDuplicate[] }) {
+  return (
+    <div className="space-y-2">
+      {duplicates.map((duplicate) => (
+        <div key={duplicate.id} className="border rounded-md p-2 text-sm" data-testid={`duplicate-${duplicate.id}`}>
+          <p className="font-medium text-foreground">{duplicate.propertyAddress}</p>
+          <p className="text-xs text-muted-foreground">
+            {getTransactionStatusLabel(duplicate.status)}
+            {duplicate.ownerName && ` · ${duplicate.ownerName}`}
+            {duplicate.mlsNumber && ` · MLS# ${duplicate.mlsNumber}`}
+          </p>
+          <div className="flex gap-1 mt-1">
+            {duplicate.reasons.map((reason) => (
+              <Badge key={reason} variant="secondary" className="text-xs">{DUPLICATE_REASON_LABELS[reason]}</Badge>
+            ))}
+          </div>
+        </div>
+      ))}
+      <HiddenDuplicateList hidden={hidden} />
+    </div>
+  );
+}
+
+interface DuplicateWarningDialogProps {
+  check: DuplicateCheck | null;
+  onCancel: () => void;
+  onConfirm: () => void;
+  isPending?: boolean;
+}
+
+// Shown when creating a transaction that matches an open one
+export function DuplicateWarningDialog({ check, onCancel, onConfirm, isPending }: DuplicateWarningDialogProps) {
+  return (
+    <AlertDialog open={!!check} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Possible duplicate
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            This property already has an open transaction. Creating another one also creates another Slack channel and Gmail filter.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {check && <DuplicateList duplicates={check.duplicates} hidden={check.hidden} />}
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm} disabled={isPending} data-testid="button-create-duplicate">
+            {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Anyway
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+/**
+ * Banner on a transaction that has open duplicates. Admins can merge a duplicate
+ * into this transaction, which moves its records and removes its channel and filter.
+ */
+export function DuplicateTransactionsBanner({ transaction }: { transaction: Transaction }) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [mergeSource, setMergeSource] = useState<DuplicateTransaction | null>(null);
+
+  const { data } = useQuery<DuplicateCheck>({
+    queryKey: ["/api/transactions", transaction.id, "duplicates"],
+  });
+  const duplicates = data?.duplicates ?? [];
+  const hidden = data?.hidden ?? [];
+
+  const mergeMutation = useMutation({
+    mutationFn: async (sourceId: string) => {
+      const res = await apiRequest("POST", `/api/admin/transactions/${transaction.id}/merge`, { sourceId });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Transactions merged", description: `The duplicate was merged into ${transaction.propertyAddress}.` });
+      setMergeSource(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const count = duplicates.length + hidden.length;
+  if (count === 0) return null;
+
+  return (
+    <Alert className="border-amber-300 bg-amber-50 dark:bg-amber-950/30" data-testid="alert-duplicates">
+      <AlertTriangle className="h-4 w-4 text-amber-500" />
+      <AlertTitle>Possible duplicate{count > 1 ? "s" : ""}</AlertTitle>
+      <AlertDescription className="space-y-2">
+        {duplicates.map((duplicate) => (
+          <div key={duplicate.id} className="flex items-center justify-between gap-2 flex-wrap">
+            <span className="text-sm">
+              <Link href={`/transactions/${duplicate.id}`} className="underline">{duplicate.propertyAddress}</Link>
+              {duplicate.ownerName && ` · ${duplicate.ownerName}`}
+              {" · "}
+              {formatReasons(duplicate.reasons)}
+            </span>
+            {can("admin") && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setMergeSource(duplicate)}
+                data-testid={`button-merge-${duplicate.id}`}
+              >
+                <GitMerge className="h-4 w-4 mr-1" />
+                Merge Into This
+              </Button>
+            )}
+          </div>
+        ))}
+        <HiddenDuplicateList hidden={hidden} />
+      </AlertDescription>
+
+      <AlertDialog open={!!mergeSource} onOpenChange={(open) => !open && setMergeSource(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge duplicate transaction?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Activities, documents, photos, marketing assets, flyers and contacts from the duplicate move to this
+              transaction. The duplicate is deleted, its Slack channel archived and its Gmail filter removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {mergeSource && <DuplicateList duplicates={[mergeSource]} />}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => mergeSource && mergeMutation.mutate(mergeSource.id)}
+              disabled={mergeMutation.isPending}
+              data-testid="button-confirm-merge"
+            >
+              {mergeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Alert>
+  );
+}
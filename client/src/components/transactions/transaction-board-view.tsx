@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import { SORT_OPTIONS, useTransactionColumn, type SortOption } from "@/lib/transaction-filters";
+import { getStatusConfig } from "@/lib/utils/status-colors";
+import { cn } from "@/lib/utils";
+import { VersionConflictDialog, useVersionConflict, versionHeaders } from "./version-conflict";
+import { getStatusOptions, getTransactionStatusLabel, type StatusOption } from "@shared/lib/status-machine";
+import { transactionStatuses, type Coordinator, type Transaction } from "@shared/schema";
+import type { TransactionQuery } from "@shared/lib/transaction-query";
+
+// Sorting by status inside a single-status column does nothing
+const COLUMN_SORT_OPTIONS = SORT_OPTIONS.filter((option) => option.field !== "status");
+
+function getSortKey(option: SortOption): string {
+  return `${option.field}:${option.direction}`;
+}
+
+function formatDate(dateStr: string | null | undefined): string | null {
+  if (!dateStr) return null;
+  return new Date(`${dateStr.slice(0, 10)}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+interface BoardCardProps {
+  transaction: Transaction;
+  coordinators: Coordinator[];
+  onClick?: () => void;
+}
+
+function BoardCardContent({ transaction, coordinators }: Pick<BoardCardProps, "transaction" | "coordinators">) {
+  const closing = formatDate(transaction.closingDate);
+  const names = coordinators
+    .filter((c) => transaction.coordinatorIds?.includes(c.id))
+    .map((c) => c.name);
+
+  return (
+    <>
+      <p className="font-medium text-sm leading-snug">{transaction.propertyAddress}</p>
+      <div className="flex items-center justify-between gap-2 mt-1 text-xs text-muted-foreground">
+        <span>{transaction.mlsNumber ? `MLS# ${transaction.mlsNumber}` : "Off Market"}</span>
+        {closing && <span>Closes {closing}</span>}
+      </div>
+      {names.length > 0 && <p className="mt-1 text-xs text-muted-foreground truncate">{names.join(", ")}</p>}
+    </>
+  );
+}
+
+function BoardCard({ transaction, coordinators, onClick }: BoardCardProps) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: transaction.id,
+    data: transaction,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      onClick={onClick}
+      className={cn(
+        "bg-card rounded-md border p-3 cursor-grab hover-elevate",
+        isDragging && "opacity-40"
+      )}
+      data-testid={`board-card-${transaction.id}`}
+      {...listeners}
+      {...attributes}
+    >
+      <BoardCardContent transaction={transaction} coordinators={coordinators} />
+    </div>
+  );
+}
+
+interface BoardColumnProps {
+  status: string;
+  listQuery: TransactionQuery;
+  sort: SortOption;
+  onSortChange: (sort: SortOption) => void;
+  coordinators: Coordinator[];
+  onTransactionClick: (id: string) => void;
+  // The dragged card's status, and the status machine's verdict on moving it here
+  dragSource: string | null;
+  dropOption?: StatusOption;
+}
+
+function BoardColumn({ status, listQuery, sort, onSortChange, coordinators, onTransactionClick, dragSource, dropOption }: BoardColumnProps) {
+  const { transactions, count, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useTransactionColumn(listQuery, status, sort);
+  const canDrop = !!dropOption?.allowed;
+  const blocked = dragSource !== null && dragSource !== status && !canDrop;
+  const { setNodeRef, isOver } = useDroppable({ id: status, disabled: !canDrop });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "flex w-72 shrink-0 flex-col rounded-lg border bg-muted/40",
+        blocked && "opacity-50",
+        isOver && canDrop && "ring-2 ring-primary"
+      )}
+      title={blocked ? (dropOption?.reason ?? `Can't move from ${getTransactionStatusLabel(dragSource!)}`) : undefined}
+      data-testid={`board-column-${status}`}
+    >
+      <div className="space-y-2 border-b p-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <span className={cn("h-2.5 w-2.5 rounded-full", getStatusConfig(status).dot)} />
+            <h3 className="text-sm font-semibold">{getTransactionStatusLabel(status)}</h3>
+          </div>
+          <Badge variant="secondary" data-testid={`badge-column-count-${status}`}>{count}</Badge>
+        </div>
+        <Select
+          value={getSortKey(sort)}
+          onValueChange={(key) => {
+            const option = COLUMN_SORT_OPTIONS.find((o) => getSortKey(o) === key);
+            if (option) onSortChange(option);
+          }}
+        >
+          <SelectTrigger className="h-8 text-xs" data-testid={`select-column-sort-${status}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {COLUMN_SORT_OPTIONS.map((option) => (
+              <SelectItem key={getSortKey(option)} value={getSortKey(option)}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex-1 space-y-2 overflow-y-auto p-2 max-h-[calc(100vh-320px)] min-h-[120px]">
+        {isLoading ? (
+          [1, 2].map((i) => <Skeleton key={i} className="h-16 w-full" />)
+        ) : (
+          transactions.map((transaction) => (
+            <BoardCard
+              key={transaction.id}
+              transaction={transaction}
+              coordinators={coordinators}
+              onClick={() => onTransactionClick(transaction.id)}
+            />
+          ))
+        )}
+        {hasNextPage && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            data-testid={`button-column-more-${status}`}
+          >
+            {isFetchingNextPage ? "Loading..." : "Load More"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface TransactionBoardViewProps {
+  listQuery: TransactionQuery;
+  listSort: SortOption;
+  boardSorts: Partial<Record<string, SortOption>>;
+  onColumnSortChange: (status: string, sort: SortOption) => void;
+  coordinators: Coordinator[];
+  onTransactionClick: (id: string) => void;
+}
+
+/**
+ * One column per status. Dropping a card on another column PATCHes its status; the
+ * status machine decides which columns accept it, and the server re-checks on save.
+ */
+export function TransactionBoardView({
+  listQuery,
+  listSort,
+  boardSorts,
+  onColumnSortChange,
+  coordinators,
+  onTransactionClick,
+}: TransactionBoardViewProps) {
+  const { toast } = useToast();
+  const { handleConflict, dialogProps: conflictDialogProps } = useVersionConflict();
+  const [dragged, setDragged] = useState<Transaction | null>(null);
+
+  // Require a small movement before a drag starts so clicking a card still opens it
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+
+  // A status filter narrows the board to those columns
+  const columns = listQuery.status && listQuery.status.length > 0
+    ? transactionStatuses.filter((status) => listQuery.status!.includes(status))
+    : transactionStatuses;
+
+  // The list sort may be by status, which columns don't offer
+  const defaultSort = listSort.field === "status" ? COLUMN_SORT_OPTIONS[0] : listSort;
+
+  const dropOptions = new Map<string, StatusOption>(
+    dragged
+      ? getStatusOptions(dragged.status, {
+          contractDate: dragged.contractDate,
+          closingDate: dragged.closingDate,
+        }).map((option) => [option.status, option])
+      : []
+  );
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ transaction, status, version = transaction.version }: { transaction: Transaction; status: string; version?: number }) => {
+      const res = await apiRequest("PATCH", `/api/transactions/${transaction.id}`, { status }, versionHeaders(version));
+      return res.json();
+    },
+    onSuccess: (_data, { transaction, status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({ title: `${transaction.propertyAddress} moved to ${getTransactionStatusLabel(status)}` });
+    },
+    onError: (error: Error, variables) => {
+      if (handleConflict(error, (version) => updateStatusMutation.mutate({ ...variables, version }))) return;
+      toast({ title: "Status not changed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleDragStart = ({ active }: DragStartEvent) => {
+    setDragged((active.data.current as Transaction | undefined) ?? null);
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setDragged(null);
+    const transaction = active.data.current as Transaction | undefined;
+    if (!transaction || !over || over.id === transaction.status) return;
+    updateStatusMutation.mutate({ transaction, status: String(over.id) });
+  };
+
+  return (
+    <>
+      <DndContext
+        sensors={sensors}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => setDragged(null)}
+      >
+        <div className="flex gap-3 overflow-x-auto pb-2" data-testid="transaction-board">
+          {columns.map((status) => (
+            <BoardColumn
+              key={status}
+              status={status}
+              listQuery={listQuery}
+              sort={boardSorts[status] ?? defaultSort}
+              onSortChange={(sort) => onColumnSortChange(status, sort)}
+              coordinators={coordinators}
+              onTransactionClick={onTransactionClick}
+              dragSource={dragged?.status ?? null}
+              dropOption={dropOptions.get(status)}
+            />
+          ))}
+        </div>
+        <DragOverlay>
+          {dragged && (
+            <div className="bg-card rounded-md border p-3 shadow-lg w-72 cursor-grabbing">
+              <BoardCardContent transaction={dragged} coordinators={coordinators} />
+            </div>
+          )}
+        </DragOverlay>
+      </DndContext>
+      {updateStatusMutation.isPending && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Updating status...
+        </div>
+      )}
+      <VersionConflictDialog {...conflictDialogProps} />
+    </>
+  );
+}
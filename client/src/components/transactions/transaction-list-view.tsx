@@ -2,6 +2,7 @@ import { ChevronRight } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import type { Transaction, Coordinator } from "@shared/schema";
+import { getTransactionStatusLabel } from "@shared/lib/status-machine";
 import { getStatusConfig } from "@/lib/utils/status-colors";
 
 interface TransactionListViewProps {
@@ -36,18 +37,6 @@ function calculateDaysRemaining(transaction: Transaction): number | null {
   return Math.ceil((target.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
 }
 
-function getStatusLabel(status: string): string {
-  const labels: Record<string, string> = {
-    coming_soon: "Coming Soon",
-    active: "Active",
-    in_contract: "In Contract",
-    pending: "Pending",
-    clear_to_close: "Clear to Close",
-    closed: "Closed",
-  };
-  return labels[status] || status;
-}
-
 function DaysIndicator({ transaction }: { transaction: Transaction }) {
   const days = calculateDaysRemaining(transaction);
   
@@ -95,7 +84,7 @@ export function TransactionListView({
                 variant="secondary" 
                 className={`${statusConfig.badge} shrink-0`}
               >
-                {getStatusLabel(transaction.status)}
+                {getTransactionStatusLabel(transaction.status)}
               </Badge>
               <div className="min-w-0">
                 <h3 className="font-semibold text-foreground truncate">
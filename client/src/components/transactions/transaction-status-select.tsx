@@ -0,0 +1,78 @@
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import { VersionConflictDialog, useVersionConflict, versionHeaders } from "./version-conflict";
+import { getStatusOptions, getTransactionStatusLabel } from "@shared/lib/status-machine";
+import type { Transaction } from "@shared/schema";
+
+interface TransactionStatusSelectProps {
+  transaction: Transaction;
+  className?: string;
+}
+
+/**
+ * Status picker driven by the shared status machine: only reachable statuses are
+ * listed, and statuses blocked by a guard are shown disabled with the reason.
+ */
+export function TransactionStatusSelect({ transaction, className }: TransactionStatusSelectProps) {
+  const { toast } = useToast();
+  const { handleConflict, dialogProps: conflictDialogProps } = useVersionConflict();
+
+  const options = getStatusOptions(transaction.status, {
+    contractDate: transaction.contractDate,
+    closingDate: transaction.closingDate,
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ status, version = transaction.version }: { status: string; version?: number }) => {
+      const res = await apiRequest("PATCH", `/api/transactions/${transaction.id}`, { status }, versionHeaders(version));
+      return res.json();
+    },
+    onSuccess: (_data, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({ title: `Status changed to ${getTransactionStatusLabel(status)}` });
+    },
+    onError: (error: Error, variables) => {
+      if (handleConflict(error, (version) => updateStatusMutation.mutate({ ...variables, version }))) return;
+      toast({ title: "Status not changed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <>
+      <Select
+        value={transaction.status}
+        onValueChange={(status) => updateStatusMutation.mutate({ status })}
+        disabled={updateStatusMutation.isPending || options.length === 0}
+      >
+        <SelectTrigger className={className} data-testid="select-transaction-status">
+          {updateStatusMutation.isPending && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={transaction.status} data-testid={`option-status-${transaction.status}`}>
+            {getTransactionStatusLabel(transaction.status)}
+          </SelectItem>
+          {options.map((option) => (
+            <SelectItem
+              key={option.status}
+              value={option.status}
+              disabled={!option.allowed}
+              data-testid={`option-status-${option.status}`}
+            >
+              <div>
+                <div>{option.label}</div>
+                {option.reason && (
+                  <div className="text-xs text-muted-foreground max-w-[220px] whitespace-normal">{option.reason}</div>
+                )}
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <VersionConflictDialog {...conflictDialogProps} />
+    </>
+  );
+}
@@ -11,6 +11,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import type { Transaction, Coordinator } from "@shared/schema";
+import { getTransactionStatusLabel } from "@shared/lib/status-machine";
 import type { SortOption, SortField } from "@/lib/transaction-filters";
 import { SORT_OPTIONS } from "@/lib/transaction-filters";
 import { getStatusConfig } from "@/lib/utils/status-colors";
@@ -49,18 +50,6 @@ function calculateDaysRemaining(transaction: Transaction): number | null {
   return Math.ceil((target.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
 }
 
-function getStatusLabel(status: string): string {
-  const labels: Record<string, string> = {
-    coming_soon: "Coming Soon",
-    active: "Active",
-    in_contract: "In Contract",
-    pending: "Pending",
-    clear_to_close: "Clear to Close",
-    closed: "Closed",
-  };
-  return labels[status] || status;
-}
-
 interface SortableHeaderProps {
   field: SortField;
   label: string;
@@ -184,7 +173,7 @@ export function TransactionTableView({
                     variant="secondary" 
                     className={statusConfig.badge}
                   >
-                    {getStatusLabel(transaction.status)}
+                    {getTransactionStatusLabel(transaction.status)}
                   </Badge>
                 </TableCell>
                 <TableCell className="text-muted-foreground">
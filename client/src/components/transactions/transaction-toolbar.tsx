@@ -1,8 +1,11 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { 
   LayoutGrid, 
   List, 
   Table2, 
+  Columns3,
+  CalendarDays,
   SortAsc, 
   SortDesc, 
   Filter, 
@@ -58,6 +61,7 @@ export function TransactionToolbar({
   filteredCount,
   coordinators,
 }: TransactionToolbarProps) {
+  const [, navigate] = useLocation();
   const [showFilters, setShowFilters] = useState(false);
 
   return (
@@ -159,6 +163,24 @@ export function TransactionToolbar({
             >
               <Table2 className="h-4 w-4" />
             </Button>
+            <Button
+              variant={viewMode === "board" ? "default" : "outline"}
+              size="icon"
+              onClick={() => onViewModeChange("board")}
+              title="Board View"
+              data-testid="button-view-board"
+            >
+              <Columns3 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => navigate("/calendar")}
+              title="Calendar"
+              data-testid="button-view-calendar"
+            >
+              <CalendarDays className="h-4 w-4" />
+            </Button>
           </div>
         </div>
       </div>
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { queryClient } from "@/lib/queryClient";
+import { formatFieldValue, getFieldLabel } from "@shared/lib/field-history";
+import type { Transaction } from "@shared/schema";
+
+// Body of the server's 409 when If-Match is stale
+export interface VersionConflict {
+  message: string;
+  currentVersion: number;
+  changedFields: string[];
+  conflictingFields: string[];
+  transaction: Transaction;
+}
+
+// Sent with every transaction write so the server can reject a stale edit
+export function versionHeaders(version: number): Record<string, string> {
+  return { "If-Match": `"${version}"` };
+}
+
+// apiRequest errors look like `409: {"code": "version_conflict", ...}`
+export function getVersionConflict(error: Error): VersionConflict | null {
+  if (!error.message.startsWith("409:")) return null;
+  try {
+    const body = JSON.parse(error.message.replace(/^409:\s*/, ""));
+    return body.code === "version_conflict" ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+interface PendingConflict {
+  conflict: VersionConflict;
+  overwrite: (version: number) => void;
+}
+
+/**
+ * Conflict handling for transaction mutations. Call handleConflict from onError with
+ * a retry that takes the version to send; it returns false for any other error.
+ * Spread dialogProps onto a VersionConflictDialog.
+ */
+export function useVersionConflict() {
+  const [pending, setPending] = useState<PendingConflict | null>(null);
+
+  const handleConflict = (error: Error, overwrite: (version: number) => void): boolean => {
+    const conflict = getVersionConflict(error);
+    if (!conflict) return false;
+    setPending({ conflict, overwrite });
+    return true;
+  };
+
+  const dialogProps: VersionConflictDialogProps = {
+    conflict: pending?.conflict ?? null,
+    onCancel: () => setPending(null),
+    onReload: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      setPending(null);
+    },
+    onOverwrite: () => {
+      if (pending) pending.overwrite(pending.conflict.currentVersion);
+      setPending(null);
+    },
+  };
+
+  return { handleConflict, dialogProps };
+}
+
+interface VersionConflictDialogProps {
+  conflict: VersionConflict | null;
+  onCancel: () => void;
+  onReload: () => void;
+  onOverwrite: () => void;
+}
+
+// Someone saved this transaction since it was loaded: reload their changes or keep ours
+export function VersionConflictDialog({ conflict, onCancel, onReload, onOverwrite }: VersionConflictDialogProps) {
+  const fields = conflict
+    ? (conflict.conflictingFields.length > 0 ? conflict.conflictingFields : conflict.changedFields)
+    : [];
+
+  return (
+    <AlertDialog open={!!conflict} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Changed by someone else
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {conflict?.conflictingFields.length
+              ? "These fields were changed after you opened this transaction. Overwriting replaces their values with yours."
+              : "This transaction was changed after you opened it. Reload to see the latest version before editing."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {conflict && fields.length > 0 && (
+          <div className="divide-y text-sm border rounded-md px-3" data-testid="list-conflicting-fields">
+            {fields.map((field) => (
+              <div key={field} className="flex items-center justify-between gap-2 py-2">
+                <span className="font-medium">{getFieldLabel(field)}</span>
+                <span className="text-muted-foreground break-words text-right">
+                  {formatFieldValue(conflict.transaction[field as keyof Transaction])}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="outline" onClick={onOverwrite} data-testid="button-conflict-overwrite">
+            Overwrite
+          </Button>
+          <AlertDialogAction onClick={onReload} data-testid="button-conflict-reload">
+            Reload
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
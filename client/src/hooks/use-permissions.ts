@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { hasPermission, type Permission } from "@shared/lib/permissions";
+import type { MemberRole } from "@shared/schema";
+
+interface PermissionsResponse {
+  roles: MemberRole[];
+  permissions: Permission[];
+}
+
+export function usePermissions() {
+  const { data, isLoading } = useQuery<PermissionsResponse>({
+    queryKey: ["/api/permissions"],
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  const permissions = data?.permissions ?? [];
+
+  return {
+    roles: data?.roles ?? [],
+    permissions,
+    isLoading,
+    can: (permission: Permission) => hasPermission(permissions, permission),
+  };
+}
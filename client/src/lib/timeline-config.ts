@@ -1,4 +1,4 @@
-import { Home, Package, RefreshCw, DollarSign, BarChart3, Camera, FileText, Trash2, Download, FolderUp, Palette, Newspaper, Sparkles, Pencil, User, StickyNote, Calendar, Target, Clock, Mail, MessageSquare, Pin, FileCheck } from 'lucide-react';
+import { Home, Package, RefreshCw, DollarSign, BarChart3, Camera, FileText, Trash2, Download, FolderUp, Palette, Newspaper, Sparkles, Pencil, User, StickyNote, Calendar, Target, Clock, Mail, MessageSquare, Pin, FileCheck, CheckSquare, Square, CircleCheck, CircleX, CircleSlash, Bell } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 
 export interface TimelineEventConfig {
@@ -44,6 +44,8 @@ export const TIMELINE_EVENT_CONFIG: Record<string, TimelineEventConfig> = {
   'coordinator_removed': { icon: User, color: 'text-gray-600', bgColor: 'bg-gray-100 dark:bg-gray-800/50', label: 'Removed' },
   'coordinator_added': { icon: User, color: 'text-blue-600', bgColor: 'bg-blue-100 dark:bg-blue-900/30', label: 'Added' },
   'note_added': { icon: StickyNote, color: 'text-yellow-600', bgColor: 'bg-yellow-100 dark:bg-yellow-900/30', label: 'Note' },
+  'task_completed': { icon: CheckSquare, color: 'text-green-600', bgColor: 'bg-green-100 dark:bg-green-900/30', label: 'Task' },
+  'task_reopened': { icon: Square, color: 'text-gray-600', bgColor: 'bg-gray-100 dark:bg-gray-800/50', label: 'Task' },
   
   // Dates events
   'contract_date_set': { icon: Calendar, color: 'text-blue-600', bgColor: 'bg-blue-100 dark:bg-blue-900/30', label: 'Contract Date' },
@@ -51,6 +53,11 @@ export const TIMELINE_EVENT_CONFIG: Record<string, TimelineEventConfig> = {
   'date_updated': { icon: Pencil, color: 'text-[#EF4923]', bgColor: 'bg-[#EF4923]/10 dark:bg-[#EF4923]/20/30', label: 'Date Updated' },
   'dates_updated': { icon: Calendar, color: 'text-[#EF4923]', bgColor: 'bg-[#EF4923]/10 dark:bg-[#EF4923]/20/30', label: 'Dates Updated' },
   'deadline_approaching': { icon: Clock, color: 'text-red-600', bgColor: 'bg-red-100 dark:bg-red-900/30', label: 'Deadline' },
+  'deadline_met': { icon: CircleCheck, color: 'text-green-600', bgColor: 'bg-green-100 dark:bg-green-900/30', label: 'Deadline Met' },
+  'deadline_missed': { icon: CircleX, color: 'text-red-600', bgColor: 'bg-red-100 dark:bg-red-900/30', label: 'Deadline Missed' },
+  'deadline_waived': { icon: CircleSlash, color: 'text-gray-600', bgColor: 'bg-gray-100 dark:bg-gray-800/50', label: 'Deadline Waived' },
+  'deadline_upcoming': { icon: Clock, color: 'text-blue-600', bgColor: 'bg-blue-100 dark:bg-blue-900/30', label: 'Deadline' },
+  'deadline_reminder_sent': { icon: Bell, color: 'text-[#EF4923]', bgColor: 'bg-[#EF4923]/10 dark:bg-[#EF4923]/20/30', label: 'Reminder' },
   
   // Communication events
   'email_sent': { icon: Mail, color: 'text-blue-600', bgColor: 'bg-blue-100 dark:bg-blue-900/30', label: 'Email' },
@@ -73,8 +80,8 @@ export function getCategoryFromType(eventType: string): string {
   if (eventType.startsWith('mls_') || eventType === 'price_changed' || eventType === 'photos_updated') return 'mls';
   if (eventType.startsWith('document_')) return 'documents';
   if (eventType.includes('graphic') || eventType.includes('flyer') || eventType.includes('asset') || eventType.includes('marketing') || eventType === 'quick_create_all') return 'marketing';
-  if (eventType.startsWith('coordinator_') || eventType === 'note_added') return 'team';
-  if (eventType.includes('date') || eventType === 'deadline_approaching' || eventType === 'dates_updated') return 'dates';
+  if (eventType.startsWith('coordinator_') || eventType.startsWith('task_') || eventType === 'note_added') return 'team';
+  if (eventType.includes('date') || eventType.startsWith('deadline_') || eventType === 'dates_updated') return 'dates';
   if (eventType === 'email_sent' || eventType === 'slack_notification' || eventType === 'channel_created' || eventType === 'filter_created' || eventType === 'label_created' || eventType === 'gmail_pending') return 'communication';
   return 'other';
 }
@@ -1,16 +1,23 @@
 import { useState, useMemo, useCallback, useEffect } from "react";
-import type { Transaction, Coordinator } from "@shared/schema";
+import { keepPreviousData, useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { transactionStatuses, type Transaction } from "@shared/schema";
+import { TRANSACTION_STATUS_LABELS } from "@shared/lib/status-machine";
+import {
+  buildTransactionQueryString,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  type SortDirection,
+  type TransactionPage,
+  type TransactionQuery,
+  type TransactionSortField,
+} from "@shared/lib/transaction-query";
+import { useDebounce } from "@/hooks/useDebounce";
 
-export type ViewMode = "grid" | "list" | "table";
+export type ViewMode = "grid" | "list" | "table" | "board";
 
-export type SortField = 
-  | "address" 
-  | "createdAt" 
-  | "closingDate" 
-  | "status" 
-  | "daysRemaining";
+export type SortField = TransactionSortField;
 
-export type SortDirection = "asc" | "desc";
+export type { SortDirection };
 
 export interface SortOption {
   label: string;
@@ -43,20 +50,24 @@ export const SORT_OPTIONS: SortOption[] = [
 
 export const STATUS_OPTIONS = [
   { value: "all", label: "All Statuses" },
-  { value: "coming_soon", label: "Coming Soon" },
-  { value: "active", label: "Active Listing" },
-  { value: "in_contract", label: "In Contract" },
-  { value: "pending", label: "Pending" },
-  { value: "clear_to_close", label: "Clear to Close" },
-  { value: "closed", label: "Closed" },
+  ...transactionStatuses.map((status) => ({ value: status, label: TRANSACTION_STATUS_LABELS[status] })),
 ];
 
 const STORAGE_KEY = "transaction-preferences";
 
+async function fetchTransactionPage(query: TransactionQuery, cursor: string | null): Promise<TransactionPage> {
+  const queryString = buildTransactionQueryString({ ...query, cursor });
+  const res = await fetch(`/api/transactions?${queryString}`, { credentials: "include" });
+  if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+  return res.json();
+}
+
 interface TransactionPreferences {
   viewMode: ViewMode;
   sort: SortOption;
   filters: FilterState;
+  // Board columns sort independently of the list; unset columns use the list sort
+  boardSorts: Partial<Record<string, SortOption>>;
 }
 
 const defaultFilters: FilterState = {
@@ -70,28 +81,14 @@ const defaultPreferences: TransactionPreferences = {
   viewMode: "grid",
   sort: SORT_OPTIONS[0],
   filters: defaultFilters,
+  boardSorts: {},
 };
 
-function calculateDaysRemaining(transaction: Transaction): number {
-  if (transaction.status === "closed") return Infinity;
-  
-  const targetDate = transaction.isOffMarket && transaction.goLiveDate
-    ? transaction.goLiveDate
-    : transaction.closingDate;
-    
-  if (!targetDate) return Infinity;
-  
-  const target = new Date(targetDate);
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  target.setHours(0, 0, 0, 0);
-  
-  return Math.ceil((target.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-}
-
-const STATUS_ORDER = ["coming_soon", "active", "in_contract", "pending", "clear_to_close", "closed"];
-
-export function useTransactionFilters(transactions: Transaction[]) {
+/**
+ * Filter, sort and view preferences (persisted locally) plus the matching pages of
+ * transactions. Filtering, sorting and paging happen in SQL on the server.
+ */
+export function useTransactionFilters() {
   const [preferences, setPreferences] = useState<TransactionPreferences>(() => {
     if (typeof window === "undefined") return defaultPreferences;
     
@@ -111,7 +108,7 @@ export function useTransactionFilters(transactions: Transaction[]) {
     return defaultPreferences;
   });
 
-  const { viewMode, sort, filters } = preferences;
+  const { viewMode, sort, filters, boardSorts } = preferences;
 
   useEffect(() => {
     try {
@@ -136,89 +133,47 @@ export function useTransactionFilters(transactions: Transaction[]) {
     }));
   }, []);
 
+  const setBoardSort = useCallback((status: string, sortOption: SortOption) => {
+    setPreferences(prev => ({ ...prev, boardSorts: { ...prev.boardSorts, [status]: sortOption } }));
+  }, []);
+
   const resetFilters = useCallback(() => {
     setPreferences(prev => ({ ...prev, filters: defaultFilters }));
   }, []);
 
-  const filteredTransactions = useMemo(() => {
-    return transactions.filter(transaction => {
-      if (transaction.isArchived) return false;
-      
-      if (filters.search) {
-        const searchLower = filters.search.toLowerCase();
-        const matchesSearch = 
-          transaction.propertyAddress?.toLowerCase().includes(searchLower) ||
-          transaction.mlsNumber?.toLowerCase().includes(searchLower);
-        if (!matchesSearch) return false;
-      }
-
-      if (filters.status.length > 0 && !filters.status.includes(transaction.status)) {
-        return false;
-      }
-
-      if (filters.coordinator) {
-        const hasCoordinator = transaction.coordinatorIds?.includes(filters.coordinator);
-        if (!hasCoordinator) return false;
-      }
+  // Don't refetch on every keystroke
+  const debouncedSearch = useDebounce(filters.search, 300);
 
-      if (filters.dateRange.start || filters.dateRange.end) {
-        const closingDate = transaction.closingDate 
-          ? new Date(transaction.closingDate) 
-          : null;
-        
-        if (!closingDate) return false;
-        
-        if (filters.dateRange.start && closingDate < new Date(filters.dateRange.start)) {
-          return false;
-        }
-        if (filters.dateRange.end && closingDate > new Date(filters.dateRange.end)) {
-          return false;
-        }
-      }
+  const query = useMemo(() => ({
+    status: filters.status,
+    closingFrom: filters.dateRange.start,
+    closingTo: filters.dateRange.end,
+    coordinatorId: filters.coordinator,
+    search: debouncedSearch,
+    archived: "exclude" as const,
+    sort: sort.field,
+    direction: sort.direction,
+    limit: DEFAULT_PAGE_SIZE,
+  }), [filters.status, filters.dateRange.start, filters.dateRange.end, filters.coordinator, debouncedSearch, sort]);
 
-      return true;
-    });
-  }, [transactions, filters]);
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<TransactionPage>({
+    queryKey: ["/api/transactions", "page", query],
+    queryFn: ({ pageParam }) => fetchTransactionPage(query, pageParam as string | null),
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
 
-  const sortedTransactions = useMemo(() => {
-    const sorted = [...filteredTransactions];
-    
-    sorted.sort((a, b) => {
-      let comparison = 0;
-      
-      switch (sort.field) {
-        case "address":
-          comparison = (a.propertyAddress || "").localeCompare(b.propertyAddress || "");
-          break;
-          
-        case "createdAt":
-          const createdA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-          const createdB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-          comparison = createdA - createdB;
-          break;
-          
-        case "closingDate":
-          const dateA = a.closingDate ? new Date(a.closingDate).getTime() : Infinity;
-          const dateB = b.closingDate ? new Date(b.closingDate).getTime() : Infinity;
-          comparison = dateA - dateB;
-          break;
-          
-        case "status":
-          comparison = STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status);
-          break;
-          
-        case "daysRemaining":
-          const daysA = calculateDaysRemaining(a);
-          const daysB = calculateDaysRemaining(b);
-          comparison = daysA - daysB;
-          break;
-      }
-      
-      return sort.direction === "asc" ? comparison : -comparison;
-    });
-    
-    return sorted;
-  }, [filteredTransactions, sort]);
+  const transactions = useMemo(
+    () => data?.pages.flatMap(page => page.transactions) ?? [],
+    [data]
+  );
+  const firstPage = data?.pages[0];
 
   const activeFilterCount = useMemo(() => {
     let count = 0;
@@ -229,15 +184,22 @@ export function useTransactionFilters(transactions: Transaction[]) {
   }, [filters]);
 
   return {
-    transactions: sortedTransactions,
-    totalCount: transactions.filter(t => !t.isArchived).length,
-    filteredCount: sortedTransactions.length,
+    transactions,
+    totalCount: firstPage?.totalCount ?? 0,
+    filteredCount: firstPage?.filteredCount ?? 0,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
     
+    query,
     viewMode,
     setViewMode,
     
     sort,
     setSort,
+    boardSorts,
+    setBoardSort,
     
     filters,
     setFilters,
@@ -245,3 +207,121 @@ export function useTransactionFilters(transactions: Transaction[]) {
     activeFilterCount,
   };
 }
+
+/**
+ * One board column: the list query narrowed to a single status, with the column's
+ * own sort. Shares the list's query key prefix, so invalidating
+ * ["/api/transactions"] refreshes every column.
+ */
+export function useTransactionColumn(listQuery: TransactionQuery, status: string, sort: SortOption) {
+  const query = useMemo(() => ({
+    ...listQuery,
+    status: [status],
+    sort: sort.field,
+    direction: sort.direction,
+  }), [listQuery, status, sort]);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery<TransactionPage>({
+    queryKey: ["/api/transactions", "page", query],
+    queryFn: ({ pageParam }) => fetchTransactionPage(query, pageParam as string | null),
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const transactions = useMemo(
+    () => data?.pages.flatMap(page => page.transactions) ?? [],
+    [data]
+  );
+
+  return {
+    transactions,
+    count: data?.pages[0]?.filteredCount ?? 0,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  };
+}
+
+/**
+ * Archived transactions a page at a time, searched on the server. totalCount is
+ * every archived transaction the user can see, whatever the search.
+ */
+export function useArchivedTransactions(search: string) {
+  const debouncedSearch = useDebounce(search, 300);
+
+  const query = useMemo<TransactionQuery>(() => ({
+    search: debouncedSearch,
+    archived: "only",
+    sort: "createdAt",
+    direction: "desc",
+    limit: DEFAULT_PAGE_SIZE,
+  }), [debouncedSearch]);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery<TransactionPage>({
+    queryKey: ["/api/transactions", "page", query],
+    queryFn: ({ pageParam }) => fetchTransactionPage(query, pageParam as string | null),
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const transactions = useMemo(
+    () => data?.pages.flatMap(page => page.transactions) ?? [],
+    [data]
+  );
+
+  return {
+    transactions,
+    totalCount: data?.pages[0]?.totalCount ?? 0,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  };
+}
+
+/**
+ * Unarchived transactions with a calendar date between eventsFrom and eventsTo
+ * (YYYY-MM-DD, inclusive). A month or week is small, so every page is fetched.
+ */
+export function useCalendarTransactions(eventsFrom: string, eventsTo: string) {
+  const query = useMemo<TransactionQuery>(() => ({
+    eventsFrom,
+    eventsTo,
+    archived: "exclude",
+    sort: "createdAt",
+    direction: "desc",
+    limit: MAX_PAGE_SIZE,
+  }), [eventsFrom, eventsTo]);
+
+  return useQuery<Transaction[]>({
+    queryKey: ["/api/transactions", "calendar", query],
+    queryFn: async () => {
+      const transactions: Transaction[] = [];
+      let cursor: string | null = null;
+      do {
+        const page = await fetchTransactionPage(query, cursor);
+        transactions.push(...page.transactions);
+        cursor = page.nextCursor;
+      } while (cursor);
+      return transactions;
+    },
+    placeholderData: keepPreviousData,
+  });
+}
+
+const ACTIVE_STATUSES = transactionStatuses.filter(status => status !== "closed" && status !== "cancelled");
+
+// Open, unarchived transactions, for the sidebar badge
+export function useActiveTransactionCount(): number {
+  const query: TransactionQuery = { status: ACTIVE_STATUSES, archived: "exclude" };
+  const { data } = useQuery<{ count: number }>({
+    queryKey: ["/api/transactions", "count", query],
+    queryFn: async () => {
+      const res = await fetch(`/api/transactions/count?${buildTransactionQueryString(query)}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+  });
+  return data?.count ?? 0;
+}
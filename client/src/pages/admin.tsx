@@ -4,7 +4,14 @@ import { SiSlack } from "react-icons/si";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { useAuth } from "@/hooks/use-auth";
+import { ChecklistTemplates } from "@/components/admin/ChecklistTemplates";
+import { Organizations } from "@/components/admin/Organizations";
+import { AutoArchivePolicy } from "@/components/admin/AutoArchivePolicy";
+import { ProductionReports } from "@/components/admin/ProductionReports";
+import { NetSheetFeeSchedules } from "@/components/admin/NetSheetFeeSchedules";
+import { MLSListingCache } from "@/components/admin/MLSListingCache";
+import { MLSSyncRuns } from "@/components/admin/MLSSyncRuns";
+import { usePermissions } from "@/hooks/use-permissions";
 import { useLocation } from "wouter";
 import { useEffect } from "react";
 
@@ -16,22 +23,23 @@ interface IntegrationStatus {
 }
 
 export default function Admin() {
-  const { user } = useAuth();
+  const { can, isLoading: permissionsLoading } = usePermissions();
   const [, setLocation] = useLocation();
+  const isAdmin = can("admin");
 
   // Redirect if not admin
   useEffect(() => {
-    if (user && user.isAdmin !== "true") {
+    if (!permissionsLoading && !isAdmin) {
       setLocation("/");
     }
-  }, [user, setLocation]);
+  }, [permissionsLoading, isAdmin, setLocation]);
 
   const { data: status, isLoading } = useQuery<IntegrationStatus>({
     queryKey: ["/api/admin/integration-status"],
-    enabled: user?.isAdmin === "true",
+    enabled: isAdmin,
   });
 
-  if (user?.isAdmin !== "true") {
+  if (!isAdmin) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-center">
@@ -152,6 +160,20 @@ export default function Admin() {
         ))}
       </div>
 
+      {can("reports:all") && <ProductionReports />}
+
+      <Organizations />
+
+      <ChecklistTemplates />
+
+      <NetSheetFeeSchedules />
+
+      <AutoArchivePolicy />
+
+      <MLSListingCache />
+
+      <MLSSyncRuns />
+
       <Card>
         <CardHeader>
           <CardTitle className="text-base">How to Configure API Keys</CardTitle>
@@ -18,6 +18,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useArchivedTransactions } from "@/lib/transaction-filters";
 import type { Transaction, Coordinator, Activity } from "@shared/schema";
 
 export default function Archive() {
@@ -29,9 +30,14 @@ export default function Archive() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  const { data: transactions = [], isLoading } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
-  });
+  const {
+    transactions: filteredTransactions,
+    totalCount: archivedCount,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useArchivedTransactions(searchQuery);
 
   // Delete all archived transactions mutation
   const deleteAllMutation = useMutation({
@@ -41,11 +47,12 @@ export default function Archive() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/recycle-bin"] });
       setShowDeleteDialog(false);
       setConfirmText("");
       toast({
-        title: "Archived transactions deleted",
-        description: data.message || `Successfully deleted ${data.deleted} archived transactions.`,
+        title: "Moved to recycle bin",
+        description: data.message || `Moved ${data.deleted} archived transactions to the recycle bin.`,
       });
     },
     onError: () => {
@@ -88,15 +95,6 @@ export default function Archive() {
     enabled: !!selectedTransactionId,
   });
 
-  const archivedTransactions = transactions.filter(
-    (t) => t.isArchived === true
-  );
-
-  const filteredTransactions = archivedTransactions.filter((t) => {
-    return t.propertyAddress.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      t.mlsNumber?.toLowerCase().includes(searchQuery.toLowerCase());
-  });
-
   if (selectedTransactionId && selectedTransaction) {
     return (
       <TransactionDetails
@@ -112,8 +110,6 @@ export default function Archive() {
     );
   }
 
-  const archivedCount = archivedTransactions.length;
-
   return (
     <div className="space-y-4 sm:space-y-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
@@ -146,12 +142,12 @@ export default function Archive() {
                 <AlertDialogDescription asChild>
                   <div className="space-y-3">
                     <p>
-                      This will permanently delete all <strong>{archivedCount}</strong> archived 
-                      transaction{archivedCount !== 1 ? "s" : ""}.
+                      This will move all <strong>{archivedCount}</strong> archived 
+                      transaction{archivedCount !== 1 ? "s" : ""} to the Recycle Bin.
                     </p>
                     <p className="text-red-600 dark:text-red-400 font-medium">
-                      This action cannot be undone. All transaction data, documents, 
-                      and associated files will be permanently removed.
+                      They can be restored until the retention period ends. After that, all 
+                      transaction data, documents, and associated files are permanently removed.
                     </p>
                     <div className="pt-2">
                       <label className="text-sm font-medium text-foreground">
@@ -220,28 +216,42 @@ export default function Archive() {
           ))}
         </div>
       ) : filteredTransactions.length > 0 ? (
-        <div className="grid gap-3 sm:gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
-          {filteredTransactions.map((transaction) => (
-            <TransactionCard
-              key={transaction.id}
-              transaction={transaction}
-              coordinators={coordinators}
-              onClick={() => setSelectedTransactionId(transaction.id)}
-              onMarketingClick={() => {
-                setInitialTab("marketing");
-                setSelectedTransactionId(transaction.id);
-              }}
-              onMLSClick={() => {
-                setInitialTab("mls");
-                setSelectedTransactionId(transaction.id);
-              }}
-              onDocsClick={() => {
-                setInitialTab("docs");
-                setSelectedTransactionId(transaction.id);
-              }}
-            />
-          ))}
-        </div>
+        <>
+          <div className="grid gap-3 sm:gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+            {filteredTransactions.map((transaction) => (
+              <TransactionCard
+                key={transaction.id}
+                transaction={transaction}
+                coordinators={coordinators}
+                onClick={() => setSelectedTransactionId(transaction.id)}
+                onMarketingClick={() => {
+                  setInitialTab("marketing");
+                  setSelectedTransactionId(transaction.id);
+                }}
+                onMLSClick={() => {
+                  setInitialTab("mls");
+                  setSelectedTransactionId(transaction.id);
+                }}
+                onDocsClick={() => {
+                  setInitialTab("docs");
+                  setSelectedTransactionId(transaction.id);
+                }}
+              />
+            ))}
+          </div>
+          {hasNextPage && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                data-testid="button-load-more-archived"
+              >
+                {isFetchingNextPage ? "Loading..." : "Load More"}
+              </Button>
+            </div>
+          )}
+        </>
       ) : (
         <div className="flex flex-col items-center justify-center py-16 text-center">
           <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted mb-4">
@@ -0,0 +1,352 @@
+import { useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  DndContext,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VersionConflictDialog, useVersionConflict, versionHeaders } from "@/components/transactions/version-conflict";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import { STATUS_OPTIONS, useCalendarTransactions } from "@/lib/transaction-filters";
+import { getStatusConfig } from "@/lib/utils/status-colors";
+import { cn } from "@/lib/utils";
+import { CALENDAR_EVENT_LABELS, getOpenHouseCalendarEvents, getTransactionCalendarEvents, type CalendarEvent } from "@shared/lib/calendar";
+import { formatOpenHouseTime } from "@shared/lib/open-houses";
+import type { OpenHouse, Transaction } from "@shared/schema";
+
+type CalendarView = "month" | "week";
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Events in a month cell beyond this collapse into "+N more"
+const MONTH_CELL_LIMIT = 3;
+
+function toDateKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function getVisibleDays(view: CalendarView, cursor: Date): Date[] {
+  const start = view === "month" ? startOfWeek(startOfMonth(cursor)) : startOfWeek(cursor);
+  const end = view === "month" ? endOfWeek(endOfMonth(cursor)) : endOfWeek(cursor);
+  return eachDayOfInterval({ start, end });
+}
+
+interface EventChipProps {
+  event: CalendarEvent;
+  onOpen: (transactionId: string) => void;
+}
+
+// Closing events can be dragged to another day; the other dates are edited on the transaction
+function EventChip({ event, onOpen }: EventChipProps) {
+  const draggable = event.type === "closing";
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: event.id,
+    data: event,
+    disabled: !draggable,
+  });
+  const style = transform ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` } : undefined;
+
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      style={style}
+      onClick={() => onOpen(event.transactionId)}
+      title={`${event.title} (${getStatusConfig(event.status).label})`}
+      className={cn(
+        "flex w-full items-center gap-1.5 rounded px-1.5 py-0.5 text-left text-xs hover-elevate",
+        draggable ? "cursor-grab bg-muted font-medium" : "bg-muted/50",
+        isDragging && "relative z-10 cursor-grabbing shadow-md"
+      )}
+      data-testid={`calendar-event-${event.id}`}
+      {...(draggable ? listeners : {})}
+      {...attributes}
+    >
+      <span className={cn("h-2 w-2 shrink-0 rounded-full", getStatusConfig(event.status).dot)} />
+      <span className="truncate">
+        {CALENDAR_EVENT_LABELS[event.type]}
+        {event.startTime && ` ${formatOpenHouseTime(event.startTime)}`}: {event.propertyAddress}
+      </span>
+    </button>
+  );
+}
+
+interface DayCellProps {
+  day: Date;
+  events: CalendarEvent[];
+  view: CalendarView;
+  outsideMonth: boolean;
+  onOpen: (transactionId: string) => void;
+}
+
+function DayCell({ day, events, view, outsideMonth, onOpen }: DayCellProps) {
+  const dateKey = toDateKey(day);
+  const { setNodeRef, isOver } = useDroppable({ id: dateKey });
+  const [expanded, setExpanded] = useState(false);
+  const limit = view === "month" && !expanded ? MONTH_CELL_LIMIT : events.length;
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "border-b border-r p-1.5 space-y-1",
+        view === "month" ? "min-h-[110px]" : "min-h-[320px]",
+        outsideMonth && "bg-muted/30 text-muted-foreground",
+        isOver && "bg-primary/10"
+      )}
+      data-testid={`calendar-day-${dateKey}`}
+    >
+      <div className="flex justify-end">
+        <span
+          className={cn(
+            "flex h-6 min-w-6 items-center justify-center rounded-full px-1 text-xs",
+            isToday(day) && "bg-primary text-primary-foreground font-semibold"
+          )}
+        >
+          {view === "week" ? format(day, "EEE d") : format(day, "d")}
+        </span>
+      </div>
+      {events.slice(0, limit).map((event) => (
+        <EventChip key={event.id} event={event} onOpen={onOpen} />
+      ))}
+      {events.length > limit && (
+        <button
+          type="button"
+          onClick={() => setExpanded(true)}
+          className="w-full text-left text-xs text-muted-foreground hover:underline px-1.5"
+          data-testid={`button-more-events-${dateKey}`}
+        >
+          +{events.length - limit} more
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Month/week calendar of deal dates across every visible (unarchived) transaction,
+ * colored by status. Dragging a closing event to another day moves the closing date.
+ */
+export default function CalendarPage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [view, setView] = useState<CalendarView>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+  const [status, setStatus] = useState("all");
+  const { handleConflict, dialogProps: conflictDialogProps } = useVersionConflict();
+
+  // Require a small movement before a drag starts so clicking an event still opens it
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+
+  const days = useMemo(() => getVisibleDays(view, cursor), [view, cursor]);
+
+  // Only transactions with a date on the visible days
+  const { data: transactions = [], isLoading } = useCalendarTransactions(toDateKey(days[0]), toDateKey(days[days.length - 1]));
+
+  const { data: openHouses = [] } = useQuery<OpenHouse[]>({
+    queryKey: ["/api/open-houses"],
+  });
+
+  const openHousesByTransaction = useMemo(() => {
+    const byTransaction = new Map<string, OpenHouse[]>();
+    for (const openHouse of openHouses) {
+      byTransaction.set(openHouse.transactionId, [...(byTransaction.get(openHouse.transactionId) ?? []), openHouse]);
+    }
+    return byTransaction;
+  }, [openHouses]);
+
+  const transactionsById = useMemo(
+    () => new Map(transactions.map((t) => [t.id, t])),
+    [transactions]
+  );
+
+  const eventsByDate = useMemo(() => {
+    const byDate = new Map<string, CalendarEvent[]>();
+    for (const transaction of transactions) {
+      if (transaction.isArchived) continue;
+      if (status !== "all" && transaction.status !== status) continue;
+      const events = [
+        ...getTransactionCalendarEvents(transaction),
+        ...getOpenHouseCalendarEvents(transaction, openHousesByTransaction.get(transaction.id) ?? []),
+      ];
+      for (const event of events) {
+        const list = byDate.get(event.date) ?? [];
+        list.push(event);
+        byDate.set(event.date, list);
+      }
+    }
+    // All-day dates first, then timed open houses in start order
+    for (const list of Array.from(byDate.values())) {
+      list.sort((a, b) => (a.startTime ?? "").localeCompare(b.startTime ?? ""));
+    }
+    return byDate;
+  }, [transactions, openHousesByTransaction, status]);
+
+  const legend = useMemo(() => {
+    const seen = new Map<string, string>();
+    for (const transaction of transactions) {
+      if (transaction.isArchived) continue;
+      const config = getStatusConfig(transaction.status);
+      seen.set(config.label, config.dot);
+    }
+    return Array.from(seen.entries());
+  }, [transactions]);
+
+  const moveClosingMutation = useMutation({
+    mutationFn: async ({ transactionId, closingDate, version }: { transactionId: string; closingDate: string; version: number }) => {
+      const res = await apiRequest("PATCH", `/api/transactions/${transactionId}`, { closingDate }, versionHeaders(version));
+      return res.json() as Promise<Transaction>;
+    },
+    onSuccess: (transaction) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({
+        title: "Closing date moved",
+        description: `${transaction.propertyAddress} now closes ${format(new Date(`${transaction.closingDate}T00:00:00`), "MMM d, yyyy")}.`,
+      });
+    },
+    onError: (error: Error, variables) => {
+      if (handleConflict(error, (version) => moveClosingMutation.mutate({ ...variables, version }))) return;
+      toast({ title: "Closing date not moved", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    const event = active.data.current as CalendarEvent | undefined;
+    if (!event || !over || over.id === event.date) return;
+    const transaction = transactionsById.get(event.transactionId);
+    if (!transaction) return;
+    moveClosingMutation.mutate({
+      transactionId: transaction.id,
+      closingDate: String(over.id),
+      version: transaction.version,
+    });
+  };
+
+  const step = (direction: 1 | -1) => {
+    setCursor((current) => (view === "month" ? addMonths(current, direction) : addWeeks(current, direction)));
+  };
+
+  const title = view === "month"
+    ? format(cursor, "MMMM yyyy")
+    : `${format(days[0], "MMM d")} – ${format(addDays(days[0], 6), "MMM d, yyyy")}`;
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-semibold">Calendar</h1>
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            Contract, closing, go-live and photography dates and open houses. Drag a closing to reschedule it.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-[170px]" data-testid="select-calendar-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-1">
+            <Button
+              variant={view === "month" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView("month")}
+              data-testid="button-calendar-month"
+            >
+              Month
+            </Button>
+            <Button
+              variant={view === "week" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView("week")}
+              data-testid="button-calendar-week"
+            >
+              Week
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="icon" onClick={() => step(-1)} data-testid="button-calendar-prev">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setCursor(new Date())} data-testid="button-calendar-today">
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => step(1)} data-testid="button-calendar-next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {moveClosingMutation.isPending && <Loader2 className="h-4 w-4 ml-2 animate-spin text-muted-foreground" />}
+        </div>
+        <h2 className="text-base sm:text-lg font-medium" data-testid="text-calendar-title">{title}</h2>
+      </div>
+
+      {legend.length > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {legend.map(([label, dot]) => (
+            <span key={label} className="flex items-center gap-1.5">
+              <span className={cn("h-2 w-2 rounded-full", dot)} />
+              {label}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <Skeleton className="h-[600px] w-full" />
+      ) : (
+        <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+          <div className="overflow-x-auto">
+            <div className="grid min-w-[700px] grid-cols-7 border-l border-t rounded-md">
+              {WEEKDAY_LABELS.map((label) => (
+                <div key={label} className="border-b border-r px-2 py-1 text-xs font-medium text-muted-foreground">
+                  {label}
+                </div>
+              ))}
+              {days.map((day) => (
+                <DayCell
+                  key={toDateKey(day)}
+                  day={day}
+                  view={view}
+                  events={eventsByDate.get(toDateKey(day)) ?? []}
+                  outsideMonth={view === "month" && !isSameMonth(day, cursor)}
+                  onOpen={(transactionId) => navigate(`/transactions/${transactionId}`)}
+                />
+              ))}
+            </div>
+          </div>
+        </DndContext>
+      )}
+      <VersionConflictDialog {...conflictDialogProps} />
+    </div>
+  );
+}
@@ -10,11 +10,16 @@ import { TransactionDetails } from "@/components/transaction-details";
 import { TransactionToolbar } from "@/components/transactions/transaction-toolbar";
 import { TransactionListView } from "@/components/transactions/transaction-list-view";
 import { TransactionTableView } from "@/components/transactions/transaction-table-view";
+import { TransactionBoardView } from "@/components/transactions/transaction-board-view";
+import { RevenueView } from "@/components/reports/revenue-view";
+import { PipelineView } from "@/components/reports/pipeline-view";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useTransactionFilters } from "@/lib/transaction-filters";
+import { VersionConflictDialog, useVersionConflict, versionHeaders } from "@/components/transactions/version-conflict";
 import type { Transaction, Coordinator, Activity } from "@shared/schema";
 
 interface DashboardProps {
@@ -41,14 +46,22 @@ export default function Dashboard({ createDialogOpen, setCreateDialogOpen, trans
     return urlFlyer || !!localStorage.getItem('flyerGeneratorOpen');
   });
   
+  const [dashboardView, setDashboardView] = useState<"transactions" | "analytics" | "revenue">("transactions");
   const [addMlsDialogOpen, setAddMlsDialogOpen] = useState(false);
   const [addMlsTransactionId, setAddMlsTransactionId] = useState<string | null>(null);
+  const [addMlsVersion, setAddMlsVersion] = useState<number | undefined>(undefined);
   const [mlsNumberInput, setMlsNumberInput] = useState("");
   const { toast } = useToast();
+  const { handleConflict, dialogProps: conflictDialogProps } = useVersionConflict();
   
   const addMlsMutation = useMutation({
-    mutationFn: async ({ transactionId, mlsNumber }: { transactionId: string; mlsNumber: string }) => {
-      const res = await apiRequest("PATCH", `/api/transactions/${transactionId}/add-mls`, { mlsNumber });
+    mutationFn: async ({ transactionId, mlsNumber, version }: { transactionId: string; mlsNumber: string; version?: number }) => {
+      const res = await apiRequest(
+        "PATCH",
+        `/api/transactions/${transactionId}/add-mls`,
+        { mlsNumber },
+        version !== undefined ? versionHeaders(version) : undefined,
+      );
       return res.json();
     },
     onSuccess: () => {
@@ -61,7 +74,8 @@ export default function Dashboard({ createDialogOpen, setCreateDialogOpen, trans
       setMlsNumberInput("");
       setAddMlsTransactionId(null);
     },
-    onError: (error: Error) => {
+    onError: (error: Error, variables) => {
+      if (handleConflict(error, (version) => addMlsMutation.mutate({ ...variables, version }))) return;
       toast({
         title: "Error",
         description: error.message || "Failed to add MLS number",
@@ -82,10 +96,6 @@ export default function Dashboard({ createDialogOpen, setCreateDialogOpen, trans
     }
   }, [propTransactionId, urlTab, urlFlyer]);
 
-  const { data: transactions = [], isLoading: transactionsLoading } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
-  });
-
   const { data: coordinators = [] } = useQuery<Coordinator[]>({
     queryKey: ["/api/coordinators"],
   });
@@ -112,15 +122,22 @@ export default function Dashboard({ createDialogOpen, setCreateDialogOpen, trans
     transactions: filteredTransactions,
     totalCount,
     filteredCount,
+    query,
     viewMode,
     setViewMode,
     sort,
     setSort,
+    boardSorts,
+    setBoardSort,
     filters,
     setFilters,
     resetFilters,
     activeFilterCount,
-  } = useTransactionFilters(transactions);
+    isLoading: transactionsLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useTransactionFilters();
 
   const handleTransactionClick = (id: string) => {
     setSelectedTransactionId(id);
@@ -207,6 +224,17 @@ export default function Dashboard({ createDialogOpen, setCreateDialogOpen, trans
             onSortChange={setSort}
           />
         );
+      case "board":
+        return (
+          <TransactionBoardView
+            listQuery={query}
+            listSort={sort}
+            boardSorts={boardSorts}
+            onColumnSortChange={setBoardSort}
+            coordinators={coordinators}
+            onTransactionClick={handleTransactionClick}
+          />
+        );
       case "grid":
       default:
         return (
@@ -231,6 +259,7 @@ export default function Dashboard({ createDialogOpen, setCreateDialogOpen, trans
                 }}
                 onAddMLSClick={() => {
                   setAddMlsTransactionId(transaction.id);
+                  setAddMlsVersion(transaction.version);
                   setAddMlsDialogOpen(true);
                 }}
               />
@@ -249,23 +278,51 @@ export default function Dashboard({ createDialogOpen, setCreateDialogOpen, trans
             Manage your active real estate transactions
           </p>
         </div>
+        <Tabs value={dashboardView} onValueChange={(v) => setDashboardView(v as "transactions" | "analytics" | "revenue")}>
+          <TabsList>
+            <TabsTrigger value="transactions" data-testid="tab-dashboard-transactions">Transactions</TabsTrigger>
+            <TabsTrigger value="analytics" data-testid="tab-dashboard-analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="revenue" data-testid="tab-dashboard-revenue">Revenue</TabsTrigger>
+          </TabsList>
+        </Tabs>
       </div>
 
-      <TransactionToolbar
-        viewMode={viewMode}
-        onViewModeChange={setViewMode}
-        sort={sort}
-        onSortChange={setSort}
-        filters={filters}
-        onFiltersChange={setFilters}
-        onResetFilters={resetFilters}
-        activeFilterCount={activeFilterCount}
-        totalCount={totalCount}
-        filteredCount={filteredCount}
-        coordinators={coordinators}
-      />
+      {dashboardView === "revenue" ? (
+        <RevenueView />
+      ) : dashboardView === "analytics" ? (
+        <PipelineView />
+      ) : (
+        <>
+          <TransactionToolbar
+            viewMode={viewMode}
+            onViewModeChange={setViewMode}
+            sort={sort}
+            onSortChange={setSort}
+            filters={filters}
+            onFiltersChange={setFilters}
+            onResetFilters={resetFilters}
+            activeFilterCount={activeFilterCount}
+            totalCount={totalCount}
+            filteredCount={filteredCount}
+            coordinators={coordinators}
+          />
 
-      {renderTransactionView()}
+          {renderTransactionView()}
+
+          {hasNextPage && viewMode !== "board" && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                data-testid="button-load-more-transactions"
+              >
+                {isFetchingNextPage ? "Loading..." : "Load More"}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
       
       <Dialog open={addMlsDialogOpen} onOpenChange={setAddMlsDialogOpen}>
         <DialogContent>
@@ -306,6 +363,7 @@ export default function Dashboard({ createDialogOpen, setCreateDialogOpen, trans
                   addMlsMutation.mutate({
                     transactionId: addMlsTransactionId,
                     mlsNumber: mlsNumberInput.trim(),
+                    version: addMlsVersion,
                   });
                 }
               }}
@@ -317,6 +375,8 @@ export default function Dashboard({ createDialogOpen, setCreateDialogOpen, trans
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <VersionConflictDialog {...conflictDialogProps} />
     </div>
   );
 }
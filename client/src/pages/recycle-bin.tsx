@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Search, Trash2, ArchiveRestore, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest } from "@/lib/queryClient";
+import { getTransactionStatusLabel } from "@shared/lib/status-machine";
+import { getDaysUntilPurge, type DeletedTransaction, type RecycleBinResponse } from "@shared/lib/recycle-bin";
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+export default function RecycleBin() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [purgeTarget, setPurgeTarget] = useState<DeletedTransaction | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  const { data, isLoading } = useQuery<RecycleBinResponse>({
+    queryKey: ["/api/recycle-bin"],
+  });
+  const deleted = data?.transactions ?? [];
+
+  const restoreMutation = useMutation({
+    mutationFn: async (transaction: DeletedTransaction) => {
+      const res = await apiRequest("POST", `/api/recycle-bin/${transaction.id}/restore`);
+      return res.json();
+    },
+    onSuccess: (_data, transaction) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recycle-bin"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({
+        title: "Transaction restored",
+        description: `${transaction.propertyAddress} is back ${transaction.isArchived ? "in the archive" : "in your transactions"}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to restore transaction", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (transaction: DeletedTransaction) => {
+      const res = await apiRequest("DELETE", `/api/recycle-bin/${transaction.id}`);
+      return res.json();
+    },
+    onSuccess: (_data, transaction) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recycle-bin"] });
+      setPurgeTarget(null);
+      toast({ title: "Permanently deleted", description: `${transaction.propertyAddress} and its files were removed.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete transaction", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const filtered = deleted.filter((t) =>
+    t.propertyAddress.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    t.mlsNumber?.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-semibold">Recycle Bin</h1>
+        <p className="text-xs sm:text-sm text-muted-foreground">
+          Deleted transactions can be restored for {data?.retentionDays ?? "—"} days, then they are permanently removed
+          with their documents, photos and marketing assets.
+        </p>
+      </div>
+
+      <div className="relative max-w-full sm:max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search deleted transactions..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-9 text-sm"
+          data-testid="input-search-recycle-bin"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </div>
+      ) : filtered.length > 0 ? (
+        <div className="space-y-3">
+          {filtered.map((transaction) => {
+            const daysLeft = getDaysUntilPurge(transaction.purgeAt);
+            return (
+              <Card key={transaction.id} data-testid={`recycle-bin-item-${transaction.id}`}>
+                <CardContent className="py-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium truncate">{transaction.propertyAddress}</span>
+                      <Badge variant="secondary" className="text-xs">{getTransactionStatusLabel(transaction.status)}</Badge>
+                      {transaction.isArchived && <Badge variant="outline" className="text-xs">Archived</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Deleted {formatDate(transaction.deletedAt)}
+                      {transaction.deletedBy && ` by ${transaction.deletedBy}`}
+                      {" · "}
+                      {daysLeft > 0
+                        ? `permanently deleted in ${daysLeft} day${daysLeft !== 1 ? "s" : ""}`
+                        : "permanently deleted on the next purge"}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => restoreMutation.mutate(transaction)}
+                      disabled={restoreMutation.isPending}
+                      data-testid={`button-restore-${transaction.id}`}
+                    >
+                      <ArchiveRestore className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                    {can("admin") && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => setPurgeTarget(transaction)}
+                        data-testid={`button-purge-${transaction.id}`}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete Now
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted mb-4">
+            <Trash2 className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">Recycle bin is empty</h3>
+          <p className="text-muted-foreground max-w-sm">
+            {searchQuery
+              ? "No deleted transactions match your search."
+              : "Deleted transactions will appear here until they are permanently removed."}
+          </p>
+        </div>
+      )}
+
+      <AlertDialog open={!!purgeTarget} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Permanently delete?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget?.propertyAddress} will be removed with its documents, photos and marketing assets. Its Slack
+              channel is archived and its Gmail filter removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgeTarget && purgeMutation.mutate(purgeTarget)}
+              disabled={purgeMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+              data-testid="button-confirm-purge"
+            >
+              {purgeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
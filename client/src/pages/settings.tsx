@@ -42,6 +42,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Coordinator } from "@shared/schema";
 import { NotificationPreferences } from "@/components/settings/NotificationPreferences";
+import { CalendarFeeds } from "@/components/settings/CalendarFeeds";
 
 export default function Settings() {
   const { toast } = useToast();
@@ -1463,6 +1464,8 @@ export default function Settings() {
 
       <NotificationPreferences />
 
+      <CalendarFeeds />
+
       <Card>
         <CardHeader>
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
@@ -0,0 +1,76 @@
+import { createModuleLogger } from '../lib/logger';
+import { runAutoArchive } from "../services/auto-archive";
+import type { AutoArchiveRunResult } from "@shared/lib/auto-archive";
+
+const log = createModuleLogger('auto-archive');
+
+const ARCHIVE_HOUR = 2;
+
+let isArchiving = false;
+let cronIntervalId: NodeJS.Timeout | null = null;
+let lastRunDate: string | null = null;
+let lastResult: AutoArchiveRunResult | null = null;
+
+export function initializeAutoArchiveCron(): void {
+  // Only production archives - dev instances share data with production
+  if (process.env.NODE_ENV !== 'production') {
+    log.info({ nodeEnv: process.env.NODE_ENV }, 'Skipping auto-archive job - not in production environment');
+    return;
+  }
+
+  if (cronIntervalId) {
+    clearInterval(cronIntervalId);
+  }
+
+  cronIntervalId = setInterval(async () => {
+    const now = new Date();
+    const today = now.toISOString().split('T')[0];
+
+    if (now.getHours() !== ARCHIVE_HOUR || lastRunDate === today) {
+      return;
+    }
+
+    lastRunDate = today;
+    try {
+      await runAutoArchiveJob();
+    } catch (error) {
+      log.error({ err: error }, 'Auto-archive job failed');
+    }
+  }, 60000);
+
+  log.info('Auto-archive initialized - runs daily at 2:00 AM');
+}
+
+export function stopAutoArchiveCron(): void {
+  if (cronIntervalId) {
+    clearInterval(cronIntervalId);
+    cronIntervalId = null;
+    log.info('Auto-archive stopped');
+  }
+}
+
+// null when a run is already in progress
+export async function runAutoArchiveJob(): Promise<AutoArchiveRunResult | null> {
+  if (isArchiving) {
+    log.warn('Auto-archive already running, skipping...');
+    return null;
+  }
+
+  isArchiving = true;
+  try {
+    lastResult = await runAutoArchive({ dryRun: false });
+    return lastResult;
+  } finally {
+    isArchiving = false;
+  }
+}
+
+export function getAutoArchiveCronStatus() {
+  return {
+    isRunning: cronIntervalId !== null,
+    isArchiving,
+    schedule: "Daily at 2:00 AM",
+    lastRunDate,
+    lastResult,
+  };
+}
@@ -1,5 +1,6 @@
 import { createModuleLogger } from '../lib/logger';
-import { processClosingDateNotifications, getNotificationStatus } from "../services/slackNotificationService";
+import { processClosingDateNotifications, getNotificationStatus, DAILY_NOTIFICATION_HOUR } from "../services/slackNotificationService";
+import { sendDeadlineReminders } from "../services/closing-reminders";
 
 const log = createModuleLogger('notifications');
 
@@ -29,7 +30,7 @@ export function initializeNotificationCron(): void {
     const hour = now.getHours();
     const today = now.toISOString().split('T')[0];
 
-    if (hour !== 9 || lastRunDate === today) {
+    if (hour !== DAILY_NOTIFICATION_HOUR || lastRunDate === today) {
       return;
     }
 
@@ -44,6 +45,7 @@ export function initializeNotificationCron(): void {
 
     try {
       await processClosingDateNotifications();
+      await sendDeadlineReminders();
     } catch (error) {
       log.error({ err: error }, 'Job failed');
     } finally {
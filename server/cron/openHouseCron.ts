@@ -0,0 +1,53 @@
+import { createModuleLogger } from '../lib/logger';
+import { sendOpenHouseAnnouncements } from "../services/open-house-reminders";
+
+const log = createModuleLogger('notifications');
+
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+let isProcessing = false;
+let cronIntervalId: NodeJS.Timeout | null = null;
+
+export function initializeOpenHouseCron(): void {
+  // KILL SWITCH - check FIRST before any initialization
+  if (process.env.DISABLE_SLACK_NOTIFICATIONS === 'true') {
+    log.warn('Open house announcements DISABLED - DISABLE_SLACK_NOTIFICATIONS=true');
+    return;
+  }
+
+  if (process.env.NODE_ENV !== 'production') {
+    log.info({ nodeEnv: process.env.NODE_ENV }, 'Skipping open house announcements - not in production environment');
+    return;
+  }
+
+  if (cronIntervalId) {
+    clearInterval(cronIntervalId);
+  }
+
+  // Unlike the daily reminders this runs all day: an open house can be added an hour before it starts
+  cronIntervalId = setInterval(async () => {
+    if (isProcessing) {
+      log.warn('Open house announcements already running, skipping...');
+      return;
+    }
+
+    isProcessing = true;
+    try {
+      await sendOpenHouseAnnouncements();
+    } catch (error) {
+      log.error({ err: error }, 'Open house announcement job failed');
+    } finally {
+      isProcessing = false;
+    }
+  }, CHECK_INTERVAL_MS);
+
+  log.info('Open house cron initialized - announces open houses up to 24 hours ahead');
+}
+
+export function stopOpenHouseCron(): void {
+  if (cronIntervalId) {
+    clearInterval(cronIntervalId);
+    cronIntervalId = null;
+    log.info('Open house cron stopped');
+  }
+}
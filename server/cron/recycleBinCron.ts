@@ -0,0 +1,85 @@
+import { createModuleLogger } from '../lib/logger';
+import { purgeExpiredTransactions, getRetentionDays } from "../services/recycle-bin";
+import { purgeExpiredListingCache } from "../services/mls-cache";
+
+const log = createModuleLogger('recycle-bin');
+
+const PURGE_HOUR = 3;
+
+let isPurging = false;
+let cronIntervalId: NodeJS.Timeout | null = null;
+let lastRunDate: string | null = null;
+let lastResult: { purged: number; failed: number } | null = null;
+
+export function initializeRecycleBinCron(): void {
+  // Only production purges - dev instances share data they shouldn't destroy
+  if (process.env.NODE_ENV !== 'production') {
+    log.info({ nodeEnv: process.env.NODE_ENV }, 'Skipping purge job - not in production environment');
+    return;
+  }
+
+  if (cronIntervalId) {
+    clearInterval(cronIntervalId);
+  }
+
+  cronIntervalId = setInterval(async () => {
+    const now = new Date();
+    const today = now.toISOString().split('T')[0];
+
+    if (now.getHours() !== PURGE_HOUR || lastRunDate === today) {
+      return;
+    }
+
+    lastRunDate = today;
+    try {
+      await runPurge();
+    } catch (error) {
+      log.error({ err: error }, 'Purge job failed');
+    }
+
+    // Expired MLS listing cache rows go out with the same nightly run
+    try {
+      const removed = await purgeExpiredListingCache();
+      log.info({ removed }, 'Purged expired MLS listing cache entries');
+    } catch (error) {
+      log.error({ err: error }, 'MLS listing cache purge failed');
+    }
+  }, 60000);
+
+  log.info({ retentionDays: getRetentionDays() }, 'Recycle bin purge initialized - runs daily at 3:00 AM');
+}
+
+export function stopRecycleBinCron(): void {
+  if (cronIntervalId) {
+    clearInterval(cronIntervalId);
+    cronIntervalId = null;
+    log.info('Recycle bin purge stopped');
+  }
+}
+
+// null when a purge is already in progress
+export async function runPurge(): Promise<{ purged: number; failed: number } | null> {
+  if (isPurging) {
+    log.warn('Purge already running, skipping...');
+    return null;
+  }
+
+  isPurging = true;
+  try {
+    lastResult = await purgeExpiredTransactions();
+    return lastResult;
+  } finally {
+    isPurging = false;
+  }
+}
+
+export function getRecycleBinCronStatus() {
+  return {
+    isRunning: cronIntervalId !== null,
+    isPurging,
+    schedule: "Daily at 3:00 AM",
+    retentionDays: getRetentionDays(),
+    lastRunDate,
+    lastResult,
+  };
+}
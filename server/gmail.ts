@@ -52,10 +52,37 @@ export function isGmailConfigured(): boolean {
   return !!getServiceAccountCredentials();
 }
 
+// Extract street number and name for matching (without the street type suffix)
+// Handle formats like "123 Main Street, Austin, TX 78701" -> { "123", "Main" }
+function parseStreetForFilter(propertyAddress: string): { streetNumber: string; streetName: string } | null {
+  // Common street type suffixes to remove
+  const streetTypeSuffixes = /\s+(street|st|avenue|ave|drive|dr|road|rd|lane|ln|boulevard|blvd|way|circle|cir|court|ct|place|pl|terrace|ter|trail|trl|parkway|pkwy|highway|hwy)$/i;
+  
+  const addressParts = propertyAddress.match(/^(\d+)\s+(.+?)(?:,|$)/);
+  if (!addressParts) return null;
+  
+  const streetNumber = addressParts[1];
+  // Remove street type suffix to get just the street name
+  const fullStreetName = addressParts[2].trim();
+  const streetName = fullStreetName.replace(streetTypeSuffixes, "").trim();
+  
+  return { streetNumber, streetName };
+}
+
+// Subject match alone, or subject OR sender is one of the transaction's parties
+function buildFilterCriteria(subjectPattern: string, partyEmails: string[] = []) {
+  if (partyEmails.length === 0) {
+    return { subject: subjectPattern };
+  }
+  const senders = partyEmails.map(email => `from:${email}`).join(" ");
+  return { query: `{subject:"${subjectPattern}" ${senders}}` };
+}
+
 export async function createGmailLabelAndFilter(
   userEmail: string,
   propertyAddress: string,
-  transactionId: string
+  transactionId: string,
+  partyEmails: string[] = []
 ): Promise<{ labelId: string; filterId: string } | null> {
   if (!isGmailConfigured()) {
     log.info('Gmail not configured, skipping label/filter creation');
@@ -65,21 +92,12 @@ export async function createGmailLabelAndFilter(
   try {
     const gmail = getGmailClient(userEmail);
 
-    // Extract street number and name for matching (without the street type suffix)
-    // Handle formats like "123 Main Street, Austin, TX 78701" -> "123 Main"
-    // Common street type suffixes to remove
-    const streetTypeSuffixes = /\s+(street|st|avenue|ave|drive|dr|road|rd|lane|ln|boulevard|blvd|way|circle|cir|court|ct|place|pl|terrace|ter|trail|trl|parkway|pkwy|highway|hwy)$/i;
-    
-    const addressParts = propertyAddress.match(/^(\d+)\s+(.+?)(?:,|$)/);
-    if (!addressParts) {
+    const street = parseStreetForFilter(propertyAddress);
+    if (!street) {
       log.info({ propertyAddress }, 'Could not parse address for filter');
       return null;
     }
-    
-    const streetNumber = addressParts[1];
-    // Remove street type suffix to get just the street name
-    const fullStreetName = addressParts[2].trim();
-    const streetName = fullStreetName.replace(streetTypeSuffixes, "").trim();
+    const { streetNumber, streetName } = street;
     
     // Create a label for this transaction (use full name for label)
     const labelName = `MC/${streetNumber} ${streetName}`;
@@ -114,14 +132,12 @@ export async function createGmailLabelAndFilter(
     // This handles abbreviations like Ave/Avenue, St/Street, etc.
     const subjectPattern = `${streetNumber} ${streetName}`;
     
-    log.info({ subjectPattern }, 'Creating Gmail filter for subject');
+    log.info({ subjectPattern, partyEmailCount: partyEmails.length }, 'Creating Gmail filter for subject');
     
     const filterResponse = await gmail.users.settings.filters.create({
       userId: "me",
       requestBody: {
-        criteria: {
-          subject: subjectPattern,
-        },
+        criteria: buildFilterCriteria(subjectPattern, partyEmails),
         action: {
           addLabelIds: [labelId],
         },
@@ -142,6 +158,48 @@ export async function createGmailLabelAndFilter(
   }
 }
 
+/**
+ * Gmail filters can't be edited, so replace the transaction's filter with one that
+ * also matches mail from the given party emails. Returns the new filter ID.
+ */
+export async function replaceGmailFilterForParties(
+  userEmail: string,
+  propertyAddress: string,
+  labelId: string,
+  oldFilterId: string | null,
+  partyEmails: string[]
+): Promise<string | null> {
+  if (!isGmailConfigured()) return null;
+
+  const street = parseStreetForFilter(propertyAddress);
+  if (!street) return null;
+
+  try {
+    const gmail = getGmailClient(userEmail);
+    const filterResponse = await gmail.users.settings.filters.create({
+      userId: "me",
+      requestBody: {
+        criteria: buildFilterCriteria(`${street.streetNumber} ${street.streetName}`, partyEmails),
+        action: {
+          addLabelIds: [labelId],
+        },
+      },
+    });
+
+    const filterId = filterResponse.data.id || null;
+    // Only drop the old filter once the replacement exists
+    if (filterId && oldFilterId) {
+      await deleteGmailFilter(userEmail, oldFilterId);
+    }
+
+    log.info({ userEmail, partyEmailCount: partyEmails.length }, 'Replaced Gmail filter with party emails');
+    return filterId;
+  } catch (error: any) {
+    log.error({ err: error }, 'Failed to replace Gmail filter');
+    return null;
+  }
+}
+
 export async function watchUserMailbox(
   userEmail: string,
   labelIds: string[]
@@ -246,10 +304,27 @@ export async function deleteGmailFilter(userEmail: string, filterId: string): Pr
   }
 }
 
+export async function deleteGmailLabel(userEmail: string, labelId: string): Promise<boolean> {
+  if (!isGmailConfigured()) return false;
+
+  try {
+    const gmail = getGmailClient(userEmail);
+    await gmail.users.labels.delete({
+      userId: "me",
+      id: labelId,
+    });
+    return true;
+  } catch (error: any) {
+    log.error({ err: error }, 'Failed to delete Gmail label');
+    return false;
+  }
+}
+
 // Combined function to set up Gmail for a transaction (backward compatibility)
 export async function setupGmailForTransaction(
   propertyAddress: string,
-  userEmail?: string
+  userEmail?: string,
+  partyEmails: string[] = []
 ): Promise<{ 
   labelId: string | null; 
   filterId: string | null;
@@ -260,7 +335,7 @@ export async function setupGmailForTransaction(
     return { labelId: null, filterId: null };
   }
   
-  const result = await createGmailLabelAndFilter(userEmail, propertyAddress, "");
+  const result = await createGmailLabelAndFilter(userEmail, propertyAddress, "", partyEmails);
   
   if (!result) {
     return { labelId: null, filterId: null };
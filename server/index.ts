@@ -5,6 +5,9 @@ import { serveStatic } from "./static";
 import { createServer } from "http";
 import { startRepliersSync } from "./repliers-sync";
 import { initializeNotificationCron } from "./cron/notificationCron";
+import { initializeRecycleBinCron } from "./cron/recycleBinCron";
+import { initializeAutoArchiveCron } from "./cron/autoArchiveCron";
+import { initializeOpenHouseCron } from "./cron/openHouseCron";
 import { requestIdMiddleware } from "./middleware/requestId";
 import { requestLoggerMiddleware } from "./middleware/requestLogger";
 import logger, { createModuleLogger } from "./lib/logger";
@@ -117,6 +120,9 @@ app.get('/health', (_req, res) => {
       
       startRepliersSync();
       initializeNotificationCron();
+      initializeRecycleBinCron();
+      initializeAutoArchiveCron();
+      initializeOpenHouseCron();
     },
   );
 
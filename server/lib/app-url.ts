@@ -0,0 +1,6 @@
+// Public base URL for links sent outside the app (Slack messages, calendar feeds)
+export function getAppUrl(): string {
+  return process.env.REPLIT_DOMAINS?.split(',')[0]
+    ? `https://${process.env.REPLIT_DOMAINS.split(',')[0]}`
+    : 'https://mission-control-contract-conduit.onrender.com';
+}
@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import { createModuleLogger } from '../lib/logger';
+import type { Transaction } from '@shared/schema';
+
+const log = createModuleLogger('concurrency');
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Transaction version from If-Match, for the conditional write
+      expectedVersion?: number;
+    }
+  }
+}
+
+export function getTransactionETag(transaction: Transaction): string {
+  return `"${transaction.version}"`;
+}
+
+// If-Match: "7" (or W/"7") -> 7. Missing or "*" means the client doesn't care.
+function parseIfMatch(header: string | undefined): number | undefined | null {
+  if (!header || header.trim() === '*') return undefined;
+  const match = header.trim().match(/^(?:W\/)?"?(\d+)"?$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Reply 409 with what changed since the client's version. changedFields comes from
+ * the field history; conflictingFields is the part of it this request also writes.
+ */
+export async function sendVersionConflict(
+  res: Response,
+  transaction: Transaction,
+  clientVersion: number | undefined,
+  requestedFields: string[] = []
+) {
+  let changedFields: string[] = [];
+  if (clientVersion !== undefined) {
+    try {
+      const versions = await storage.getTransactionVersions(transaction.id);
+      changedFields = Array.from(new Set(versions.filter(v => v.version > clientVersion).map(v => v.field)));
+    } catch (error) {
+      log.error({ err: error, transactionId: transaction.id }, 'Failed to load changes for version conflict');
+    }
+  }
+
+  res.setHeader('ETag', getTransactionETag(transaction));
+  return res.status(409).json({
+    message: 'This transaction was changed by someone else. Reload to see their changes, or overwrite them.',
+    code: 'version_conflict',
+    currentVersion: transaction.version,
+    changedFields,
+    conflictingFields: changedFields.filter(field => requestedFields.includes(field)),
+    transaction,
+  });
+}
+
+/**
+ * Optimistic concurrency for transaction writes. Runs after requireTransactionAccess;
+ * rejects a stale If-Match up front and leaves req.expectedVersion for the
+ * conditional update, which catches anyone writing in between.
+ */
+export function requireCurrentVersion() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const transaction = req.transaction;
+    if (!transaction) return next();
+
+    const clientVersion = parseIfMatch(req.headers['if-match'] as string | undefined);
+    if (clientVersion === null) {
+      return res.status(400).json({ message: 'If-Match must be a transaction version' });
+    }
+    if (clientVersion !== undefined && clientVersion !== transaction.version) {
+      return sendVersionConflict(res, transaction, clientVersion, Object.keys(req.body || {}));
+    }
+
+    req.expectedVersion = clientVersion;
+    next();
+  };
+}
+
+/**
+ * A conditional update matched no row: either the transaction is gone (404) or
+ * someone wrote to it after the If-Match check (409).
+ */
+export async function sendFailedWrite(
+  res: Response,
+  transactionId: string,
+  clientVersion: number | undefined,
+  requestedFields: string[] = []
+) {
+  const current = await storage.getTransaction(transactionId);
+  if (!current) {
+    return res.status(404).json({ message: 'Transaction not found' });
+  }
+  return sendVersionConflict(res, current, clientVersion, requestedFields);
+}
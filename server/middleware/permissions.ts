@@ -0,0 +1,210 @@
+import { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import { authStorage } from '../replit_integrations/auth';
+import { createModuleLogger } from '../lib/logger';
+import { getPermissionsForRoles, hasPermission, type Permission } from '@shared/lib/permissions';
+import { memberRoles, type MemberRole, type Transaction } from '@shared/schema';
+import type { TransactionPage, TransactionQuery } from '@shared/lib/transaction-query';
+import type { SearchHit } from '@shared/lib/search';
+
+const log = createModuleLogger('permissions');
+
+export interface AccessContext {
+  userId: string;
+  email?: string;
+  roles: MemberRole[];
+  permissions: Permission[];
+  // Users on the teams this user leads
+  teamMemberIds: string[];
+}
+
+// 'marketing' routes only touch marketing assets, so marketing staff may reach them
+export type TransactionScope = 'transaction' | 'marketing';
+
+declare global {
+  namespace Express {
+    interface Request {
+      access?: AccessContext;
+      transaction?: Transaction;
+    }
+  }
+}
+
+/**
+ * Resolve the signed-in user's roles and permissions, once per request.
+ * The legacy users.isAdmin flag still grants broker-admin rights.
+ */
+export async function getAccessContext(req: Request): Promise<AccessContext> {
+  if (req.access) return req.access;
+
+  const claims = (req as any).user?.claims;
+  req.access = await buildAccessContext(claims?.sub, claims?.email);
+  return req.access;
+}
+
+// Same as getAccessContext, for a user who isn't making this request (calendar feed tokens)
+export async function buildAccessContext(userId: string, email?: string): Promise<AccessContext> {
+  const [user, memberships] = await Promise.all([
+    authStorage.getUser(userId),
+    storage.getMembershipsByUser(userId),
+  ]);
+
+  const roles = memberships
+    .map(m => m.role as MemberRole)
+    .filter(role => memberRoles.includes(role));
+  if (user?.isAdmin === 'true' && !roles.includes('broker_admin')) {
+    roles.push('broker_admin');
+  }
+
+  const ledTeamIds = memberships
+    .filter(m => m.role === 'team_lead' && m.teamId)
+    .map(m => m.teamId as string);
+  const teamMembers = await storage.getMembershipsByTeams(ledTeamIds);
+
+  return {
+    userId,
+    email,
+    roles,
+    permissions: getPermissionsForRoles(roles),
+    teamMemberIds: Array.from(new Set(teamMembers.map(m => m.userId))),
+  };
+}
+
+/**
+ * Owners and assigned coordinators can always reach their transactions; team leads
+ * reach their team's, broker admins everything, marketing staff only marketing routes.
+ */
+export async function canAccessTransaction(
+  access: AccessContext,
+  transaction: Transaction,
+  scope: TransactionScope = 'transaction'
+): Promise<boolean> {
+  const granted = access.permissions;
+
+  if (hasPermission(granted, 'transactions:all')) return true;
+  if (scope === 'marketing' && hasPermission(granted, 'marketing:all')) return true;
+
+  if (hasPermission(granted, 'transactions:own')) {
+    if (!transaction.userId || transaction.userId === access.userId) return true;
+
+    if (access.email && transaction.coordinatorIds && transaction.coordinatorIds.length > 0) {
+      const coordinatorsList = await storage.getCoordinators();
+      const userCoordinator = coordinatorsList.find(c => c.email === access.email);
+      if (userCoordinator && transaction.coordinatorIds.includes(userCoordinator.id)) return true;
+    }
+  }
+
+  if (hasPermission(granted, 'transactions:team') && transaction.userId) {
+    return access.teamMemberIds.includes(transaction.userId);
+  }
+
+  return false;
+}
+
+// Who a user's transaction lists are scoped to; null = they can't list transactions at all
+function getListVisibility(access: AccessContext): { userId?: string; email?: string; teamOwnerIds?: string[] } | null {
+  const granted = access.permissions;
+  if (hasPermission(granted, 'transactions:all')) return {};
+  if (!hasPermission(granted, 'transactions:own')) return null;
+  return {
+    userId: access.userId,
+    email: access.email,
+    teamOwnerIds: hasPermission(granted, 'transactions:team') ? access.teamMemberIds : [],
+  };
+}
+
+/**
+ * Every transaction the user can see: all of them for broker admins, otherwise
+ * owned/coordinated ones plus those owned by members of teams they lead.
+ */
+export async function getAccessibleTransactions(
+  access: AccessContext,
+  options: TransactionQuery = {}
+): Promise<Transaction[]> {
+  const visibility = getListVisibility(access);
+  if (!visibility) return [];
+  return await storage.getTransactions(visibility.userId, visibility.email, { ...options, teamOwnerIds: visibility.teamOwnerIds });
+}
+
+export async function getAccessibleTransactionPage(access: AccessContext, query: TransactionQuery): Promise<TransactionPage> {
+  const visibility = getListVisibility(access);
+  if (!visibility) {
+    return { transactions: [], nextCursor: null, totalCount: 0, filteredCount: 0 };
+  }
+  return await storage.getTransactionPage(visibility.userId, visibility.email, { ...query, teamOwnerIds: visibility.teamOwnerIds });
+}
+
+export async function countAccessibleTransactions(access: AccessContext, query: TransactionQuery): Promise<number> {
+  const visibility = getListVisibility(access);
+  if (!visibility) return 0;
+  return await storage.countTransactions(visibility.userId, visibility.email, { ...query, teamOwnerIds: visibility.teamOwnerIds });
+}
+
+export async function searchAccessibleTransactions(access: AccessContext, text: string, limit: number): Promise<SearchHit[]> {
+  const visibility = getListVisibility(access);
+  if (!visibility) return [];
+  return await storage.searchTransactions(visibility.userId, visibility.email, text, { limit, teamOwnerIds: visibility.teamOwnerIds });
+}
+
+// The recycle bin follows the same visibility as the transaction lists
+export async function getAccessibleDeletedTransactions(access: AccessContext): Promise<Transaction[]> {
+  const visibility = getListVisibility(access);
+  if (!visibility) return [];
+  return await storage.getDeletedTransactions(visibility.userId, visibility.email, visibility.teamOwnerIds);
+}
+
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const access = await getAccessContext(req);
+      if (!hasPermission(access.permissions, permission)) {
+        return res.status(403).json({
+          message: permission === 'admin' ? 'Admin access required' : 'Access denied',
+        });
+      }
+      next();
+    } catch (error) {
+      log.error({ err: error, permission }, 'Permission check failed');
+      res.status(500).json({ message: 'Failed to check permissions' });
+    }
+  };
+}
+
+function loadTransactionWithAccess(
+  load: (id: string) => Promise<Transaction | undefined>,
+  scope: TransactionScope,
+  param: string
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const transaction = await load(req.params[param]);
+      if (!transaction) {
+        return res.status(404).json({ message: 'Transaction not found' });
+      }
+
+      const access = await getAccessContext(req);
+      if (!(await canAccessTransaction(access, transaction, scope))) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      req.transaction = transaction;
+      next();
+    } catch (error) {
+      log.error({ err: error, transactionId: req.params[param] }, 'Transaction access check failed');
+      res.status(500).json({ message: 'Failed to check permissions' });
+    }
+  };
+}
+
+/**
+ * Load the transaction named by a route param, 404 if missing, 403 if the user
+ * can't reach it. The loaded transaction is left on req.transaction for the handler.
+ */
+export function requireTransactionAccess(scope: TransactionScope = 'transaction', param: string = 'id') {
+  return loadTransactionWithAccess((id) => storage.getTransaction(id), scope, param);
+}
+
+// Same check for a transaction in the recycle bin, which requireTransactionAccess treats as missing
+export function requireDeletedTransactionAccess(param: string = 'id') {
+  return loadTransactionWithAccess((id) => storage.getDeletedTransaction(id), 'transaction', param);
+}
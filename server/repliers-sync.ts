@@ -1,17 +1,23 @@
 import { storage } from "./storage";
 import { fetchMLSListing } from "./repliers";
 import { isRentalOrLease } from "../shared/lib/listings";
-import type { Transaction, InsertTransaction } from "@shared/schema";
+import { diffTransactionFields, type FieldChange } from "@shared/lib/field-history";
+import { saveTransactionChanges } from "./services/transaction-history";
+import { getConsecutiveFailures, isSyncBackedOff, type MLSSyncRunDetail } from "@shared/lib/mls-sync";
+import type { Transaction, InsertTransaction, MLSData, MLSSyncOutcome, MLSSyncResult, MLSSyncRun, MLSSyncTrigger } from "@shared/schema";
 import { createModuleLogger } from './lib/logger';
+import { TimelineLogger } from './services/timeline';
 
 const log = createModuleLogger('repliers-sync');
 
 const SYNC_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
-const BATCH_DELAY_MS = 2000; // 2 seconds between API calls to respect rate limits
+const BATCH_DELAY_MS = 2000; // 2 seconds between each worker's API calls to respect rate limits
+const DEFAULT_SYNC_CONCURRENCY = 3;
 
 let syncIntervalId: NodeJS.Timeout | null = null;
 let isSyncing = false;
 let lastGlobalSyncAt: Date | null = null;
+let currentRunId: string | null = null;
 
 interface SyncResult {
   transactionId: string;
@@ -20,9 +26,40 @@ interface SyncResult {
   photosCount?: number;
   error?: string;
   skippedAsRental?: boolean;
+  changedFields?: FieldChange[];
 }
 
-async function syncTransactionMLS(transaction: Transaction): Promise<SyncResult> {
+/**
+ * Snapshot the price, status and DOM this sync saw, and log price and status moves
+ * against what the previous sync saved on the transaction (read before it's overwritten).
+ */
+export async function recordListingHistory(
+  transaction: Transaction,
+  mlsData: Pick<MLSData, "mlsNumber" | "listPrice" | "status" | "lastStatus" | "daysOnMarket">
+): Promise<void> {
+  const listPrice = mlsData.listPrice ? Math.round(mlsData.listPrice) : null;
+  const status = mlsData.status || null;
+
+  await storage.createMLSListingHistoryEntry({
+    transactionId: transaction.id,
+    mlsNumber: mlsData.mlsNumber || transaction.mlsNumber!,
+    listPrice,
+    status,
+    lastStatus: mlsData.lastStatus || null,
+    daysOnMarket: mlsData.daysOnMarket ?? null,
+  });
+
+  if (listPrice && transaction.listPrice && listPrice !== transaction.listPrice) {
+    await TimelineLogger.priceChanged(transaction.id, transaction.listPrice, listPrice);
+  }
+
+  const previousStatus = (transaction.mlsData as MLSData | null)?.status;
+  if (status && previousStatus && status !== previousStatus) {
+    await TimelineLogger.mlsStatusChanged(transaction.id, previousStatus, status);
+  }
+}
+
+async function syncTransactionMLS(transaction: Transaction, triggeredBy?: string): Promise<SyncResult> {
   const result: SyncResult = {
     transactionId: transaction.id,
     address: transaction.propertyAddress,
@@ -35,7 +72,8 @@ async function syncTransactionMLS(transaction: Transaction): Promise<SyncResult>
   }
 
   try {
-    const mlsResult = await fetchMLSListing(transaction.mlsNumber);
+    // A listing someone viewed in the last few minutes is reused; anything older is refetched
+    const mlsResult = await fetchMLSListing(transaction.mlsNumber, undefined, { allowStale: false });
     
     if (!mlsResult) {
       result.error = "No data returned from Repliers API";
@@ -67,7 +105,9 @@ async function syncTransactionMLS(transaction: Transaction): Promise<SyncResult>
     if (mlsData.propertyType) updateData.propertyType = mlsData.propertyType;
     if (mlsData.listPrice) updateData.listPrice = mlsData.listPrice;
 
-    await storage.updateTransaction(transaction.id, updateData as Partial<InsertTransaction>);
+    result.changedFields = diffTransactionFields(transaction, updateData);
+    await saveTransactionChanges(transaction, updateData as Partial<InsertTransaction>, { source: "mls_sync", changedBy: triggeredBy });
+    await recordListingHistory(transaction, mlsData);
 
     result.success = true;
     result.photosCount = mlsData.photos?.length || 0;
@@ -84,7 +124,61 @@ function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-async function runSync(): Promise<void> {
+function getSyncConcurrency(): number {
+  const configured = parseInt(process.env.MLS_SYNC_CONCURRENCY || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_SYNC_CONCURRENCY;
+}
+
+// Each worker takes the next item off a shared queue and pauses between its own calls
+async function runWithConcurrency<T>(items: T[], concurrency: number, task: (item: T) => Promise<void>): Promise<void> {
+  const queue = [...items];
+  const worker = async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+      await task(item);
+      if (queue.length > 0) await delay(BATCH_DELAY_MS);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+}
+
+function getSyncOutcome(result: SyncResult): MLSSyncOutcome {
+  if (result.success) return "success";
+  return result.skippedAsRental ? "skipped_rental" : "error";
+}
+
+function countOutcomes(results: MLSSyncResult[]) {
+  return {
+    successful: results.filter(r => r.outcome === "success").length,
+    skippedRental: results.filter(r => r.outcome === "skipped_rental").length,
+    failed: results.filter(r => r.outcome === "error").length,
+  };
+}
+
+// Sync one transaction and persist its outcome, continuing the error streak from its previous result
+async function syncAndRecord(
+  runId: string,
+  transaction: Transaction,
+  previous?: MLSSyncResult,
+  triggeredBy?: string
+): Promise<MLSSyncResult> {
+  const startedAt = Date.now();
+  const result = await syncTransactionMLS(transaction, triggeredBy);
+  const outcome = getSyncOutcome(result);
+
+  return storage.createMLSSyncResult({
+    runId,
+    transactionId: transaction.id,
+    mlsNumber: transaction.mlsNumber!,
+    address: transaction.propertyAddress,
+    outcome,
+    changedFields: result.changedFields ?? [],
+    error: outcome === "error" ? result.error || "Unknown error" : null,
+    consecutiveFailures: getConsecutiveFailures(outcome, previous),
+    durationMs: Date.now() - startedAt,
+  });
+}
+
+async function runSync(trigger: MLSSyncTrigger, triggeredBy?: string): Promise<void> {
   if (isSyncing) {
     log.info('Sync already in progress, skipping');
     return;
@@ -97,7 +191,8 @@ async function runSync(): Promise<void> {
 
   isSyncing = true;
   const startTime = Date.now();
-  log.info('Starting automatic MLS data sync');
+  let run: MLSSyncRun | undefined;
+  log.info({ trigger }, 'Starting MLS data sync');
 
   try {
     const transactions = await storage.getTransactions();
@@ -107,35 +202,57 @@ async function runSync(): Promise<void> {
       (t.status === "active" || t.status === "in_contract")
     );
 
-    log.info({ count: activeTransactions.length }, 'Found active transactions with MLS numbers');
+    run = await storage.createMLSSyncRun({
+      trigger,
+      triggeredBy: triggeredBy ?? null,
+      total: activeTransactions.length,
+    });
+    const runId = run.id;
+    currentRunId = runId;
+
+    // Listings that keep failing sit out a growing window instead of burning API calls every run
+    const latestResults = new Map(
+      (await storage.getLatestMLSSyncResults(activeTransactions.map(t => t.id))).map(r => [r.transactionId, r])
+    );
+    const dueTransactions = activeTransactions.filter(t => !isSyncBackedOff(latestResults.get(t.id)));
+    const backedOff = activeTransactions.length - dueTransactions.length;
+
+    log.info({ count: activeTransactions.length, backedOff }, 'Found active transactions with MLS numbers');
 
-    const results: SyncResult[] = [];
+    const results: MLSSyncResult[] = [];
     
-    for (const transaction of activeTransactions) {
+    await runWithConcurrency(dueTransactions, getSyncConcurrency(), async (transaction) => {
       log.info({ address: transaction.propertyAddress, mlsNumber: transaction.mlsNumber }, 'Syncing transaction');
       
-      const result = await syncTransactionMLS(transaction);
-      results.push(result);
-      
-      if (result.success) {
-        log.info({ address: result.address, photosCount: result.photosCount }, 'Sync success');
-      } else {
-        log.warn({ address: result.address, error: result.error }, 'Sync failed');
-      }
-      
-      if (activeTransactions.indexOf(transaction) < activeTransactions.length - 1) {
-        await delay(BATCH_DELAY_MS);
+      try {
+        const result = await syncAndRecord(runId, transaction, latestResults.get(transaction.id), triggeredBy);
+        results.push(result);
+
+        if (result.outcome === "error") {
+          log.warn({ address: result.address, error: result.error, consecutiveFailures: result.consecutiveFailures }, 'Sync failed');
+        } else {
+          log.info({ address: result.address, outcome: result.outcome }, 'Sync success');
+        }
+      } catch (error) {
+        log.error({ err: error, transactionId: transaction.id }, 'Error recording sync result');
       }
-    }
+    });
 
-    const successful = results.filter(r => r.success).length;
-    const skippedLeaseCount = results.filter(r => r.skippedAsRental).length;
-    const failed = results.filter(r => !r.success && !r.skippedAsRental).length;
+    const { successful, skippedRental, failed } = countOutcomes(results);
     const duration = ((Date.now() - startTime) / 1000).toFixed(1);
     
     lastGlobalSyncAt = new Date();
     
-    log.info({ successful, skippedLeaseCount, failed, durationSeconds: duration }, 'Sync complete');
+    log.info({ successful, skippedLeaseCount: skippedRental, failed, backedOff, durationSeconds: duration }, 'Sync complete');
+
+    await storage.updateMLSSyncRun(runId, {
+      status: "completed",
+      successful,
+      skippedRental,
+      failed,
+      backedOff,
+      finishedAt: lastGlobalSyncAt,
+    });
     
     await storage.upsertIntegrationSetting({
       integrationType: "repliers",
@@ -145,17 +262,26 @@ async function runSync(): Promise<void> {
         lastSyncStats: {
           total: activeTransactions.length,
           successful,
-          skippedLeaseCount,
+          skippedLeaseCount: skippedRental,
           failed,
+          backedOff,
           durationSeconds: parseFloat(duration),
         },
       },
     });
     
-  } catch (error) {
+  } catch (error: any) {
     log.error({ err: error }, 'Sync failed with error');
+    if (run) {
+      await storage.updateMLSSyncRun(run.id, {
+        status: "failed",
+        error: error.message || "Unknown error",
+        finishedAt: new Date(),
+      }).catch(err => log.error({ err }, 'Error recording failed sync run'));
+    }
   } finally {
     isSyncing = false;
+    currentRunId = null;
   }
 }
 
@@ -166,13 +292,18 @@ export function startRepliersSync(): void {
   }
 
   log.info({ intervalMinutes: SYNC_INTERVAL_MS / 60000 }, 'Starting automatic sync');
+
+  // A run still marked running was cut off by the last shutdown
+  storage.failInterruptedMLSSyncRuns()
+    .then(count => { if (count > 0) log.warn({ count }, 'Marked interrupted sync runs as failed'); })
+    .catch(err => log.error({ err }, 'Error closing out interrupted sync runs'));
   
   setTimeout(() => {
-    runSync();
+    runSync("scheduled");
   }, 5000);
   
   syncIntervalId = setInterval(() => {
-    runSync();
+    runSync("scheduled");
   }, SYNC_INTERVAL_MS);
   
   log.info('Automatic sync scheduler initialized');
@@ -191,16 +322,59 @@ export function getSyncStatus(): {
   isSyncing: boolean;
   lastSyncAt: Date | null;
   intervalMinutes: number;
+  currentRunId: string | null;
 } {
   return {
     isRunning: syncIntervalId !== null,
     isSyncing,
     lastSyncAt: lastGlobalSyncAt,
+    currentRunId,
     intervalMinutes: SYNC_INTERVAL_MS / 60000,
   };
 }
 
-export async function triggerManualSync(): Promise<void> {
-  log.info('Manual sync triggered');
-  await runSync();
+export async function triggerManualSync(triggeredBy?: string): Promise<void> {
+  log.info({ triggeredBy }, 'Manual sync triggered');
+  await runSync("manual", triggeredBy);
+}
+
+/**
+ * Re-sync one transaction from admin as its own run. Ignores backoff - someone
+ * asking for it is the signal the listing may be fixed - but still records the
+ * outcome, so a failure keeps extending the error streak. Returns null while a
+ * sync run is in progress.
+ */
+export async function resyncTransaction(transaction: Transaction, triggeredBy: string): Promise<MLSSyncRunDetail | null> {
+  if (isSyncing) {
+    log.info({ transactionId: transaction.id }, 'Sync already in progress, skipping re-sync');
+    return null;
+  }
+
+  isSyncing = true;
+  let run: MLSSyncRun | undefined;
+  try {
+    run = await storage.createMLSSyncRun({ trigger: "transaction", triggeredBy, total: 1 });
+    currentRunId = run.id;
+
+    const [previous] = await storage.getLatestMLSSyncResults([transaction.id]);
+    const result = await syncAndRecord(run.id, transaction, previous, triggeredBy);
+    const finished = await storage.updateMLSSyncRun(run.id, {
+      status: "completed",
+      ...countOutcomes([result]),
+      finishedAt: new Date(),
+    });
+    return { run: finished ?? run, results: [result] };
+  } catch (error: any) {
+    if (run) {
+      await storage.updateMLSSyncRun(run.id, {
+        status: "failed",
+        error: error.message || "Unknown error",
+        finishedAt: new Date(),
+      });
+    }
+    throw error;
+  } finally {
+    isSyncing = false;
+    currentRunId = null;
+  }
 }
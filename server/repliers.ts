@@ -3,6 +3,7 @@ import { isRentalOrLease, excludeRentals } from "../shared/lib/listings";
 import { normalizedAcres, normalizedLotSquareFeet, calculatePricePerAcre, buildLotSizeData } from "./utils/lotSize";
 import { createModuleLogger } from './lib/logger';
 import { withTimeout, withRetry, repliersCircuit } from './lib/resilience';
+import { getCachedListing, type CachedListingOptions } from './services/mls-cache';
 
 const log = createModuleLogger('repliers');
 
@@ -349,7 +350,7 @@ async function searchByMLSNumber(mlsNumber: string): Promise<any> {
   return data.listings?.[0] || null;
 }
 
-export async function fetchMLSListing(mlsNumber: string, boardId?: string): Promise<{ mlsData: MLSListingData } | null> {
+async function fetchListingFromRepliers(mlsNumber: string, boardId?: string): Promise<MLSListingData | null> {
   try {
     // Add ACT prefix for Unlock MLS (Austin) if not already present
     const formattedMLS = mlsNumber.startsWith("ACT") ? mlsNumber : `ACT${mlsNumber}`;
@@ -386,164 +387,204 @@ export async function fetchMLSListing(mlsNumber: string, boardId?: string): Prom
     
     if (!listing) return null;
 
-    const rawImages = listing.media || listing.images || listing.photos || [];
-    const photos = normalizeImageUrls(rawImages);
-    
-    const addressParts = [];
-    if (listing.address?.streetNumber) addressParts.push(listing.address.streetNumber);
-    if (listing.address?.streetName) addressParts.push(listing.address.streetName);
-    if (listing.address?.streetSuffix) addressParts.push(listing.address.streetSuffix);
-    const streetAddress = addressParts.join(" ");
-    const fullAddress = listing.address?.full || streetAddress;
-
-    const heatingCooling: string[] = [];
-    if (listing.heating) heatingCooling.push(...parseFeatures(listing.heating));
-    if (listing.cooling) heatingCooling.push(...parseFeatures(listing.cooling));
-    if (listing.details?.heating) heatingCooling.push(...parseFeatures(listing.details.heating));
-    if (listing.details?.cooling) heatingCooling.push(...parseFeatures(listing.details.cooling));
-
-    const result: MLSListingData = {
-      mlsNumber: listing.mlsNumber || mlsNumber,
-      listPrice: parseFloat(listing.listPrice) || 0,
-      address: fullAddress,
-      city: listing.address?.city || "",
-      state: listing.address?.state || listing.address?.province || "",
-      zipCode: listing.address?.zip || listing.address?.postalCode || "",
-      
-      bedrooms: listing.bedroomsTotal || listing.details?.numBedrooms || listing.beds || 0,
-      bathrooms: listing.bathroomsFull || listing.details?.numBathrooms || listing.baths || 0,
-      halfBaths: listing.bathroomsHalf || listing.details?.halfBaths || 0,
-      sqft: listing.livingArea || listing.buildingAreaTotal || listing.details?.sqft || listing.sqft || 0,
-      lotSize: buildLotSize(listing),
-      lot: buildLotSizeData(listing),
-      lotSizeAcres: normalizedAcres(listing),
-      lotSizeSquareFeet: normalizedLotSquareFeet(listing),
-      pricePerAcre: calculatePricePerAcre(
-        listing.soldPrice ? parseFloat(listing.soldPrice) : parseFloat(listing.listPrice) || 0,
-        normalizedAcres(listing)
-      ),
-      yearBuilt: listing.yearBuilt || listing.details?.yearBuilt || 0,
-      propertyType: listing.propertyType || listing.details?.propertyType || listing.class || "Residential",
-      propertyStyle: listing.architecturalStyle || listing.details?.style || "",
-      stories: listing.storiesTotal || listing.details?.stories || 1,
-      garage: buildGarage(listing),
-      
-      status: listing.standardStatus || listing.mlsStatus || listing.status || listing.listingStatus || "",
-      lastStatus: listing.lastStatus || "",
-      daysOnMarket: listing.daysOnMarket || listing.dom || 0,
-      simpleDaysOnMarket: listing.simpleDaysOnMarket ?? null,
-      listDate: listing.listDate || listing.listingDate || "",
-      
-      // Price history & sale info
-      originalPrice: listing.originalPrice != null ? parseFloat(listing.originalPrice) : null,
-      soldPrice: listing.soldPrice != null ? parseFloat(listing.soldPrice) : null,
-      soldDate: listing.soldDate || listing.timestamps?.closedDate || null,
-      
-      // External media links (internal use only - NOT for display per MLS/IDX/VOW compliance)
-      virtualTourUrl: listing.details?.virtualTourUrl || listing.virtualTourUrl || null,
-      hasExternalMediaLinks: !!(listing.details?.virtualTourUrl || listing.virtualTourUrl || listing.videoUrl || listing.matterportUrl),
-      
-      // Photo count
-      photoCount: listing.photoCount || photos.length,
-      
-      // Permissions
-      permissions: listing.permissions ? {
-        displayAddressOnInternet: listing.permissions.displayAddressOnInternet === 'Y',
-        displayPublic: listing.permissions.displayPublic === 'Y',
-        displayInternetEntireListing: listing.permissions.displayInternetEntireListing === 'Y',
-      } : undefined,
-      
-      // Neighborhood
-      neighborhood: listing.address?.neighborhood || "",
-      
-      description: listing.publicRemarks || listing.privateRemarks || listing.remarks || listing.details?.description || "",
-      
-      // Property Features - extract from details.extras and other fields
-      interiorFeatures: parseFeatures(listing.interiorFeatures || listing.details?.interiorFeatures || listing.details?.extras),
-      exteriorFeatures: parseFeatures(listing.exteriorFeatures || listing.details?.exteriorFeatures || listing.details?.patio),
-      appliances: parseFeatures(listing.appliances || listing.details?.appliances || listing.details?.extras),
-      heatingCooling: Array.from(new Set([
-        ...heatingCooling,
-        ...(listing.details?.airConditioning ? parseFeatures(listing.details.airConditioning) : [])
-      ])),
-      
-      // Additional property details from Repliers API
-      flooring: parseFeatures(listing.flooring || listing.details?.flooringType),
-      roofMaterial: listing.roofMaterial || listing.details?.roofMaterial || "",
-      foundation: listing.foundation || listing.details?.foundationType || "",
-      pool: listing.pool || listing.details?.swimmingPool || "",
-      parking: parseFeatures(listing.parking || listing.details?.garage),
-      waterSource: listing.waterSource || listing.details?.waterSource || "",
-      sewer: listing.sewer || listing.details?.sewer || "",
-      utilities: parseFeatures(listing.utilities),
-      constructionMaterials: parseFeatures(listing.constructionMaterials || listing.details?.exteriorConstruction1),
-      
-      // Detail fields from Repliers details object
-      viewType: listing.details?.viewType || "",
-      patio: listing.details?.patio || "",
-      extras: listing.details?.extras || "",
-      subdivision: listing.subdivision || listing.details?.subdivision || "",
-      
-      hoaFee: listing.associationFee || listing.hoaFee || null,
-      hoaFrequency: listing.associationFeeFrequency || listing.hoaFrequency || "Monthly",
-      taxAmount: typeof listing.taxAnnualAmount === 'object' 
-        ? listing.taxAnnualAmount?.annualAmount 
-        : (listing.taxAnnualAmount || listing.taxes || null),
-      taxYear: listing.taxYear || listing.taxAnnualAmount?.assessmentYear || null,
-      
-      listingAgent: listing.listAgentFullName || listing.agents?.[0]?.name || "",
-      listingOffice: typeof listing.listOfficeName === 'object' 
-        ? listing.listOfficeName?.name 
-        : (listing.listOfficeName || 
-           (typeof listing.office === 'object' ? listing.office?.name : listing.office) || 
-           ""),
-      listingAgentPhone: listing.listAgentPhone || listing.agents?.[0]?.phone || "",
-      listingAgentEmail: listing.listAgentEmail || listing.agents?.[0]?.email || "",
-      
-      photos: photos,
-      
-      // Extract coordinates if available
-      coordinates: (listing.map?.latitude && listing.map?.longitude) 
-        ? { latitude: parseFloat(listing.map.latitude), longitude: parseFloat(listing.map.longitude) }
-        : (listing.address?.latitude && listing.address?.longitude)
-          ? { latitude: parseFloat(listing.address.latitude), longitude: parseFloat(listing.address.longitude) }
-          : (listing.latitude && listing.longitude)
-            ? { latitude: parseFloat(listing.latitude), longitude: parseFloat(listing.longitude) }
-            : undefined,
-      
-      images: photos,
-      agent: listing.agents?.[0] ? {
-        name: listing.agents[0].name || "",
-        phone: listing.agents[0].phone || "",
-        email: listing.agents[0].email || "",
-        brokerage: typeof listing.agents[0].brokerage === 'object' 
-          ? listing.agents[0].brokerage?.name 
-          : (listing.agents[0].brokerage || 
-             (typeof listing.office === 'object' ? listing.office?.name : listing.office) || 
-             ""),
-      } : {
-        name: listing.listAgentFullName || "",
-        phone: listing.listAgentPhone || "",
-        email: listing.listAgentEmail || "",
-        brokerage: typeof listing.listOfficeName === 'object' 
-          ? listing.listOfficeName?.name 
-          : (listing.listOfficeName || ""),
-      },
-      
-      // Store raw API response for dev mode debugging
-      rawData: listing,
-      
-      // Store imageInsights for AI photo classification in Flyer Generator
-      imageInsights: listing.imageInsights || null,
-    };
-
-    return { mlsData: result };
+    return normalizeListing(listing, mlsNumber);
   } catch (error) {
     log.error({ err: error }, 'Error fetching MLS listing');
     return null;
   }
 }
 
+// Repliers listing (from the detail endpoint or a search result) -> MLSListingData
+function normalizeListing(listing: any, mlsNumber: string): MLSListingData {
+  const rawImages = listing.media || listing.images || listing.photos || [];
+  const photos = normalizeImageUrls(rawImages);
+  
+  const addressParts = [];
+  if (listing.address?.streetNumber) addressParts.push(listing.address.streetNumber);
+  if (listing.address?.streetName) addressParts.push(listing.address.streetName);
+  if (listing.address?.streetSuffix) addressParts.push(listing.address.streetSuffix);
+  const streetAddress = addressParts.join(" ");
+  const fullAddress = listing.address?.full || streetAddress;
+
+  const heatingCooling: string[] = [];
+  if (listing.heating) heatingCooling.push(...parseFeatures(listing.heating));
+  if (listing.cooling) heatingCooling.push(...parseFeatures(listing.cooling));
+  if (listing.details?.heating) heatingCooling.push(...parseFeatures(listing.details.heating));
+  if (listing.details?.cooling) heatingCooling.push(...parseFeatures(listing.details.cooling));
+
+  const result: MLSListingData = {
+    mlsNumber: listing.mlsNumber || mlsNumber,
+    listPrice: parseFloat(listing.listPrice) || 0,
+    address: fullAddress,
+    city: listing.address?.city || "",
+    state: listing.address?.state || listing.address?.province || "",
+    zipCode: listing.address?.zip || listing.address?.postalCode || "",
+    
+    bedrooms: listing.bedroomsTotal || listing.details?.numBedrooms || listing.beds || 0,
+    bathrooms: listing.bathroomsFull || listing.details?.numBathrooms || listing.baths || 0,
+    halfBaths: listing.bathroomsHalf || listing.details?.halfBaths || 0,
+    sqft: listing.livingArea || listing.buildingAreaTotal || listing.details?.sqft || listing.sqft || 0,
+    lotSize: buildLotSize(listing),
+    lot: buildLotSizeData(listing),
+    lotSizeAcres: normalizedAcres(listing),
+    lotSizeSquareFeet: normalizedLotSquareFeet(listing),
+    pricePerAcre: calculatePricePerAcre(
+      listing.soldPrice ? parseFloat(listing.soldPrice) : parseFloat(listing.listPrice) || 0,
+      normalizedAcres(listing)
+    ),
+    yearBuilt: listing.yearBuilt || listing.details?.yearBuilt || 0,
+    propertyType: listing.propertyType || listing.details?.propertyType || listing.class || "Residential",
+    propertyStyle: listing.architecturalStyle || listing.details?.style || "",
+    stories: listing.storiesTotal || listing.details?.stories || 1,
+    garage: buildGarage(listing),
+    
+    status: listing.standardStatus || listing.mlsStatus || listing.status || listing.listingStatus || "",
+    lastStatus: listing.lastStatus || "",
+    daysOnMarket: listing.daysOnMarket || listing.dom || 0,
+    simpleDaysOnMarket: listing.simpleDaysOnMarket ?? null,
+    listDate: listing.listDate || listing.listingDate || "",
+    
+    // Price history & sale info
+    originalPrice: listing.originalPrice != null ? parseFloat(listing.originalPrice) : null,
+    soldPrice: listing.soldPrice != null ? parseFloat(listing.soldPrice) : null,
+    soldDate: listing.soldDate || listing.timestamps?.closedDate || null,
+    
+    // External media links (internal use only - NOT for display per MLS/IDX/VOW compliance)
+    virtualTourUrl: listing.details?.virtualTourUrl || listing.virtualTourUrl || null,
+    hasExternalMediaLinks: !!(listing.details?.virtualTourUrl || listing.virtualTourUrl || listing.videoUrl || listing.matterportUrl),
+    
+    // Photo count
+    photoCount: listing.photoCount || photos.length,
+    
+    // Permissions
+    permissions: listing.permissions ? {
+      displayAddressOnInternet: listing.permissions.displayAddressOnInternet === 'Y',
+      displayPublic: listing.permissions.displayPublic === 'Y',
+      displayInternetEntireListing: listing.permissions.displayInternetEntireListing === 'Y',
+    } : undefined,
+    
+    // Neighborhood
+    neighborhood: listing.address?.neighborhood || "",
+    
+    description: listing.publicRemarks || listing.privateRemarks || listing.remarks || listing.details?.description || "",
+    
+    // Property Features - extract from details.extras and other fields
+    interiorFeatures: parseFeatures(listing.interiorFeatures || listing.details?.interiorFeatures || listing.details?.extras),
+    exteriorFeatures: parseFeatures(listing.exteriorFeatures || listing.details?.exteriorFeatures || listing.details?.patio),
+    appliances: parseFeatures(listing.appliances || listing.details?.appliances || listing.details?.extras),
+    heatingCooling: Array.from(new Set([
+      ...heatingCooling,
+      ...(listing.details?.airConditioning ? parseFeatures(listing.details.airConditioning) : [])
+    ])),
+    
+    // Additional property details from Repliers API
+    flooring: parseFeatures(listing.flooring || listing.details?.flooringType),
+    roofMaterial: listing.roofMaterial || listing.details?.roofMaterial || "",
+    foundation: listing.foundation || listing.details?.foundationType || "",
+    pool: listing.pool || listing.details?.swimmingPool || "",
+    parking: parseFeatures(listing.parking || listing.details?.garage),
+    waterSource: listing.waterSource || listing.details?.waterSource || "",
+    sewer: listing.sewer || listing.details?.sewer || "",
+    utilities: parseFeatures(listing.utilities),
+    constructionMaterials: parseFeatures(listing.constructionMaterials || listing.details?.exteriorConstruction1),
+    
+    // Detail fields from Repliers details object
+    viewType: listing.details?.viewType || "",
+    patio: listing.details?.patio || "",
+    extras: listing.details?.extras || "",
+    subdivision: listing.subdivision || listing.details?.subdivision || "",
+    
+    hoaFee: listing.associationFee || listing.hoaFee || null,
+    hoaFrequency: listing.associationFeeFrequency || listing.hoaFrequency || "Monthly",
+    taxAmount: typeof listing.taxAnnualAmount === 'object' 
+      ? listing.taxAnnualAmount?.annualAmount 
+      : (listing.taxAnnualAmount || listing.taxes || null),
+    taxYear: listing.taxYear || listing.taxAnnualAmount?.assessmentYear || null,
+    
+    listingAgent: listing.listAgentFullName || listing.agents?.[0]?.name || "",
+    listingOffice: typeof listing.listOfficeName === 'object' 
+      ? listing.listOfficeName?.name 
+      : (listing.listOfficeName || 
+         (typeof listing.office === 'object' ? listing.office?.name : listing.office) || 
+         ""),
+    listingAgentPhone: listing.listAgentPhone || listing.agents?.[0]?.phone || "",
+    listingAgentEmail: listing.listAgentEmail || listing.agents?.[0]?.email || "",
+    
+    photos: photos,
+    
+    // Extract coordinates if available
+    coordinates: (listing.map?.latitude && listing.map?.longitude) 
+      ? { latitude: parseFloat(listing.map.latitude), longitude: parseFloat(listing.map.longitude) }
+      : (listing.address?.latitude && listing.address?.longitude)
+        ? { latitude: parseFloat(listing.address.latitude), longitude: parseFloat(listing.address.longitude) }
+        : (listing.latitude && listing.longitude)
+          ? { latitude: parseFloat(listing.latitude), longitude: parseFloat(listing.longitude) }
+          : undefined,
+    
+    images: photos,
+    agent: listing.agents?.[0] ? {
+      name: listing.agents[0].name || "",
+      phone: listing.agents[0].phone || "",
+      email: listing.agents[0].email || "",
+      brokerage: typeof listing.agents[0].brokerage === 'object' 
+        ? listing.agents[0].brokerage?.name 
+        : (listing.agents[0].brokerage || 
+           (typeof listing.office === 'object' ? listing.office?.name : listing.office) || 
+           ""),
+    } : {
+      name: listing.listAgentFullName || "",
+      phone: listing.listAgentPhone || "",
+      email: listing.listAgentEmail || "",
+      brokerage: typeof listing.listOfficeName === 'object' 
+        ? listing.listOfficeName?.name 
+        : (listing.listOfficeName || ""),
+    },
+    
+    // Store raw API response for dev mode debugging
+    rawData: listing,
+    
+    // Store imageInsights for AI photo classification in Flyer Generator
+    imageInsights: listing.imageInsights || null,
+  };
+
+  return result;
+}
+
+/**
+ * Listing details through the Postgres listing cache (server/services/mls-cache.ts).
+ * Pass allowStale: false to wait for a refresh rather than take a stale entry, and
+ * forceRefresh to skip the cache entirely.
+ */
+export async function fetchMLSListing(
+  mlsNumber: string,
+  boardId?: string,
+  options?: CachedListingOptions
+): Promise<{ mlsData: MLSListingData } | null> {
+  const formattedMLS = mlsNumber.startsWith("ACT") ? mlsNumber : `ACT${mlsNumber}`;
+  const mlsData = await getCachedListing(
+    formattedMLS,
+    boardId || "53",
+    () => fetchListingFromRepliers(mlsNumber, boardId),
+    options
+  );
+  return mlsData ? { mlsData } : null;
+}
+
+// Raw listing with Repliers' coverImage photo ordering, cached apart from the default ordering
+async function fetchListingWithCoverImage(formattedMLS: string, coverImage: string): Promise<any> {
+  const mlsData = await getCachedListing(
+    formattedMLS,
+    "53",
+    async () => {
+      const data = await repliersRequest(`/listings/${formattedMLS}`, { boardId: "53", coverImage });
+      const listing = data?.listings?.[0] || data;
+      return listing ? normalizeListing(listing, formattedMLS) : null;
+    },
+    { variant: `coverImage=${coverImage}` }
+  );
+  return mlsData?.rawData ?? null;
+}
+
 // Fetch listing details for a single MLS listing
 // Returns coordinates AND status data when available
 // Tries with boardId first, then without if 404 occurs
@@ -557,21 +598,7 @@ export interface ListingEnrichment {
 
 export async function fetchListingCoordinates(mlsNumber: string): Promise<ListingEnrichment | null> {
   try {
-    const formattedMLS = mlsNumber.startsWith("ACT") ? mlsNumber : `ACT${mlsNumber}`;
-    
-    let data: any;
-    try {
-      // Try with boardId first
-      data = await repliersRequest(`/listings/${formattedMLS}`, { boardId: "53" });
-    } catch (firstError: any) {
-      // If 404, retry without boardId (listing might be on a different board)
-      if (firstError?.message?.includes("404")) {
-        log.debug({ mlsNumber }, 'Retrying without boardId');
-        data = await repliersRequest(`/listings/${formattedMLS}`, {});
-      } else {
-        throw firstError;
-      }
-    }
+    const data = (await fetchMLSListing(mlsNumber))?.mlsData.rawData;
     
     const lat = data?.map?.latitude || data?.address?.latitude || data?.latitude;
     const lng = data?.map?.longitude || data?.address?.longitude || data?.longitude;
@@ -806,9 +833,8 @@ function selectBestPhotosForFlyer(
 // Fetch best photos for a listing using Image Insights
 export async function getBestPhotosForFlyer(mlsNumber: string, count: number = 3): Promise<BestPhotosResult> {
   try {
-    const formattedMLS = mlsNumber.startsWith("ACT") ? mlsNumber : `ACT${mlsNumber}`;
-    
-    const data = await repliersRequest(`/listings/${formattedMLS}`, { boardId: "53" });
+    // The cached listing keeps the raw Repliers response, imageInsights included
+    const data = (await fetchMLSListing(mlsNumber))?.mlsData.rawData;
     
     if (!data) {
       return {
@@ -955,14 +981,10 @@ export async function getAISelectedPhotosForFlyer(mlsNumber: string): Promise<AI
     quality: number;
   } | null> => {
     try {
-      const data = await repliersRequest(`/listings/${formattedMLS}`, {
-        boardId: "53",
-        coverImage: coverImageType,
-      });
+      const listing = await fetchListingWithCoverImage(formattedMLS, coverImageType);
       
-      if (!data) return null;
+      if (!listing) return null;
       
-      const listing = data.listings?.[0] || data;
       const rawImages = listing.media || listing.images || listing.photos || [];
       const photos = normalizeImageUrls(rawImages);
       const firstImage = photos[0];
@@ -1014,8 +1036,7 @@ export async function getAISelectedPhotosForFlyer(mlsNumber: string): Promise<AI
     let totalPhotos = 0;
     
     try {
-      const fullData = await repliersRequest(`/listings/${formattedMLS}`, { boardId: "53" });
-      const fullListing = fullData?.listings?.[0] || fullData;
+      const fullListing = (await fetchMLSListing(formattedMLS))?.mlsData.rawData;
       const rawImages = fullListing?.media || fullListing?.images || fullListing?.photos || [];
       const photos = normalizeImageUrls(rawImages);
       totalPhotos = photos.length;
@@ -1114,10 +1135,10 @@ export async function checkImageInsights(mlsNumber: string): Promise<{
   try {
     const formattedMLS = mlsNumber.startsWith("ACT") ? mlsNumber : `ACT${mlsNumber}`;
     
-    // Fetch listing with default params
-    const data = await repliersRequest(`/listings/${formattedMLS}`, { boardId: "53" });
+    // Listing with default params
+    const listing = (await fetchMLSListing(formattedMLS))?.mlsData.rawData;
     
-    if (!data) {
+    if (!listing) {
       return {
         mlsNumber,
         imageInsightsEnabled: false,
@@ -1126,7 +1147,6 @@ export async function checkImageInsights(mlsNumber: string): Promise<{
       };
     }
 
-    const listing = data.listings?.[0] || data;
     const rawImages = listing.media || listing.images || listing.photos || [];
     const photos = normalizeImageUrls(rawImages);
     const defaultFirstImage = photos[0] || "";
@@ -1159,13 +1179,8 @@ export async function checkImageInsights(mlsNumber: string): Promise<{
     
     let coverImageFirstPhoto = defaultFirstImage;
     try {
-      const dataWithCover = await repliersRequest(`/listings/${formattedMLS}`, { 
-        boardId: "53",
-        coverImage: "exterior front"
-      });
-      
-      const listingWithCover = dataWithCover.listings?.[0] || dataWithCover;
-      const coverImages = listingWithCover.media || listingWithCover.images || listingWithCover.photos || [];
+      const listingWithCover = await fetchListingWithCoverImage(formattedMLS, "exterior front");
+      const coverImages = listingWithCover?.media || listingWithCover?.images || listingWithCover?.photos || [];
       const coverPhotos = normalizeImageUrls(coverImages);
       coverImageFirstPhoto = coverPhotos[0] || "";
       
@@ -1225,14 +1240,8 @@ export async function searchListings(params: {
     // FAILSAFE: Apply local rental exclusion filter
     const filteredListings = data.listings.filter((listing: any) => !isRentalOrLease(listing));
 
-    const results: MLSListingData[] = [];
-    for (const listing of filteredListings.slice(0, 20)) {
-      const result = await fetchMLSListing(listing.mlsNumber);
-      if (result) {
-        results.push(result.mlsData);
-      }
-    }
-    return results;
+    // Search results carry the full listing, so normalize them directly rather than fetching each one again
+    return filteredListings.slice(0, 20).map((listing: any) => normalizeListing(listing, listing.mlsNumber));
   } catch (error) {
     log.error({ err: error }, 'Error searching listings');
     return [];
@@ -2,8 +2,9 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import path from "path";
 import fs from "fs";
-import { storage } from "./storage";
-import { insertTransactionSchema, insertCoordinatorSchema, insertMarketingAssetSchema, insertNotificationSettingsSchema, insertFlyerSchema } from "@shared/schema";
+import { storage, decodeTransactionCursor, type TransactionVersionMeta } from "./storage";
+import { insertTransactionSchema, insertCoordinatorSchema, insertMarketingAssetSchema, insertNotificationSettingsSchema, insertFlyerSchema, insertChecklistTemplateSchema, insertAutoArchiveRuleSchema, insertTransactionTaskSchema, taskAssigneeTypes, insertTransactionNoteSchema, createCalendarFeedSchema, deadlineInputSchema, insertTransactionContactSchema, insertOpenHouseSchema, insertOfferSchema, insertNetSheetFeeScheduleSchema, netSheetInputsSchema, insertOrganizationSchema, insertTeamSchema, insertOrganizationMemberSchema } from "@shared/schema";
+import type { DeadlineDayType, Transaction } from "@shared/schema";
 import { setupGmailForTransaction, isGmailConfigured, getNewMessages, watchUserMailbox } from "./gmail";
 import { createSlackChannel, inviteUsersToChannel, postToChannel, uploadFileToChannel, postDocumentUploadNotification, postMLSListingNotification, sendMarketingNotification, postComingSoonNotification, postPhotographyRequest, notifyMarketingTeamNewListing } from "./slack";
 import { fetchMLSListing, searchByAddress, testRepliersAccess, getBestPhotosForFlyer, getAISelectedPhotosForFlyer } from "./repliers";
@@ -11,35 +12,66 @@ import { isRentalOrLease } from "../shared/lib/listings";
 import { searchFUBContacts, getFUBContact, getFUBUserByEmail, searchFUBContactsByAssignedUser } from "./fub";
 import { setupAuth, registerAuthRoutes, isAuthenticated, authStorage } from "./replit_integrations/auth";
 import { registerObjectStorageRoutes } from "./replit_integrations/object_storage";
-import { getSyncStatus, triggerManualSync } from "./repliers-sync";
+import { getSyncStatus, triggerManualSync, recordListingHistory, resyncTransaction } from "./repliers-sync";
 import OpenAI from "openai";
-import { generatePrintFlyer, formatAddressForFlyer, type FlyerData, type OutputType } from "./services/flyer-generator";
+import { generatePrintFlyer, generateNetSheetPdf, formatAddressForFlyer, type FlyerData, type OutputType } from "./services/flyer-generator";
 import { generateGraphic, type GraphicsFormat, type GraphicsData } from "./services/graphics-generator";
 import { nanoid } from "nanoid";
 import QRCode from "qrcode";
 import { createModuleLogger } from './lib/logger';
 import { withTimeout, openaiCircuit } from './lib/resilience';
 import { apiLimiter, transactionCreateLimiter, generationLimiter } from './middleware/rateLimit';
+import { instantiateChecklists } from './services/checklists';
+import { addDefaultDeadlines } from './services/deadlines';
+import { computeDeadlineDueDate } from '@shared/lib/deadlines';
+import { isTransactionStatus } from '@shared/lib/status-machine';
+import { extractEmailAddress, getPartyEmails, getFubPersonDetails, syncGmailFilterWithContacts } from './services/contacts';
+import { buildRevenueReport, getAgentLabels, revenueGroupings, type RevenueGroupBy } from './services/revenue';
+import { buildClosingsReport, buildPipelineReport, DEFAULT_CLOSINGS_MONTHS, MAX_CLOSINGS_MONTHS } from './services/pipeline';
+import {
+  buildProductionReport,
+  exportFormats,
+  parseReportRange,
+  productionReportToCsv,
+  productionReportToPdf,
+  productionReportTypes,
+  type ExportFormat,
+  type ProductionReportType,
+} from './services/production';
+import { TimelineLogger } from './services/timeline';
+import { findDuplicateTransactions, mergeTransactions } from './services/duplicates';
+import { validateTransactionUpdate, applyTransactionUpdate, pickEditableTransactionFields } from './services/transaction-updates';
+import { getTransactionHistory, saveTransactionChanges, toStoredFieldValue } from './services/transaction-history';
+import { getTransactionETag, requireCurrentVersion, sendFailedWrite } from './middleware/concurrency';
+import { getAccessContext, canAccessTransaction, countAccessibleTransactions, getAccessibleTransactions, getAccessibleTransactionPage, getAccessibleDeletedTransactions, searchAccessibleTransactions, requirePermission, requireTransactionAccess, requireDeletedTransactionAccess } from './middleware/permissions';
+import { archiveTransaction } from './services/archive';
+import { getAutoArchivePolicy, runAutoArchive } from './services/auto-archive';
+import { getMentionablePeople, notifyMentions } from './services/notes';
+import { createFeedToken, renderCalendarFeed, toCalendarFeedSummary } from './services/calendar-feeds';
+import { getMLSCacheMetrics } from './services/mls-cache';
+import { canAcceptOffers, getOfferAcceptanceUpdate, isOpenOfferStatus } from '@shared/lib/offers';
+import { formatCurrency } from '@shared/lib/commission';
+import { collapseListingHistory } from '@shared/lib/listing-history';
+import { hasDuplicates } from '@shared/lib/duplicates';
+import { DEFAULT_NET_SHEET_FEES, DEFAULT_NET_SHEET_FEE_SCHEDULE_NAME, calculateNetSheet } from '@shared/lib/net-sheets';
+import { compareOpenHouses, formatOpenHouseDate, formatOpenHouseTimeRange, isValidOpenHouseWindow } from '@shared/lib/open-houses';
+import { buildNoteThreads, findMentions } from '@shared/lib/notes';
+import { hasPermission } from '@shared/lib/permissions';
+import { moveToRecycleBin, restoreFromRecycleBin, purgeTransaction, toDeletedTransaction, getRetentionDays } from './services/recycle-bin';
+import type { RecycleBinResponse } from '@shared/lib/recycle-bin';
+import { parseTransactionQuery } from '@shared/lib/transaction-query';
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT, MIN_SEARCH_LENGTH, type SearchResponse } from '@shared/lib/search';
 
 const log = createModuleLogger('transactions');
 
-// Helper to check if a user can access a transaction (owner OR assigned coordinator)
-async function canAccessTransaction(transaction: any, userId: string, userEmail?: string): Promise<boolean> {
-  // Owner always has access
-  if (!transaction.userId || transaction.userId === userId) {
-    return true;
-  }
-  
-  // Check if user is an assigned coordinator by email
-  if (userEmail && transaction.coordinatorIds && Array.isArray(transaction.coordinatorIds) && transaction.coordinatorIds.length > 0) {
-    const coordinatorsList = await storage.getCoordinators();
-    const userCoordinator = coordinatorsList.find(c => c.email === userEmail);
-    if (userCoordinator && transaction.coordinatorIds.includes(userCoordinator.id)) {
-      return true;
-    }
-  }
-  
-  return false;
+// Photo list and primary-photo writes are recorded in the field history like any edit
+function photoVersionMeta(req: any): TransactionVersionMeta {
+  return {
+    source: "photos",
+    changedBy: req.user?.claims?.sub,
+    changedByEmail: req.user?.claims?.email,
+    requestId: req.requestId,
+  };
 }
 
 // Helper to generate a Slack channel name in format: buy-123main-joeywilkes or sell-123main-joeywilkes
@@ -86,30 +118,40 @@ export async function registerRoutes(
 
   app.get("/api/transactions", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user?.claims?.sub;
-      const userEmail = req.user?.claims?.email;
-      const transactions = await storage.getTransactions(userId, userEmail);
-      res.json(transactions);
+      const parsed = parseTransactionQuery(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+      if (parsed.query.cursor && !decodeTransactionCursor(parsed.query.cursor, parsed.query.sort ?? "createdAt")) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const page = await getAccessibleTransactionPage(await getAccessContext(req), parsed.query);
+      res.json(page);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch transactions" });
     }
   });
 
-  app.get("/api/transactions/:id", isAuthenticated, async (req: any, res) => {
+  // Same filters as the list, for badges that only need a number (the sidebar's active count)
+  app.get("/api/transactions/count", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user?.claims?.sub;
-      const userEmail = req.user?.claims?.email;
-      const transaction = await storage.getTransaction(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
-      
-      // Verify user can access this transaction (owner OR assigned coordinator)
-      if (!(await canAccessTransaction(transaction, userId, userEmail))) {
-        return res.status(403).json({ message: "Access denied" });
+      const parsed = parseTransactionQuery(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ message: parsed.error });
       }
-      
-      res.json(transaction);
+      const count = await countAccessibleTransactions(await getAccessContext(req), parsed.query);
+      res.json({ count });
+    } catch (error) {
+      log.error({ err: error }, "Error counting transactions");
+      res.status(500).json({ message: "Failed to count transactions" });
+    }
+  });
+
+  app.get("/api/transactions/:id", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      res.setHeader("ETag", getTransactionETag(req.transaction));
+      res.json(req.transaction);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch transaction" });
     }
@@ -167,6 +209,7 @@ export async function registerRoutes(
         goLiveDate,
         propertyPhotoBase64,
         propertyPhotoFileName,
+        allowDuplicate,
         ...transactionData 
       } = req.body;
       
@@ -233,6 +276,10 @@ export async function registerRoutes(
         propertyAddress: transactionData.propertyAddress
       }, 'Coming Soon debug');
       
+      if (transactionData.status !== undefined && !isTransactionStatus(transactionData.status)) {
+        return res.status(400).json({ message: `Invalid status "${transactionData.status}"`, code: "invalid_status" });
+      }
+      
       // Set the status based on whether property is under contract (for non-off-market)
       if (!isOffMarket) {
         if (isUnderContract === false) {
@@ -256,6 +303,22 @@ export async function registerRoutes(
         }
       }
       
+      // Each transaction gets its own Slack channel and Gmail filter, so stop and ask before
+      // creating a second one for the same property; the client resends with allowDuplicate
+      if (allowDuplicate !== true) {
+        const check = await findDuplicateTransactions(await getAccessContext(req), {
+          propertyAddress: transactionData.propertyAddress,
+          mlsNumber: transactionData.mlsNumber,
+        });
+        if (hasDuplicates(check)) {
+          return res.status(409).json({
+            message: "A transaction for this property already exists",
+            code: "duplicate_transaction",
+            ...check,
+          });
+        }
+      }
+
       // Validate the transaction data and add userId
       const validatedData = insertTransactionSchema.parse({
         ...transactionData,
@@ -273,6 +336,21 @@ export async function registerRoutes(
         category: "transaction",
       });
 
+      // Instantiate closing checklist from matching templates
+      await instantiateChecklists(transaction);
+
+      // The FUB client becomes the first party on the transaction
+      if (transaction.fubClientName) {
+        await storage.createContact({
+          transactionId: transaction.id,
+          role: transaction.transactionType === "sell" ? "seller" : "buyer",
+          name: transaction.fubClientName,
+          email: transaction.fubClientEmail || null,
+          phone: transaction.fubClientPhone || null,
+          fubPersonId: transaction.fubClientId || null,
+        });
+      }
+
       // Create real Slack channel if requested
       log.info({
         shouldCreateSlack,
@@ -466,7 +544,8 @@ export async function registerRoutes(
           }
           
           if (targetEmail && hasEmailConsent) {
-            const gmailResult = await setupGmailForTransaction(transaction.propertyAddress, targetEmail);
+            const partyEmails = await getPartyEmails(transaction.id);
+            const gmailResult = await setupGmailForTransaction(transaction.propertyAddress, targetEmail, partyEmails);
             
             if (gmailResult.labelId) {
               if (gmailResult.filterId) {
@@ -526,7 +605,7 @@ export async function registerRoutes(
             // Check both rawData and mlsData itself (rawData may be absent for cached/normalized records)
             if (isRentalOrLease(mlsData.rawData ?? mlsData)) {
               // Delete the transaction we just created
-              await storage.deleteTransaction(transaction.id);
+              await storage.purgeTransaction(transaction.id);
               return res.status(422).json({
                 message: "Rental/Lease listings are not supported.",
                 code: "RENTAL_EXCLUDED",
@@ -884,101 +963,121 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/transactions/:id", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/transactions/:id", isAuthenticated, requireTransactionAccess(), requireCurrentVersion(), async (req: any, res) => {
     try {
-      const userId = req.user?.claims?.sub;
-      const userEmail = req.user?.claims?.email;
-      
-      // Get current transaction to check for date changes
-      const currentTransaction = await storage.getTransaction(req.params.id);
-      if (!currentTransaction) {
-        return res.status(404).json({ message: "Transaction not found" });
+      const currentTransaction: Transaction = req.transaction;
+
+      const update = pickEditableTransactionFields(req.body);
+      if (Object.keys(update).length === 0) {
+        return res.status(400).json({ message: "No editable fields in update" });
       }
-      
-      // Verify user can access this transaction (owner OR assigned coordinator)
-      if (!(await canAccessTransaction(currentTransaction, userId, userEmail))) {
-        return res.status(403).json({ message: "Access denied" });
+
+      const validation = validateTransactionUpdate(currentTransaction, update);
+      if (!validation.ok) {
+        return res.status(400).json(validation.error);
       }
-      
-      const transaction = await storage.updateTransaction(req.params.id, req.body);
+
+      const transaction = await applyTransactionUpdate(currentTransaction, update, validation.statusSideEffects, {
+        userId: req.user?.claims?.sub,
+        userEmail: req.user?.claims?.email,
+        requestId: req.requestId,
+        source: "edit",
+        expectedVersion: req.expectedVersion,
+      });
       if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
-      
-      // Log activity if dates were changed
-      const dateChanges: string[] = [];
-      if (req.body.contractDate !== undefined && req.body.contractDate !== currentTransaction.contractDate) {
-        const newDate = req.body.contractDate ? new Date(req.body.contractDate).toLocaleDateString() : 'removed';
-        dateChanges.push(`Contract Date updated to ${newDate}`);
-      }
-      if (req.body.closingDate !== undefined && req.body.closingDate !== currentTransaction.closingDate) {
-        const newDate = req.body.closingDate ? new Date(req.body.closingDate).toLocaleDateString() : 'removed';
-        dateChanges.push(`Expected Closing updated to ${newDate}`);
+        return sendFailedWrite(res, currentTransaction.id, req.expectedVersion, Object.keys(update));
       }
-      if (req.body.goLiveDate !== undefined && req.body.goLiveDate !== currentTransaction.goLiveDate) {
-        const newDate = req.body.goLiveDate ? new Date(req.body.goLiveDate).toLocaleDateString() : 'removed';
-        dateChanges.push(`Date Going Live updated to ${newDate}`);
-      }
-      
-      if (dateChanges.length > 0) {
-        await storage.createActivity({
-          transactionId: req.params.id,
-          type: 'dates_updated',
-          description: dateChanges.join('; '),
-          category: 'update',
-        });
-      }
-      
+
+      res.setHeader("ETag", getTransactionETag(transaction));
       res.json(transaction);
     } catch (error) {
       res.status(500).json({ message: "Failed to update transaction" });
     }
   });
 
-  app.delete("/api/transactions/:id", isAuthenticated, async (req: any, res) => {
+  // Field-level change history, newest version first
+  app.get("/api/transactions/:id/history", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
     try {
-      const userId = req.user?.claims?.sub;
-      const userEmail = req.user?.claims?.email;
-      
-      // Verify user can access this transaction (owner OR assigned coordinator)
-      const transaction = await storage.getTransaction(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
+      const history = await getTransactionHistory(req.params.id);
+      res.json(history);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching transaction history");
+      res.status(500).json({ message: "Failed to fetch transaction history" });
+    }
+  });
+
+  // Put one field back to the value it had before the given change
+  app.post("/api/transactions/:id/history/:changeId/revert", isAuthenticated, requireTransactionAccess(), requireCurrentVersion(), async (req: any, res) => {
+    try {
+      const currentTransaction: Transaction = req.transaction;
+
+      const change = await storage.getTransactionVersionChange(req.params.changeId);
+      if (!change || change.transactionId !== currentTransaction.id) {
+        return res.status(404).json({ message: "Change not found" });
       }
-      if (!(await canAccessTransaction(transaction, userId, userEmail))) {
-        return res.status(403).json({ message: "Access denied" });
+
+      const update = { [change.field]: toStoredFieldValue(change.field, change.oldValue) };
+      const validation = validateTransactionUpdate(currentTransaction, update);
+      if (!validation.ok) {
+        return res.status(400).json(validation.error);
       }
-      
-      const deleted = await storage.deleteTransaction(req.params.id);
+
+      const transaction = await applyTransactionUpdate(currentTransaction, update, validation.statusSideEffects, {
+        userId: req.user?.claims?.sub,
+        userEmail: req.user?.claims?.email,
+        requestId: req.requestId,
+        source: "revert",
+        revertedVersionId: change.id,
+        expectedVersion: req.expectedVersion,
+      });
+      if (!transaction) {
+        return sendFailedWrite(res, currentTransaction.id, req.expectedVersion, [change.field]);
+      }
+
+      res.setHeader("ETag", getTransactionETag(transaction));
+      res.json(transaction);
+    } catch (error) {
+      log.error({ err: error }, "Error reverting transaction field");
+      res.status(500).json({ message: "Failed to revert change" });
+    }
+  });
+
+  // Moves the transaction to the recycle bin; the purge job removes it after the retention period
+  app.delete("/api/transactions/:id", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const deleted = await moveToRecycleBin(transaction, req.user?.claims?.email || req.user?.claims?.sub);
       if (!deleted) {
         return res.status(404).json({ message: "Transaction not found" });
       }
-      res.json({ success: true });
+      res.json({ success: true, transaction: toDeletedTransaction(deleted) });
     } catch (error) {
+      log.error({ err: error }, "Error deleting transaction");
       res.status(500).json({ message: "Failed to delete transaction" });
     }
   });
 
+  app.get("/api/transactions/:id/duplicates", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const check = await findDuplicateTransactions(await getAccessContext(req), transaction, transaction.id);
+      res.json(check);
+    } catch (error) {
+      log.error({ err: error }, "Error finding duplicate transactions");
+      res.status(500).json({ message: "Failed to find duplicate transactions" });
+    }
+  });
+
   // Add MLS number to off-market listing (convert to active listing)
-  app.patch("/api/transactions/:id/add-mls", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/transactions/:id/add-mls", isAuthenticated, requireTransactionAccess(), requireCurrentVersion(), async (req: any, res) => {
     try {
-      const userId = req.user?.claims?.sub;
-      const userEmail = req.user?.claims?.email;
       const { mlsNumber } = req.body;
       
       if (!mlsNumber) {
         return res.status(400).json({ message: "MLS number is required" });
       }
       
-      const transaction = await storage.getTransaction(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
-      
-      // Verify user can access this transaction (owner OR assigned coordinator)
-      if (!(await canAccessTransaction(transaction, userId, userEmail))) {
-        return res.status(403).json({ message: "Access denied" });
-      }
+      const transaction: Transaction = req.transaction;
       
       // Normalize MLS number with ACT prefix
       let normalizedMLS = mlsNumber.trim().toUpperCase();
@@ -987,17 +1086,24 @@ export async function registerRoutes(
       }
       
       // Update transaction to no longer be off-market and add MLS number
-      const updated = await storage.updateTransaction(req.params.id, {
-        mlsNumber: normalizedMLS,
-        isOffMarket: false,
-      });
+      const mlsUpdate = { mlsNumber: normalizedMLS, isOffMarket: false };
+      const addMlsMeta = {
+        source: "add_mls" as const,
+        changedBy: req.user?.claims?.sub,
+        changedByEmail: req.user?.claims?.email,
+        requestId: req.requestId,
+      };
+      const converted = await saveTransactionChanges(transaction, mlsUpdate, addMlsMeta, req.expectedVersion);
+      if (!converted) {
+        return sendFailedWrite(res, transaction.id, req.expectedVersion, Object.keys(mlsUpdate));
+      }
       
       // Try to sync MLS data
       try {
         const mlsResult = await fetchMLSListing(normalizedMLS);
         if (mlsResult && mlsResult.mlsData) {
           const mlsData = mlsResult.mlsData;
-          await storage.updateTransaction(req.params.id, {
+          await saveTransactionChanges(converted, {
             mlsData,
             mlsLastSyncedAt: new Date(),
             listPrice: mlsData.listPrice || undefined,
@@ -1007,7 +1113,7 @@ export async function registerRoutes(
             yearBuilt: mlsData.yearBuilt || undefined,
             propertyType: mlsData.propertyType || undefined,
             // Note: propertyImages is for user uploads only, MLS photos come from mlsData
-          });
+          }, addMlsMeta);
           
           // Log activity
           await storage.createActivity({
@@ -1024,6 +1130,9 @@ export async function registerRoutes(
       
       // Get the updated transaction
       const finalTransaction = await storage.getTransaction(req.params.id);
+      if (finalTransaction) {
+        res.setHeader("ETag", getTransactionETag(finalTransaction));
+      }
       res.json(finalTransaction);
     } catch (error) {
       log.error({ err: error }, 'Error adding MLS number to transaction');
@@ -1032,57 +1141,20 @@ export async function registerRoutes(
   });
 
   // Archive a transaction - saves notification settings and disables all reminders
-  app.patch("/api/transactions/:id/archive", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/transactions/:id/archive", isAuthenticated, requireTransactionAccess(), requireCurrentVersion(), async (req: any, res) => {
     try {
       const userId = req.user?.id || req.user?.claims?.sub;
-      const userEmail = req.user?.claims?.email;
-      
-      const transaction = await storage.getTransaction(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
-      
-      // Verify user can access this transaction (owner OR assigned coordinator)
-      if (!(await canAccessTransaction(transaction, userId, userEmail))) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
-      // Get current notification settings to save before archiving
-      let previousReminderSettings = null;
       
-      if (userId) {
-        const currentSettings = await storage.getNotificationSettings(userId, req.params.id);
-        if (currentSettings) {
-          previousReminderSettings = {
-            closingReminders: currentSettings.closingReminders,
-            reminder14Days: currentSettings.reminder14Days,
-            reminder7Days: currentSettings.reminder7Days,
-            reminder3Days: currentSettings.reminder3Days,
-            reminderDayOf: currentSettings.reminderDayOf,
-            documentUploads: currentSettings.documentUploads,
-            marketingAssets: currentSettings.marketingAssets,
-          };
-          
-          // Disable all notifications for this transaction
-          await storage.upsertNotificationSettings({
-            userId,
-            transactionId: req.params.id,
-            closingReminders: false,
-            reminder14Days: false,
-            reminder7Days: false,
-            reminder3Days: false,
-            reminderDayOf: false,
-            documentUploads: false,
-            marketingAssets: false,
-          });
-        }
-      }
+      const transaction: Transaction = req.transaction;
       
-      const updated = await storage.updateTransaction(req.params.id, {
-        isArchived: true,
-        archivedAt: new Date(),
-        previousReminderSettings,
+      const updated = await archiveTransaction(transaction, userId, req.expectedVersion, {
+        changedBy: userId,
+        changedByEmail: req.user?.claims?.email,
+        requestId: req.requestId,
       });
+      if (!updated) {
+        return sendFailedWrite(res, transaction.id, req.expectedVersion, ["isArchived"]);
+      }
       
       // Log activity
       await storage.createActivity({
@@ -1094,6 +1166,7 @@ export async function registerRoutes(
       
       log.info(`[Archive] Transaction ${req.params.id} archived. All notifications disabled.`);
       
+      res.setHeader("ETag", getTransactionETag(updated));
       res.json(updated);
     } catch (error) {
       log.error({ err: error }, 'Error archiving transaction');
@@ -1102,21 +1175,13 @@ export async function registerRoutes(
   });
   
   // Unarchive/restore a transaction with optional notification restoration
-  app.patch("/api/transactions/:id/unarchive", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/transactions/:id/unarchive", isAuthenticated, requireTransactionAccess(), requireCurrentVersion(), async (req: any, res) => {
     try {
       const userId = req.user?.id || req.user?.claims?.sub;
-      const userEmail = req.user?.claims?.email;
       const { restoreNotifications = false } = req.body;
       
-      const transaction = await storage.getTransaction(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
+      const transaction: Transaction = req.transaction;
       
-      // Verify user can access this transaction (owner OR assigned coordinator)
-      if (!(await canAccessTransaction(transaction, userId, userEmail))) {
-        return res.status(403).json({ message: "Access denied" });
-      }
       let notificationsRestored = false;
       
       // Optionally restore notification settings
@@ -1139,11 +1204,19 @@ export async function registerRoutes(
         log.info(`[Unarchive] Transaction ${req.params.id} - Restoring notification settings`);
       }
       
-      const updated = await storage.updateTransaction(req.params.id, {
+      const updated = await saveTransactionChanges(transaction, {
         isArchived: false,
         archivedAt: null,
         previousReminderSettings: null, // Clear saved settings
-      });
+      }, {
+        source: "archive",
+        changedBy: userId,
+        changedByEmail: req.user?.claims?.email,
+        requestId: req.requestId,
+      }, req.expectedVersion);
+      if (!updated) {
+        return sendFailedWrite(res, transaction.id, req.expectedVersion, ["isArchived"]);
+      }
       
       // Log activity
       await storage.createActivity({
@@ -1157,6 +1230,7 @@ export async function registerRoutes(
       
       log.info(`[Unarchive] Transaction ${req.params.id} restored. Notifications: ${notificationsRestored ? 'RESTORED' : 'OFF'}`);
       
+      res.setHeader("ETag", getTransactionETag(updated));
       res.json({
         ...updated,
         notificationsRestored,
@@ -1167,7 +1241,7 @@ export async function registerRoutes(
     }
   });
 
-  // Delete all archived transactions permanently
+  // Move all archived transactions to the recycle bin (soft delete; purged after the retention period)
   app.delete("/api/transactions/archived/delete-all", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user?.claims?.sub;
@@ -1178,17 +1252,17 @@ export async function registerRoutes(
         return res.json({ deleted: 0, message: "No archived transactions to delete" });
       }
 
-      log.info(`[DeleteAllArchived] Deleting ${archivedTransactions.length} archived transactions for user ${userId}`);
+      log.info(`[DeleteAllArchived] Moving ${archivedTransactions.length} archived transactions to the recycle bin for user ${userId}`);
 
+      const deletedBy = req.user?.claims?.email || userId;
       let deletedCount = 0;
       const errors: string[] = [];
 
       for (const transaction of archivedTransactions) {
         try {
-          // Delete the transaction - this cascades to activities, open houses, etc.
-          await storage.deleteTransaction(transaction.id);
+          await moveToRecycleBin(transaction, deletedBy);
           deletedCount++;
-          log.info(`[DeleteAllArchived] Deleted transaction: ${transaction.propertyAddress}`);
+          log.info(`[DeleteAllArchived] Moved to recycle bin: ${transaction.propertyAddress}`);
         } catch (err) {
           log.error({ err: err }, `[DeleteAllArchived] Failed to delete transaction ${transaction.id}`);
           errors.push(transaction.propertyAddress);
@@ -1201,7 +1275,7 @@ export async function registerRoutes(
         deleted: deletedCount, 
         failed: errors.length,
         errors: errors.length > 0 ? errors : undefined,
-        message: `Successfully deleted ${deletedCount} archived transaction${deletedCount !== 1 ? 's' : ''}`
+        message: `Moved ${deletedCount} archived transaction${deletedCount !== 1 ? 's' : ''} to the recycle bin`
       });
     } catch (error) {
       log.error({ err: error }, 'Error deleting all archived transactions');
@@ -1210,12 +1284,9 @@ export async function registerRoutes(
   });
 
   // Connect Slack channel to an existing transaction
-  app.post("/api/transactions/:id/connect-slack", isAuthenticated, async (req: any, res) => {
+  app.post("/api/transactions/:id/connect-slack", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
     try {
-      const transaction = await storage.getTransaction(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
+      const transaction: Transaction = req.transaction;
 
       // Check if already connected
       if (transaction.slackChannelId) {
@@ -1318,14 +1389,11 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/transactions/:id/refresh-mls", isAuthenticated, async (req, res) => {
+  app.post("/api/transactions/:id/refresh-mls", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
     log.info({ data: req.params.id }, "=== REFRESH MLS REQUEST ===");
     try {
-      const transaction = await storage.getTransaction(req.params.id);
-      log.info({ transactionId: transaction?.id, mlsNumber: transaction?.mlsNumber }, 'Transaction found');
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
+      const transaction: Transaction = req.transaction;
+      log.info({ transactionId: transaction.id, mlsNumber: transaction.mlsNumber }, 'Transaction found');
 
       if (!process.env.REPLIERS_API_KEY) {
         log.info("REPLIERS_API_KEY not configured");
@@ -1336,7 +1404,7 @@ export async function registerRoutes(
       let mlsData = null;
 
       if (transaction.mlsNumber) {
-        const mlsResult = await fetchMLSListing(transaction.mlsNumber);
+        const mlsResult = await fetchMLSListing(transaction.mlsNumber, undefined, { forceRefresh: true });
         if (mlsResult) {
           mlsData = mlsResult.mlsData;
           log.info("MLS Data returned:", "found", mlsData?.photos?.length, "photos");
@@ -1372,7 +1440,15 @@ export async function registerRoutes(
       }
       
       log.info({ updateFields: Object.keys(updateData) }, 'Updating transaction');
-      const updated = await storage.updateTransaction(req.params.id, updateData);
+      const updated = await saveTransactionChanges(transaction, updateData, {
+        source: "mls_sync",
+        changedBy: req.user?.claims?.sub,
+        changedByEmail: req.user?.claims?.email,
+        requestId: req.requestId,
+      });
+      if (mlsData) {
+        await recordListingHistory(transaction, mlsData);
+      }
 
       await storage.createActivity({
         transactionId: transaction.id,
@@ -1388,7 +1464,18 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/transactions/:id/activities", isAuthenticated, async (req, res) => {
+  // Price, status and DOM over time, collapsed to the snapshots where something changed
+  app.get("/api/transactions/:id/listing-history", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const history = await storage.getMLSListingHistory(req.params.id);
+      res.json(collapseListingHistory(history));
+    } catch (error) {
+      log.error({ err: error }, "Error fetching listing history");
+      res.status(500).json({ message: "Failed to fetch listing history" });
+    }
+  });
+
+  app.get("/api/transactions/:id/activities", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
     try {
       const category = req.query.category as string | undefined;
       let activities = await storage.getActivitiesByTransaction(req.params.id);
@@ -1411,105 +1498,1202 @@ export async function registerRoutes(
     }
   });
 
-  // ============ Listing Search (Templates) ============
-  // Search MLS listing by address or MLS number for template generation
-  app.get("/api/listings/search", isAuthenticated, async (req, res) => {
+  // ============ Recycle Bin ============
+
+  app.get("/api/recycle-bin", isAuthenticated, async (req: any, res) => {
     try {
-      const { query } = req.query;
-      if (!query || typeof query !== "string") {
-        return res.status(400).json({ message: "Query parameter required" });
-      }
+      const access = await getAccessContext(req);
+      const retentionDays = getRetentionDays();
+      const deleted = await getAccessibleDeletedTransactions(access);
+      const response: RecycleBinResponse = {
+        retentionDays,
+        transactions: deleted.map(transaction => toDeletedTransaction(transaction, retentionDays)),
+      };
+      res.json(response);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching recycle bin");
+      res.status(500).json({ message: "Failed to fetch recycle bin" });
+    }
+  });
 
-      if (!process.env.REPLIERS_API_KEY) {
-        return res.status(400).json({ message: "Repliers API key not configured" });
+  app.post("/api/recycle-bin/:id/restore", isAuthenticated, requireDeletedTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const restored = await restoreFromRecycleBin(transaction, req.user?.claims?.email || req.user?.claims?.sub);
+      if (!restored) {
+        return res.status(404).json({ message: "Transaction not found in recycle bin" });
       }
+      res.json(restored);
+    } catch (error) {
+      log.error({ err: error }, "Error restoring transaction");
+      res.status(500).json({ message: "Failed to restore transaction" });
+    }
+  });
 
-      let listing = null;
+  // Permanently delete now instead of waiting for the retention period - admins only
+  app.delete("/api/recycle-bin/:id", isAuthenticated, requirePermission("admin"), requireDeletedTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const counts = await purgeTransaction(transaction, req.user?.claims?.email || req.user?.claims?.sub);
+      res.json({ success: true, ...counts });
+    } catch (error) {
+      log.error({ err: error }, "Error purging transaction");
+      res.status(500).json({ message: "Failed to permanently delete transaction" });
+    }
+  });
 
-      // If it looks like an MLS number (mostly digits), search by MLS number first
-      const isLikelyMLS = /^[A-Za-z]?\d+$/.test(query.replace(/\s/g, ""));
-      
-      if (isLikelyMLS) {
-        const mlsResult = await fetchMLSListing(query.replace(/\s/g, ""));
-        if (mlsResult) {
-          // GLOBAL RENTAL EXCLUSION: Check if this is a rental/lease listing
-          // Check both rawData and mlsData itself (rawData may be absent for cached/normalized records)
-          if (isRentalOrLease(mlsResult.mlsData.rawData ?? mlsResult.mlsData)) {
-            return res.status(422).json({
-              message: "Rental/Lease listings are not supported.",
-              code: "RENTAL_EXCLUDED",
-              mlsNumber: query,
-            });
-          }
-          listing = mlsResult.mlsData;
-        }
-      }
-      
-      // If not found by MLS, try address search (already has rental filter in searchByAddress)
-      if (!listing) {
-        const addressResult = await searchByAddress(query);
-        if (addressResult) {
-          // GLOBAL RENTAL EXCLUSION: Double-check address search results
-          // Check both rawData and addressResult itself (rawData may be absent for cached/normalized records)
-          if (isRentalOrLease(addressResult.rawData ?? addressResult)) {
-            return res.status(422).json({
-              message: "Rental/Lease listings are not supported.",
-              code: "RENTAL_EXCLUDED",
-            });
-          }
-          listing = addressResult;
-        }
-      }
+  app.get("/api/admin/recycle-bin/status", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const { getRecycleBinCronStatus } = await import("./cron/recycleBinCron");
+      res.json(getRecycleBinCronStatus());
+    } catch (error) {
+      log.error({ err: error }, "Error getting recycle bin status");
+      res.status(500).json({ message: "Failed to get recycle bin status" });
+    }
+  });
 
-      if (!listing) {
-        return res.status(404).json({ message: "No listing found for the provided query" });
+  // Run the purge job now (it otherwise runs daily)
+  app.post("/api/admin/recycle-bin/purge", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const { runPurge } = await import("./cron/recycleBinCron");
+      const result = await runPurge();
+      if (!result) {
+        return res.status(409).json({ message: "A purge is already running" });
       }
+      res.json(result);
+    } catch (error) {
+      log.error({ err: error }, "Error running recycle bin purge");
+      res.status(500).json({ message: "Failed to run recycle bin purge" });
+    }
+  });
 
-      res.json(listing);
+  // ============ Auto-Archive ============
+
+  app.get("/api/admin/auto-archive", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      res.json(await getAutoArchivePolicy());
     } catch (error) {
-      log.error({ err: error }, "Error searching listings");
-      res.status(500).json({ message: "Failed to search listings" });
+      log.error({ err: error }, "Error fetching auto-archive policy");
+      res.status(500).json({ message: "Failed to fetch auto-archive policy" });
     }
   });
 
-  // ============ MLS Autocomplete Search ============
+  app.put("/api/admin/auto-archive/rules/:status", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const validationResult = insertAutoArchiveRuleSchema.safeParse({ ...req.body, status: req.params.status });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid auto-archive rule", errors: validationResult.error.errors });
+      }
 
-  // Helper: Normalize MLS Number Input
-  // Handles: "2572987" → "ACT2572987"
-  //          "ACT2572987" → "ACT2572987"
-  //          "act2572987" → "ACT2572987"
-  function normalizeMlsNumber(input: string): { 
-    normalized: string; 
-    isPartial: boolean;
-    numbersOnly: string;
-  } {
-    const cleaned = input.trim().toUpperCase();
-    const numbersOnly = cleaned.replace(/[^0-9]/g, '');
-    
-    if (cleaned.startsWith('ACT')) {
-      return {
-        normalized: `ACT${numbersOnly}`,
-        isPartial: numbersOnly.length < 7,
-        numbersOnly,
-      };
+      const updatedBy = req.user?.claims?.email || req.user?.claims?.sub || null;
+      await storage.upsertAutoArchiveRule(validationResult.data, updatedBy);
+      res.json(await getAutoArchivePolicy());
+    } catch (error) {
+      log.error({ err: error }, "Error saving auto-archive rule");
+      res.status(500).json({ message: "Failed to save auto-archive rule" });
     }
-    
-    if (/^\d+$/.test(cleaned)) {
-      return {
-        normalized: `ACT${cleaned}`,
-        isPartial: cleaned.length < 7,
-        numbersOnly: cleaned,
-      };
+  });
+
+  // Dry run - what the next run would archive, without touching anything
+  app.get("/api/admin/auto-archive/preview", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      res.json(await runAutoArchive({ dryRun: true }));
+    } catch (error) {
+      log.error({ err: error }, "Error previewing auto-archive");
+      res.status(500).json({ message: "Failed to preview auto-archive" });
     }
-    
-    return {
-      normalized: cleaned,
-      isPartial: true,
-      numbersOnly,
-    };
-  }
+  });
 
-  // Helper: Format address from Repliers listing
+  app.get("/api/admin/auto-archive/status", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const { getAutoArchiveCronStatus } = await import("./cron/autoArchiveCron");
+      res.json(getAutoArchiveCronStatus());
+    } catch (error) {
+      log.error({ err: error }, "Error getting auto-archive status");
+      res.status(500).json({ message: "Failed to get auto-archive status" });
+    }
+  });
+
+  // Run the auto-archive job now (it otherwise runs daily)
+  app.post("/api/admin/auto-archive/run", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const { runAutoArchiveJob } = await import("./cron/autoArchiveCron");
+      const result = await runAutoArchiveJob();
+      if (!result) {
+        return res.status(409).json({ message: "Auto-archive is already running" });
+      }
+      res.json(result);
+    } catch (error) {
+      log.error({ err: error }, "Error running auto-archive");
+      res.status(500).json({ message: "Failed to run auto-archive" });
+    }
+  });
+
+  // ============ Tasks ============
+
+  app.get("/api/transactions/:id/tasks", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const tasks = await storage.getTasksByTransaction(req.params.id);
+      res.json(tasks);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching tasks");
+      res.status(500).json({ message: "Failed to fetch tasks" });
+    }
+  });
+
+  app.post("/api/transactions/:id/tasks", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const existingTasks = await storage.getTasksByTransaction(req.params.id);
+      const validationResult = insertTransactionTaskSchema.safeParse({
+        transactionId: req.params.id,
+        templateId: null,
+        title: req.body.title,
+        description: req.body.description || null,
+        assigneeType: req.body.assigneeType || "coordinator",
+        assigneeId: req.body.assigneeId || null,
+        dueDate: req.body.dueDate || null,
+        sortOrder: existingTasks.length,
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid task", errors: validationResult.error.errors });
+      }
+
+      const task = await storage.createTask(validationResult.data);
+      res.status(201).json(task);
+    } catch (error) {
+      log.error({ err: error }, "Error creating task");
+      res.status(500).json({ message: "Failed to create task" });
+    }
+  });
+
+  app.patch("/api/transactions/:id/tasks/:taskId", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const userEmail = req.user?.claims?.email;
+      const transaction: Transaction = req.transaction;
+      const task = await storage.getTask(req.params.taskId);
+      if (!task || task.transactionId !== transaction.id) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const { title, description, assigneeType, assigneeId, dueDate, isCompleted } = req.body;
+      const updateData: any = {};
+      if (title !== undefined) {
+        if (typeof title !== "string" || !title.trim()) {
+          return res.status(400).json({ message: "Title is required" });
+        }
+        updateData.title = title.trim();
+      }
+      if (description !== undefined) updateData.description = description || null;
+      if (assigneeType !== undefined) {
+        if (!taskAssigneeTypes.includes(assigneeType)) {
+          return res.status(400).json({ message: "Invalid assignee type" });
+        }
+        updateData.assigneeType = assigneeType;
+      }
+      if (assigneeId !== undefined) updateData.assigneeId = assigneeId || null;
+      if (dueDate !== undefined) updateData.dueDate = dueDate || null;
+
+      const completionChanged = isCompleted !== undefined && !!isCompleted !== !!task.isCompleted;
+      if (completionChanged) {
+        updateData.isCompleted = !!isCompleted;
+        updateData.completedAt = isCompleted ? new Date() : null;
+        updateData.completedBy = isCompleted ? (userId || null) : null;
+      }
+
+      const updated = await storage.updateTask(task.id, updateData);
+
+      if (completionChanged) {
+        if (isCompleted) {
+          await TimelineLogger.taskCompleted(transaction.id, task.id, task.title, userEmail || userId);
+        } else {
+          await TimelineLogger.taskReopened(transaction.id, task.id, task.title);
+        }
+      }
+
+      res.json(updated);
+    } catch (error) {
+      log.error({ err: error }, "Error updating task");
+      res.status(500).json({ message: "Failed to update task" });
+    }
+  });
+
+  app.delete("/api/transactions/:id/tasks/:taskId", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const task = await storage.getTask(req.params.taskId);
+      if (!task || task.transactionId !== transaction.id) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      await storage.deleteTask(task.id);
+      res.json({ success: true });
+    } catch (error) {
+      log.error({ err: error }, "Error deleting task");
+      res.status(500).json({ message: "Failed to delete task" });
+    }
+  });
+
+  // ============ Notes ============
+
+  app.get("/api/transactions/:id/notes", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const notes = await storage.getNotesByTransaction(req.params.id);
+      res.json(buildNoteThreads(notes));
+    } catch (error) {
+      log.error({ err: error }, "Error fetching notes");
+      res.status(500).json({ message: "Failed to fetch notes" });
+    }
+  });
+
+  // People the composer offers after "@"
+  app.get("/api/transactions/:id/notes/mentionable", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      res.json(await getMentionablePeople(req.transaction));
+    } catch (error) {
+      log.error({ err: error }, "Error fetching mentionable people");
+      res.status(500).json({ message: "Failed to fetch mentionable people" });
+    }
+  });
+
+  app.post("/api/transactions/:id/notes", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const userId = req.user?.claims?.sub;
+      const user = userId ? await authStorage.getUser(userId) : undefined;
+      const authorName = user ? `${user.firstName || ""} ${user.lastName || ""}`.trim() : "";
+
+      const validationResult = insertTransactionNoteSchema.safeParse({
+        transactionId: transaction.id,
+        parentId: req.body.parentId || null,
+        authorId: userId || null,
+        authorName: authorName || null,
+        authorEmail: req.user?.claims?.email || null,
+        body: req.body.body,
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid note", errors: validationResult.error.errors });
+      }
+
+      // Replies hang off a top-level note on the same transaction
+      const parentId = validationResult.data.parentId;
+      if (parentId) {
+        const parent = await storage.getNote(parentId);
+        if (!parent || parent.transactionId !== transaction.id || parent.parentId) {
+          return res.status(400).json({ message: "Replies must be to a note on this transaction" });
+        }
+      }
+
+      const mentions = findMentions(validationResult.data.body, await getMentionablePeople(transaction));
+      const note = await storage.createNote(validationResult.data, mentions);
+      await TimelineLogger.noteAdded(transaction.id, note.id, note.authorName || note.authorEmail || "Someone", !!parentId);
+      await notifyMentions(transaction, note, mentions);
+
+      res.status(201).json(note);
+    } catch (error) {
+      log.error({ err: error }, "Error creating note");
+      res.status(500).json({ message: "Failed to add note" });
+    }
+  });
+
+  app.patch("/api/transactions/:id/notes/:noteId", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const note = await storage.getNote(req.params.noteId);
+      if (!note || note.transactionId !== transaction.id || note.deletedAt) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+
+      const access = await getAccessContext(req);
+      if (note.authorId !== access.userId && !hasPermission(access.permissions, "admin")) {
+        return res.status(403).json({ message: "Only the author can edit this note" });
+      }
+
+      const validationResult = insertTransactionNoteSchema.pick({ body: true }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid note", errors: validationResult.error.errors });
+      }
+
+      const mentions = findMentions(validationResult.data.body, await getMentionablePeople(transaction));
+      const updated = await storage.updateNote(note.id, validationResult.data.body, mentions, access.email || access.userId);
+      if (!updated) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+
+      // Only people added by this edit hear about it
+      const alreadyMentioned = new Set(note.mentions.map(m => `${m.type}:${m.id}`));
+      await notifyMentions(transaction, updated, mentions.filter(m => !alreadyMentioned.has(`${m.type}:${m.id}`)));
+
+      res.json(updated);
+    } catch (error) {
+      log.error({ err: error }, "Error updating note");
+      res.status(500).json({ message: "Failed to update note" });
+    }
+  });
+
+  app.delete("/api/transactions/:id/notes/:noteId", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const note = await storage.getNote(req.params.noteId);
+      if (!note || note.transactionId !== req.params.id || note.deletedAt) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+
+      const access = await getAccessContext(req);
+      if (note.authorId !== access.userId && !hasPermission(access.permissions, "admin")) {
+        return res.status(403).json({ message: "Only the author can delete this note" });
+      }
+
+      const deleted = await storage.deleteNote(note.id, access.email || access.userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      res.json(deleted);
+    } catch (error) {
+      log.error({ err: error }, "Error deleting note");
+      res.status(500).json({ message: "Failed to delete note" });
+    }
+  });
+
+  // Earlier bodies of an edited note, newest first
+  app.get("/api/transactions/:id/notes/:noteId/revisions", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const note = await storage.getNote(req.params.noteId);
+      if (!note || note.transactionId !== req.params.id || note.deletedAt) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      res.json(await storage.getNoteRevisions(note.id));
+    } catch (error) {
+      log.error({ err: error }, "Error fetching note revisions");
+      res.status(500).json({ message: "Failed to fetch note revisions" });
+    }
+  });
+
+  // ============ Deadlines ============
+
+  app.get("/api/transactions/:id/deadlines", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const deadlines = await storage.getDeadlinesByTransaction(req.params.id);
+      res.json(deadlines);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching deadlines");
+      res.status(500).json({ message: "Failed to fetch deadlines" });
+    }
+  });
+
+  app.post("/api/transactions/:id/deadlines", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const validationResult = deadlineInputSchema.omit({ status: true }).safeParse({
+        type: req.body.type,
+        label: req.body.label,
+        offsetDays: req.body.offsetDays ?? null,
+        dayType: req.body.dayType || "calendar",
+        dueDate: req.body.dueDate || null,
+        notes: req.body.notes || null,
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid deadline", errors: validationResult.error.errors });
+      }
+
+      // A deadline is either manual (dueDate entered by hand) or an offset from the contract date
+      const input = validationResult.data;
+      const isManual = input.offsetDays === null || input.offsetDays === undefined;
+      const deadline = await storage.createDeadline({
+        ...input,
+        transactionId: transaction.id,
+        isManual,
+        dueDate: isManual
+          ? input.dueDate ?? null
+          : computeDeadlineDueDate(transaction.contractDate, input.offsetDays, input.dayType),
+        status: "upcoming",
+      });
+      res.status(201).json(deadline);
+    } catch (error) {
+      log.error({ err: error }, "Error creating deadline");
+      res.status(500).json({ message: "Failed to create deadline" });
+    }
+  });
+
+  app.post("/api/transactions/:id/deadlines/defaults", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const created = await addDefaultDeadlines(transaction);
+      res.status(201).json(created);
+    } catch (error) {
+      log.error({ err: error }, "Error adding default deadlines");
+      res.status(500).json({ message: "Failed to add default deadlines" });
+    }
+  });
+
+  app.patch("/api/transactions/:id/deadlines/:deadlineId", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const deadline = await storage.getDeadline(req.params.deadlineId);
+      if (!deadline || deadline.transactionId !== transaction.id) {
+        return res.status(404).json({ message: "Deadline not found" });
+      }
+
+      // An empty due date clears it
+      const validationResult = deadlineInputSchema
+        .omit({ type: true })
+        .partial()
+        .safeParse({ ...req.body, dueDate: req.body.dueDate === "" ? null : req.body.dueDate });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid deadline", errors: validationResult.error.errors });
+      }
+      const { label, offsetDays, dayType, dueDate, status, notes } = validationResult.data;
+
+      const updateData: any = {};
+      if (label !== undefined) updateData.label = label;
+      if (notes !== undefined) updateData.notes = notes || null;
+
+      if (dueDate !== undefined) {
+        // Entering a date by hand turns the deadline manual
+        updateData.dueDate = dueDate || null;
+        updateData.isManual = true;
+        updateData.offsetDays = null;
+      } else if (offsetDays !== undefined || dayType !== undefined) {
+        const nextOffset = offsetDays !== undefined ? offsetDays : deadline.offsetDays;
+        const nextDayType = dayType || (deadline.dayType as DeadlineDayType);
+        updateData.offsetDays = nextOffset;
+        updateData.dayType = nextDayType;
+        updateData.isManual = nextOffset === null;
+        if (nextOffset !== null) {
+          updateData.dueDate = computeDeadlineDueDate(transaction.contractDate, nextOffset, nextDayType);
+        }
+      }
+
+      const statusChanged = status !== undefined && status !== deadline.status;
+      if (statusChanged) {
+        updateData.status = status;
+        updateData.statusChangedAt = new Date();
+      }
+
+      const updated = await storage.updateDeadline(deadline.id, updateData);
+
+      if (statusChanged) {
+        await TimelineLogger.deadlineStatusChanged(transaction.id, deadline.id, updated?.label || deadline.label, status);
+      }
+
+      res.json(updated);
+    } catch (error) {
+      log.error({ err: error }, "Error updating deadline");
+      res.status(500).json({ message: "Failed to update deadline" });
+    }
+  });
+
+  app.delete("/api/transactions/:id/deadlines/:deadlineId", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const deadline = await storage.getDeadline(req.params.deadlineId);
+      if (!deadline || deadline.transactionId !== transaction.id) {
+        return res.status(404).json({ message: "Deadline not found" });
+      }
+
+      await storage.deleteDeadline(deadline.id);
+      res.json({ success: true });
+    } catch (error) {
+      log.error({ err: error }, "Error deleting deadline");
+      res.status(500).json({ message: "Failed to delete deadline" });
+    }
+  });
+
+  // ============ Contacts ============
+
+  app.get("/api/transactions/:id/contacts", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const contacts = await storage.getContactsByTransaction(req.params.id);
+      res.json(contacts);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching contacts");
+      res.status(500).json({ message: "Failed to fetch contacts" });
+    }
+  });
+
+  app.post("/api/transactions/:id/contacts", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const { role, name, email, phone, company, fubPersonId, notes } = req.body;
+
+      // Fill in missing details from the linked FUB person
+      const fubDetails = fubPersonId ? await getFubPersonDetails(String(fubPersonId)) : null;
+      if (fubPersonId && !fubDetails && !name) {
+        return res.status(404).json({ message: "Follow Up Boss person not found" });
+      }
+
+      const validationResult = insertTransactionContactSchema.safeParse({
+        transactionId: req.params.id,
+        role,
+        name: name || fubDetails?.name,
+        email: email || fubDetails?.email || null,
+        phone: phone || fubDetails?.phone || null,
+        company: company || null,
+        fubPersonId: fubPersonId ? String(fubPersonId) : null,
+        notes: notes || null,
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid contact", errors: validationResult.error.errors });
+      }
+
+      const contact = await storage.createContact(validationResult.data);
+      if (contact.email) {
+        await syncGmailFilterWithContacts(transaction);
+      }
+      res.status(201).json(contact);
+    } catch (error) {
+      log.error({ err: error }, "Error creating contact");
+      res.status(500).json({ message: "Failed to create contact" });
+    }
+  });
+
+  app.patch("/api/transactions/:id/contacts/:contactId", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const contact = await storage.getContact(req.params.contactId);
+      if (!contact || contact.transactionId !== transaction.id) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const { role, name, email, phone, company, fubPersonId, notes } = req.body;
+      const validationResult = insertTransactionContactSchema.partial().safeParse({
+        ...(role !== undefined && { role }),
+        ...(name !== undefined && { name }),
+        ...(email !== undefined && { email: email || null }),
+        ...(phone !== undefined && { phone: phone || null }),
+        ...(company !== undefined && { company: company || null }),
+        ...(fubPersonId !== undefined && { fubPersonId: fubPersonId ? String(fubPersonId) : null }),
+        ...(notes !== undefined && { notes: notes || null }),
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid contact", errors: validationResult.error.errors });
+      }
+
+      const updated = await storage.updateContact(contact.id, validationResult.data);
+      if (email !== undefined && (email || null) !== contact.email) {
+        await syncGmailFilterWithContacts(transaction);
+      }
+      res.json(updated);
+    } catch (error) {
+      log.error({ err: error }, "Error updating contact");
+      res.status(500).json({ message: "Failed to update contact" });
+    }
+  });
+
+  app.delete("/api/transactions/:id/contacts/:contactId", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const contact = await storage.getContact(req.params.contactId);
+      if (!contact || contact.transactionId !== transaction.id) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      await storage.deleteContact(contact.id);
+      if (contact.email) {
+        await syncGmailFilterWithContacts(transaction);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      log.error({ err: error }, "Error deleting contact");
+      res.status(500).json({ message: "Failed to delete contact" });
+    }
+  });
+
+  // ============ Open Houses ============
+
+  // Open houses on every unarchived transaction the user can see, for the calendar page
+  app.get("/api/open-houses", isAuthenticated, async (req: any, res) => {
+    try {
+      const transactions = await getAccessibleTransactions(await getAccessContext(req), { archived: 'exclude' });
+      const openHouses = await storage.getOpenHousesByTransactionIds(transactions.map(t => t.id));
+      res.json(openHouses);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching open houses");
+      res.status(500).json({ message: "Failed to fetch open houses" });
+    }
+  });
+
+  app.get("/api/transactions/:id/open-houses", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const openHouses = await storage.getOpenHousesByTransaction(req.params.id);
+      res.json(openHouses);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching open houses");
+      res.status(500).json({ message: "Failed to fetch open houses" });
+    }
+  });
+
+  app.post("/api/transactions/:id/open-houses", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const { date, startTime, endTime, hostUserId, hostName, notes } = req.body;
+
+      const validationResult = insertOpenHouseSchema.safeParse({
+        transactionId: transaction.id,
+        date,
+        startTime,
+        endTime,
+        hostUserId: hostUserId || null,
+        hostName: hostName || (hostUserId ? (await getAgentLabels([hostUserId])).get(hostUserId) : null) || null,
+        notes: notes || null,
+        signIns: [],
+        createdBy: req.user?.claims?.sub || null,
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid open house", errors: validationResult.error.errors });
+      }
+      if (!isValidOpenHouseWindow(validationResult.data.startTime, validationResult.data.endTime)) {
+        return res.status(400).json({ message: "End time must be after start time" });
+      }
+
+      const openHouse = await storage.createOpenHouse(validationResult.data);
+      await TimelineLogger.openHouseScheduled(
+        transaction.id,
+        openHouse.id,
+        `${formatOpenHouseDate(openHouse.date)}, ${formatOpenHouseTimeRange(openHouse)}`
+      );
+      res.status(201).json(openHouse);
+    } catch (error) {
+      log.error({ err: error }, "Error creating open house");
+      res.status(500).json({ message: "Failed to create open house" });
+    }
+  });
+
+  app.patch("/api/transactions/:id/open-houses/:openHouseId", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const openHouse = await storage.getOpenHouse(req.params.openHouseId);
+      if (!openHouse || openHouse.transactionId !== transaction.id) {
+        return res.status(404).json({ message: "Open house not found" });
+      }
+
+      const { date, startTime, endTime, hostUserId, hostName, notes, signIns } = req.body;
+      const validationResult = insertOpenHouseSchema.partial().safeParse({
+        ...(date !== undefined && { date }),
+        ...(startTime !== undefined && { startTime }),
+        ...(endTime !== undefined && { endTime }),
+        ...(hostUserId !== undefined && { hostUserId: hostUserId || null }),
+        ...(hostName !== undefined && { hostName: hostName || null }),
+        ...(notes !== undefined && { notes: notes || null }),
+        ...(signIns !== undefined && { signIns }),
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid open house", errors: validationResult.error.errors });
+      }
+      const update = validationResult.data;
+      if (!isValidOpenHouseWindow(update.startTime ?? openHouse.startTime, update.endTime ?? openHouse.endTime)) {
+        return res.status(400).json({ message: "End time must be after start time" });
+      }
+
+      const rescheduled = compareOpenHouses({
+        date: update.date ?? openHouse.date,
+        startTime: update.startTime ?? openHouse.startTime,
+        endTime: update.endTime ?? openHouse.endTime,
+      }, openHouse) !== 0;
+
+      // A new time gets a fresh Slack announcement
+      const updated = await storage.updateOpenHouse(openHouse.id, { ...update, ...(rescheduled && { slackPostedAt: null }) });
+      if (updated && rescheduled) {
+        await TimelineLogger.openHouseScheduled(
+          transaction.id,
+          updated.id,
+          `${formatOpenHouseDate(updated.date)}, ${formatOpenHouseTimeRange(updated)}`
+        );
+      }
+      res.json(updated);
+    } catch (error) {
+      log.error({ err: error }, "Error updating open house");
+      res.status(500).json({ message: "Failed to update open house" });
+    }
+  });
+
+  app.delete("/api/transactions/:id/open-houses/:openHouseId", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const openHouse = await storage.getOpenHouse(req.params.openHouseId);
+      if (!openHouse || openHouse.transactionId !== transaction.id) {
+        return res.status(404).json({ message: "Open house not found" });
+      }
+
+      await storage.deleteOpenHouse(openHouse.id);
+      await TimelineLogger.openHouseCancelled(
+        transaction.id,
+        openHouse.id,
+        `${formatOpenHouseDate(openHouse.date)}, ${formatOpenHouseTimeRange(openHouse)}`
+      );
+      res.json({ success: true });
+    } catch (error) {
+      log.error({ err: error }, "Error deleting open house");
+      res.status(500).json({ message: "Failed to delete open house" });
+    }
+  });
+
+  // ============ Offers ============
+
+  const OFFER_FIELDS = [
+    "buyerName", "buyerAgentName", "buyerAgentBrokerage", "buyerAgentEmail", "buyerAgentPhone", "price", "financingType",
+    "downPaymentPercent", "earnestMoney", "optionFee", "optionDays", "sellerConcessions", "buyerAgentCommissionPercent",
+    "closeDate", "expiresAt", "status", "notes",
+  ] as const;
+
+  // Only the offer fields that were sent; empty strings clear a field
+  const pickOfferFields = (body: Record<string, any>) => Object.fromEntries(
+    OFFER_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field] === "" ? null : body[field]])
+  );
+
+  app.get("/api/transactions/:id/offers", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const offers = await storage.getOffersByTransaction(req.params.id);
+      res.json(offers);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching offers");
+      res.status(500).json({ message: "Failed to fetch offers" });
+    }
+  });
+
+  app.post("/api/transactions/:id/offers", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      if (transaction.transactionType !== "sell") {
+        return res.status(400).json({ message: "Offers can only be recorded on sell-side transactions" });
+      }
+
+      const validationResult = insertOfferSchema.safeParse({
+        status: "received",
+        ...pickOfferFields(req.body),
+        transactionId: transaction.id,
+        createdBy: req.user?.claims?.sub || null,
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid offer", errors: validationResult.error.errors });
+      }
+      if (validationResult.data.status === "accepted") {
+        return res.status(400).json({ message: "Record the offer first, then accept it" });
+      }
+
+      const offer = await storage.createOffer(validationResult.data);
+      await TimelineLogger.offerReceived(transaction.id, offer.id, offer.buyerAgentName, formatCurrency(offer.price));
+      res.status(201).json(offer);
+    } catch (error) {
+      log.error({ err: error }, "Error creating offer");
+      res.status(500).json({ message: "Failed to create offer" });
+    }
+  });
+
+  app.patch("/api/transactions/:id/offers/:offerId", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const offer = await storage.getOffer(req.params.offerId);
+      if (!offer || offer.transactionId !== transaction.id) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+
+      const validationResult = insertOfferSchema.partial().safeParse(pickOfferFields(req.body));
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid offer", errors: validationResult.error.errors });
+      }
+      const update = validationResult.data;
+      // Accepting writes to the transaction too, so it has its own route - and the
+      // transaction keeps the accepted terms, so the offer can't quietly fall away from them
+      if (update.status === "accepted" && offer.status !== "accepted") {
+        return res.status(400).json({ message: "Use accept to accept an offer" });
+      }
+      if (offer.status === "accepted" && update.status !== undefined && update.status !== "accepted") {
+        return res.status(400).json({ message: "An accepted offer can't change status - edit the transaction's sale terms or status instead" });
+      }
+
+      const updated = await storage.updateOffer(offer.id, update);
+      if (updated && update.status !== undefined && update.status !== offer.status) {
+        await TimelineLogger.offerStatusChanged(transaction.id, offer.id, updated.buyerAgentName, update.status);
+      }
+      res.json(updated);
+    } catch (error) {
+      log.error({ err: error }, "Error updating offer");
+      res.status(500).json({ message: "Failed to update offer" });
+    }
+  });
+
+  app.delete("/api/transactions/:id/offers/:offerId", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const offer = await storage.getOffer(req.params.offerId);
+      if (!offer || offer.transactionId !== transaction.id) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      if (offer.status === "accepted") {
+        return res.status(400).json({ message: "An accepted offer can't be deleted" });
+      }
+
+      await storage.deleteOffer(offer.id);
+      res.json({ success: true });
+    } catch (error) {
+      log.error({ err: error }, "Error deleting offer");
+      res.status(500).json({ message: "Failed to delete offer" });
+    }
+  });
+
+  // Accept an offer on an active listing: sets salePrice, contractDate and closingDate on
+  // the transaction and moves it to in_contract, through the same checks as a PATCH
+  app.post("/api/transactions/:id/offers/:offerId/accept", isAuthenticated, requireTransactionAccess(), requireCurrentVersion(), async (req: any, res) => {
+    try {
+      const currentTransaction: Transaction = req.transaction;
+      const offer = await storage.getOffer(req.params.offerId);
+      if (!offer || offer.transactionId !== currentTransaction.id) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      if (!canAcceptOffers(currentTransaction)) {
+        return res.status(400).json({ message: "Offers can only be accepted on an active listing - this one is already under contract or finished" });
+      }
+      if (!isOpenOfferStatus(offer.status)) {
+        return res.status(400).json({ message: `This offer is ${offer.status} and can't be accepted` });
+      }
+      const existing = await storage.getOffersByTransaction(currentTransaction.id);
+      if (existing.some(o => o.status === "accepted")) {
+        return res.status(400).json({ message: "Another offer has already been accepted" });
+      }
+
+      const contractDate = req.body.contractDate || new Date().toISOString().split("T")[0];
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(contractDate)) {
+        return res.status(400).json({ message: "contractDate must be YYYY-MM-DD" });
+      }
+
+      const update = getOfferAcceptanceUpdate(currentTransaction, offer, contractDate);
+      const validation = validateTransactionUpdate(currentTransaction, update);
+      if (!validation.ok) {
+        return res.status(400).json(validation.error);
+      }
+
+      // Claim the offer first: only one accept can win it, with or without If-Match
+      const accepted = await storage.acceptOffer(offer.id);
+      if (!accepted) {
+        return res.status(409).json({ message: "This offer was just accepted or changed, or another offer was accepted - reload the offers" });
+      }
+
+      // Release the claim if the transaction update fails or throws, so the offer can be accepted again
+      let transaction: Transaction | undefined;
+      try {
+        transaction = await applyTransactionUpdate(currentTransaction, update, validation.statusSideEffects, {
+          userId: req.user?.claims?.sub,
+          userEmail: req.user?.claims?.email,
+          requestId: req.requestId,
+          source: "offer_accepted",
+          expectedVersion: req.expectedVersion,
+        });
+      } catch (error) {
+        await storage.updateOffer(offer.id, { status: offer.status });
+        throw error;
+      }
+      if (!transaction) {
+        await storage.updateOffer(offer.id, { status: offer.status });
+        return sendFailedWrite(res, currentTransaction.id, req.expectedVersion, Object.keys(update));
+      }
+
+      await TimelineLogger.offerStatusChanged(transaction.id, offer.id, offer.buyerAgentName, "accepted");
+
+      res.setHeader("ETag", getTransactionETag(transaction));
+      res.json({ transaction, offer: accepted });
+    } catch (error) {
+      log.error({ err: error }, "Error accepting offer");
+      res.status(500).json({ message: "Failed to accept offer" });
+    }
+  });
+
+  // ============ Net Sheets ============
+
+  // Any agent can pick a schedule when saving; admins maintain them under /api/admin
+  app.get("/api/net-sheet-fee-schedules", isAuthenticated, async (req: any, res) => {
+    try {
+      const schedules = await storage.getNetSheetFeeSchedules();
+      res.json(schedules);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching net sheet fee schedules");
+      res.status(500).json({ message: "Failed to fetch fee schedules" });
+    }
+  });
+
+  app.get("/api/transactions/:id/net-sheets", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const sheets = await storage.getNetSheetsByTransaction(req.params.id);
+      res.json(sheets);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching net sheets");
+      res.status(500).json({ message: "Failed to fetch net sheets" });
+    }
+  });
+
+  // Saves a new version; the result is recalculated here so it always matches the inputs and fees saved with it
+  app.post("/api/transactions/:id/net-sheets", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const validationResult = netSheetInputsSchema.safeParse(req.body.inputs);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid net sheet", errors: validationResult.error.errors });
+      }
+
+      const schedule = req.body.feeScheduleId
+        ? await storage.getNetSheetFeeSchedule(req.body.feeScheduleId)
+        : await storage.getDefaultNetSheetFeeSchedule();
+      if (req.body.feeScheduleId && !schedule) {
+        return res.status(400).json({ message: "Fee schedule not found" });
+      }
+
+      const inputs = validationResult.data;
+      const sheet = await storage.createNetSheetVersion({
+        transactionId: transaction.id,
+        type: inputs.type,
+        feeScheduleId: schedule?.id ?? null,
+        feeScheduleName: schedule?.name ?? DEFAULT_NET_SHEET_FEE_SCHEDULE_NAME,
+        inputs,
+        result: calculateNetSheet(inputs, schedule?.fees ?? DEFAULT_NET_SHEET_FEES),
+        createdBy: req.user?.claims?.sub || null,
+        createdByEmail: req.user?.claims?.email || null,
+      });
+      res.status(201).json(sheet);
+    } catch (error) {
+      log.error({ err: error }, "Error saving net sheet");
+      res.status(500).json({ message: "Failed to save net sheet" });
+    }
+  });
+
+  app.get("/api/transactions/:id/net-sheets/:sheetId/pdf", isAuthenticated, requireTransactionAccess(), generationLimiter, async (req: any, res) => {
+    try {
+      const transaction: Transaction = req.transaction;
+      const sheet = await storage.getNetSheet(req.params.sheetId);
+      if (!sheet || sheet.transactionId !== transaction.id) {
+        return res.status(404).json({ message: "Net sheet not found" });
+      }
+
+      const preparedBy = sheet.createdBy ? (await getAgentLabels([sheet.createdBy])).get(sheet.createdBy) : null;
+      const buffer = await generateNetSheetPdf({ sheet, address: transaction.propertyAddress, preparedBy });
+
+      const addressSlug = transaction.propertyAddress.split(',')[0].replace(/\s+/g, '_').replace(/[^a-zA-Z0-9_]/g, '');
+      res.set("Content-Type", "application/pdf");
+      res.set("Content-Disposition", `attachment; filename="${addressSlug}_${sheet.type}_net_sheet_v${sheet.version}.pdf"`);
+      res.send(buffer);
+    } catch (error) {
+      log.error({ err: error }, "Error generating net sheet PDF");
+      res.status(500).json({ message: "Failed to generate net sheet PDF" });
+    }
+  });
+
+  // ============ Reports ============
+
+  app.get("/api/reports/revenue", isAuthenticated, async (req: any, res) => {
+    try {
+      const groupBy = (req.query.groupBy as string) || "month";
+      if (!revenueGroupings.includes(groupBy as RevenueGroupBy)) {
+        return res.status(400).json({ message: `groupBy must be one of: ${revenueGroupings.join(", ")}` });
+      }
+
+      // Broker admins report on the whole brokerage, everyone else on the transactions they can see
+      const transactions = await getAccessibleTransactions(await getAccessContext(req));
+
+      const report = await buildRevenueReport(transactions, groupBy as RevenueGroupBy, {
+        from: req.query.from as string | undefined,
+        to: req.query.to as string | undefined,
+      });
+      res.json(report);
+    } catch (error) {
+      log.error({ err: error }, "Error building revenue report");
+      res.status(500).json({ message: "Failed to build revenue report" });
+    }
+  });
+
+  app.get("/api/reports/pipeline", isAuthenticated, async (req: any, res) => {
+    try {
+      const transactions = await getAccessibleTransactions(await getAccessContext(req));
+      res.json(buildPipelineReport(transactions));
+    } catch (error) {
+      log.error({ err: error }, "Error building pipeline report");
+      res.status(500).json({ message: "Failed to build pipeline report" });
+    }
+  });
+
+  app.get("/api/reports/closings", isAuthenticated, async (req: any, res) => {
+    try {
+      const months = req.query.months ? Number(req.query.months) : DEFAULT_CLOSINGS_MONTHS;
+      if (!Number.isInteger(months) || months < 1 || months > MAX_CLOSINGS_MONTHS) {
+        return res.status(400).json({ message: `months must be a whole number from 1 to ${MAX_CLOSINGS_MONTHS}` });
+      }
+
+      const transactions = await getAccessibleTransactions(await getAccessContext(req));
+      res.json(buildClosingsReport(transactions, months));
+    } catch (error) {
+      log.error({ err: error }, "Error building closings report");
+      res.status(500).json({ message: "Failed to build closings report" });
+    }
+  });
+
+  // Brokerage-wide production (agents, coordinators, marketing) for broker admins
+  app.get("/api/admin/reports/production", isAuthenticated, requirePermission("reports:all"), async (req: any, res) => {
+    try {
+      const parsed = parseReportRange(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+      res.json(await buildProductionReport(parsed.range));
+    } catch (error) {
+      log.error({ err: error }, "Error building production report");
+      res.status(500).json({ message: "Failed to build production report" });
+    }
+  });
+
+  app.get("/api/admin/reports/production/:report/export", isAuthenticated, requirePermission("reports:all"), async (req: any, res) => {
+    try {
+      const type = req.params.report as ProductionReportType;
+      if (!productionReportTypes.includes(type)) {
+        return res.status(400).json({ message: `report must be one of: ${productionReportTypes.join(", ")}` });
+      }
+      const format = ((req.query.format as string) || "csv") as ExportFormat;
+      if (!exportFormats.includes(format)) {
+        return res.status(400).json({ message: `format must be one of: ${exportFormats.join(", ")}` });
+      }
+      const parsed = parseReportRange(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
+      const report = await buildProductionReport(parsed.range);
+      const filename = `${type}-production_${parsed.range.from}_${parsed.range.to}.${format}`;
+      res.set("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === "pdf") {
+        res.set("Content-Type", "application/pdf");
+        res.send(Buffer.from(await productionReportToPdf(report, type)));
+      } else {
+        res.set("Content-Type", "text/csv; charset=utf-8");
+        res.send(productionReportToCsv(report, type));
+      }
+    } catch (error) {
+      log.error({ err: error }, "Error exporting production report");
+      res.status(500).json({ message: "Failed to export production report" });
+    }
+  });
+
+  // ============ Search ============
+
+  // Full-text search over transactions, their documents and timeline; hits link to a details tab
+  app.get("/api/search", isAuthenticated, async (req: any, res) => {
+    try {
+      const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (q.length < MIN_SEARCH_LENGTH) {
+        return res.status(400).json({ message: `q must be at least ${MIN_SEARCH_LENGTH} characters` });
+      }
+
+      let limit = DEFAULT_SEARCH_LIMIT;
+      if (req.query.limit !== undefined) {
+        limit = parseInt(req.query.limit as string, 10);
+        if (isNaN(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+          return res.status(400).json({ message: `limit must be between 1 and ${MAX_SEARCH_LIMIT}` });
+        }
+      }
+
+      const hits = await searchAccessibleTransactions(await getAccessContext(req), q, limit);
+      const response: SearchResponse = { query: q, hits };
+      res.json(response);
+    } catch (error) {
+      log.error({ err: error }, "Error searching transactions");
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
+  // ============ Listing Search (Templates) ============
+  // Search MLS listing by address or MLS number for template generation
+  app.get("/api/listings/search", isAuthenticated, async (req, res) => {
+    try {
+      const { query } = req.query;
+      if (!query || typeof query !== "string") {
+        return res.status(400).json({ message: "Query parameter required" });
+      }
+
+      if (!process.env.REPLIERS_API_KEY) {
+        return res.status(400).json({ message: "Repliers API key not configured" });
+      }
+
+      let listing = null;
+
+      // If it looks like an MLS number (mostly digits), search by MLS number first
+      const isLikelyMLS = /^[A-Za-z]?\d+$/.test(query.replace(/\s/g, ""));
+      
+      if (isLikelyMLS) {
+        const mlsResult = await fetchMLSListing(query.replace(/\s/g, ""));
+        if (mlsResult) {
+          // GLOBAL RENTAL EXCLUSION: Check if this is a rental/lease listing
+          // Check both rawData and mlsData itself (rawData may be absent for cached/normalized records)
+          if (isRentalOrLease(mlsResult.mlsData.rawData ?? mlsResult.mlsData)) {
+            return res.status(422).json({
+              message: "Rental/Lease listings are not supported.",
+              code: "RENTAL_EXCLUDED",
+              mlsNumber: query,
+            });
+          }
+          listing = mlsResult.mlsData;
+        }
+      }
+      
+      // If not found by MLS, try address search (already has rental filter in searchByAddress)
+      if (!listing) {
+        const addressResult = await searchByAddress(query);
+        if (addressResult) {
+          // GLOBAL RENTAL EXCLUSION: Double-check address search results
+          // Check both rawData and addressResult itself (rawData may be absent for cached/normalized records)
+          if (isRentalOrLease(addressResult.rawData ?? addressResult)) {
+            return res.status(422).json({
+              message: "Rental/Lease listings are not supported.",
+              code: "RENTAL_EXCLUDED",
+            });
+          }
+          listing = addressResult;
+        }
+      }
+
+      if (!listing) {
+        return res.status(404).json({ message: "No listing found for the provided query" });
+      }
+
+      res.json(listing);
+    } catch (error) {
+      log.error({ err: error }, "Error searching listings");
+      res.status(500).json({ message: "Failed to search listings" });
+    }
+  });
+
+  // ============ MLS Autocomplete Search ============
+
+  // Helper: Normalize MLS Number Input
+  // Handles: "2572987" → "ACT2572987"
+  //          "ACT2572987" → "ACT2572987"
+  //          "act2572987" → "ACT2572987"
+  function normalizeMlsNumber(input: string): { 
+    normalized: string; 
+    isPartial: boolean;
+    numbersOnly: string;
+  } {
+    const cleaned = input.trim().toUpperCase();
+    const numbersOnly = cleaned.replace(/[^0-9]/g, '');
+    
+    if (cleaned.startsWith('ACT')) {
+      return {
+        normalized: `ACT${numbersOnly}`,
+        isPartial: numbersOnly.length < 7,
+        numbersOnly,
+      };
+    }
+    
+    if (/^\d+$/.test(cleaned)) {
+      return {
+        normalized: `ACT${cleaned}`,
+        isPartial: cleaned.length < 7,
+        numbersOnly: cleaned,
+      };
+    }
+    
+    return {
+      normalized: cleaned,
+      isPartial: true,
+      numbersOnly,
+    };
+  }
+
+  // Helper: Format address from Repliers listing
   function formatAddressFromRepliers(listing: any): string {
     if (listing.address) {
       if (typeof listing.address === 'string') {
@@ -1696,26 +2880,15 @@ export async function registerRoutes(
       const REPLIERS_API_BASE = "https://api.repliers.io";
       const apiKey = process.env.REPLIERS_API_KEY;
 
-      // Strategy 1: Try exact match with normalized MLS number
+      // Strategy 1: Try exact match with normalized MLS number (through the listing cache)
       if (!isPartial && normalized) {
         try {
           log.info(`[MLS Search] Trying exact match: ${normalized}`);
-          const exactUrl = `${REPLIERS_API_BASE}/listings/${normalized}`;
-          const exactResponse = await fetch(exactUrl, {
-            method: "GET",
-            headers: {
-              "REPLIERS-API-KEY": apiKey,
-              "Accept": "application/json",
-            },
-          });
-          
-          if (exactResponse.ok) {
-            const exactMatch = await exactResponse.json();
-            if (exactMatch && (exactMatch.mlsNumber || exactMatch.listingId)) {
-              if (!isRentalOrLease(exactMatch)) {
-                results.push(mapListingToSearchResult(exactMatch));
-                log.info(`[MLS Search] Exact match found: ${normalized}`);
-              }
+          const exactMatch = (await fetchMLSListing(normalized))?.mlsData.rawData;
+          if (exactMatch && (exactMatch.mlsNumber || exactMatch.listingId)) {
+            if (!isRentalOrLease(exactMatch)) {
+              results.push(mapListingToSearchResult(exactMatch));
+              log.info(`[MLS Search] Exact match found: ${normalized}`);
             }
           }
         } catch (e) {
@@ -1862,13 +3035,9 @@ export async function registerRoutes(
   // ============ Marketing Assets ============
   
   // Photo recommendations endpoint for Create Graphics dialog
-  app.get("/api/transactions/:id/recommended-photos", isAuthenticated, async (req, res) => {
+  app.get("/api/transactions/:id/recommended-photos", isAuthenticated, requireTransactionAccess('marketing'), async (req: any, res) => {
     try {
-      const transaction = await storage.getTransaction(req.params.id);
-      
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
+      const transaction: Transaction = req.transaction;
       
       const mlsData = transaction.mlsData as any;
       const photos = mlsData?.images || transaction.propertyImages || [];
@@ -1959,7 +3128,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/transactions/:id/marketing-assets", isAuthenticated, async (req, res) => {
+  app.get("/api/transactions/:id/marketing-assets", isAuthenticated, requireTransactionAccess('marketing'), async (req: any, res) => {
     try {
       const assets = await storage.getMarketingAssetsByTransaction(req.params.id);
       res.json(assets);
@@ -1968,12 +3137,9 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/transactions/:id/marketing-assets", isAuthenticated, async (req, res) => {
+  app.post("/api/transactions/:id/marketing-assets", isAuthenticated, requireTransactionAccess('marketing'), async (req: any, res) => {
     try {
-      const transaction = await storage.getTransaction(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
+      const transaction: Transaction = req.transaction;
 
       const { type, imageData, fileName, postToSlack } = req.body;
       
@@ -2036,10 +3202,10 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/transactions/:transactionId/marketing-assets/:id", isAuthenticated, async (req, res) => {
+  app.patch("/api/transactions/:transactionId/marketing-assets/:id", isAuthenticated, requireTransactionAccess('marketing', 'transactionId'), async (req: any, res) => {
     try {
       const existing = await storage.getMarketingAsset(req.params.id);
-      if (!existing) {
+      if (!existing || existing.transactionId !== req.params.transactionId) {
         return res.status(404).json({ message: "Marketing asset not found" });
       }
 
@@ -2059,11 +3225,11 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/transactions/:transactionId/marketing-assets/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/transactions/:transactionId/marketing-assets/:id", isAuthenticated, requireTransactionAccess('marketing', 'transactionId'), async (req: any, res) => {
     try {
       // Get the asset before deleting to have details for notification
       const asset = await storage.getMarketingAsset(req.params.id);
-      if (!asset) {
+      if (!asset || asset.transactionId !== req.params.transactionId) {
         return res.status(404).json({ message: "Marketing asset not found" });
       }
 
@@ -2124,19 +3290,9 @@ export async function registerRoutes(
   // ============ Property Photos (Off Market) ============
 
   // Get all transaction photos (from transactionPhotos table)
-  app.get("/api/transactions/:id/transaction-photos", isAuthenticated, async (req: any, res) => {
+  app.get("/api/transactions/:id/transaction-photos", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
     try {
-      const transaction = await storage.getTransaction(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
-
-      // Authorization check
-      const userId = req.user?.claims?.sub;
-      const userEmail = req.user?.claims?.email;
-      if (!(await canAccessTransaction(transaction, userId, userEmail))) {
-        return res.status(403).json({ message: "Not authorized to access this transaction" });
-      }
+      const transaction: Transaction = req.transaction;
 
       // Get photos from transactionPhotos table
       const photos = await storage.getTransactionPhotos(transaction.id);
@@ -2160,19 +3316,9 @@ export async function registerRoutes(
   });
 
   // Delete a transaction photo (only non-MLS photos)
-  app.delete("/api/transactions/:id/transaction-photos/:photoId", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/transactions/:id/transaction-photos/:photoId", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
     try {
-      const transaction = await storage.getTransaction(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
-
-      // Authorization check
-      const userId = req.user?.claims?.sub;
-      const userEmail = req.user?.claims?.email;
-      if (!(await canAccessTransaction(transaction, userId, userEmail))) {
-        return res.status(403).json({ message: "Not authorized to access this transaction" });
-      }
+      const transaction: Transaction = req.transaction;
 
       const photo = await storage.getTransactionPhoto(req.params.photoId);
       
@@ -2194,7 +3340,7 @@ export async function registerRoutes(
       // Also remove from propertyImages array if present
       if (transaction.propertyImages) {
         const updatedImages = transaction.propertyImages.filter((url: string) => url !== photo.url);
-        await storage.updateTransaction(transaction.id, { propertyImages: updatedImages });
+        await saveTransactionChanges(transaction, { propertyImages: updatedImages }, photoVersionMeta(req));
       }
 
       res.json({ success: true });
@@ -2205,19 +3351,9 @@ export async function registerRoutes(
   });
 
   // Upload property photos for off-market listings
-  app.post("/api/transactions/:id/photos", isAuthenticated, async (req: any, res) => {
+  app.post("/api/transactions/:id/photos", isAuthenticated, requireTransactionAccess(), requireCurrentVersion(), async (req: any, res) => {
     try {
-      const transaction = await storage.getTransaction(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
-
-      // Authorization check
-      const userId = req.user?.claims?.sub;
-      const userEmail = req.user?.claims?.email;
-      if (!(await canAccessTransaction(transaction, userId, userEmail))) {
-        return res.status(403).json({ message: "Not authorized to upload photos to this transaction" });
-      }
+      const transaction: Transaction = req.transaction;
 
       // Get the private object directory from env
       const privateDir = process.env.PRIVATE_OBJECT_DIR;
@@ -2291,13 +3427,18 @@ export async function registerRoutes(
       
       log.info(`[Photo Upload] Photo URL: ${photoUrl}`);
 
-      // Update transaction with new photo URL
-      const currentImages = transaction.propertyImages || [];
+      // Update transaction with new photo URL. Appending is safe to merge, so re-read
+      // after the upload and only fail if the list moves again before the write.
+      const latest = await storage.getTransaction(transaction.id) || transaction;
+      const currentImages = latest.propertyImages || [];
       const updatedImages = [...currentImages, photoUrl];
       
-      await storage.updateTransaction(transaction.id, {
+      const updated = await saveTransactionChanges(latest, {
         propertyImages: updatedImages,
-      });
+      }, photoVersionMeta(req), latest.version);
+      if (!updated) {
+        return sendFailedWrite(res, transaction.id, latest.version, ["propertyImages"]);
+      }
 
       // Also save to transactionPhotos table
       const savedPhoto = await storage.addTransactionPhoto({
@@ -2330,21 +3471,21 @@ export async function registerRoutes(
   });
 
   // Set primary photo index
-  app.patch("/api/transactions/:id/photos/primary", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/transactions/:id/photos/primary", isAuthenticated, requireTransactionAccess(), requireCurrentVersion(), async (req: any, res) => {
     try {
-      const transaction = await storage.getTransaction(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
+      const transaction: Transaction = req.transaction;
 
       const { primaryPhotoIndex } = req.body;
       if (typeof primaryPhotoIndex !== 'number' || primaryPhotoIndex < 0) {
         return res.status(400).json({ message: "Invalid photo index" });
       }
 
-      await storage.updateTransaction(transaction.id, {
+      const updated = await saveTransactionChanges(transaction, {
         primaryPhotoIndex,
-      });
+      }, photoVersionMeta(req), req.expectedVersion);
+      if (!updated) {
+        return sendFailedWrite(res, transaction.id, req.expectedVersion, ["primaryPhotoIndex"]);
+      }
 
       res.json({ success: true, primaryPhotoIndex });
     } catch (error) {
@@ -2354,12 +3495,9 @@ export async function registerRoutes(
   });
 
   // Delete a property photo
-  app.delete("/api/transactions/:id/photos/:photoIndex", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/transactions/:id/photos/:photoIndex", isAuthenticated, requireTransactionAccess(), requireCurrentVersion(), async (req: any, res) => {
     try {
-      const transaction = await storage.getTransaction(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
+      const transaction: Transaction = req.transaction;
 
       const photoIndex = parseInt(req.params.photoIndex);
       const currentImages = transaction.propertyImages || [];
@@ -2379,10 +3517,14 @@ export async function registerRoutes(
         newPrimaryIndex = Math.max(0, newPrimaryIndex - 1); // Shift down
       }
 
-      await storage.updateTransaction(transaction.id, {
+      // The index is into the list we just read - never remove from a list that has since moved
+      const updated = await saveTransactionChanges(transaction, {
         propertyImages: updatedImages,
         primaryPhotoIndex: Math.min(newPrimaryIndex, Math.max(0, updatedImages.length - 1)),
-      });
+      }, photoVersionMeta(req), transaction.version);
+      if (!updated) {
+        return sendFailedWrite(res, transaction.id, req.expectedVersion, ["propertyImages"]);
+      }
 
       await storage.createActivity({
         transactionId: transaction.id,
@@ -2404,7 +3546,7 @@ export async function registerRoutes(
 
   // ============ Contract Documents ============
 
-  app.get("/api/transactions/:id/documents", isAuthenticated, async (req, res) => {
+  app.get("/api/transactions/:id/documents", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
     try {
       const documents = await storage.getContractDocumentsByTransaction(req.params.id);
       res.json(documents);
@@ -2413,14 +3555,11 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/transactions/:id/documents", isAuthenticated, async (req: any, res) => {
+  app.post("/api/transactions/:id/documents", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
     log.debug({ transactionId: req.params.id, contentType: req.get('Content-Type'), bodyKeys: Object.keys(req.body || {}) }, 'Document upload request received');
     
     try {
-      const transaction = await storage.getTransaction(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
+      const transaction: Transaction = req.transaction;
 
       const { name, documentType, fileName, fileData, fileType, fileSize, notes } = req.body;
       
@@ -2551,11 +3690,11 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/transactions/:transactionId/documents/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/transactions/:transactionId/documents/:id", isAuthenticated, requireTransactionAccess('transaction', 'transactionId'), async (req: any, res) => {
     try {
       // Get the document before deleting to have details for notification
       const document = await storage.getContractDocument(req.params.id);
-      if (!document) {
+      if (!document || document.transactionId !== req.params.transactionId) {
         return res.status(404).json({ message: "Document not found" });
       }
 
@@ -2623,16 +3762,8 @@ export async function registerRoutes(
 
   // ============ Admin ============
 
-  app.get("/api/admin/integration-status", isAuthenticated, async (req: any, res) => {
+  app.get("/api/admin/integration-status", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
     try {
-      // Check if user is admin
-      const userId = req.user?.claims?.sub;
-      const user = await authStorage.getUser(userId);
-      
-      if (user?.isAdmin !== "true") {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
       // Check which API keys are configured
       res.json({
         slack: !!process.env.SLACK_BOT_TOKEN,
@@ -2645,6 +3776,370 @@ export async function registerRoutes(
     }
   });
 
+  // Checklist templates - admin only
+  app.get("/api/admin/checklist-templates", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const templates = await storage.getChecklistTemplates();
+      res.json(templates);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching checklist templates");
+      res.status(500).json({ message: "Failed to fetch checklist templates" });
+    }
+  });
+
+  app.post("/api/admin/checklist-templates", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const validationResult = insertChecklistTemplateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid checklist template", errors: validationResult.error.errors });
+      }
+
+      const template = await storage.createChecklistTemplate(validationResult.data);
+      res.status(201).json(template);
+    } catch (error) {
+      log.error({ err: error }, "Error creating checklist template");
+      res.status(500).json({ message: "Failed to create checklist template" });
+    }
+  });
+
+  app.patch("/api/admin/checklist-templates/:id", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const validationResult = insertChecklistTemplateSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid checklist template", errors: validationResult.error.errors });
+      }
+
+      const template = await storage.updateChecklistTemplate(req.params.id, validationResult.data);
+      if (!template) {
+        return res.status(404).json({ message: "Checklist template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      log.error({ err: error }, "Error updating checklist template");
+      res.status(500).json({ message: "Failed to update checklist template" });
+    }
+  });
+
+  app.delete("/api/admin/checklist-templates/:id", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteChecklistTemplate(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Checklist template not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      log.error({ err: error }, "Error deleting checklist template");
+      res.status(500).json({ message: "Failed to delete checklist template" });
+    }
+  });
+
+  app.get("/api/admin/net-sheet-fee-schedules", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const schedules = await storage.getNetSheetFeeSchedules();
+      res.json(schedules);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching net sheet fee schedules");
+      res.status(500).json({ message: "Failed to fetch fee schedules" });
+    }
+  });
+
+  app.post("/api/admin/net-sheet-fee-schedules", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const validationResult = insertNetSheetFeeScheduleSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid fee schedule", errors: validationResult.error.errors });
+      }
+
+      const schedule = await storage.createNetSheetFeeSchedule(validationResult.data);
+      res.status(201).json(schedule);
+    } catch (error) {
+      log.error({ err: error }, "Error creating net sheet fee schedule");
+      res.status(500).json({ message: "Failed to create fee schedule" });
+    }
+  });
+
+  app.patch("/api/admin/net-sheet-fee-schedules/:id", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const validationResult = insertNetSheetFeeScheduleSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid fee schedule", errors: validationResult.error.errors });
+      }
+
+      const schedule = await storage.updateNetSheetFeeSchedule(req.params.id, validationResult.data);
+      if (!schedule) {
+        return res.status(404).json({ message: "Fee schedule not found" });
+      }
+      res.json(schedule);
+    } catch (error) {
+      log.error({ err: error }, "Error updating net sheet fee schedule");
+      res.status(500).json({ message: "Failed to update fee schedule" });
+    }
+  });
+
+  // Saved net sheets keep the schedule's name, so deleting one doesn't change them
+  app.delete("/api/admin/net-sheet-fee-schedules/:id", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteNetSheetFeeSchedule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Fee schedule not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      log.error({ err: error }, "Error deleting net sheet fee schedule");
+      res.status(500).json({ message: "Failed to delete fee schedule" });
+    }
+  });
+
+  // Merge a duplicate (sourceId) into this transaction; the duplicate is deleted
+  app.post("/api/admin/transactions/:id/merge", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const { sourceId } = req.body;
+      if (!sourceId || typeof sourceId !== "string") {
+        return res.status(400).json({ message: "sourceId is required" });
+      }
+      if (sourceId === req.params.id) {
+        return res.status(400).json({ message: "Cannot merge a transaction into itself" });
+      }
+
+      const [target, source] = await Promise.all([
+        storage.getTransaction(req.params.id),
+        storage.getTransaction(sourceId),
+      ]);
+      if (!target || !source) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      const counts = await mergeTransactions(target, source, {
+        changedBy: req.user?.claims?.sub,
+        changedByEmail: req.user?.claims?.email,
+        requestId: req.requestId,
+      });
+      const merged = await storage.getTransaction(target.id);
+      res.json({ transaction: merged, moved: counts });
+    } catch (error) {
+      log.error({ err: error }, "Error merging transactions");
+      res.status(500).json({ message: "Failed to merge transactions" });
+    }
+  });
+
+  // ============ Organizations & Teams ============
+
+  // Roles and permissions of the signed-in user, so the client can show the right navigation
+  app.get("/api/permissions", isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await getAccessContext(req);
+      res.json({ roles: access.roles, permissions: access.permissions });
+    } catch (error) {
+      log.error({ err: error }, "Error fetching permissions");
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
+
+  // Organizations with their teams and members - admin only
+  app.get("/api/admin/organizations", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const organizations = await storage.getOrganizations();
+      const result = await Promise.all(organizations.map(async (organization) => {
+        const [teams, members] = await Promise.all([
+          storage.getTeamsByOrganization(organization.id),
+          storage.getOrganizationMembers(organization.id),
+        ]);
+        const membersWithUsers = await Promise.all(members.map(async (member) => {
+          const user = await authStorage.getUser(member.userId);
+          return {
+            ...member,
+            name: [user?.firstName, user?.lastName].filter(Boolean).join(" ") || null,
+            email: user?.email || null,
+          };
+        }));
+        return { ...organization, teams, members: membersWithUsers };
+      }));
+      res.json(result);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching organizations");
+      res.status(500).json({ message: "Failed to fetch organizations" });
+    }
+  });
+
+  app.post("/api/admin/organizations", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const validationResult = insertOrganizationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid organization", errors: validationResult.error.errors });
+      }
+
+      const organization = await storage.createOrganization(validationResult.data);
+      res.status(201).json(organization);
+    } catch (error) {
+      log.error({ err: error }, "Error creating organization");
+      res.status(500).json({ message: "Failed to create organization" });
+    }
+  });
+
+  app.patch("/api/admin/organizations/:id", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const validationResult = insertOrganizationSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid organization", errors: validationResult.error.errors });
+      }
+
+      const organization = await storage.updateOrganization(req.params.id, validationResult.data);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      res.json(organization);
+    } catch (error) {
+      log.error({ err: error }, "Error updating organization");
+      res.status(500).json({ message: "Failed to update organization" });
+    }
+  });
+
+  app.delete("/api/admin/organizations/:id", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteOrganization(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      log.error({ err: error }, "Error deleting organization");
+      res.status(500).json({ message: "Failed to delete organization" });
+    }
+  });
+
+  app.post("/api/admin/organizations/:id/teams", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganization(req.params.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const validationResult = insertTeamSchema.safeParse({ ...req.body, organizationId: organization.id });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid team", errors: validationResult.error.errors });
+      }
+
+      const team = await storage.createTeam(validationResult.data);
+      res.status(201).json(team);
+    } catch (error) {
+      log.error({ err: error }, "Error creating team");
+      res.status(500).json({ message: "Failed to create team" });
+    }
+  });
+
+  app.patch("/api/admin/teams/:id", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const validationResult = insertTeamSchema.pick({ name: true }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid team", errors: validationResult.error.errors });
+      }
+
+      const team = await storage.updateTeam(req.params.id, validationResult.data);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      res.json(team);
+    } catch (error) {
+      log.error({ err: error }, "Error updating team");
+      res.status(500).json({ message: "Failed to update team" });
+    }
+  });
+
+  app.delete("/api/admin/teams/:id", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteTeam(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      log.error({ err: error }, "Error deleting team");
+      res.status(500).json({ message: "Failed to delete team" });
+    }
+  });
+
+  // Add an existing user (by email) to an organization
+  app.post("/api/admin/organizations/:id/members", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganization(req.params.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const email = typeof req.body.email === "string" ? req.body.email.trim().toLowerCase() : "";
+      const user = email ? await authStorage.getUserByEmail(email) : undefined;
+      if (!user) {
+        return res.status(400).json({ message: "No user with that email has signed in yet" });
+      }
+
+      const existing = await storage.getOrganizationMembers(organization.id);
+      if (existing.some(m => m.userId === user.id)) {
+        return res.status(400).json({ message: "User is already a member of this organization" });
+      }
+
+      const validationResult = insertOrganizationMemberSchema.safeParse({
+        organizationId: organization.id,
+        userId: user.id,
+        teamId: req.body.teamId || null,
+        role: req.body.role || "agent",
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid member", errors: validationResult.error.errors });
+      }
+      if (validationResult.data.teamId) {
+        const team = await storage.getTeam(validationResult.data.teamId);
+        if (!team || team.organizationId !== organization.id) {
+          return res.status(400).json({ message: "Team does not belong to this organization" });
+        }
+      }
+
+      const member = await storage.createOrganizationMember(validationResult.data);
+      res.status(201).json(member);
+    } catch (error) {
+      log.error({ err: error }, "Error adding organization member");
+      res.status(500).json({ message: "Failed to add member" });
+    }
+  });
+
+  app.patch("/api/admin/members/:id", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const member = await storage.getOrganizationMember(req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const validationResult = insertOrganizationMemberSchema.pick({ role: true, teamId: true }).partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid member", errors: validationResult.error.errors });
+      }
+      if (validationResult.data.teamId) {
+        const team = await storage.getTeam(validationResult.data.teamId);
+        if (!team || team.organizationId !== member.organizationId) {
+          return res.status(400).json({ message: "Team does not belong to this organization" });
+        }
+      }
+
+      const updated = await storage.updateOrganizationMember(member.id, validationResult.data);
+      res.json(updated);
+    } catch (error) {
+      log.error({ err: error }, "Error updating organization member");
+      res.status(500).json({ message: "Failed to update member" });
+    }
+  });
+
+  app.delete("/api/admin/members/:id", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteOrganizationMember(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      log.error({ err: error }, "Error removing organization member");
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
   // ============ Follow Up Boss ============
 
   app.get("/api/fub/contact-from-url", isAuthenticated, async (req, res) => {
@@ -2757,15 +4252,69 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/mls-sync/trigger", isAuthenticated, async (req, res) => {
+  app.get("/api/admin/mls-cache", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const metrics = await getMLSCacheMetrics();
+      res.json(metrics);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching MLS cache metrics");
+      res.status(500).json({ message: "Failed to fetch MLS cache metrics" });
+    }
+  });
+
+  app.post("/api/mls-sync/trigger", isAuthenticated, async (req: any, res) => {
     try {
-      await triggerManualSync();
+      await triggerManualSync(req.user?.claims?.sub);
       res.json({ success: true, message: "MLS sync triggered" });
     } catch (error: any) {
       res.status(500).json({ message: error.message || "Failed to trigger sync" });
     }
   });
 
+  app.get("/api/admin/mls-sync/runs", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const runs = await storage.getMLSSyncRuns(50);
+      res.json(runs);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching MLS sync runs");
+      res.status(500).json({ message: "Failed to fetch sync runs" });
+    }
+  });
+
+  app.get("/api/admin/mls-sync/runs/:id", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const run = await storage.getMLSSyncRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Sync run not found" });
+      }
+      const results = await storage.getMLSSyncResultsByRun(run.id);
+      res.json({ run, results });
+    } catch (error) {
+      log.error({ err: error }, "Error fetching MLS sync run");
+      res.status(500).json({ message: "Failed to fetch sync run" });
+    }
+  });
+
+  app.post("/api/admin/mls-sync/transactions/:id/resync", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
+    try {
+      const transaction = await storage.getTransaction(req.params.id);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      if (!transaction.mlsNumber) {
+        return res.status(400).json({ message: "Transaction has no MLS number" });
+      }
+      const detail = await resyncTransaction(transaction, req.user.claims.sub);
+      if (!detail) {
+        return res.status(409).json({ message: "An MLS sync is already running" });
+      }
+      res.json(detail);
+    } catch (error) {
+      log.error({ err: error }, "Error re-syncing transaction");
+      res.status(500).json({ message: "Failed to re-sync transaction" });
+    }
+  });
+
   // ============ Smart Photo Selection for Flyers ============
   // Uses Image Insights to select best exterior, kitchen, and living room photos
   app.get("/api/listings/:mlsNumber/best-photos", isAuthenticated, async (req, res) => {
@@ -2838,7 +4387,7 @@ export async function registerRoutes(
       let processed = 0;
       for (const txn of pendingTransactions) {
         try {
-          const gmailResult = await setupGmailForTransaction(txn.propertyAddress, user.email);
+          const gmailResult = await setupGmailForTransaction(txn.propertyAddress, user.email, await getPartyEmails(txn.id));
           
           if (gmailResult.labelId && gmailResult.filterId) {
             await storage.updateTransaction(txn.id, {
@@ -3131,13 +4680,24 @@ export async function registerRoutes(
       
       log.info(`Found ${userTransactions.length} transactions with Gmail labels and Slack channels`);
 
+      // Only the transactions this mailbox belongs to
+      const owner = await authStorage.getUserByEmail(userEmail);
+      const mailboxTransactions = owner ? userTransactions.filter(t => t.userId === owner.id) : [];
+
+      // Lenders and title officers work several of an agent's deals, and the Gmail filter
+      // labels their mail for each one - so only a party on exactly one of these
+      // transactions can skip the subject check
+      const partyEmailsByTransaction = new Map<string, Set<string>>();
+      const partyTransactionCounts = new Map<string, number>();
+      for (const txn of mailboxTransactions) {
+        const emails = new Set(await getPartyEmails(txn.id));
+        partyEmailsByTransaction.set(txn.id, emails);
+        emails.forEach(email => partyTransactionCounts.set(email, (partyTransactionCounts.get(email) || 0) + 1));
+      }
+
       // For each transaction with a Gmail label, check for new messages
-      for (const txn of userTransactions) {
+      for (const txn of mailboxTransactions) {
         try {
-          // Get the user who owns this transaction
-          const owner = await authStorage.getUser(txn.userId!);
-          if (owner?.email !== userEmail) continue;
-          
           log.info(`Checking transaction ${txn.id} for ${txn.propertyAddress}`);
           
           const messages = await getNewMessages(userEmail, historyId, txn.gmailLabelId!);
@@ -3145,6 +4705,7 @@ export async function registerRoutes(
           
           // Extract street pattern for subject line filtering
           const streetPattern = getStreetPatternFromAddress(txn.propertyAddress);
+          const partyEmails = partyEmailsByTransaction.get(txn.id) ?? new Set<string>();
           
           for (const msg of messages) {
             // Skip if already processed
@@ -3153,8 +4714,12 @@ export async function registerRoutes(
               continue;
             }
             
+            // Mail from a party to this deal alone is routed even when the subject doesn't name the property
+            const senderEmail = extractEmailAddress(msg.from);
+            const fromParty = !!senderEmail && partyEmails.has(senderEmail) && partyTransactionCounts.get(senderEmail) === 1;
+            
             // Secondary filter: check if subject contains street number and street name
-            if (streetPattern) {
+            if (streetPattern && !fromParty) {
               const subjectLower = msg.subject.toLowerCase();
               const hasStreetNumber = subjectLower.includes(streetPattern.streetNumber);
               const hasStreetName = subjectLower.includes(streetPattern.streetName.toLowerCase());
@@ -3940,7 +5505,7 @@ Generate only the headline, nothing else.`;
   });
 
   // ============ Flyer Generator Export ============
-  app.post("/api/transactions/:id/export-flyer", isAuthenticated, async (req: any, res) => {
+  app.post("/api/transactions/:id/export-flyer", isAuthenticated, requireTransactionAccess(), async (req: any, res) => {
     try {
       const { id } = req.params;
       const format = req.query.format as string || 'png';
@@ -4366,7 +5931,7 @@ Generate ONE headline only. Return just the headline text, nothing else.`;
   });
 
   // Get notification system status
-  app.get("/api/admin/notifications/status", isAuthenticated, async (req: any, res) => {
+  app.get("/api/admin/notifications/status", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
     try {
       const { getCronStatus } = await import("./cron/notificationCron");
       res.json(getCronStatus());
@@ -4377,7 +5942,7 @@ Generate ONE headline only. Return just the headline text, nothing else.`;
   });
 
   // Slack diagnostics endpoint - READ ONLY
-  app.get("/api/admin/slack-diagnostics", isAuthenticated, async (req: any, res) => {
+  app.get("/api/admin/slack-diagnostics", isAuthenticated, requirePermission("admin"), async (req: any, res) => {
     try {
       const { runSlackDiagnostics, formatDiagnosticsReport } = await import("./diagnostics/slack-diagnostics");
       const diagnostics = await runSlackDiagnostics();
@@ -4958,6 +6523,91 @@ Return ONLY the cover letter body text, no salutation, no signature, no addition
     }
   });
 
+  // ============ Calendar Feeds ============
+
+  app.get("/api/calendar-feeds", isAuthenticated, async (req: any, res) => {
+    try {
+      const feeds = await storage.getCalendarFeedsByUser(req.user.claims.sub);
+      const summaries = await Promise.all(feeds.map(async feed => {
+        const transaction = feed.transactionId ? await storage.getTransaction(feed.transactionId) : undefined;
+        return toCalendarFeedSummary(feed, transaction);
+      }));
+      res.json(summaries);
+    } catch (error) {
+      log.error({ err: error }, "Error fetching calendar feeds");
+      res.status(500).json({ message: "Failed to fetch calendar feeds" });
+    }
+  });
+
+  app.post("/api/calendar-feeds", isAuthenticated, async (req: any, res) => {
+    try {
+      const validationResult = createCalendarFeedSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid calendar feed", errors: validationResult.error.errors });
+      }
+      const { transactionId, statuses } = validationResult.data;
+
+      let transaction: Transaction | undefined;
+      if (transactionId) {
+        transaction = await storage.getTransaction(transactionId);
+        if (!transaction || !(await canAccessTransaction(await getAccessContext(req), transaction))) {
+          return res.status(404).json({ message: "Transaction not found" });
+        }
+
+        // One feed per transaction per user - hand back the existing URL
+        const existing = (await storage.getCalendarFeedsByUser(req.user.claims.sub)).find(f => f.transactionId === transactionId);
+        if (existing) {
+          return res.json(toCalendarFeedSummary(existing, transaction));
+        }
+      }
+
+      const feed = await storage.createCalendarFeed({
+        userId: req.user.claims.sub,
+        token: createFeedToken(),
+        transactionId: transactionId || null,
+        statuses: transactionId ? [] : statuses ?? [],
+      });
+      res.status(201).json(toCalendarFeedSummary(feed, transaction));
+    } catch (error) {
+      log.error({ err: error }, "Error creating calendar feed");
+      res.status(500).json({ message: "Failed to create calendar feed" });
+    }
+  });
+
+  // Revoking a feed is deleting it - its URL stops working
+  app.delete("/api/calendar-feeds/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteCalendarFeed(req.params.id, req.user.claims.sub);
+      if (!deleted) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      log.error({ err: error }, "Error deleting calendar feed");
+      res.status(500).json({ message: "Failed to delete calendar feed" });
+    }
+  });
+
+  // Subscription URL for calendar apps - NO AUTH, the token is the credential
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      const calendar = feed ? await renderCalendarFeed(feed) : null;
+      if (!feed || !calendar) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+
+      await storage.markCalendarFeedAccessed(feed.id);
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", 'inline; filename="transactions.ics"');
+      res.setHeader("Cache-Control", "private, max-age=300");
+      res.send(calendar);
+    } catch (error) {
+      log.error({ err: error }, "Error rendering calendar feed");
+      res.status(500).json({ message: "Failed to render calendar feed" });
+    }
+  });
+
   // ============ Flyers (Protected) ============
 
   // Helper to get base URL for flyer links
@@ -0,0 +1,56 @@
+import { storage, type TransactionVersionMeta } from '../storage';
+import { saveTransactionChanges } from './transaction-history';
+import type { NotificationSetting, Transaction } from '@shared/schema';
+
+// What gets saved in previousReminderSettings so unarchiving can turn reminders back on
+function snapshotReminderSettings(settings: NotificationSetting) {
+  return {
+    closingReminders: settings.closingReminders,
+    reminder14Days: settings.reminder14Days,
+    reminder7Days: settings.reminder7Days,
+    reminder3Days: settings.reminder3Days,
+    reminderDayOf: settings.reminderDayOf,
+    documentUploads: settings.documentUploads,
+    marketingAssets: settings.marketingAssets,
+  };
+}
+
+/**
+ * Archive a transaction: save the user's notification settings for it into
+ * previousReminderSettings, mark it archived, then turn those notifications off.
+ * Used by the archive route and the auto-archive job (no changedBy - recorded as system).
+ * Returns undefined when the write matched nothing (gone, or moved past expectedVersion) -
+ * settings are untouched.
+ */
+export async function archiveTransaction(
+  transaction: Transaction,
+  userId: string | null | undefined,
+  expectedVersion?: number,
+  changedBy: Omit<TransactionVersionMeta, 'source'> = {}
+): Promise<Transaction | undefined> {
+  const currentSettings = userId ? await storage.getNotificationSettings(userId, transaction.id) : undefined;
+  const previousReminderSettings = currentSettings ? snapshotReminderSettings(currentSettings) : null;
+
+  const updated = await saveTransactionChanges(transaction, {
+    isArchived: true,
+    archivedAt: new Date(),
+    previousReminderSettings,
+  }, { ...changedBy, source: 'archive' }, expectedVersion);
+  if (!updated) return undefined;
+
+  if (userId && currentSettings) {
+    await storage.upsertNotificationSettings({
+      userId,
+      transactionId: transaction.id,
+      closingReminders: false,
+      reminder14Days: false,
+      reminder7Days: false,
+      reminder3Days: false,
+      reminderDayOf: false,
+      documentUploads: false,
+      marketingAssets: false,
+    });
+  }
+
+  return updated;
+}
@@ -0,0 +1,171 @@
+import { createModuleLogger } from '../lib/logger';
+import { logAudit } from '../lib/audit';
+import { storage } from '../storage';
+import { postToChannel } from '../slack';
+import { archiveTransaction } from './archive';
+import { TimelineLogger } from './timeline';
+import { autoArchiveStatuses, type Transaction } from '@shared/schema';
+import { getTransactionStatusLabel } from '@shared/lib/status-machine';
+import {
+  DEFAULT_DAYS_AFTER_STATUS,
+  getAutoArchiveDate,
+  getStatusChangedAt,
+  type AutoArchiveCandidate,
+  type AutoArchivePolicy,
+  type AutoArchiveRunResult,
+} from '@shared/lib/auto-archive';
+
+const log = createModuleLogger('auto-archive');
+
+// Addresses listed in the Slack summary before it switches to "and N more"
+const SUMMARY_LIMIT = 25;
+
+function getSummaryChannelId(): string | undefined {
+  return process.env.AUTO_ARCHIVE_SLACK_CHANNEL_ID || undefined;
+}
+
+// Every auto-archive status, with defaults (inactive) for any the admin hasn't saved yet
+export async function getAutoArchivePolicy(): Promise<AutoArchivePolicy> {
+  const saved = await storage.getAutoArchiveRules();
+  return {
+    rules: autoArchiveStatuses.map(status => {
+      const rule = saved.find(r => r.status === status);
+      return {
+        status,
+        daysAfterStatus: rule?.daysAfterStatus ?? DEFAULT_DAYS_AFTER_STATUS,
+        isActive: !!rule?.isActive,
+        updatedBy: rule?.updatedBy ?? null,
+        updatedAt: rule?.updatedAt?.toISOString() ?? null,
+      };
+    }),
+    slackSummary: !!getSummaryChannelId(),
+  };
+}
+
+interface DueTransaction {
+  transaction: Transaction;
+  candidate: AutoArchiveCandidate;
+  daysAfterStatus: number;
+}
+
+// Unarchived transactions whose active rule says they should be archived by `now`
+async function findDueTransactions(now: Date): Promise<DueTransaction[]> {
+  const { rules } = await getAutoArchivePolicy();
+  const active = rules.filter(rule => rule.isActive);
+
+  const transactions = await storage.getUnarchivedTransactionsByStatus(active.map(rule => rule.status));
+
+  // Rows from before statusChangedAt was tracked: read it from the timeline (a real run has already saved it)
+  const fromTimeline = await storage.getStatusChangeTimesFromTimeline(
+    transactions.filter(t => !t.statusChangedAt).map(t => t.id)
+  );
+
+  const due: DueTransaction[] = [];
+  const untimed: string[] = [];
+  for (const transaction of transactions) {
+    const rule = active.find(r => r.status === transaction.status);
+    const statusChangedAt = getStatusChangedAt({
+      ...transaction,
+      statusChangedAt: transaction.statusChangedAt ?? fromTimeline.get(transaction.id) ?? null,
+    });
+    if (!statusChangedAt) untimed.push(transaction.id);
+    if (!rule || !statusChangedAt) continue;
+
+    const archiveOn = getAutoArchiveDate(statusChangedAt, rule.daysAfterStatus);
+    if (archiveOn > now) continue;
+
+    due.push({
+      transaction,
+      daysAfterStatus: rule.daysAfterStatus,
+      candidate: {
+        id: transaction.id,
+        propertyAddress: transaction.propertyAddress,
+        status: transaction.status,
+        statusChangedAt: statusChangedAt.toISOString(),
+        archiveOn: archiveOn.toISOString(),
+      },
+    });
+  }
+
+  // The timeline should account for every row; anything left has no recorded status change to count from
+  if (untimed.length > 0) {
+    log.warn({ count: untimed.length, transactionIds: untimed.slice(0, 20) }, 'Skipping transactions with no known status change date');
+  }
+  return due.sort((a, b) => a.candidate.archiveOn.localeCompare(b.candidate.archiveOn));
+}
+
+async function postArchiveSummary(archived: AutoArchiveCandidate[]): Promise<void> {
+  const channelId = getSummaryChannelId();
+  if (!channelId || archived.length === 0) return;
+
+  const lines = archived
+    .slice(0, SUMMARY_LIMIT)
+    .map(candidate => `• ${candidate.propertyAddress} (${getTransactionStatusLabel(candidate.status)})`);
+  if (archived.length > SUMMARY_LIMIT) {
+    lines.push(`…and ${archived.length - SUMMARY_LIMIT} more`);
+  }
+
+  try {
+    await postToChannel(
+      channelId,
+      `:file_cabinet: *Auto-archived ${archived.length} transaction${archived.length !== 1 ? 's' : ''}*\n${lines.join('\n')}`
+    );
+  } catch (error) {
+    log.error({ err: error, channelId }, 'Failed to post auto-archive summary');
+  }
+}
+
+/**
+ * Archive every transaction the policy says is due, the same way the archive
+ * route does (reminder settings saved, then turned off), and post a Slack summary.
+ * A dry run only returns what would be archived. Transactions edited since they
+ * were loaded are skipped and picked up on the next run.
+ */
+export async function runAutoArchive(options: { dryRun: boolean }): Promise<AutoArchiveRunResult> {
+  const now = new Date();
+  if (!options.dryRun) {
+    // Older rows predate statusChangedAt; save what the timeline says so later runs don't look it up again
+    const backfilled = await storage.backfillStatusChangedAt();
+    if (backfilled > 0) {
+      log.info({ backfilled }, 'Backfilled statusChangedAt from timeline');
+    }
+  }
+  const due = await findDueTransactions(now);
+
+  if (options.dryRun) {
+    return { dryRun: true, ranAt: now.toISOString(), candidates: due.map(d => d.candidate), archived: 0, failed: 0 };
+  }
+
+  const archived: AutoArchiveCandidate[] = [];
+  let failed = 0;
+  for (const { transaction, candidate, daysAfterStatus } of due) {
+    try {
+      const updated = await archiveTransaction(transaction, transaction.userId, transaction.version);
+      if (!updated) {
+        failed++;
+        continue;
+      }
+
+      await TimelineLogger.transactionAutoArchived(transaction.id, transaction.status, daysAfterStatus);
+      await logAudit({
+        action: 'transaction.auto_archive',
+        actor: 'system',
+        target: transaction.id,
+        metadata: { propertyAddress: transaction.propertyAddress, status: transaction.status, daysAfterStatus },
+        status: 'success',
+        transactionId: transaction.id,
+      });
+      archived.push(candidate);
+    } catch (error) {
+      failed++;
+      log.error({ err: error, transactionId: transaction.id }, 'Failed to auto-archive transaction');
+    }
+  }
+
+  await postArchiveSummary(archived);
+
+  if (due.length > 0) {
+    log.info({ archived: archived.length, failed }, 'Auto-archive complete');
+  }
+  return { dryRun: false, ranAt: now.toISOString(), candidates: archived, archived: archived.length, failed };
+}
@@ -0,0 +1,62 @@
+import { randomBytes } from 'crypto';
+import { storage } from '../storage';
+import { authStorage } from '../replit_integrations/auth';
+import { getAppUrl } from '../lib/app-url';
+import { buildAccessContext, canAccessTransaction, getAccessibleTransactions } from '../middleware/permissions';
+import { buildICalendar } from './ical';
+import { getTransactionStatusLabel } from '@shared/lib/status-machine';
+import { getOpenHouseCalendarEvents, getTransactionCalendarEvents, type CalendarEvent, type CalendarFeedSummary } from '@shared/lib/calendar';
+import type { CalendarFeed, Transaction } from '@shared/schema';
+
+// Calendar apps can't send auth headers, so the token in the URL is the credential
+export function createFeedToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+export function toCalendarFeedSummary(feed: CalendarFeed, transaction?: Transaction): CalendarFeedSummary {
+  return {
+    id: feed.id,
+    url: `${getAppUrl()}/api/calendar/${feed.token}.ics`,
+    transactionId: feed.transactionId,
+    propertyAddress: transaction?.propertyAddress ?? null,
+    statuses: feed.statuses ?? [],
+    createdAt: feed.createdAt?.toISOString() ?? null,
+    lastAccessedAt: feed.lastAccessedAt?.toISOString() ?? null,
+  };
+}
+
+// Transaction dates plus each transaction's open houses
+async function getFeedEvents(transactions: Transaction[]): Promise<CalendarEvent[]> {
+  const openHouses = await storage.getOpenHousesByTransactionIds(transactions.map(t => t.id));
+  return transactions.flatMap(transaction => [
+    ...getTransactionCalendarEvents(transaction),
+    ...getOpenHouseCalendarEvents(transaction, openHouses.filter(o => o.transactionId === transaction.id)),
+  ]);
+}
+
+/**
+ * Render a feed as of now, with the feed owner's current access: a transaction
+ * they can no longer see drops out. Returns null when the feed is dead (owner
+ * gone, or its single transaction deleted or out of reach).
+ */
+export async function renderCalendarFeed(feed: CalendarFeed): Promise<string | null> {
+  const user = await authStorage.getUser(feed.userId);
+  if (!user) return null;
+  const access = await buildAccessContext(user.id, user.email ?? undefined);
+
+  if (feed.transactionId) {
+    const transaction = await storage.getTransaction(feed.transactionId);
+    if (!transaction || !(await canAccessTransaction(access, transaction))) return null;
+    return buildICalendar(transaction.propertyAddress, await getFeedEvents([transaction]));
+  }
+
+  const statuses = feed.statuses ?? [];
+  const transactions = await getAccessibleTransactions(access, {
+    status: statuses.length > 0 ? statuses : undefined,
+    archived: 'exclude',
+  });
+  const name = statuses.length > 0
+    ? `Transactions (${statuses.map(getTransactionStatusLabel).join(', ')})`
+    : 'Transactions';
+  return buildICalendar(name, await getFeedEvents(transactions));
+}
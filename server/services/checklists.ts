@@ -0,0 +1,83 @@
+import { createModuleLogger } from '../lib/logger';
+import { storage } from '../storage';
+import type { ChecklistTemplateItem, InsertTransactionTask, Transaction, TransactionTask } from '@shared/schema';
+
+const log = createModuleLogger('checklists');
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+// Resolve an item's due date from its anchor; returns null when the anchor date isn't set yet
+function resolveDueDate(item: ChecklistTemplateItem, transaction: Transaction): string | null {
+  if (item.dueOffsetDays === undefined || item.dueOffsetDays === null) return null;
+
+  let anchor: string | null = null;
+  switch (item.dueAnchor || 'created') {
+    case 'contract':
+      anchor = transaction.contractDate;
+      break;
+    case 'closing':
+      anchor = transaction.closingDate;
+      break;
+    case 'created':
+      anchor = (transaction.createdAt ? new Date(transaction.createdAt) : new Date()).toISOString();
+      break;
+  }
+
+  return anchor ? addDays(anchor, item.dueOffsetDays) : null;
+}
+
+// Agent tasks go to the transaction owner, coordinator tasks to the first assigned coordinator
+function resolveAssigneeId(item: ChecklistTemplateItem, transaction: Transaction): string | null {
+  if (item.assigneeType === 'agent') return transaction.userId || null;
+  return transaction.coordinatorIds?.[0] || null;
+}
+
+/**
+ * Create tasks from every active template matching the transaction's type and the given status.
+ * Templates that already produced tasks on this transaction are skipped, so calling this again
+ * after a status round-trip does not duplicate the checklist.
+ */
+export async function instantiateChecklists(
+  transaction: Transaction,
+  status: string = transaction.status
+): Promise<TransactionTask[]> {
+  try {
+    const templates = await storage.getActiveChecklistTemplates(transaction.transactionType, status);
+    if (templates.length === 0) return [];
+
+    const existingTasks = await storage.getTasksByTransaction(transaction.id);
+    const usedTemplateIds = new Set(existingTasks.map(t => t.templateId).filter(Boolean));
+    let nextSortOrder = existingTasks.reduce((max, t) => Math.max(max, t.sortOrder ?? 0), -1) + 1;
+
+    const newTasks: InsertTransactionTask[] = [];
+    for (const template of templates) {
+      if (usedTemplateIds.has(template.id)) continue;
+
+      for (const item of template.items || []) {
+        newTasks.push({
+          transactionId: transaction.id,
+          templateId: template.id,
+          title: item.title,
+          description: item.description || null,
+          assigneeType: item.assigneeType,
+          assigneeId: resolveAssigneeId(item, transaction),
+          dueDate: resolveDueDate(item, transaction),
+          sortOrder: nextSortOrder++,
+        });
+      }
+    }
+
+    const created = await storage.createTasks(newTasks);
+    if (created.length > 0) {
+      log.info({ transactionId: transaction.id, status, count: created.length }, 'Checklist tasks created from templates');
+    }
+    return created;
+  } catch (error) {
+    log.error({ err: error, transactionId: transaction.id }, 'Failed to instantiate checklist templates');
+    return [];
+  }
+}
@@ -1,10 +1,15 @@
 import { createModuleLogger } from '../lib/logger';
 import { storage } from "../storage";
-import { sendClosingReminder } from "../slack";
+import { sendClosingReminder, sendDeadlineReminder } from "../slack";
+import { getDaysUntil } from "@shared/lib/deadlines";
+import { markMissedDeadlines } from "./deadlines";
+import type { NotificationSetting, Transaction } from "@shared/schema";
 
 const log = createModuleLogger('notifications');
 
 const REMINDER_INTERVALS = [30, 14, 7, 3, 1, 0];
+// Contract deadlines are days or weeks out, so only remind close to the date
+const DEADLINE_REMINDER_INTERVALS = [3, 1, 0];
 const CHECK_INTERVAL_MS = 60 * 60 * 1000; // Check every hour (will only send once per day at configured time)
 
 let reminderIntervalId: NodeJS.Timeout | null = null;
@@ -23,14 +28,144 @@ function getDaysUntilClosing(closingDate: string): number {
   return diffDays;
 }
 
-function getReminderKey(daysRemaining: number): string {
+type ReminderKey = keyof Pick<
+  NotificationSetting,
+  'reminderDayOf' | 'reminder1Day' | 'reminder3Days' | 'reminder7Days' | 'reminder14Days' | 'reminder30Days'
+>;
+
+function getReminderKey(daysRemaining: number): ReminderKey | null {
   if (daysRemaining === 0) return 'reminderDayOf';
   if (daysRemaining === 1) return 'reminder1Day';
   if (daysRemaining === 3) return 'reminder3Days';
   if (daysRemaining === 7) return 'reminder7Days';
   if (daysRemaining === 14) return 'reminder14Days';
   if (daysRemaining === 30) return 'reminder30Days';
-  return '';
+  return null;
+}
+
+// Respect the transaction owner's notification settings (defaults to enabled when none are saved)
+async function isReminderEnabled(transaction: Transaction, daysRemaining: number): Promise<boolean> {
+  if (!transaction.userId) return true;
+
+  try {
+    const settings = await storage.getNotificationSettings(
+      transaction.userId, 
+      transaction.id
+    );
+    
+    // If settings exist, check if closing reminders are enabled
+    if (settings) {
+      if (!settings.closingReminders) {
+        log.info({ address: transaction.propertyAddress }, 'Skipping: closing reminders disabled');
+        return false;
+      }
+      
+      // Check specific interval setting
+      const reminderKey = getReminderKey(daysRemaining);
+      if (reminderKey && !settings[reminderKey]) {
+        log.info({ address: transaction.propertyAddress, reminderKey }, 'Skipping: reminder interval disabled');
+        return false;
+      }
+    }
+  } catch (settingsError) {
+    // If we can't get settings, proceed with sending (defaults to enabled)
+    log.info({ address: transaction.propertyAddress }, 'Could not get settings, proceeding with reminder');
+  }
+  return true;
+}
+
+async function sendClosingReminders(): Promise<number> {
+  const transactions = await storage.getTransactionsWithClosingReminders();
+  log.info({ count: transactions.length }, 'Found transactions with closing dates and Slack channels');
+  
+  let sentCount = 0;
+  
+  for (const transaction of transactions) {
+    if (!transaction.closingDate || !transaction.slackChannelId) continue;
+    
+    const daysRemaining = getDaysUntilClosing(transaction.closingDate);
+    
+    // Check if this is a reminder day
+    if (!REMINDER_INTERVALS.includes(daysRemaining)) continue;
+    
+    if (!(await isReminderEnabled(transaction, daysRemaining))) continue;
+    
+    // Send the reminder
+    try {
+      await sendClosingReminder(
+        transaction.slackChannelId,
+        transaction.propertyAddress,
+        transaction.closingDate,
+        daysRemaining
+      );
+      sentCount++;
+      
+      // Log activity
+      await storage.createActivity({
+        transactionId: transaction.id,
+        type: 'closing_reminder_sent',
+        description: `Closing reminder sent: ${daysRemaining === 0 ? 'Closing day!' : `${daysRemaining} days remaining`}`,
+        category: 'communication',
+      });
+    } catch (sendError) {
+      log.error({ err: sendError, address: transaction.propertyAddress }, 'Failed to send reminder');
+    }
+  }
+  
+  log.info({ sentCount }, 'Closing reminders sent');
+  return sentCount;
+}
+
+/**
+ * Mark past-due deadlines as missed, then remind on upcoming contract deadlines
+ * (option, financing, appraisal, survey, ...) for transactions with a Slack channel.
+ */
+export async function sendDeadlineReminders(): Promise<number> {
+  await markMissedDeadlines();
+
+  const deadlines = await storage.getOpenDeadlines();
+  const transactionCache = new Map<string, Transaction | undefined>();
+  let sentCount = 0;
+
+  for (const deadline of deadlines) {
+    if (!deadline.dueDate) continue;
+
+    const daysRemaining = getDaysUntil(deadline.dueDate);
+    if (!DEADLINE_REMINDER_INTERVALS.includes(daysRemaining)) continue;
+
+    if (!transactionCache.has(deadline.transactionId)) {
+      transactionCache.set(deadline.transactionId, await storage.getTransaction(deadline.transactionId));
+    }
+    const transaction = transactionCache.get(deadline.transactionId);
+    if (!transaction?.slackChannelId || transaction.isArchived) continue;
+    if (transaction.status === 'closed' || transaction.status === 'cancelled') continue;
+
+    if (!(await isReminderEnabled(transaction, daysRemaining))) continue;
+
+    try {
+      await sendDeadlineReminder(
+        transaction.slackChannelId,
+        transaction.propertyAddress,
+        deadline.label,
+        deadline.dueDate,
+        daysRemaining
+      );
+      sentCount++;
+
+      await storage.createActivity({
+        transactionId: transaction.id,
+        type: 'deadline_reminder_sent',
+        description: `${deadline.label} reminder sent: ${daysRemaining === 0 ? 'due today' : `${daysRemaining} days remaining`}`,
+        category: 'dates',
+        metadata: { deadlineId: deadline.id, daysRemaining },
+      });
+    } catch (sendError) {
+      log.error({ err: sendError, address: transaction.propertyAddress, deadline: deadline.label }, 'Failed to send deadline reminder');
+    }
+  }
+
+  log.info({ sentCount }, 'Deadline reminders sent');
+  return sentCount;
 }
 
 async function checkAndSendReminders(): Promise<void> {
@@ -45,70 +180,8 @@ async function checkAndSendReminders(): Promise<void> {
   lastCheckDate = today;
   
   try {
-    const transactions = await storage.getTransactionsWithClosingReminders();
-    log.info({ count: transactions.length }, 'Found transactions with closing dates and Slack channels');
-    
-    let sentCount = 0;
-    
-    for (const transaction of transactions) {
-      if (!transaction.closingDate || !transaction.slackChannelId) continue;
-      
-      const daysRemaining = getDaysUntilClosing(transaction.closingDate);
-      
-      // Check if this is a reminder day
-      if (!REMINDER_INTERVALS.includes(daysRemaining)) continue;
-      
-      // Check notification settings if user exists
-      if (transaction.userId) {
-        try {
-          const settings = await storage.getNotificationSettings(
-            transaction.userId, 
-            transaction.id
-          );
-          
-          // If settings exist, check if closing reminders are enabled
-          if (settings) {
-            if (!settings.closingReminders) {
-              log.info({ address: transaction.propertyAddress }, 'Skipping: closing reminders disabled');
-              continue;
-            }
-            
-            // Check specific interval setting
-            const reminderKey = getReminderKey(daysRemaining);
-            if (reminderKey && !(settings as any)[reminderKey]) {
-              log.info({ address: transaction.propertyAddress, reminderKey }, 'Skipping: reminder interval disabled');
-              continue;
-            }
-          }
-        } catch (settingsError) {
-          // If we can't get settings, proceed with sending (defaults to enabled)
-          log.info({ address: transaction.propertyAddress }, 'Could not get settings, proceeding with reminder');
-        }
-      }
-      
-      // Send the reminder
-      try {
-        await sendClosingReminder(
-          transaction.slackChannelId,
-          transaction.propertyAddress,
-          transaction.closingDate,
-          daysRemaining
-        );
-        sentCount++;
-        
-        // Log activity
-        await storage.createActivity({
-          transactionId: transaction.id,
-          type: 'closing_reminder_sent',
-          description: `Closing reminder sent: ${daysRemaining === 0 ? 'Closing day!' : `${daysRemaining} days remaining`}`,
-          category: 'communication',
-        });
-      } catch (sendError) {
-        log.error({ err: sendError, address: transaction.propertyAddress }, 'Failed to send reminder');
-      }
-    }
-    
-    log.info({ sentCount }, 'Closing reminders sent');
+    await sendClosingReminders();
+    await sendDeadlineReminders();
   } catch (error) {
     log.error({ err: error }, 'Error checking reminders');
   }
@@ -0,0 +1,75 @@
+import { createModuleLogger } from '../lib/logger';
+import { storage } from '../storage';
+import { authStorage } from '../replit_integrations/auth';
+import { getFUBContact } from '../fub';
+import { replaceGmailFilterForParties } from '../gmail';
+import type { Transaction } from '@shared/schema';
+
+const log = createModuleLogger('contacts');
+
+// "Jane Doe <jane@example.com>" -> "jane@example.com"
+export function extractEmailAddress(from: string): string | null {
+  const match = from.match(/<([^>]+)>/) || from.match(/([^\s<>]+@[^\s<>]+)/);
+  return match ? match[1].trim().toLowerCase() : null;
+}
+
+/**
+ * Unique, lowercased emails of every party on the transaction
+ */
+export async function getPartyEmails(transactionId: string): Promise<string[]> {
+  const contacts = await storage.getContactsByTransaction(transactionId);
+  const emails = contacts
+    .map(c => c.email?.trim().toLowerCase())
+    .filter((email): email is string => !!email);
+  return Array.from(new Set(emails));
+}
+
+/**
+ * Pull name, email and phone for a Follow Up Boss person so a linked contact
+ * doesn't need them re-entered. Returns null when FUB isn't configured or the person is missing.
+ */
+export async function getFubPersonDetails(
+  fubPersonId: string
+): Promise<{ name: string; email: string | null; phone: string | null } | null> {
+  if (!process.env.FUB_API_KEY) return null;
+
+  const id = parseInt(fubPersonId, 10);
+  if (isNaN(id)) return null;
+
+  const person = await getFUBContact(id);
+  if (!person) return null;
+
+  return {
+    name: `${person.firstName} ${person.lastName}`.trim(),
+    email: person.email,
+    phone: person.phone,
+  };
+}
+
+/**
+ * Rebuild the owner's Gmail filter for this transaction so mail from any party is
+ * labeled and routed, not just mail with the street address in the subject.
+ */
+export async function syncGmailFilterWithContacts(transaction: Transaction): Promise<void> {
+  if (!transaction.gmailLabelId || !transaction.userId) return;
+
+  try {
+    const owner = await authStorage.getUser(transaction.userId);
+    if (!owner?.email) return;
+
+    const partyEmails = await getPartyEmails(transaction.id);
+    const filterId = await replaceGmailFilterForParties(
+      owner.email,
+      transaction.propertyAddress,
+      transaction.gmailLabelId,
+      transaction.gmailFilterId,
+      partyEmails
+    );
+
+    if (filterId && filterId !== transaction.gmailFilterId) {
+      await storage.updateTransaction(transaction.id, { gmailFilterId: filterId });
+    }
+  } catch (error) {
+    log.error({ err: error, transactionId: transaction.id }, 'Failed to sync Gmail filter with contacts');
+  }
+}
@@ -0,0 +1,84 @@
+import { createModuleLogger } from '../lib/logger';
+import { storage } from '../storage';
+import { TimelineLogger } from './timeline';
+import { DEFAULT_DEADLINES, computeDeadlineDueDate, getDaysUntil } from '@shared/lib/deadlines';
+import type { DeadlineDayType, Transaction, TransactionDeadline } from '@shared/schema';
+
+const log = createModuleLogger('deadlines');
+
+/**
+ * Add the standard contract deadlines to a transaction, skipping any type it already has.
+ */
+export async function addDefaultDeadlines(transaction: Transaction): Promise<TransactionDeadline[]> {
+  const existing = await storage.getDeadlinesByTransaction(transaction.id);
+  const existingTypes = new Set(existing.map(d => d.type));
+
+  const toCreate = DEFAULT_DEADLINES
+    .filter(d => !existingTypes.has(d.type))
+    .map(d => ({
+      transactionId: transaction.id,
+      type: d.type,
+      label: d.label,
+      offsetDays: d.offsetDays,
+      dayType: d.dayType,
+      isManual: false,
+      dueDate: computeDeadlineDueDate(transaction.contractDate, d.offsetDays, d.dayType),
+      status: 'upcoming' as const,
+    }));
+
+  return await storage.createDeadlines(toCreate);
+}
+
+/**
+ * Recompute due dates for every computed (non-manual) deadline after the contract date changes.
+ */
+export async function recalculateDeadlines(transaction: Transaction): Promise<number> {
+  try {
+    const deadlines = await storage.getDeadlinesByTransaction(transaction.id);
+    let updatedCount = 0;
+
+    for (const deadline of deadlines) {
+      if (deadline.isManual) continue;
+
+      const dueDate = computeDeadlineDueDate(
+        transaction.contractDate,
+        deadline.offsetDays,
+        deadline.dayType as DeadlineDayType
+      );
+      if (dueDate !== deadline.dueDate) {
+        await storage.updateDeadline(deadline.id, { dueDate });
+        updatedCount++;
+      }
+    }
+
+    if (updatedCount > 0) {
+      log.info({ transactionId: transaction.id, updatedCount }, 'Deadlines recalculated from contract date');
+    }
+    return updatedCount;
+  } catch (error) {
+    log.error({ err: error, transactionId: transaction.id }, 'Failed to recalculate deadlines');
+    return 0;
+  }
+}
+
+/**
+ * Persist "missed" for upcoming deadlines whose due date has passed and log it to the timeline.
+ * Called from the daily reminder check.
+ */
+export async function markMissedDeadlines(): Promise<number> {
+  const openDeadlines = await storage.getOpenDeadlines();
+  let missedCount = 0;
+
+  for (const deadline of openDeadlines) {
+    if (!deadline.dueDate || getDaysUntil(deadline.dueDate) >= 0) continue;
+
+    await storage.updateDeadline(deadline.id, { status: 'missed', statusChangedAt: new Date() });
+    await TimelineLogger.deadlineStatusChanged(deadline.transactionId, deadline.id, deadline.label, 'missed');
+    missedCount++;
+  }
+
+  if (missedCount > 0) {
+    log.info({ missedCount }, 'Marked past-due deadlines as missed');
+  }
+  return missedCount;
+}
@@ -0,0 +1,143 @@
+import { createModuleLogger } from '../lib/logger';
+import { logAudit } from '../lib/audit';
+import { storage, type TransactionMergeCounts, type TransactionVersionMeta } from '../storage';
+import { authStorage } from '../replit_integrations/auth';
+import { archiveSlackChannel, postToChannel } from '../slack';
+import { deleteGmailFilter } from '../gmail';
+import { TimelineLogger } from './timeline';
+import { canAccessTransaction, type AccessContext } from '../middleware/permissions';
+import { recordTransactionVersion } from './transaction-history';
+import { recalculateDeadlines } from './deadlines';
+import { diffTransactionFields } from '@shared/lib/field-history';
+import { normalizeAddress, normalizeMlsNumber, type DuplicateCheck, type DuplicateReason } from '@shared/lib/duplicates';
+import type { InsertTransaction, Transaction } from '@shared/schema';
+
+const log = createModuleLogger('duplicates');
+
+// Fields the survivor takes from the merged-away transaction when it has none of its own
+const FILL_IF_MISSING = [
+  'mlsNumber',
+  'contractDate',
+  'closingDate',
+  'fubClientId',
+  'fubClientName',
+  'fubClientEmail',
+  'fubClientPhone',
+  'propertyDescription',
+] as const;
+
+/**
+ * Open transactions at the same normalized address or with the same MLS number, so a
+ * second Slack channel and Gmail filter aren't created. Every live transaction is
+ * checked; the ones the user can't open only show their owner and why they matched.
+ */
+export async function findDuplicateTransactions(
+  access: AccessContext,
+  candidate: { propertyAddress?: string | null; mlsNumber?: string | null },
+  excludeId?: string
+): Promise<DuplicateCheck> {
+  const address = normalizeAddress(candidate.propertyAddress);
+  const mls = normalizeMlsNumber(candidate.mlsNumber);
+  const addressPrefix = address.split(' ')[0] || '';
+
+  const candidates = await storage.findDuplicateCandidates(addressPrefix, mls || null, excludeId);
+
+  const matches = candidates
+    .map(transaction => {
+      const reasons: DuplicateReason[] = [];
+      if (address && normalizeAddress(transaction.propertyAddress) === address) reasons.push('address');
+      if (mls && normalizeMlsNumber(transaction.mlsNumber) === mls) reasons.push('mls');
+      return { transaction, reasons };
+    })
+    .filter(match => match.reasons.length > 0);
+
+  const ownerIds = Array.from(new Set(matches.map(match => match.transaction.userId).filter((id): id is string => !!id)));
+  const owners = new Map((await authStorage.getUsers(ownerIds)).map(user => [user.id, user]));
+
+  const check: DuplicateCheck = { duplicates: [], hidden: [] };
+  for (const { transaction, reasons } of matches) {
+    const owner = transaction.userId ? owners.get(transaction.userId) : undefined;
+    const ownerName = owner ? `${owner.firstName || ''} ${owner.lastName || ''}`.trim() || owner.email || null : null;
+    if (!(await canAccessTransaction(access, transaction))) {
+      check.hidden.push({ ownerName, reasons });
+      continue;
+    }
+    check.duplicates.push({
+      id: transaction.id,
+      propertyAddress: transaction.propertyAddress,
+      mlsNumber: transaction.mlsNumber,
+      status: transaction.status,
+      transactionType: transaction.transactionType,
+      ownerName,
+      reasons,
+      createdAt: transaction.createdAt?.toISOString() ?? null,
+    });
+  }
+  return check;
+}
+
+/**
+ * Fold `source` into `target`: move its records, fill gaps on the target (recorded
+ * as a "merge" version), delete the source, then archive its Slack channel and remove
+ * its Gmail filter. Integration cleanup failures are logged but never undo the merge.
+ */
+export async function mergeTransactions(
+  target: Transaction,
+  source: Transaction,
+  mergedBy: Omit<TransactionVersionMeta, 'source'>
+): Promise<TransactionMergeCounts> {
+  const targetUpdate: Partial<InsertTransaction> = {};
+  for (const field of FILL_IF_MISSING) {
+    if (!target[field] && source[field]) targetUpdate[field] = source[field];
+  }
+  if (source.notes && source.notes !== target.notes) {
+    targetUpdate.notes = target.notes ? `${target.notes}\n\n${source.notes}` : source.notes;
+  }
+  if (source.coordinatorIds?.length) {
+    targetUpdate.coordinatorIds = Array.from(new Set([...(target.coordinatorIds || []), ...source.coordinatorIds]));
+  }
+
+  const changes = diffTransactionFields(target, targetUpdate);
+  const { counts, target: merged } = await storage.mergeTransactions(target.id, source.id, targetUpdate, changes.length > 0);
+  const actor = mergedBy.changedByEmail || mergedBy.changedBy || 'system';
+
+  if (merged) {
+    await recordTransactionVersion(merged, changes, { ...mergedBy, source: 'merge' });
+    // Deadlines moved from the source were dated from its contract date
+    await recalculateDeadlines(merged);
+  }
+
+  await TimelineLogger.transactionMerged(target.id, source.propertyAddress, { sourceId: source.id, mergedBy: actor, ...counts });
+
+  if (source.slackChannelId && source.slackChannelId !== target.slackChannelId) {
+    try {
+      const pointer = target.slackChannelName ? ` Continue in #${target.slackChannelName}.` : '';
+      await postToChannel(source.slackChannelId, `This transaction was merged into ${target.propertyAddress}.${pointer}`);
+      await archiveSlackChannel(source.slackChannelId);
+    } catch (error) {
+      log.error({ err: error, channelId: source.slackChannelId }, 'Failed to clean up merged Slack channel');
+    }
+  }
+
+  if (source.gmailFilterId && source.userId) {
+    try {
+      const owner = await authStorage.getUser(source.userId);
+      if (owner?.email) await deleteGmailFilter(owner.email, source.gmailFilterId);
+    } catch (error) {
+      log.error({ err: error, filterId: source.gmailFilterId }, 'Failed to remove merged Gmail filter');
+    }
+  }
+
+  await logAudit({
+    requestId: mergedBy.requestId || undefined,
+    action: 'transaction.merge',
+    actor,
+    target: source.id,
+    metadata: { targetId: target.id, ...counts },
+    status: 'success',
+    transactionId: target.id,
+  });
+
+  log.info({ targetId: target.id, sourceId: source.id, counts }, 'Transactions merged');
+  return counts;
+}
@@ -8,6 +8,10 @@ import crypto from 'crypto';
 import { PDFDocument } from 'pdf-lib';
 import { ObjectStorageService, ObjectNotFoundError } from '../replit_integrations/object_storage';
 import { createModuleLogger } from '../lib/logger';
+import { format } from 'date-fns';
+import type { NetSheet, NetSheetType } from '@shared/schema';
+import { formatCurrency } from '@shared/lib/commission';
+import { NET_SHEET_TYPE_LABELS, type NetSheetInputs, type NetSheetResult } from '@shared/lib/net-sheets';
 
 const log = createModuleLogger('marketing');
 
@@ -571,3 +575,60 @@ export function formatAddressForFlyer(address: string): string {
   const normalized = address.toUpperCase().replace(/\s+/g, ' ').trim();
   return normalized;
 }
+
+export interface NetSheetPdfData {
+  sheet: NetSheet;
+  address: string;
+  preparedBy?: string | null;
+}
+
+// Net sheets are text documents, so unlike flyers they print with page.pdf() at letter size
+export async function generateNetSheetPdf({ sheet, address, preparedBy }: NetSheetPdfData): Promise<Buffer> {
+  const result = sheet.result as NetSheetResult;
+  const inputs = sheet.inputs as NetSheetInputs;
+  const logoB64 = await imageToBase64(path.join(process.cwd(), 'public', 'assets', 'SpyglassRealty_Logo_Black.png'));
+
+  const summary = [
+    { label: inputs.type === 'seller' ? 'Sale price' : 'Purchase price', value: formatCurrency(result.price) },
+    { label: 'Estimated closing', value: format(new Date(`${inputs.closingDate}T12:00:00`), 'MMM d, yyyy') },
+    ...(result.loanAmount !== null ? [{ label: 'Loan amount', value: formatCurrency(result.loanAmount) }] : []),
+  ];
+
+  const templatePath = path.resolve(process.cwd(), 'server/templates/net-sheet-template.hbs');
+  const template = Handlebars.compile(fs.readFileSync(templatePath, 'utf-8'));
+  const html = template({
+    title: NET_SHEET_TYPE_LABELS[sheet.type as NetSheetType],
+    address,
+    version: sheet.version,
+    preparedOn: format(sheet.createdAt ?? new Date(), 'MMM d, yyyy'),
+    preparedBy,
+    logoUrl: logoB64,
+    summary,
+    lines: result.lines.map(line => ({ label: line.label, amount: formatCurrency(line.amount) })),
+    totalLabel: inputs.type === 'seller' ? 'Estimated net proceeds' : 'Estimated cash to close',
+    total: formatCurrency(result.total),
+    feeScheduleName: sheet.feeScheduleName,
+  });
+
+  let browser;
+  try {
+    browser = await launchBrowser();
+  } catch (launchError: any) {
+    log.error({ err: launchError, isProduction }, 'BROWSER LAUNCH ERROR');
+    throw new Error(`Failed to launch browser: ${launchError.message}`);
+  }
+
+  try {
+    const page = await browser.newPage();
+    await page.setContent(html, { waitUntil: 'networkidle0', timeout: 60000 });
+    const pdf = await page.pdf({
+      format: 'Letter',
+      printBackground: true,
+      margin: { top: '0.6in', bottom: '0.6in', left: '0.6in', right: '0.6in' },
+    });
+    log.info({ netSheetId: sheet.id, size: pdf.length }, 'Net sheet PDF generated');
+    return Buffer.from(pdf);
+  } finally {
+    await browser.close();
+  }
+}
@@ -0,0 +1,105 @@
+import { getAppUrl } from '../lib/app-url';
+import { getTransactionStatusLabel } from '@shared/lib/status-machine';
+import { getSlackChannelUrl, type CalendarEvent } from '@shared/lib/calendar';
+
+// RFC 5545 text values escape backslash, semicolon, comma and newlines
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a single space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of Array.from(line)) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function toICalDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+// Floating local time - the open house happens at the property's wall-clock time
+function toICalLocalDateTime(date: string, time: string): string {
+  return `${toICalDate(date)}T${time.replace(':', '')}00`;
+}
+
+function toICalTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function buildEvent(event: CalendarEvent, stamp: string, appUrl: string): string[] {
+  const transactionUrl = `${appUrl}/transactions/${event.transactionId}`;
+  const description = [
+    event.description ?? null,
+    `Status: ${getTransactionStatusLabel(event.status)}`,
+    event.slackChannelId ? `Slack: ${getSlackChannelUrl(event.slackChannelId)}` : null,
+    `Transaction: ${transactionUrl}`,
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@contract-conduit`,
+    `DTSTAMP:${stamp}`,
+    ...(event.startTime && event.endTime
+      ? [
+          `DTSTART:${toICalLocalDateTime(event.date, event.startTime)}`,
+          `DTEND:${toICalLocalDateTime(event.date, event.endTime)}`,
+        ]
+      : [
+          `DTSTART;VALUE=DATE:${toICalDate(event.date)}`,
+          `DTEND;VALUE=DATE:${toICalDate(nextDay(event.date))}`,
+        ]),
+    `SUMMARY:${escapeText(event.title)}`,
+    `LOCATION:${escapeText(event.propertyAddress)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${event.slackChannelId ? getSlackChannelUrl(event.slackChannelId) : transactionUrl}`,
+    event.startTime ? 'TRANSP:OPAQUE' : 'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Render events as an iCalendar (.ics) document for calendar subscriptions.
+ * Transaction dates are all-day and open houses are timed; UIDs are stable so a
+ * refresh updates events in place.
+ */
+export function buildICalendar(name: string, events: CalendarEvent[]): string {
+  const stamp = toICalTimestamp(new Date());
+  const appUrl = getAppUrl();
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Contract Conduit//Transaction Dates//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(event => buildEvent(event, stamp, appUrl)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,170 @@
+import { storage } from '../storage';
+import { createModuleLogger } from '../lib/logger';
+import {
+  DEFAULT_ACTIVE_TTL_MINUTES,
+  DEFAULT_CLOSED_TTL_MINUTES,
+  DEFAULT_MAX_STALE_MINUTES,
+  getListingCacheFreshness,
+  type MLSCacheMetrics,
+  type MLSCacheTtls,
+} from '@shared/lib/mls-cache';
+
+const log = createModuleLogger('mls-cache');
+
+export interface CachedListingOptions {
+  // false: wait for a refresh instead of serving a stale entry (the sync job needs current data)
+  allowStale?: boolean;
+  // Skip the cache read and refetch (manual "Refresh MLS Data")
+  forceRefresh?: boolean;
+  // A differently shaped response for the same listing (e.g. a coverImage photo order), cached under its own key
+  variant?: string;
+}
+
+// Counters since this process started
+const counters = {
+  hits: 0,
+  staleHits: 0,
+  misses: 0,
+  bypasses: 0,
+  fetches: 0,
+  fetchFailures: 0,
+};
+const countingSince = new Date();
+
+// Concurrent requests for the same listing share one Repliers call
+const inFlight = new Map<string, Promise<unknown>>();
+
+function getMinutesSetting(name: string, fallback: number): number {
+  const configured = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : fallback;
+}
+
+export function getMLSCacheTtls(): MLSCacheTtls {
+  return {
+    activeTtlMinutes: getMinutesSetting('MLS_CACHE_ACTIVE_TTL_MINUTES', DEFAULT_ACTIVE_TTL_MINUTES),
+    closedTtlMinutes: getMinutesSetting('MLS_CACHE_CLOSED_TTL_MINUTES', DEFAULT_CLOSED_TTL_MINUTES),
+    maxStaleMinutes: getMinutesSetting('MLS_CACHE_MAX_STALE_MINUTES', DEFAULT_MAX_STALE_MINUTES),
+  };
+}
+
+async function refresh<T extends { status?: string }>(
+  cacheKey: string,
+  mlsNumber: string,
+  boardId: string,
+  fetcher: () => Promise<T | null>
+): Promise<T | null> {
+  const pending = inFlight.get(cacheKey);
+  if (pending) return pending as Promise<T | null>;
+
+  const request = (async () => {
+    counters.fetches++;
+    try {
+      const data = await fetcher();
+      if (!data) {
+        counters.fetchFailures++;
+        return null;
+      }
+      try {
+        await storage.upsertMLSListingCacheEntry({
+          cacheKey,
+          mlsNumber,
+          boardId,
+          status: data.status || null,
+          data,
+          fetchedAt: new Date(),
+        });
+      } catch (error) {
+        log.error({ err: error, mlsNumber }, 'Error writing listing cache');
+      }
+      return data;
+    } catch (error) {
+      counters.fetchFailures++;
+      log.error({ err: error, mlsNumber }, 'Error refreshing cached listing');
+      return null;
+    } finally {
+      inFlight.delete(cacheKey);
+    }
+  })();
+
+  inFlight.set(cacheKey, request);
+  return request;
+}
+
+/**
+ * Read-through cache for normalized listings, keyed by board and MLS number.
+ * Fresh entries are served as-is. Stale ones are served immediately while a
+ * background refresh updates them; expired ones (or allowStale: false) wait for
+ * Repliers. If Repliers fails, whatever is cached is served rather than nothing -
+ * except with allowStale: false, where the caller asked for current data only.
+ * Not-found results are never cached.
+ */
+export async function getCachedListing<T extends { status?: string }>(
+  mlsNumber: string,
+  boardId: string,
+  fetcher: () => Promise<T | null>,
+  options: CachedListingOptions = {}
+): Promise<T | null> {
+  const cacheKey = options.variant ? `${boardId}:${mlsNumber}:${options.variant}` : `${boardId}:${mlsNumber}`;
+
+  if (options.forceRefresh) {
+    counters.bypasses++;
+    return refresh(cacheKey, mlsNumber, boardId, fetcher);
+  }
+
+  let entry;
+  try {
+    entry = await storage.getMLSListingCacheEntry(cacheKey);
+  } catch (error) {
+    // The cache is an optimization - a database problem shouldn't take MLS lookups down with it
+    log.error({ err: error, mlsNumber }, 'Error reading listing cache');
+  }
+
+  if (!entry) {
+    counters.misses++;
+    return refresh(cacheKey, mlsNumber, boardId, fetcher);
+  }
+
+  const freshness = getListingCacheFreshness(entry.status, entry.fetchedAt, getMLSCacheTtls());
+  if (freshness === 'fresh') {
+    counters.hits++;
+    return entry.data as T;
+  }
+
+  if (freshness === 'stale' && options.allowStale !== false) {
+    counters.staleHits++;
+    void refresh(cacheKey, mlsNumber, boardId, fetcher);
+    return entry.data as T;
+  }
+
+  counters.misses++;
+  const refreshed = await refresh(cacheKey, mlsNumber, boardId, fetcher);
+  if (refreshed || options.allowStale === false) return refreshed;
+  log.warn({ mlsNumber, fetchedAt: entry.fetchedAt }, 'Repliers refresh failed, serving cached listing');
+  return entry.data as T;
+}
+
+/**
+ * Drop entries past their TTL plus the stale window. They are only served when
+ * Repliers is down, and without this the table keeps every listing ever looked up.
+ */
+export async function purgeExpiredListingCache(now: Date = new Date()): Promise<number> {
+  const ttls = getMLSCacheTtls();
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000);
+  return storage.deleteExpiredMLSListingCacheEntries(
+    minutesAgo(ttls.activeTtlMinutes + ttls.maxStaleMinutes),
+    minutesAgo(ttls.closedTtlMinutes + ttls.maxStaleMinutes)
+  );
+}
+
+export async function getMLSCacheMetrics(): Promise<MLSCacheMetrics> {
+  const { entries, oldestFetchedAt } = await storage.getMLSListingCacheSize();
+  const served = counters.hits + counters.staleHits + counters.misses;
+  return {
+    since: countingSince.toISOString(),
+    ...counters,
+    hitRate: served > 0 ? (counters.hits + counters.staleHits) / served : null,
+    entries,
+    oldestFetchedAt: oldestFetchedAt?.toISOString() ?? null,
+    ttls: getMLSCacheTtls(),
+  };
+}
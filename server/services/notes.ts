@@ -0,0 +1,92 @@
+import { createModuleLogger } from '../lib/logger';
+import { getAppUrl } from '../lib/app-url';
+import { storage } from '../storage';
+import { authStorage } from '../replit_integrations/auth';
+import { lookupUserByEmail, sendDirectMessage } from '../slack';
+import type { NoteMention, Transaction, TransactionNote } from '@shared/schema';
+import type { MentionablePerson } from '@shared/lib/notes';
+
+const log = createModuleLogger('notes');
+
+// Longest note excerpt quoted in a mention DM
+const EXCERPT_LENGTH = 300;
+
+/**
+ * Who can be @mentioned on a transaction: active coordinators, the owning agent and
+ * the agents in the owner's organizations.
+ */
+export async function getMentionablePeople(transaction: Transaction): Promise<MentionablePerson[]> {
+  const coordinators = await storage.getCoordinators();
+  const people: MentionablePerson[] = coordinators
+    .filter(c => c.isActive !== false)
+    .map(c => ({ type: 'coordinator', id: c.id, name: c.name, email: c.email }));
+
+  const agentIds = new Set<string>();
+  if (transaction.userId) {
+    agentIds.add(transaction.userId);
+    const memberships = await storage.getMembershipsByUser(transaction.userId);
+    const memberLists = await Promise.all(memberships.map(m => storage.getOrganizationMembers(m.organizationId)));
+    memberLists.flat().forEach(member => agentIds.add(member.userId));
+  }
+
+  const users = await authStorage.getUsers(Array.from(agentIds));
+  for (const user of users) {
+    const name = `${user.firstName || ''} ${user.lastName || ''}`.trim();
+    if (!name) continue;
+    people.push({ type: 'agent', id: user.id, name, email: user.email ?? null });
+  }
+
+  return people;
+}
+
+async function getSlackUserId(mention: NoteMention): Promise<string | null> {
+  if (mention.type === 'coordinator') {
+    const coordinator = await storage.getCoordinator(mention.id);
+    if (coordinator?.slackUserId) return coordinator.slackUserId;
+    return coordinator?.email ? lookupUserByEmail(coordinator.email) : null;
+  }
+  const user = await authStorage.getUser(mention.id);
+  if (user?.slackUserId) return user.slackUserId;
+  return user?.email ? lookupUserByEmail(user.email) : null;
+}
+
+/**
+ * DM everyone newly mentioned in a note, except its author. Delivery failures are
+ * logged; the note is already saved.
+ */
+export async function notifyMentions(
+  transaction: Transaction,
+  note: TransactionNote,
+  mentions: NoteMention[]
+): Promise<void> {
+  const recipients = mentions.filter(m => !(m.type === 'agent' && m.id === note.authorId));
+  if (recipients.length === 0) return;
+
+  const author = note.authorName || note.authorEmail || 'Someone';
+  const excerpt = note.body.length > EXCERPT_LENGTH ? `${note.body.substring(0, EXCERPT_LENGTH)}…` : note.body;
+  const link = `${getAppUrl()}/transactions/${transaction.id}`;
+  const text = `${author} mentioned you on ${transaction.propertyAddress}`;
+  const blocks = [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*${author}* mentioned you on <${link}|${transaction.propertyAddress}>` },
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: excerpt.split('\n').map(line => `>${line}`).join('\n') },
+    },
+  ];
+
+  for (const mention of recipients) {
+    try {
+      const slackUserId = await getSlackUserId(mention);
+      if (!slackUserId) {
+        log.warn({ mention, transactionId: transaction.id }, 'No Slack user for mention');
+        continue;
+      }
+      await sendDirectMessage(slackUserId, text, blocks);
+    } catch (error) {
+      log.error({ err: error, mention, noteId: note.id }, 'Failed to send mention DM');
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { createModuleLogger } from '../lib/logger';
+import { storage } from "../storage";
+import { sendOpenHouseAnnouncement } from "../slack";
+import { formatOpenHouseDate, formatOpenHouseTimeRange, getOpenHouseStart } from "@shared/lib/open-houses";
+import type { Transaction } from "@shared/schema";
+
+const log = createModuleLogger('notifications');
+
+// Announce each open house once, within this long before it starts
+export const OPEN_HOUSE_ANNOUNCE_HOURS = 24;
+
+function toLocalDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Post open houses starting in the next OPEN_HOUSE_ANNOUNCE_HOURS to their
+ * transaction's Slack channel. Open houses that have already started are marked
+ * without posting so a late run doesn't announce them after the fact.
+ */
+export async function sendOpenHouseAnnouncements(now: Date = new Date()): Promise<number> {
+  const windowEnd = new Date(now.getTime() + OPEN_HOUSE_ANNOUNCE_HOURS * 60 * 60 * 1000);
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  const openHouses = await storage.getOpenHousesAwaitingSlackPost(toLocalDateKey(yesterday), toLocalDateKey(windowEnd));
+  const transactionCache = new Map<string, Transaction | undefined>();
+  let sentCount = 0;
+
+  for (const openHouse of openHouses) {
+    const start = getOpenHouseStart(openHouse);
+    if (start > windowEnd) continue;
+    if (start <= now) {
+      await storage.markOpenHouseSlackPosted(openHouse.id);
+      continue;
+    }
+
+    if (!transactionCache.has(openHouse.transactionId)) {
+      transactionCache.set(openHouse.transactionId, await storage.getTransaction(openHouse.transactionId));
+    }
+    const transaction = transactionCache.get(openHouse.transactionId);
+    if (!transaction?.slackChannelId || transaction.isArchived) continue;
+
+    const when = `${formatOpenHouseDate(openHouse.date)}, ${formatOpenHouseTimeRange(openHouse)}`;
+    const sent = await sendOpenHouseAnnouncement(transaction.slackChannelId, transaction.propertyAddress, when, openHouse.hostName);
+    if (!sent) continue;
+
+    await storage.markOpenHouseSlackPosted(openHouse.id);
+    sentCount++;
+    await storage.createActivity({
+      transactionId: transaction.id,
+      type: 'slack_notification',
+      description: `Open house announced in Slack: ${when}`,
+      category: 'communication',
+      metadata: { openHouseId: openHouse.id },
+    });
+  }
+
+  if (sentCount > 0) log.info({ sentCount }, 'Open house announcements sent');
+  return sentCount;
+}
@@ -0,0 +1,172 @@
+import { getTransactionStatusLabel } from '@shared/lib/status-machine';
+import { transactionStatuses, type Transaction } from '@shared/schema';
+
+export interface PipelineSegment {
+  key: string;
+  label: string;
+  count: number;
+  volume: number;
+  closedCount: number;
+}
+
+export interface PipelineReport {
+  totals: { count: number; volume: number };
+  byStatus: PipelineSegment[];
+  byType: PipelineSegment[];
+  bySource: PipelineSegment[]; // company lead vs agent-sourced
+  byListing: PipelineSegment[]; // off-market vs MLS
+}
+
+export interface ClosingsMonth {
+  month: string; // YYYY-MM
+  label: string;
+  count: number;
+  volume: number;
+  avgDaysToClose: number | null;
+}
+
+export interface ClosingsReport {
+  months: ClosingsMonth[];
+  closedCount: number;
+  cancelledCount: number;
+  // cancelled / (closed + cancelled) in the window; null when nothing finished
+  fallThroughRate: number | null;
+  avgDaysToClose: number | null;
+}
+
+export const DEFAULT_CLOSINGS_MONTHS = 12;
+export const MAX_CLOSINGS_MONTHS = 36;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sale price once known, otherwise the list price
+function getVolume(transaction: Transaction): number {
+  return transaction.salePrice ?? transaction.listPrice ?? 0;
+}
+
+function toDay(date: string): number {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`).getTime();
+}
+
+function getDaysToClose(transaction: Transaction): number | null {
+  if (!transaction.contractDate || !transaction.closingDate) return null;
+  const days = Math.round((toDay(transaction.closingDate) - toDay(transaction.contractDate)) / DAY_MS);
+  return days >= 0 ? days : null;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+}
+
+function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function formatMonthLabel(monthKey: string): string {
+  return new Date(`${monthKey}-01T12:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+function segment(
+  transactions: Transaction[],
+  segments: Array<{ key: string; label: string; matches: (t: Transaction) => boolean }>
+): PipelineSegment[] {
+  return segments.map(({ key, label, matches }) => {
+    const matching = transactions.filter(matches);
+    return {
+      key,
+      label,
+      count: matching.length,
+      volume: matching.reduce((sum, t) => sum + getVolume(t), 0),
+      closedCount: matching.filter(t => t.status === 'closed').length,
+    };
+  });
+}
+
+/**
+ * Counts and dollar volume across the pipeline: by status, buy vs sell, company
+ * lead vs agent-sourced, and off-market vs MLS.
+ */
+export function buildPipelineReport(transactions: Transaction[]): PipelineReport {
+  const statuses = [
+    ...transactionStatuses,
+    ...Array.from(new Set(transactions.map(t => t.status))).filter(s => !(transactionStatuses as readonly string[]).includes(s)),
+  ];
+
+  return {
+    totals: {
+      count: transactions.length,
+      volume: transactions.reduce((sum, t) => sum + getVolume(t), 0),
+    },
+    byStatus: segment(transactions, statuses.map(status => ({
+      key: status,
+      label: getTransactionStatusLabel(status),
+      matches: (t: Transaction) => t.status === status,
+    }))),
+    byType: segment(transactions, [
+      { key: 'buy', label: 'Buy', matches: t => t.transactionType === 'buy' },
+      { key: 'sell', label: 'Sell', matches: t => t.transactionType === 'sell' },
+    ]),
+    bySource: segment(transactions, [
+      { key: 'company_lead', label: 'Company lead', matches: t => t.isCompanyLead === true },
+      { key: 'agent', label: 'Agent sourced', matches: t => t.isCompanyLead !== true },
+    ]),
+    byListing: segment(transactions, [
+      { key: 'off_market', label: 'Off market', matches: t => t.isOffMarket === true },
+      { key: 'mls', label: 'MLS', matches: t => t.isOffMarket !== true },
+    ]),
+  };
+}
+
+/**
+ * Closed deals per closing month over the trailing `months` (current month included),
+ * with average contract-to-close days and the fall-through rate for the window.
+ * A cancellation counts in the month its status last changed.
+ */
+export function buildClosingsReport(transactions: Transaction[], months: number, now: Date = new Date()): ClosingsReport {
+  const monthKeys: string[] = [];
+  for (let i = months - 1; i >= 0; i--) {
+    monthKeys.push(toMonthKey(new Date(now.getFullYear(), now.getMonth() - i, 1)));
+  }
+  const inWindow = new Set(monthKeys);
+
+  const closedByMonth = new Map<string, Transaction[]>();
+  let cancelledCount = 0;
+
+  for (const transaction of transactions) {
+    if (transaction.status === 'closed' && transaction.closingDate) {
+      const month = transaction.closingDate.slice(0, 7);
+      if (!inWindow.has(month)) continue;
+      closedByMonth.set(month, [...(closedByMonth.get(month) ?? []), transaction]);
+    } else if (transaction.status === 'cancelled') {
+      const changedAt = transaction.statusChangedAt ?? transaction.createdAt;
+      if (!changedAt) continue;
+      if (inWindow.has(toMonthKey(new Date(changedAt)))) cancelledCount++;
+    }
+  }
+
+  const allDays: number[] = [];
+  const rows = monthKeys.map(month => {
+    const closed = closedByMonth.get(month) ?? [];
+    const days = closed.map(getDaysToClose).filter((d): d is number => d !== null);
+    allDays.push(...days);
+    return {
+      month,
+      label: formatMonthLabel(month),
+      count: closed.length,
+      volume: closed.reduce((sum, t) => sum + getVolume(t), 0),
+      avgDaysToClose: average(days),
+    };
+  });
+
+  const closedCount = rows.reduce((sum, row) => sum + row.count, 0);
+  const finished = closedCount + cancelledCount;
+
+  return {
+    months: rows,
+    closedCount,
+    cancelledCount,
+    fallThroughRate: finished > 0 ? cancelledCount / finished : null,
+    avgDaysToClose: average(allDays),
+  };
+}
@@ -0,0 +1,343 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from 'pdf-lib';
+import { storage } from '../storage';
+import { getAgentLabels } from './revenue';
+import { formatCurrency } from '@shared/lib/commission';
+import type { Transaction } from '@shared/schema';
+
+export const productionReportTypes = ['agents', 'coordinators', 'marketing'] as const;
+export type ProductionReportType = typeof productionReportTypes[number];
+
+export const exportFormats = ['csv', 'pdf'] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+export interface ReportRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+export interface AgentProductionRow {
+  userId: string;
+  name: string;
+  closedUnits: number;
+  closedVolume: number;
+  averagePrice: number | null;
+  newUnits: number; // transactions opened in the range
+  openUnits: number; // in the pipeline today
+}
+
+export interface CoordinatorWorkloadRow {
+  coordinatorId: string;
+  name: string;
+  activeTransactions: number;
+  closedInRange: number;
+  upcomingClosings: number; // closing in the next UPCOMING_CLOSING_DAYS
+  activityCount: number; // timeline entries on their transactions in the range
+}
+
+export interface MarketingOutputRow {
+  userId: string;
+  name: string;
+  flyers: number;
+  graphics: number; // social and alternate-style graphics
+  flyerImages: number; // flyer images saved to marketing assets
+  total: number;
+}
+
+export interface ProductionReport {
+  range: ReportRange;
+  agents: AgentProductionRow[];
+  coordinators: CoordinatorWorkloadRow[];
+  marketing: MarketingOutputRow[];
+}
+
+interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: string[][];
+}
+
+const UPCOMING_CLOSING_DAYS = 30;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function isOpen(transaction: Transaction): boolean {
+  return transaction.status !== 'closed' && transaction.status !== 'cancelled' && transaction.isArchived !== true;
+}
+
+function closedInRange(transaction: Transaction, range: ReportRange): boolean {
+  return transaction.status === 'closed'
+    && !!transaction.closingDate
+    && transaction.closingDate.slice(0, 10) >= range.from
+    && transaction.closingDate.slice(0, 10) <= range.to;
+}
+
+// Sale price once known, otherwise the list price
+function getVolume(transaction: Transaction): number {
+  return transaction.salePrice ?? transaction.listPrice ?? 0;
+}
+
+/**
+ * Read `from`/`to` (YYYY-MM-DD) from a query string. Defaults to the calendar year
+ * to date; returns an error message for malformed or inverted ranges.
+ */
+export function parseReportRange(query: Record<string, unknown>): { range: ReportRange } | { error: string } {
+  const today = toDateKey(new Date());
+  const from = typeof query.from === 'string' && query.from ? query.from : `${today.slice(0, 4)}-01-01`;
+  const to = typeof query.to === 'string' && query.to ? query.to : today;
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+    return { error: 'from and to must be dates in YYYY-MM-DD format' };
+  }
+  if (from > to) {
+    return { error: 'from must be on or before to' };
+  }
+  return { range: { from, to } };
+}
+
+function buildAgentRows(transactions: Transaction[], range: ReportRange, labels: Map<string, string>): AgentProductionRow[] {
+  const rows = new Map<string, AgentProductionRow & { priced: number }>();
+  const getRow = (userId: string) => {
+    let row = rows.get(userId);
+    if (!row) {
+      row = { userId, name: labels.get(userId) || 'Unassigned', closedUnits: 0, closedVolume: 0, averagePrice: null, newUnits: 0, openUnits: 0, priced: 0 };
+      rows.set(userId, row);
+    }
+    return row;
+  };
+
+  for (const transaction of transactions) {
+    const row = getRow(transaction.userId || 'unassigned');
+    const createdOn = transaction.createdAt ? toDateKey(new Date(transaction.createdAt)) : null;
+    if (createdOn && createdOn >= range.from && createdOn <= range.to) row.newUnits++;
+    if (isOpen(transaction)) row.openUnits++;
+    if (closedInRange(transaction, range)) {
+      const volume = getVolume(transaction);
+      row.closedUnits++;
+      row.closedVolume += volume;
+      if (volume > 0) row.priced++;
+    }
+  }
+
+  return Array.from(rows.values())
+    .map(({ priced, ...row }) => ({ ...row, averagePrice: priced > 0 ? Math.round(row.closedVolume / priced) : null }))
+    .filter(row => row.closedUnits > 0 || row.newUnits > 0 || row.openUnits > 0)
+    .sort((a, b) => b.closedVolume - a.closedVolume || b.closedUnits - a.closedUnits);
+}
+
+async function buildCoordinatorRows(transactions: Transaction[], range: ReportRange, activityCounts: Map<string, number>): Promise<CoordinatorWorkloadRow[]> {
+  const coordinators = await storage.getCoordinators();
+  const today = toDateKey(new Date());
+  const upcomingLimit = toDateKey(new Date(Date.now() + UPCOMING_CLOSING_DAYS * DAY_MS));
+
+  return coordinators
+    .map(coordinator => {
+      const assigned = transactions.filter(t => t.coordinatorIds?.includes(coordinator.id));
+      return {
+        coordinatorId: coordinator.id,
+        name: coordinator.name,
+        activeTransactions: assigned.filter(isOpen).length,
+        closedInRange: assigned.filter(t => closedInRange(t, range)).length,
+        upcomingClosings: assigned.filter(t => isOpen(t) && !!t.closingDate && t.closingDate >= today && t.closingDate <= upcomingLimit).length,
+        activityCount: assigned.reduce((sum, t) => sum + (activityCounts.get(t.id) ?? 0), 0),
+      };
+    })
+    .filter(row => row.activeTransactions > 0 || row.closedInRange > 0 || row.activityCount > 0)
+    .sort((a, b) => b.activeTransactions - a.activeTransactions);
+}
+
+/**
+ * Brokerage-wide production for a date range: closings per agent, coordinator
+ * workload, and marketing output per agent. Covers every transaction, archived ones
+ * included, so closed deals that were archived still count.
+ */
+export async function buildProductionReport(range: ReportRange): Promise<ProductionReport> {
+  const from = new Date(`${range.from}T00:00:00`);
+  const to = new Date(new Date(`${range.to}T00:00:00`).getTime() + DAY_MS);
+
+  const [transactions, activities, assets, flyers] = await Promise.all([
+    storage.getTransactions(),
+    storage.getActivitiesCreatedBetween(from, to),
+    storage.getMarketingAssetsCreatedBetween(from, to),
+    storage.getFlyersCreatedBetween(from, to),
+  ]);
+  const transactionsById = new Map(transactions.map(t => [t.id, t]));
+
+  const activityCounts = new Map<string, number>();
+  for (const activity of activities) {
+    activityCounts.set(activity.transactionId, (activityCounts.get(activity.transactionId) ?? 0) + 1);
+  }
+
+  // Assets belong to the transaction owner; flyers record who made them
+  const marketing = new Map<string, Omit<MarketingOutputRow, 'name'>>();
+  const getMarketingRow = (userId: string) => {
+    let row = marketing.get(userId);
+    if (!row) {
+      row = { userId, flyers: 0, graphics: 0, flyerImages: 0, total: 0 };
+      marketing.set(userId, row);
+    }
+    return row;
+  };
+  for (const asset of assets) {
+    const row = getMarketingRow(transactionsById.get(asset.transactionId)?.userId || 'unassigned');
+    if (asset.type === 'flyer') row.flyerImages++;
+    else row.graphics++;
+    row.total++;
+  }
+  for (const flyer of flyers) {
+    const row = getMarketingRow(flyer.userId);
+    row.flyers++;
+    row.total++;
+  }
+
+  const userIds = new Set<string>([
+    ...transactions.map(t => t.userId).filter((id): id is string => !!id),
+    ...Array.from(marketing.keys()),
+  ]);
+  userIds.delete('unassigned');
+  const labels = await getAgentLabels(Array.from(userIds));
+
+  return {
+    range,
+    agents: buildAgentRows(transactions, range, labels),
+    coordinators: await buildCoordinatorRows(transactions, range, activityCounts),
+    marketing: Array.from(marketing.values())
+      .map(row => ({ ...row, name: labels.get(row.userId) || 'Unassigned' }))
+      .sort((a, b) => b.total - a.total),
+  };
+}
+
+function getReportTable(report: ProductionReport, type: ProductionReportType): ReportTable {
+  switch (type) {
+    case 'agents':
+      return {
+        title: 'Agent Production',
+        columns: ['Agent', 'Closed Units', 'Closed Volume', 'Average Price', 'New Units', 'Open Units'],
+        rows: report.agents.map(row => [
+          row.name,
+          String(row.closedUnits),
+          formatCurrency(row.closedVolume),
+          row.averagePrice !== null ? formatCurrency(row.averagePrice) : '',
+          String(row.newUnits),
+          String(row.openUnits),
+        ]),
+      };
+    case 'coordinators':
+      return {
+        title: 'Coordinator Workload',
+        columns: ['Coordinator', 'Active', 'Closed', `Closing in ${UPCOMING_CLOSING_DAYS} Days`, 'Timeline Activity'],
+        rows: report.coordinators.map(row => [
+          row.name,
+          String(row.activeTransactions),
+          String(row.closedInRange),
+          String(row.upcomingClosings),
+          String(row.activityCount),
+        ]),
+      };
+    case 'marketing':
+      return {
+        title: 'Marketing Output',
+        columns: ['Agent', 'Flyers', 'Graphics', 'Flyer Images', 'Total'],
+        rows: report.marketing.map(row => [
+          row.name,
+          String(row.flyers),
+          String(row.graphics),
+          String(row.flyerImages),
+          String(row.total),
+        ]),
+      };
+  }
+}
+
+// Cells starting with = + - @ are run as formulas by spreadsheets; quote them with ' unless they're plain numbers
+function escapeCsv(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) && !/^-?\d[\d,]*(\.\d+)?$/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function productionReportToCsv(report: ProductionReport, type: ProductionReportType): string {
+  const table = getReportTable(report, type);
+  return [table.columns, ...table.rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+// pdf-lib's standard fonts only encode WinAnsi; drop anything else rather than throw
+function toWinAnsi(value: string): string {
+  return value.replace(/[^\x20-\x7e\xa0-\xff]/g, '');
+}
+
+function truncateToWidth(text: string, font: PDFFont, size: number, width: number): string {
+  if (font.widthOfTextAtSize(text, size) <= width) return text;
+  let truncated = text;
+  while (truncated.length > 1 && font.widthOfTextAtSize(`${truncated}...`, size) > width) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated}...`;
+}
+
+/**
+ * Render one report as a landscape Letter PDF table, repeating the header row on
+ * each page. The first column gets the spare width for names.
+ */
+export async function productionReportToPdf(report: ProductionReport, type: ProductionReportType): Promise<Uint8Array> {
+  const table = getReportTable(report, type);
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  const pageWidth = 792;
+  const pageHeight = 612;
+  const margin = 40;
+  const rowHeight = 18;
+  const fontSize = 9;
+  const usableWidth = pageWidth - margin * 2;
+  const otherWidth = Math.min(110, usableWidth / (table.columns.length + 1));
+  const widths = table.columns.map((_, i) => (i === 0 ? usableWidth - otherWidth * (table.columns.length - 1) : otherWidth));
+
+  let page = doc.addPage([pageWidth, pageHeight]);
+  let y = pageHeight - margin;
+
+  const drawRow = (cells: string[], rowFont: PDFFont) => {
+    let x = margin;
+    cells.forEach((cell, i) => {
+      const text = truncateToWidth(toWinAnsi(cell), rowFont, fontSize, widths[i] - 6);
+      const textWidth = rowFont.widthOfTextAtSize(text, fontSize);
+      // Names left-aligned, figures right-aligned
+      const textX = i === 0 ? x : x + widths[i] - 6 - textWidth;
+      page.drawText(text, { x: textX, y, size: fontSize, font: rowFont });
+      x += widths[i];
+    });
+    y -= rowHeight;
+  };
+
+  const drawHeader = () => {
+    drawRow(table.columns, bold);
+    page.drawLine({
+      start: { x: margin, y: y + rowHeight - 5 },
+      end: { x: pageWidth - margin, y: y + rowHeight - 5 },
+      thickness: 0.5,
+      color: rgb(0.6, 0.6, 0.6),
+    });
+  };
+
+  page.drawText(table.title, { x: margin, y, size: 16, font: bold });
+  y -= 20;
+  page.drawText(`${report.range.from} to ${report.range.to}`, { x: margin, y, size: 10, font, color: rgb(0.4, 0.4, 0.4) });
+  y -= 28;
+  drawHeader();
+
+  if (table.rows.length === 0) {
+    page.drawText('No activity in this range', { x: margin, y, size: fontSize, font, color: rgb(0.4, 0.4, 0.4) });
+  }
+  for (const row of table.rows) {
+    if (y < margin) {
+      page = doc.addPage([pageWidth, pageHeight]);
+      y = pageHeight - margin;
+      drawHeader();
+    }
+    drawRow(row, font);
+  }
+
+  return doc.save();
+}
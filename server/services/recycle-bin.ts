@@ -0,0 +1,153 @@
+import { createModuleLogger } from '../lib/logger';
+import { logAudit } from '../lib/audit';
+import { storage, type TransactionPurgeCounts } from '../storage';
+import { authStorage } from '../replit_integrations/auth';
+import { ObjectStorageService, ObjectNotFoundError } from '../replit_integrations/object_storage/objectStorage';
+import { archiveSlackChannel } from '../slack';
+import { deleteGmailFilter, deleteGmailLabel } from '../gmail';
+import { TimelineLogger } from './timeline';
+import { DEFAULT_RETENTION_DAYS, getPurgeCutoff, getPurgeDate, type DeletedTransaction } from '@shared/lib/recycle-bin';
+import type { Transaction } from '@shared/schema';
+
+const log = createModuleLogger('recycle-bin');
+
+// TRANSACTION_RETENTION_DAYS overrides the default; anything unparseable falls back to it
+export function getRetentionDays(): number {
+  const configured = parseInt(process.env.TRANSACTION_RETENTION_DAYS || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_RETENTION_DAYS;
+}
+
+export function toDeletedTransaction(transaction: Transaction, retentionDays: number = getRetentionDays()): DeletedTransaction {
+  const deletedAt = transaction.deletedAt ?? new Date();
+  return {
+    id: transaction.id,
+    propertyAddress: transaction.propertyAddress,
+    status: transaction.status,
+    mlsNumber: transaction.mlsNumber,
+    isArchived: !!transaction.isArchived,
+    deletedAt: deletedAt.toISOString(),
+    deletedBy: transaction.deletedBy,
+    purgeAt: getPurgeDate(deletedAt, retentionDays).toISOString(),
+  };
+}
+
+// Move a transaction to the recycle bin. Slack, Gmail and files stay until it is purged.
+export async function moveToRecycleBin(transaction: Transaction, deletedBy: string): Promise<Transaction | undefined> {
+  const deleted = await storage.softDeleteTransaction(transaction.id, deletedBy);
+  if (!deleted) return undefined;
+
+  await TimelineLogger.transactionDeleted(transaction.id, deletedBy);
+  await logAudit({
+    action: 'transaction.delete',
+    actor: deletedBy,
+    target: transaction.id,
+    metadata: { propertyAddress: transaction.propertyAddress },
+    status: 'success',
+    transactionId: transaction.id,
+  });
+  return deleted;
+}
+
+export async function restoreFromRecycleBin(transaction: Transaction, restoredBy: string): Promise<Transaction | undefined> {
+  const restored = await storage.restoreTransaction(transaction.id);
+  if (!restored) return undefined;
+
+  await TimelineLogger.transactionUndeleted(transaction.id, restoredBy);
+  await logAudit({
+    action: 'transaction.restore',
+    actor: restoredBy,
+    target: transaction.id,
+    metadata: { propertyAddress: transaction.propertyAddress, deletedAt: transaction.deletedAt?.toISOString() },
+    status: 'success',
+    transactionId: transaction.id,
+  });
+  return restored;
+}
+
+// Uploaded photos live in object storage; MLS photos and base64 documents/assets don't
+async function deleteStoredFiles(transaction: Transaction): Promise<number> {
+  const photos = await storage.getTransactionPhotos(transaction.id);
+  const paths = new Set(
+    [...(transaction.propertyImages || []), ...photos.map(photo => photo.url)].filter(url => url.startsWith('/objects/'))
+  );
+
+  const objectStorage = new ObjectStorageService();
+  let deleted = 0;
+  for (const path of Array.from(paths)) {
+    try {
+      const file = await objectStorage.getObjectEntityFile(path);
+      await file.delete();
+      deleted++;
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) continue;
+      log.error({ err: error, path, transactionId: transaction.id }, 'Failed to delete stored file');
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Permanently remove a transaction from the recycle bin: its stored photo files,
+ * Slack channel (archived) and Gmail filter and label, then the row and everything
+ * attached to it. Integration cleanup failures are logged but don't stop the purge.
+ */
+export async function purgeTransaction(transaction: Transaction, purgedBy: string): Promise<TransactionPurgeCounts> {
+  const files = await deleteStoredFiles(transaction);
+
+  if (transaction.slackChannelId) {
+    try {
+      await archiveSlackChannel(transaction.slackChannelId);
+    } catch (error) {
+      log.error({ err: error, channelId: transaction.slackChannelId }, 'Failed to archive Slack channel of purged transaction');
+    }
+  }
+
+  if ((transaction.gmailFilterId || transaction.gmailLabelId) && transaction.userId) {
+    try {
+      const owner = await authStorage.getUser(transaction.userId);
+      if (owner?.email) {
+        if (transaction.gmailFilterId) await deleteGmailFilter(owner.email, transaction.gmailFilterId);
+        if (transaction.gmailLabelId) await deleteGmailLabel(owner.email, transaction.gmailLabelId);
+      }
+    } catch (error) {
+      log.error({ err: error, transactionId: transaction.id }, 'Failed to remove Gmail filter of purged transaction');
+    }
+  }
+
+  const counts = await storage.purgeTransaction(transaction.id);
+
+  await logAudit({
+    action: 'transaction.purge',
+    actor: purgedBy,
+    target: transaction.id,
+    metadata: { propertyAddress: transaction.propertyAddress, files, ...counts },
+    status: 'success',
+    transactionId: transaction.id,
+  });
+
+  log.info({ transactionId: transaction.id, files, counts }, 'Transaction purged');
+  return counts;
+}
+
+// Purge everything that has been in the recycle bin longer than the retention period
+export async function purgeExpiredTransactions(): Promise<{ purged: number; failed: number }> {
+  const cutoff = getPurgeCutoff(getRetentionDays());
+  const expired = await storage.getTransactionsDeletedBefore(cutoff);
+
+  let purged = 0;
+  let failed = 0;
+  for (const transaction of expired) {
+    try {
+      await purgeTransaction(transaction, 'system');
+      purged++;
+    } catch (error) {
+      failed++;
+      log.error({ err: error, transactionId: transaction.id }, 'Failed to purge transaction');
+    }
+  }
+
+  if (expired.length > 0) {
+    log.info({ purged, failed, cutoff: cutoff.toISOString() }, 'Recycle bin purge complete');
+  }
+  return { purged, failed };
+}
@@ -0,0 +1,126 @@
+import { authStorage } from '../replit_integrations/auth';
+import { calculateCommission } from '@shared/lib/commission';
+import { getTransactionStatusLabel } from '@shared/lib/status-machine';
+import type { Transaction } from '@shared/schema';
+
+export const revenueGroupings = ['month', 'agent', 'status'] as const;
+export type RevenueGroupBy = typeof revenueGroupings[number];
+
+export interface RevenueTotals {
+  projectedGci: number;
+  closedGci: number;
+  projectedBrokerage: number;
+  closedBrokerage: number;
+  projectedCount: number;
+  closedCount: number;
+}
+
+export interface RevenueRow extends RevenueTotals {
+  key: string;
+  label: string;
+}
+
+export interface RevenueReport {
+  groupBy: RevenueGroupBy;
+  totals: RevenueTotals;
+  rows: RevenueRow[];
+  // Transactions that count toward the pipeline but have no commission terms yet
+  missingCommissionCount: number;
+}
+
+function emptyTotals(): RevenueTotals {
+  return { projectedGci: 0, closedGci: 0, projectedBrokerage: 0, closedBrokerage: 0, projectedCount: 0, closedCount: 0 };
+}
+
+function formatMonthLabel(monthKey: string): string {
+  if (monthKey === 'unscheduled') return 'No closing date';
+  return new Date(`${monthKey}-01T12:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+export async function getAgentLabels(userIds: string[]): Promise<Map<string, string>> {
+  const labels = new Map<string, string>();
+  for (const id of userIds) {
+    const user = await authStorage.getUser(id);
+    const name = [user?.firstName, user?.lastName].filter(Boolean).join(' ');
+    labels.set(id, name || user?.email || 'Unknown agent');
+  }
+  return labels;
+}
+
+/**
+ * Projected vs closed GCI for a set of transactions, grouped by expected closing
+ * month, agent or status. Cancelled deals are excluded; closed deals count as
+ * closed GCI and everything else as projected. `from`/`to` (YYYY-MM-DD) filter on closing date.
+ */
+export async function buildRevenueReport(
+  transactions: Transaction[],
+  groupBy: RevenueGroupBy,
+  range: { from?: string; to?: string } = {}
+): Promise<RevenueReport> {
+  const groups = new Map<string, RevenueTotals>();
+  const totals = emptyTotals();
+  let missingCommissionCount = 0;
+
+  for (const transaction of transactions) {
+    if (transaction.status === 'cancelled') continue;
+    if (range.from && (!transaction.closingDate || transaction.closingDate < range.from)) continue;
+    if (range.to && (!transaction.closingDate || transaction.closingDate > range.to)) continue;
+
+    const commission = calculateCommission(transaction);
+    if (!commission) {
+      missingCommissionCount++;
+      continue;
+    }
+
+    let key: string;
+    switch (groupBy) {
+      case 'month':
+        key = transaction.closingDate ? transaction.closingDate.slice(0, 7) : 'unscheduled';
+        break;
+      case 'agent':
+        key = transaction.userId || 'unassigned';
+        break;
+      case 'status':
+        key = transaction.status;
+        break;
+    }
+
+    const group = groups.get(key) || emptyTotals();
+    const isClosed = transaction.status === 'closed';
+    for (const target of [group, totals]) {
+      if (isClosed) {
+        target.closedGci += commission.gci;
+        target.closedBrokerage += commission.brokerageShare;
+        target.closedCount++;
+      } else {
+        target.projectedGci += commission.gci;
+        target.projectedBrokerage += commission.brokerageShare;
+        target.projectedCount++;
+      }
+    }
+    groups.set(key, group);
+  }
+
+  const agentLabels = groupBy === 'agent'
+    ? await getAgentLabels(Array.from(groups.keys()).filter(k => k !== 'unassigned'))
+    : new Map<string, string>();
+
+  const rows: RevenueRow[] = Array.from(groups.entries()).map(([key, group]) => ({
+    key,
+    label: groupBy === 'month'
+      ? formatMonthLabel(key)
+      : groupBy === 'agent'
+        ? agentLabels.get(key) || 'Unassigned'
+        : getTransactionStatusLabel(key),
+    ...group,
+  }));
+
+  // Months chronologically (unscheduled last), everything else by total GCI
+  if (groupBy === 'month') {
+    rows.sort((a, b) => (a.key === 'unscheduled' ? 1 : b.key === 'unscheduled' ? -1 : a.key.localeCompare(b.key)));
+  } else {
+    rows.sort((a, b) => (b.projectedGci + b.closedGci) - (a.projectedGci + a.closedGci));
+  }
+
+  return { groupBy, totals, rows, missingCommissionCount };
+}
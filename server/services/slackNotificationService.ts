@@ -1,12 +1,15 @@
 import { createModuleLogger } from '../lib/logger';
 import { db } from "../db";
-import { sentNotifications, transactions, notificationSettings } from "@shared/schema";
-import { eq, and, gte, lte, isNotNull } from "drizzle-orm";
+import { sentNotifications, transactions, notificationSettings, type Transaction } from "@shared/schema";
+import { eq, and, gte, lte, isNotNull, isNull } from "drizzle-orm";
 
 const log = createModuleLogger('slack-notifications');
 
 const SLACK_API_BASE = "https://slack.com/api";
 
+// Hour (server time) of the daily closing reminder run in notificationCron
+export const DAILY_NOTIFICATION_HOUR = 9;
+
 function getStartOfDay(date: Date): Date {
   const start = new Date(date);
   start.setHours(0, 0, 0, 0);
@@ -195,7 +198,7 @@ async function sendSlackMessage(channelId: string, message: string): Promise<{ o
 }
 
 async function sendNotificationIfNotSent(
-  transaction: any,
+  transaction: Transaction,
   notificationType: string,
   channelId: string,
   message: string
@@ -254,14 +257,80 @@ const REMINDER_CONFIGS: ReminderConfig[] = [
   },
 ];
 
-export async function processClosingDateNotifications(): Promise<{
+interface NotificationStats {
   processed: number;
   sent: number;
   skipped: number;
   disabled: number;
   errors: number;
-}> {
-  const stats = { processed: 0, sent: 0, skipped: 0, disabled: 0, errors: 0 };
+}
+
+// Send whichever closing reminders fall due today for one transaction
+async function checkTransactionClosingReminders(
+  transaction: Transaction,
+  today: Date,
+  stats: NotificationStats
+): Promise<void> {
+  if (!transaction.closingDate || !transaction.slackChannelId) {
+    return;
+  }
+
+  // User-specific notification lookup - each transaction owner controls their own settings
+  const userPrefs = await getUserNotificationSettings(transaction.userId || '');
+  
+  log.info({
+    address: transaction.propertyAddress,
+    userId: transaction.userId || '(none)',
+    channelId: transaction.slackChannelId,
+    closingReminders: userPrefs.closingReminders,
+    reminder3Days: userPrefs.reminder3Days,
+    reminderDayOf: userPrefs.reminderDayOf
+  }, 'Processing transaction');
+
+  if (!userPrefs.closingReminders) {
+    log.info({ address: transaction.propertyAddress }, 'SKIPPED (closing reminders disabled)');
+    stats.disabled++;
+    return;
+  }
+
+  const closingDate = new Date(transaction.closingDate);
+  closingDate.setHours(0, 0, 0, 0);
+  
+  const daysUntilClosing = Math.ceil(
+    (closingDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
+  );
+
+  log.info({ address: transaction.propertyAddress, daysUntilClosing }, 'Checking days until closing');
+
+  for (const config of REMINDER_CONFIGS) {
+    if (daysUntilClosing === config.daysBeforeClosing) {
+      if (!userPrefs[config.settingKey]) {
+        log.info({ settingKey: config.settingKey, address: transaction.propertyAddress }, 'SKIPPED (setting disabled)');
+        stats.disabled++;
+        continue;
+      }
+
+      const message = config.messageTemplate(
+        transaction.propertyAddress,
+        formatDate(closingDate)
+      );
+      
+      const result = await sendNotificationIfNotSent(
+        transaction,
+        config.notificationType,
+        transaction.slackChannelId,
+        message
+      );
+      
+      if (result.sent) stats.sent++;
+      else if (result.reason === 'already_sent_today') stats.skipped++;
+      else stats.errors++;
+    }
+  }
+}
+
+export async function processClosingDateNotifications(): Promise<NotificationStats> {
+  const stats: NotificationStats = { processed: 0, sent: 0, skipped: 0, disabled: 0, errors: 0 };
   
   // KILL SWITCH - check FIRST before any processing
   if (process.env.DISABLE_SLACK_NOTIFICATIONS === 'true') {
@@ -287,7 +356,8 @@ export async function processClosingDateNotifications(): Promise<{
       .where(
         and(
           isNotNull(transactions.closingDate),
-          isNotNull(transactions.slackChannelId)
+          isNotNull(transactions.slackChannelId),
+          isNull(transactions.deletedAt)
         )
       );
 
@@ -295,63 +365,7 @@ export async function processClosingDateNotifications(): Promise<{
 
     for (const transaction of transactionsToCheck) {
       stats.processed++;
-      
-      if (!transaction.closingDate || !transaction.slackChannelId) {
-        continue;
-      }
-
-      // User-specific notification lookup - each transaction owner controls their own settings
-      const userPrefs = await getUserNotificationSettings(transaction.userId || '');
-      
-      log.info({
-        address: transaction.propertyAddress,
-        userId: transaction.userId || '(none)',
-        channelId: transaction.slackChannelId,
-        closingReminders: userPrefs.closingReminders,
-        reminder3Days: userPrefs.reminder3Days,
-        reminderDayOf: userPrefs.reminderDayOf
-      }, 'Processing transaction');
-
-      if (!userPrefs.closingReminders) {
-        log.info({ address: transaction.propertyAddress }, 'SKIPPED (closing reminders disabled)');
-        stats.disabled++;
-        continue;
-      }
-
-      const closingDate = new Date(transaction.closingDate);
-      closingDate.setHours(0, 0, 0, 0);
-      
-      const daysUntilClosing = Math.ceil(
-        (closingDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
-      );
-
-      log.info({ address: transaction.propertyAddress, daysUntilClosing }, 'Checking days until closing');
-
-      for (const config of REMINDER_CONFIGS) {
-        if (daysUntilClosing === config.daysBeforeClosing) {
-          if (!userPrefs[config.settingKey]) {
-            log.info({ settingKey: config.settingKey, address: transaction.propertyAddress }, 'SKIPPED (setting disabled)');
-            stats.disabled++;
-            continue;
-          }
-
-          const message = config.messageTemplate(
-            transaction.propertyAddress,
-            formatDate(closingDate)
-          );
-          
-          const result = await sendNotificationIfNotSent(
-            transaction,
-            config.notificationType,
-            transaction.slackChannelId,
-            message
-          );
-          
-          if (result.sent) stats.sent++;
-          else if (result.reason === 'already_sent_today') stats.skipped++;
-          else stats.errors++;
-        }
-      }
+      await checkTransactionClosingReminders(transaction, today, stats);
     }
   } catch (error: any) {
     log.error({ err: error }, 'Error during notification processing');
@@ -369,6 +383,28 @@ export async function processClosingDateNotifications(): Promise<{
   return stats;
 }
 
+/**
+ * Closing reminders are worked out from closingDate on each daily run, so a moved
+ * closing date reschedules them by itself. If the date moves after today's run,
+ * send any reminder the new date makes due today now rather than skipping it.
+ */
+export async function rescheduleClosingReminders(transaction: Transaction): Promise<void> {
+  if (process.env.DISABLE_SLACK_NOTIFICATIONS === 'true' || process.env.NODE_ENV !== 'production') return;
+  if (!process.env.SLACK_BOT_TOKEN || transaction.isArchived) return;
+  if (new Date().getHours() < DAILY_NOTIFICATION_HOUR) return;
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const stats = { processed: 1, sent: 0, skipped: 0, disabled: 0, errors: 0 };
+
+  try {
+    await checkTransactionClosingReminders(transaction, today, stats);
+    log.info({ transactionId: transaction.id, closingDate: transaction.closingDate, sent: stats.sent }, 'Closing reminders rescheduled');
+  } catch (error) {
+    log.error({ err: error, transactionId: transaction.id }, 'Failed to reschedule closing reminders');
+  }
+}
+
 export async function sendTestNotification(channelId: string): Promise<{ success: boolean; error?: string }> {
   if (!process.env.SLACK_BOT_TOKEN) {
     return { success: false, error: 'Slack bot not configured' };
@@ -0,0 +1,42 @@
+import { createModuleLogger } from '../lib/logger';
+import { postToChannel } from '../slack';
+import { TimelineLogger } from './timeline';
+import { getTransactionStatusLabel, type StatusSideEffect } from '@shared/lib/status-machine';
+import type { Transaction } from '@shared/schema';
+
+const log = createModuleLogger('status');
+
+/**
+ * Run the side effects declared by the status machine for a completed transition.
+ * Failures are logged and never undo the status change itself.
+ */
+export async function applyStatusSideEffects(
+  transaction: Transaction,
+  fromStatus: string,
+  sideEffects: readonly StatusSideEffect[],
+  changedBy?: string | null
+): Promise<void> {
+  const fromLabel = getTransactionStatusLabel(fromStatus);
+  const toLabel = getTransactionStatusLabel(transaction.status);
+
+  for (const effect of sideEffects) {
+    try {
+      switch (effect) {
+        case 'timeline':
+          await TimelineLogger.statusChanged(transaction.id, fromStatus, transaction.status);
+          break;
+        case 'slack':
+          if (transaction.slackChannelId) {
+            const byline = changedBy ? ` by ${changedBy}` : '';
+            await postToChannel(
+              transaction.slackChannelId,
+              `*Status update:* ${transaction.propertyAddress} moved from ${fromLabel} to *${toLabel}*${byline}`
+            );
+          }
+          break;
+      }
+    } catch (error) {
+      log.error({ err: error, transactionId: transaction.id, effect }, 'Status side effect failed');
+    }
+  }
+}
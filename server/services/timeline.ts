@@ -1,16 +1,17 @@
 import { createModuleLogger } from '../lib/logger';
 import { storage } from '../storage.js';
+import { getTransactionStatusLabel } from '@shared/lib/status-machine';
 import type { InsertActivity } from '@shared/schema';
 
 const log = createModuleLogger('timeline');
 
 function getCategoryFromType(eventType: string): string {
-  if (eventType.startsWith('transaction_') || eventType === 'status_changed') return 'transaction';
+  if (eventType.startsWith('transaction_') || eventType.startsWith('offer_') || eventType === 'status_changed') return 'transaction';
   if (eventType.startsWith('mls_') || eventType === 'price_changed' || eventType === 'photos_updated') return 'mls';
   if (eventType.startsWith('document_')) return 'documents';
   if (eventType.includes('graphic') || eventType.includes('flyer') || eventType.includes('asset') || eventType === 'quick_create_all') return 'marketing';
-  if (eventType.startsWith('coordinator_') || eventType === 'note_added') return 'team';
-  if (eventType.includes('date') || eventType === 'deadline_approaching') return 'dates';
+  if (eventType.startsWith('coordinator_') || eventType.startsWith('task_') || eventType === 'note_added') return 'team';
+  if (eventType.includes('date') || eventType.startsWith('deadline_') || eventType.startsWith('open_house_')) return 'dates';
   if (eventType === 'email_sent' || eventType === 'slack_notification' || eventType === 'channel_created' || eventType === 'filter_created') return 'communication';
   return 'other';
 }
@@ -46,12 +47,41 @@ export const TimelineLogger = {
   transactionArchived: (transactionId: string) =>
     logTimelineEvent(transactionId, 'transaction_archived', 'Transaction moved to archive'),
 
+  transactionAutoArchived: (transactionId: string, status: string, daysAfterStatus: number) =>
+    logTimelineEvent(transactionId, 'transaction_archived', `Transaction archived automatically ${daysAfterStatus} days after it was ${status} - all notifications disabled`, {
+      metadata: { status, daysAfterStatus, automatic: true }
+    }),
+
   transactionRestored: (transactionId: string) =>
     logTimelineEvent(transactionId, 'transaction_restored', 'Transaction restored from archive'),
 
+  transactionDeleted: (transactionId: string, deletedBy: string) =>
+    logTimelineEvent(transactionId, 'transaction_deleted', `Transaction moved to the recycle bin by ${deletedBy}`),
+
+  transactionUndeleted: (transactionId: string, restoredBy: string) =>
+    logTimelineEvent(transactionId, 'transaction_undeleted', `Transaction restored from the recycle bin by ${restoredBy}`),
+
+  transactionMerged: (transactionId: string, sourceAddress: string, metadata: Record<string, any>) =>
+    logTimelineEvent(transactionId, 'transaction_merged', `Merged duplicate transaction for ${sourceAddress}`, { metadata }),
+
+  // Statuses are keys ("closed"); the description uses their labels
   statusChanged: (transactionId: string, oldStatus: string, newStatus: string) =>
-    logTimelineEvent(transactionId, 'status_changed', `Status changed from ${oldStatus} to ${newStatus}`, {
-      metadata: { oldStatus, newStatus }
+    logTimelineEvent(
+      transactionId,
+      'status_changed',
+      `Status changed from ${getTransactionStatusLabel(oldStatus)} to ${getTransactionStatusLabel(newStatus)}`,
+      { metadata: { oldStatus, newStatus } }
+    ),
+
+  // Offer events
+  offerReceived: (transactionId: string, offerId: string, buyerAgentName: string, price: string) =>
+    logTimelineEvent(transactionId, 'offer_received', `Offer received from ${buyerAgentName}: ${price}`, {
+      metadata: { offerId }
+    }),
+
+  offerStatusChanged: (transactionId: string, offerId: string, buyerAgentName: string, status: string) =>
+    logTimelineEvent(transactionId, `offer_${status}`, `Offer from ${buyerAgentName} ${status}`, {
+      metadata: { offerId, status }
     }),
 
   // MLS events
@@ -66,8 +96,10 @@ export const TimelineLogger = {
       metadata: { oldPrice, newPrice, change: newPrice - oldPrice }
     }),
 
-  mlsStatusChanged: (transactionId: string, newStatus: string) =>
-    logTimelineEvent(transactionId, 'mls_status_changed', `MLS status changed to ${newStatus}`),
+  mlsStatusChanged: (transactionId: string, oldStatus: string, newStatus: string) =>
+    logTimelineEvent(transactionId, 'mls_status_changed', `MLS status changed from ${oldStatus} to ${newStatus}`, {
+      metadata: { oldStatus, newStatus }
+    }),
 
   photosUpdated: (transactionId: string, count: number) =>
     logTimelineEvent(transactionId, 'photos_updated', `${count} new photos added from MLS`),
@@ -111,8 +143,20 @@ export const TimelineLogger = {
   coordinatorRemoved: (transactionId: string, name: string) =>
     logTimelineEvent(transactionId, 'coordinator_removed', `Coordinator removed: ${name}`),
 
-  noteAdded: (transactionId: string) =>
-    logTimelineEvent(transactionId, 'note_added', 'Note added to transaction'),
+  noteAdded: (transactionId: string, noteId: string, authorName: string, isReply: boolean) =>
+    logTimelineEvent(transactionId, 'note_added', isReply ? `${authorName} replied to a note` : `${authorName} added a note`, {
+      metadata: { noteId }
+    }),
+
+  taskCompleted: (transactionId: string, taskId: string, title: string, completedBy?: string) =>
+    logTimelineEvent(transactionId, 'task_completed', `Task completed: ${title}`, {
+      metadata: { taskId, completedBy }
+    }),
+
+  taskReopened: (transactionId: string, taskId: string, title: string) =>
+    logTimelineEvent(transactionId, 'task_reopened', `Task reopened: ${title}`, {
+      metadata: { taskId }
+    }),
 
   // Date events
   contractDateSet: (transactionId: string, date: string) =>
@@ -124,6 +168,21 @@ export const TimelineLogger = {
   dateUpdated: (transactionId: string, field: string, oldDate: string, newDate: string) =>
     logTimelineEvent(transactionId, 'date_updated', `${field} changed: ${oldDate} → ${newDate}`),
 
+  deadlineStatusChanged: (transactionId: string, deadlineId: string, label: string, status: string) =>
+    logTimelineEvent(transactionId, `deadline_${status}`, `${label} deadline ${status}`, {
+      metadata: { deadlineId, status }
+    }),
+
+  openHouseScheduled: (transactionId: string, openHouseId: string, when: string) =>
+    logTimelineEvent(transactionId, 'open_house_scheduled', `Open house scheduled: ${when}`, {
+      metadata: { openHouseId }
+    }),
+
+  openHouseCancelled: (transactionId: string, openHouseId: string, when: string) =>
+    logTimelineEvent(transactionId, 'open_house_cancelled', `Open house cancelled: ${when}`, {
+      metadata: { openHouseId }
+    }),
+
   // Communication events
   channelCreated: (transactionId: string, channelName: string) =>
     logTimelineEvent(transactionId, 'channel_created', `Slack channel created: ${channelName}`),
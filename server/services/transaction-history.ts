@@ -0,0 +1,99 @@
+import { createModuleLogger } from '../lib/logger';
+import { logAudit } from '../lib/audit';
+import { storage, type TransactionVersionMeta } from '../storage';
+import { diffTransactionFields, type FieldChange, type TransactionHistoryVersion, type VersionSource } from '@shared/lib/field-history';
+import { getTableColumns } from 'drizzle-orm';
+import { transactions, type InsertTransaction, type Transaction, type TransactionVersion } from '@shared/schema';
+
+const log = createModuleLogger('history');
+
+/**
+ * Record one version of a transaction - every changed field with its old and new
+ * value - and a matching audit log entry under the same request id. The version
+ * number is the saved transaction's, so history lines up with its ETag. Failures
+ * are logged; the edit itself has already been saved.
+ */
+export async function recordTransactionVersion(
+  transaction: Transaction,
+  changes: FieldChange[],
+  meta: TransactionVersionMeta
+): Promise<TransactionVersion[]> {
+  if (changes.length === 0) return [];
+  const transactionId = transaction.id;
+
+  try {
+    const rows = await storage.createTransactionVersion(transactionId, transaction.version, changes, meta);
+    await logAudit({
+      requestId: meta.requestId || undefined,
+      action: meta.source === 'revert' ? 'transaction.revert' : 'transaction.update',
+      actor: meta.changedByEmail || meta.changedBy || 'system',
+      target: transactionId,
+      metadata: { version: transaction.version, fields: changes.map(change => change.field) },
+      status: 'success',
+      transactionId,
+    });
+    return rows;
+  } catch (error) {
+    log.error({ err: error, transactionId }, 'Failed to record transaction version');
+    return [];
+  }
+}
+
+/**
+ * Write an update and record the tracked fields it changes. The version only moves
+ * when something is recorded under it, so a 409 can always say what changed.
+ * Returns undefined when the write matched nothing (gone, or moved past expectedVersion).
+ */
+export async function saveTransactionChanges(
+  current: Transaction,
+  update: Partial<InsertTransaction>,
+  meta: TransactionVersionMeta,
+  expectedVersion?: number
+): Promise<Transaction | undefined> {
+  const changes = diffTransactionFields(current, update);
+  const saved = await storage.updateTransaction(current.id, update, { expectedVersion, bumpVersion: changes.length > 0 });
+  if (saved) {
+    await recordTransactionVersion(saved, changes, meta);
+  }
+  return saved;
+}
+
+// History values went through JSON, so timestamp fields come back as strings; the column needs a Date
+export function toStoredFieldValue(field: string, value: unknown): unknown {
+  const column = getTableColumns(transactions)[field as keyof typeof transactions.$inferSelect];
+  return column?.dataType === 'date' && typeof value === 'string' ? new Date(value) : value;
+}
+
+// Versions newest first, each with its field changes and audit log entry
+export async function getTransactionHistory(transactionId: string): Promise<TransactionHistoryVersion[]> {
+  const rows = await storage.getTransactionVersions(transactionId);
+
+  const requestIds = Array.from(new Set(rows.map(row => row.requestId).filter((id): id is string => !!id)));
+  const auditEntries = await storage.getAuditLogsByRequestIds(requestIds);
+  const auditByRequest = new Map(
+    auditEntries
+      .filter(entry => entry.transactionId === transactionId && entry.action.startsWith('transaction.'))
+      .map(entry => [entry.requestId, entry])
+  );
+
+  const versions = new Map<number, TransactionHistoryVersion>();
+  for (const row of rows) {
+    let version = versions.get(row.version);
+    if (!version) {
+      const audit = row.requestId ? auditByRequest.get(row.requestId) : undefined;
+      version = {
+        version: row.version,
+        source: row.source as VersionSource,
+        changedBy: row.changedBy,
+        changedByEmail: row.changedByEmail,
+        requestId: row.requestId,
+        createdAt: row.createdAt?.toISOString() ?? null,
+        audit: audit ? { action: audit.action, status: audit.status, timestamp: audit.timestamp.toISOString() } : null,
+        changes: [],
+      };
+      versions.set(row.version, version);
+    }
+    version.changes.push(row);
+  }
+  return Array.from(versions.values());
+}
@@ -0,0 +1,153 @@
+import { storage } from '../storage';
+import { commissionTypes, insertTransactionSchema, type Transaction } from '@shared/schema';
+import { validateStatusTransition, getStatusGuardViolation, type StatusSideEffect } from '@shared/lib/status-machine';
+import type { VersionSource } from '@shared/lib/field-history';
+import { applyStatusSideEffects } from './status-transitions';
+import { recalculateDeadlines } from './deadlines';
+import { instantiateChecklists } from './checklists';
+import { saveTransactionChanges } from './transaction-history';
+import { rescheduleClosingReminders } from './slackNotificationService';
+
+export type TransactionUpdateValidation =
+  | { ok: true; statusSideEffects: readonly StatusSideEffect[] }
+  | { ok: false; error: Record<string, unknown> };
+
+export interface TransactionUpdateContext {
+  userId?: string | null;
+  userEmail?: string | null;
+  requestId?: string | null;
+  source: VersionSource;
+  revertedVersionId?: string | null;
+  // Version the client last saw (If-Match); the save fails if the row has moved on
+  expectedVersion?: number;
+}
+
+// The insert schema leaves out id, version and the recycle bin and status bookkeeping columns
+const EDITABLE_TRANSACTION_FIELDS = new Set(Object.keys(insertTransactionSchema.shape));
+
+// Drop anything from a request body that a client may not write
+export function pickEditableTransactionFields(body: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(body ?? {}).filter(([field]) => EDITABLE_TRANSACTION_FIELDS.has(field)));
+}
+
+/**
+ * Check an update against commission rules and the status state machine, as the
+ * transaction will look after the update. Returns the 400 body on failure.
+ */
+export function validateTransactionUpdate(current: Transaction, update: Record<string, any>): TransactionUpdateValidation {
+  // Commission terms must be sane before they feed revenue reports
+  if (update.commissionType !== undefined && update.commissionType !== null && !commissionTypes.includes(update.commissionType)) {
+    return { ok: false, error: { message: "Commission type must be percent or flat" } };
+  }
+  for (const field of ["commissionPercent", "agentSplitPercent", "referralFeePercent"]) {
+    const value = update[field];
+    if (value !== undefined && value !== null && (typeof value !== "number" || value < 0 || value > 100)) {
+      return { ok: false, error: { message: `${field} must be a number between 0 and 100` } };
+    }
+  }
+  if (update.commissionFlat !== undefined && update.commissionFlat !== null && (!Number.isInteger(update.commissionFlat) || update.commissionFlat < 0)) {
+    return { ok: false, error: { message: "commissionFlat must be a whole dollar amount" } };
+  }
+
+  const guardContext = {
+    contractDate: update.contractDate !== undefined ? update.contractDate : current.contractDate,
+    closingDate: update.closingDate !== undefined ? update.closingDate : current.closingDate,
+  };
+  if (update.status !== undefined) {
+    const result = validateStatusTransition(current.status, update.status, guardContext);
+    if (!result.ok) {
+      return {
+        ok: false,
+        error: { message: result.message, code: result.code, from: current.status, to: update.status },
+      };
+    }
+    return { ok: true, statusSideEffects: result.sideEffects };
+  }
+
+  // Without a status change, only stop date edits that would break the current status.
+  // Rows saved before the guards existed may already fail them; any edit, including
+  // the one filling in the missing date, still goes through.
+  const touchesGuardedDates = update.contractDate !== undefined || update.closingDate !== undefined;
+  const alreadyViolated = getStatusGuardViolation(current.status, {
+    contractDate: current.contractDate,
+    closingDate: current.closingDate,
+  });
+  if (touchesGuardedDates && !alreadyViolated) {
+    const guardViolation = getStatusGuardViolation(current.status, guardContext);
+    if (guardViolation) {
+      return { ok: false, error: { message: guardViolation, code: "guard_failed" } };
+    }
+  }
+  return { ok: true, statusSideEffects: [] };
+}
+
+/**
+ * Save a validated update, record the changed fields as a new version, and run the
+ * follow-ups: status side effects, date timeline entries, deadline, reminder and checklist updates.
+ * Returns undefined when nothing was saved - the transaction is gone, or it no longer
+ * matches context.expectedVersion.
+ */
+export async function applyTransactionUpdate(
+  current: Transaction,
+  update: Record<string, any>,
+  statusSideEffects: readonly StatusSideEffect[],
+  context: TransactionUpdateContext
+): Promise<Transaction | undefined> {
+  // The auto-archive policy counts days from the last status change
+  const statusChanged = update.status !== undefined && update.status !== current.status;
+  const saved = statusChanged ? { ...update, statusChangedAt: new Date() } : update;
+
+  const transaction = await saveTransactionChanges(current, saved, {
+    source: context.source,
+    changedBy: context.userId,
+    changedByEmail: context.userEmail,
+    requestId: context.requestId,
+    revertedVersionId: context.revertedVersionId,
+  }, context.expectedVersion);
+  if (!transaction) return undefined;
+
+  if (statusSideEffects.length > 0) {
+    await applyStatusSideEffects(transaction, current.status, statusSideEffects, context.userEmail);
+  }
+
+  // Log activity if dates were changed
+  const dateChanges: string[] = [];
+  if (update.contractDate !== undefined && update.contractDate !== current.contractDate) {
+    const newDate = update.contractDate ? new Date(update.contractDate).toLocaleDateString() : 'removed';
+    dateChanges.push(`Contract Date updated to ${newDate}`);
+  }
+  if (update.closingDate !== undefined && update.closingDate !== current.closingDate) {
+    const newDate = update.closingDate ? new Date(update.closingDate).toLocaleDateString() : 'removed';
+    dateChanges.push(`Expected Closing updated to ${newDate}`);
+  }
+  if (update.goLiveDate !== undefined && update.goLiveDate !== current.goLiveDate) {
+    const newDate = update.goLiveDate ? new Date(update.goLiveDate).toLocaleDateString() : 'removed';
+    dateChanges.push(`Date Going Live updated to ${newDate}`);
+  }
+
+  if (dateChanges.length > 0) {
+    await storage.createActivity({
+      transactionId: current.id,
+      type: 'dates_updated',
+      description: dateChanges.join('; '),
+      category: 'update',
+    });
+  }
+
+  // Computed deadlines follow the contract date
+  if (update.contractDate !== undefined && update.contractDate !== current.contractDate) {
+    await recalculateDeadlines(transaction);
+  }
+
+  // Reminders follow the closing date
+  if (update.closingDate !== undefined && update.closingDate !== current.closingDate) {
+    await rescheduleClosingReminders(transaction);
+  }
+
+  // Add the checklist for the new status, if a template exists for it
+  if (update.status !== undefined && update.status !== current.status) {
+    await instantiateChecklists(transaction, transaction.status);
+  }
+
+  return transaction;
+}
@@ -230,6 +230,42 @@ export async function postToChannel(channelId: string, text: string): Promise<vo
   logAudit({ action: 'slack.message.post', actor: 'system', target: channelId, metadata: { messagePreview: text?.substring(0, 100) }, status: 'success' });
 }
 
+// Direct message from the bot - conversations.open returns the existing DM if there is one
+export async function sendDirectMessage(slackUserId: string, text: string, blocks?: any[]): Promise<void> {
+  if (isSlackNotificationsDisabled()) {
+    log.debug({ slackUserId }, 'Notifications disabled - would have sent direct message');
+    logAudit({ action: 'slack.dm.send', actor: 'system', target: slackUserId, metadata: { messagePreview: text?.substring(0, 100) }, status: 'skipped' });
+    return;
+  }
+
+  const conversation = await slackRequest("conversations.open", { users: slackUserId });
+  await slackRequest("chat.postMessage", {
+    channel: conversation.channel.id,
+    text,
+    ...(blocks ? { blocks } : {}),
+  });
+  logAudit({ action: 'slack.dm.send', actor: 'system', target: slackUserId, metadata: { messagePreview: text?.substring(0, 100) }, status: 'success' });
+}
+
+export async function archiveSlackChannel(channelId: string): Promise<boolean> {
+  if (isSlackNotificationsDisabled()) {
+    log.debug({ channelId }, 'Notifications disabled - would have archived channel');
+    logAudit({ action: 'slack.channel.archive', actor: 'system', target: channelId, status: 'skipped' });
+    return false;
+  }
+
+  try {
+    await slackRequest("conversations.archive", { channel: channelId });
+    logAudit({ action: 'slack.channel.archive', actor: 'system', target: channelId, status: 'success' });
+    return true;
+  } catch (error: any) {
+    if (error?.message?.includes("already_archived")) return true;
+    log.error({ err: error, channelId }, 'Failed to archive Slack channel');
+    logAudit({ action: 'slack.channel.archive', actor: 'system', target: channelId, status: 'failure', errorMessage: error?.message });
+    return false;
+  }
+}
+
 interface DocumentUploadNotification {
   documentName: string;
   documentType: string;
@@ -785,6 +821,171 @@ export async function sendClosingReminder(
   }
 }
 
+/**
+ * Send a contract deadline reminder (option, financing, appraisal, etc.) to a transaction channel
+ */
+export async function sendDeadlineReminder(
+  channelId: string,
+  propertyAddress: string,
+  deadlineLabel: string,
+  dueDate: string,
+  daysRemaining: number
+): Promise<void> {
+  // KILL SWITCH - check FIRST before any Slack API calls
+  if (process.env.DISABLE_SLACK_NOTIFICATIONS === 'true') {
+    log.debug({ propertyAddress, deadlineLabel, daysRemaining }, 'Blocked sendDeadlineReminder - notifications disabled');
+    return;
+  }
+
+  const token = process.env.SLACK_BOT_TOKEN;
+  if (!token) {
+    log.error('No Slack token available for deadline reminder');
+    return;
+  }
+
+  const formattedDate = new Date(`${dueDate}T12:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  const urgencyText = daysRemaining === 0
+    ? `${deadlineLabel} deadline is TODAY`
+    : `${daysRemaining} day${daysRemaining === 1 ? '' : 's'} remaining`;
+
+  const blocks = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: `${deadlineLabel} Deadline`,
+        emoji: true
+      }
+    },
+    {
+      type: "section",
+      fields: [
+        {
+          type: "mrkdwn",
+          text: `*Property:*\n${propertyAddress}`
+        },
+        {
+          type: "mrkdwn",
+          text: `*Due:*\n${formattedDate}`
+        }
+      ]
+    },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*${urgencyText}*`
+      }
+    }
+  ];
+
+  try {
+    const response = await slackFetch("https://slack.com/api/chat.postMessage", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        channel: channelId,
+        blocks,
+        text: `${deadlineLabel} Deadline: ${propertyAddress} - ${urgencyText}`,
+      }),
+    });
+
+    const data = await response.json();
+    if (!data.ok) {
+      log.error({ error: data.error }, 'Failed to send deadline reminder');
+    } else {
+      log.info({ propertyAddress, deadlineLabel, daysRemaining }, 'Deadline reminder sent');
+    }
+  } catch (error) {
+    log.error({ err: error }, 'Failed to send deadline reminder');
+  }
+}
+
+/**
+ * Announce an upcoming open house in the transaction's channel. Returns whether
+ * Slack accepted the post so the caller only marks it sent once.
+ */
+export async function sendOpenHouseAnnouncement(
+  channelId: string,
+  propertyAddress: string,
+  when: string,
+  hostName: string | null
+): Promise<boolean> {
+  // KILL SWITCH - check FIRST before any Slack API calls
+  if (process.env.DISABLE_SLACK_NOTIFICATIONS === 'true') {
+    log.debug({ propertyAddress }, 'Blocked sendOpenHouseAnnouncement - notifications disabled');
+    return false;
+  }
+
+  const token = process.env.SLACK_BOT_TOKEN;
+  if (!token) {
+    log.error('No Slack token available for open house announcement');
+    return false;
+  }
+
+  const blocks = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: "Upcoming Open House",
+        emoji: true
+      }
+    },
+    {
+      type: "section",
+      fields: [
+        {
+          type: "mrkdwn",
+          text: `*Property:*\n${propertyAddress}`
+        },
+        {
+          type: "mrkdwn",
+          text: `*When:*\n${when}`
+        },
+        ...(hostName ? [{
+          type: "mrkdwn",
+          text: `*Host:*\n${hostName}`
+        }] : [])
+      ]
+    }
+  ];
+
+  try {
+    const response = await slackFetch("https://slack.com/api/chat.postMessage", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        channel: channelId,
+        blocks,
+        text: `Upcoming Open House: ${propertyAddress} - ${when}`,
+      }),
+    });
+
+    const data = await response.json();
+    if (!data.ok) {
+      log.error({ error: data.error }, 'Failed to send open house announcement');
+      return false;
+    }
+    log.info({ propertyAddress }, 'Open house announcement sent');
+    return true;
+  } catch (error) {
+    log.error({ err: error }, 'Failed to send open house announcement');
+    return false;
+  }
+}
+
 /**
  * Send a marketing asset notification to a Slack channel (auto-notification)
  */
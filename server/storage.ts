@@ -18,12 +18,52 @@ import {
   type AgentResource,
   type InsertAgentResource,
   type UserNotificationPreferences,
+  type CalendarFeed,
+  type InsertCalendarFeed,
   type AgentMarketingProfile,
   type InsertAgentMarketingProfile,
   type Flyer,
   type InsertFlyer,
   type TransactionPhoto,
   type InsertTransactionPhoto,
+  type ChecklistTemplate,
+  type InsertChecklistTemplate,
+  type AutoArchiveRule,
+  type InsertAutoArchiveRule,
+  type TransactionTask,
+  type InsertTransactionTask,
+  type TransactionDeadline,
+  type InsertTransactionDeadline,
+  type TransactionNote,
+  type InsertTransactionNote,
+  type TransactionNoteRevision,
+  type NoteMention,
+  type TransactionContact,
+  type InsertTransactionContact,
+  type MLSSyncRun,
+  type InsertMLSSyncRun,
+  type MLSSyncResult,
+  type InsertMLSSyncResult,
+  type MLSListingCacheEntry,
+  type InsertMLSListingCacheEntry,
+  type MLSListingHistoryEntry,
+  type InsertMLSListingHistoryEntry,
+  type NetSheet,
+  type InsertNetSheet,
+  type NetSheetFeeSchedule,
+  type InsertNetSheetFeeSchedule,
+  type Offer,
+  type InsertOffer,
+  type OpenHouse,
+  type InsertOpenHouse,
+  type Organization,
+  type InsertOrganization,
+  type Team,
+  type InsertTeam,
+  type OrganizationMember,
+  type InsertOrganizationMember,
+  type TransactionVersion,
+  type AuditLog,
   transactions,
   coordinators,
   integrationSettings,
@@ -34,20 +74,292 @@ import {
   agentProfiles,
   agentResources,
   userNotificationPreferences,
+  calendarFeeds,
   agentMarketingProfiles,
   flyers,
   transactionPhotos,
+  checklistTemplates,
+  autoArchiveRules,
+  transactionTasks,
+  transactionDeadlines,
+  transactionNotes,
+  transactionNoteRevisions,
+  transactionContacts,
+  openHouses,
+  offers,
+  netSheets,
+  netSheetFeeSchedules,
+  mlsListingHistory,
+  mlsListingCache,
+  mlsSyncRuns,
+  mlsSyncResults,
+  organizations,
+  teams,
+  organizationMembers,
+  transactionVersions,
+  auditLogs,
+  sentNotifications,
+  transactionStatuses,
+  transactionSearchVector,
+  documentSearchVector,
+  activitySearchVector,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, isNull, and, sql, or } from "drizzle-orm";
+import { eq, desc, isNull, isNotNull, and, sql, or, inArray, notInArray, ne, gte, lt, lte, ilike, exists, type SQL } from "drizzle-orm";
+import {
+  DEFAULT_PAGE_SIZE,
+  type SortDirection,
+  type TransactionPage,
+  type TransactionQuery,
+  type TransactionSortField,
+} from "@shared/lib/transaction-query";
+import {
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIT_TABS,
+  type SearchHit,
+} from "@shared/lib/search";
+import type { FieldChange, VersionSource } from "@shared/lib/field-history";
+import { OPEN_OFFER_STATUSES } from "@shared/lib/offers";
+import { CLOSED_LISTING_STATUSES } from "@shared/lib/mls-cache";
+import { TRANSACTION_STATUS_LABELS } from "@shared/lib/status-machine";
+
+export interface TransactionListOptions extends TransactionQuery {
+  // Owners whose transactions are visible in addition to the user's own (team leads)
+  teamOwnerIds?: string[];
+}
+
+interface TransactionCursor {
+  value: string | number | null;
+  id: string;
+}
+
+export function encodeTransactionCursor(cursor: TransactionCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// The status sort key is an integer position; every other sort key is text (see getSortExpression)
+function isCursorValueForSort(value: unknown, sort: TransactionSortField): boolean {
+  if (value === null) return true;
+  return sort === "status" ? Number.isInteger(value) : typeof value === "string";
+}
+
+// Null when the cursor is malformed or was issued for a different sort field
+export function decodeTransactionCursor(encoded: string, sort: TransactionSortField): TransactionCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    if (typeof cursor?.id !== "string") return null;
+    if (!isCursorValueForSort(cursor.value, sort)) return null;
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+function buildFilterConditions(query: TransactionQuery): SQL[] {
+  // Transactions in the recycle bin only show up there
+  const conditions: SQL[] = [isNull(transactions.deletedAt)];
+
+  if (query.archived === "exclude") {
+    conditions.push(or(isNull(transactions.isArchived), eq(transactions.isArchived, false))!);
+  } else if (query.archived === "only") {
+    conditions.push(eq(transactions.isArchived, true));
+  }
+  if (query.status && query.status.length > 0) {
+    conditions.push(inArray(transactions.status, query.status));
+  }
+  if (query.coordinatorId) {
+    conditions.push(sql`${query.coordinatorId} = ANY(${transactions.coordinatorIds})`);
+  }
+  // Closing dates are stored as YYYY-MM-DD text, so string comparison orders correctly
+  if (query.closingFrom) {
+    conditions.push(gte(transactions.closingDate, query.closingFrom));
+  }
+  if (query.closingTo) {
+    conditions.push(lte(transactions.closingDate, query.closingTo));
+  }
+  if (query.eventsFrom || query.eventsTo) {
+    conditions.push(buildEventDateCondition(query.eventsFrom, query.eventsTo));
+  }
+  if (query.search) {
+    const pattern = `%${query.search.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+    const tsQuery = buildSearchTsQuery(query.search);
+    conditions.push(or(
+      ilike(transactions.propertyAddress, pattern),
+      ilike(transactions.mlsNumber, pattern),
+      tsQuery ? sql`${transactionSearchVector(transactions)} @@ to_tsquery('english', ${tsQuery})` : undefined,
+    )!);
+  }
+
+  return conditions;
+}
+
+// The dates getTransactionCalendarEvents turns into events; values may carry a time after the date
+function buildEventDateCondition(from: string | null | undefined, to: string | null | undefined): SQL {
+  const inRange = (value: SQL) => and(
+    from ? sql`left(${value}, 10) >= ${from}` : undefined,
+    to ? sql`left(${value}, 10) <= ${to}` : undefined,
+  )!;
+  return or(
+    inRange(sql`${transactions.contractDate}`),
+    inRange(sql`${transactions.closingDate}`),
+    inRange(sql`${transactions.goLiveDate}`),
+    inRange(sql`${transactions.photographyAppointmentDate}`),
+    exists(db.select({ id: openHouses.id }).from(openHouses).where(and(
+      eq(openHouses.transactionId, transactions.id),
+      inRange(sql`${openHouses.date}`),
+    ))),
+  )!;
+}
+
+// Sort keys are text or integers so they can round-trip through a cursor
+function getSortExpression(field: TransactionSortField): SQL {
+  switch (field) {
+    case "address":
+      return sql`lower(${transactions.propertyAddress})`;
+    case "closingDate":
+      return sql`nullif(${transactions.closingDate}, '')`;
+    case "status":
+      return sql`array_position(ARRAY[${sql.join(transactionStatuses.map(s => sql`${s}`), sql`, `)}]::text[], ${transactions.status})`;
+    case "daysRemaining":
+      // Off-market listings count down to going live; closed deals sort last
+      return sql`CASE
+        WHEN ${transactions.status} = 'closed' THEN NULL
+        WHEN ${transactions.isOffMarket} AND nullif(${transactions.goLiveDate}, '') IS NOT NULL THEN ${transactions.goLiveDate}
+        ELSE nullif(${transactions.closingDate}, '')
+      END`;
+    case "createdAt":
+    default:
+      return sql`to_char(${transactions.createdAt}, 'YYYY-MM-DD"T"HH24:MI:SS.US')`;
+  }
+}
+
+// Missing values always sort last; id breaks ties so the order is total
+function buildOrderBy(expression: SQL, direction: SortDirection): SQL[] {
+  const dir = sql.raw(direction === "asc" ? "ASC" : "DESC");
+  return [sql`${expression} ${dir} NULLS LAST`, sql`${transactions.id} ${dir}`];
+}
+
+function buildCursorCondition(expression: SQL, direction: SortDirection, cursor: TransactionCursor): SQL {
+  const after = sql.raw(direction === "asc" ? ">" : "<");
+  if (cursor.value === null) {
+    return sql`(${expression} IS NULL AND ${transactions.id} ${after} ${cursor.id})`;
+  }
+  return sql`(${expression} ${after} ${cursor.value} OR (${expression} = ${cursor.value} AND ${transactions.id} ${after} ${cursor.id}) OR ${expression} IS NULL)`;
+}
+
+// Rows moved onto the surviving transaction by mergeTransactions
+export interface TransactionMergeCounts {
+  activities: number;
+  documents: number;
+  photos: number;
+  marketingAssets: number;
+  flyers: number;
+  contacts: number;
+  notes: number;
+  tasks: number;
+  deadlines: number;
+}
+
+export interface TransactionMergeResult {
+  counts: TransactionMergeCounts;
+  target: Transaction | undefined;
+}
+
+// Rows removed with a transaction by purgeTransaction
+export interface TransactionPurgeCounts {
+  activities: number;
+  documents: number;
+  photos: number;
+  marketingAssets: number;
+  flyers: number;
+  notes: number;
+}
+
+// Production reports only need who made what and when - never the image payloads
+export type ActivitySummary = Pick<Activity, "transactionId" | "type" | "createdAt">;
+export type MarketingAssetSummary = Pick<MarketingAsset, "transactionId" | "type" | "createdAt">;
+export type FlyerSummary = Pick<Flyer, "id" | "transactionId" | "userId" | "createdAt">;
+
+export interface TransactionVersionMeta {
+  source: VersionSource;
+  changedBy?: string | null;
+  changedByEmail?: string | null;
+  requestId?: string | null;
+  revertedVersionId?: string | null;
+}
+
+export interface TransactionWriteOptions {
+  // Only write if the row is still at this version (undefined = conflict or missing)
+  expectedVersion?: number;
+  // Bump transactions.version - only for writes that record their changes in transaction_versions
+  bumpVersion?: boolean;
+}
+
+export interface SearchOptions {
+  limit: number;
+  teamOwnerIds?: string[];
+}
+
+/**
+ * Turn free text into a to_tsquery expression: every word must match, the last
+ * one as a prefix so results keep up while the user is still typing.
+ */
+export function buildSearchTsQuery(text: string): string | null {
+  const terms = text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g);
+  if (!terms) return null;
+  return terms.map((term, i) => (i === terms.length - 1 ? `${term}:*` : term)).join(" & ");
+}
+
+const HEADLINE_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxWords=25, MinWords=10, MaxFragments=2`;
+
+// A status_changed timeline entry into the transaction's current status. Entries logged before
+// the status keys were recorded carry the display label ("Closed") instead.
+function isEntryIntoCurrentStatus(): SQL {
+  const statusLabel = sql`CASE ${transactions.status} ${sql.join(
+    Object.entries(TRANSACTION_STATUS_LABELS).map(([status, label]) => sql`WHEN ${status} THEN ${label}`),
+    sql` `
+  )} END`;
+  return sql`${activities.type} = 'status_changed'
+    AND ${activities.metadata}->>'newStatus' IN (${transactions.status}, ${statusLabel})`;
+}
+
+// Correlated subquery for UPDATE transactions; select queries use a join instead, where columns stay qualified
+function lastStatusChangeFromTimeline(): SQL<Date | null> {
+  return sql<Date | null>`(
+    SELECT max(${activities.createdAt}) FROM ${activities}
+    WHERE ${activities.transactionId} = ${transactions.id} AND ${isEntryIntoCurrentStatus()}
+  )`;
+}
+
+function headline(document: SQL, tsQuery: SQL): SQL<string | null> {
+  return sql<string | null>`nullif(ts_headline('english', ${document}, ${tsQuery}, ${HEADLINE_OPTIONS}), '')`;
+}
+
+function humanizeActivityType(type: string): string {
+  const label = type.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
 
 export interface IStorage {
   // Transactions
-  getTransactions(userId?: string, userEmail?: string): Promise<Transaction[]>;
+  getTransactions(userId?: string, userEmail?: string, options?: TransactionListOptions): Promise<Transaction[]>;
   getTransaction(id: string): Promise<Transaction | undefined>;
+  getTransactionPage(userId: string | undefined, userEmail: string | undefined, options: TransactionListOptions): Promise<TransactionPage>;
+  countTransactions(userId: string | undefined, userEmail: string | undefined, options: TransactionListOptions): Promise<number>;
+  searchTransactions(userId: string | undefined, userEmail: string | undefined, text: string, options: SearchOptions): Promise<SearchHit[]>;
+  findDuplicateCandidates(addressPrefix: string, normalizedMls: string | null, excludeId?: string): Promise<Transaction[]>;
+  mergeTransactions(targetId: string, sourceId: string, targetUpdate: Partial<InsertTransaction>, bumpVersion: boolean): Promise<TransactionMergeResult>;
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
-  updateTransaction(id: string, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined>;
-  deleteTransaction(id: string): Promise<boolean>;
+  updateTransaction(id: string, transaction: Partial<InsertTransaction>, options?: TransactionWriteOptions): Promise<Transaction | undefined>;
+
+  // Recycle Bin
+  softDeleteTransaction(id: string, deletedBy: string | null): Promise<Transaction | undefined>;
+  restoreTransaction(id: string): Promise<Transaction | undefined>;
+  getDeletedTransaction(id: string): Promise<Transaction | undefined>;
+  getDeletedTransactions(userId?: string, userEmail?: string, teamOwnerIds?: string[]): Promise<Transaction[]>;
+  getTransactionsDeletedBefore(cutoff: Date): Promise<Transaction[]>;
+  purgeTransaction(id: string): Promise<TransactionPurgeCounts>;
 
   // Coordinators
   getCoordinators(): Promise<Coordinator[]>;
@@ -86,6 +398,127 @@ export interface IStorage {
   createContractDocument(doc: InsertContractDocument): Promise<ContractDocument>;
   deleteContractDocument(id: string): Promise<boolean>;
 
+  // Checklist Templates
+  getChecklistTemplates(): Promise<ChecklistTemplate[]>;
+  getChecklistTemplate(id: string): Promise<ChecklistTemplate | undefined>;
+  getActiveChecklistTemplates(transactionType: string, status: string): Promise<ChecklistTemplate[]>;
+  createChecklistTemplate(template: InsertChecklistTemplate): Promise<ChecklistTemplate>;
+  updateChecklistTemplate(id: string, template: Partial<InsertChecklistTemplate>): Promise<ChecklistTemplate | undefined>;
+  deleteChecklistTemplate(id: string): Promise<boolean>;
+
+  // Auto-Archive
+  getAutoArchiveRules(): Promise<AutoArchiveRule[]>;
+  upsertAutoArchiveRule(rule: InsertAutoArchiveRule, updatedBy: string | null): Promise<AutoArchiveRule>;
+  backfillStatusChangedAt(): Promise<number>;
+  getStatusChangeTimesFromTimeline(transactionIds: string[]): Promise<Map<string, Date>>;
+  getUnarchivedTransactionsByStatus(statuses: string[]): Promise<Transaction[]>;
+
+  // Transaction Tasks
+  getTasksByTransaction(transactionId: string): Promise<TransactionTask[]>;
+  getTask(id: string): Promise<TransactionTask | undefined>;
+  createTask(task: InsertTransactionTask): Promise<TransactionTask>;
+  createTasks(tasks: InsertTransactionTask[]): Promise<TransactionTask[]>;
+  updateTask(id: string, task: Partial<InsertTransactionTask>): Promise<TransactionTask | undefined>;
+  deleteTask(id: string): Promise<boolean>;
+
+  // Transaction Notes
+  getNotesByTransaction(transactionId: string): Promise<TransactionNote[]>;
+  getNote(id: string): Promise<TransactionNote | undefined>;
+  createNote(note: InsertTransactionNote, mentions: NoteMention[]): Promise<TransactionNote>;
+  updateNote(id: string, body: string, mentions: NoteMention[], changedBy: string | null): Promise<TransactionNote | undefined>;
+  deleteNote(id: string, changedBy: string | null): Promise<TransactionNote | undefined>;
+  getNoteRevisions(noteId: string): Promise<TransactionNoteRevision[]>;
+
+  // Transaction Deadlines
+  getDeadlinesByTransaction(transactionId: string): Promise<TransactionDeadline[]>;
+  getDeadline(id: string): Promise<TransactionDeadline | undefined>;
+  getOpenDeadlines(): Promise<TransactionDeadline[]>;
+  createDeadline(deadline: InsertTransactionDeadline): Promise<TransactionDeadline>;
+  createDeadlines(deadlines: InsertTransactionDeadline[]): Promise<TransactionDeadline[]>;
+  updateDeadline(id: string, deadline: Partial<InsertTransactionDeadline>): Promise<TransactionDeadline | undefined>;
+  deleteDeadline(id: string): Promise<boolean>;
+
+  // Transaction Contacts
+  getContactsByTransaction(transactionId: string): Promise<TransactionContact[]>;
+  getContact(id: string): Promise<TransactionContact | undefined>;
+  createContact(contact: InsertTransactionContact): Promise<TransactionContact>;
+  updateContact(id: string, contact: Partial<InsertTransactionContact>): Promise<TransactionContact | undefined>;
+  deleteContact(id: string): Promise<boolean>;
+
+  // Open Houses
+  getOpenHousesByTransaction(transactionId: string): Promise<OpenHouse[]>;
+  getOpenHousesByTransactionIds(transactionIds: string[]): Promise<OpenHouse[]>;
+  getOpenHouse(id: string): Promise<OpenHouse | undefined>;
+  createOpenHouse(openHouse: InsertOpenHouse): Promise<OpenHouse>;
+  updateOpenHouse(id: string, openHouse: Partial<InsertOpenHouse> & { slackPostedAt?: Date | null }): Promise<OpenHouse | undefined>;
+  deleteOpenHouse(id: string): Promise<boolean>;
+  getOpenHousesAwaitingSlackPost(fromDate: string, toDate: string): Promise<OpenHouse[]>;
+  markOpenHouseSlackPosted(id: string): Promise<void>;
+
+  // Offers
+  getOffersByTransaction(transactionId: string): Promise<Offer[]>;
+  getOffer(id: string): Promise<Offer | undefined>;
+  createOffer(offer: InsertOffer): Promise<Offer>;
+  updateOffer(id: string, offer: Partial<InsertOffer>): Promise<Offer | undefined>;
+  acceptOffer(id: string): Promise<Offer | undefined>;
+  deleteOffer(id: string): Promise<boolean>;
+
+  // Net Sheets
+  getNetSheetFeeSchedules(): Promise<NetSheetFeeSchedule[]>;
+  getNetSheetFeeSchedule(id: string): Promise<NetSheetFeeSchedule | undefined>;
+  getDefaultNetSheetFeeSchedule(): Promise<NetSheetFeeSchedule | undefined>;
+  createNetSheetFeeSchedule(schedule: InsertNetSheetFeeSchedule): Promise<NetSheetFeeSchedule>;
+  updateNetSheetFeeSchedule(id: string, schedule: Partial<InsertNetSheetFeeSchedule>): Promise<NetSheetFeeSchedule | undefined>;
+  deleteNetSheetFeeSchedule(id: string): Promise<boolean>;
+  getNetSheetsByTransaction(transactionId: string): Promise<NetSheet[]>;
+  getNetSheet(id: string): Promise<NetSheet | undefined>;
+  createNetSheetVersion(sheet: Omit<InsertNetSheet, "version">): Promise<NetSheet>;
+
+  // MLS Listing History
+  getMLSListingHistory(transactionId: string): Promise<MLSListingHistoryEntry[]>;
+  createMLSListingHistoryEntry(entry: InsertMLSListingHistoryEntry): Promise<MLSListingHistoryEntry>;
+
+  // MLS Listing Cache
+  getMLSListingCacheEntry(cacheKey: string): Promise<MLSListingCacheEntry | undefined>;
+  upsertMLSListingCacheEntry(entry: InsertMLSListingCacheEntry): Promise<MLSListingCacheEntry>;
+  getMLSListingCacheSize(): Promise<{ entries: number; oldestFetchedAt: Date | null }>;
+  deleteExpiredMLSListingCacheEntries(activeBefore: Date, closedBefore: Date): Promise<number>;
+
+  // MLS Sync Runs
+  getMLSSyncRuns(limit: number): Promise<MLSSyncRun[]>;
+  getMLSSyncRun(id: string): Promise<MLSSyncRun | undefined>;
+  createMLSSyncRun(run: InsertMLSSyncRun): Promise<MLSSyncRun>;
+  updateMLSSyncRun(id: string, update: Partial<InsertMLSSyncRun>): Promise<MLSSyncRun | undefined>;
+  failInterruptedMLSSyncRuns(): Promise<number>;
+  getMLSSyncResultsByRun(runId: string): Promise<MLSSyncResult[]>;
+  getLatestMLSSyncResults(transactionIds: string[]): Promise<MLSSyncResult[]>;
+  createMLSSyncResult(result: InsertMLSSyncResult): Promise<MLSSyncResult>;
+
+  // Transaction Versions
+  createTransactionVersion(transactionId: string, version: number, changes: FieldChange[], meta: TransactionVersionMeta): Promise<TransactionVersion[]>;
+  getTransactionVersions(transactionId: string): Promise<TransactionVersion[]>;
+  getTransactionVersionChange(id: string): Promise<TransactionVersion | undefined>;
+  getAuditLogsByRequestIds(requestIds: string[]): Promise<AuditLog[]>;
+
+  // Organizations & Teams
+  getOrganizations(): Promise<Organization[]>;
+  getOrganization(id: string): Promise<Organization | undefined>;
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  updateOrganization(id: string, organization: Partial<InsertOrganization>): Promise<Organization | undefined>;
+  deleteOrganization(id: string): Promise<boolean>;
+  getTeamsByOrganization(organizationId: string): Promise<Team[]>;
+  getTeam(id: string): Promise<Team | undefined>;
+  createTeam(team: InsertTeam): Promise<Team>;
+  updateTeam(id: string, team: Partial<InsertTeam>): Promise<Team | undefined>;
+  deleteTeam(id: string): Promise<boolean>;
+  getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]>;
+  getMembershipsByUser(userId: string): Promise<OrganizationMember[]>;
+  getMembershipsByTeams(teamIds: string[]): Promise<OrganizationMember[]>;
+  getOrganizationMember(id: string): Promise<OrganizationMember | undefined>;
+  createOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember>;
+  updateOrganizationMember(id: string, member: Partial<InsertOrganizationMember>): Promise<OrganizationMember | undefined>;
+  deleteOrganizationMember(id: string): Promise<boolean>;
+
   // Notification Settings
   getNotificationSettings(userId: string, transactionId?: string | null): Promise<NotificationSetting | undefined>;
   getGlobalNotificationSettings(userId: string): Promise<NotificationSetting | undefined>;
@@ -111,6 +544,13 @@ export interface IStorage {
     data: Partial<Omit<UserNotificationPreferences, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>
   ): Promise<UserNotificationPreferences>;
 
+  // Calendar Feeds
+  getCalendarFeedsByUser(userId: string): Promise<CalendarFeed[]>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  createCalendarFeed(feed: InsertCalendarFeed): Promise<CalendarFeed>;
+  deleteCalendarFeed(id: string, userId: string): Promise<boolean>;
+  markCalendarFeedAccessed(id: string): Promise<void>;
+
   // Agent Marketing Profiles
   getAgentMarketingProfile(userId: string): Promise<AgentMarketingProfile | undefined>;
   upsertAgentMarketingProfile(userId: string, profile: Partial<InsertAgentMarketingProfile>): Promise<AgentMarketingProfile>;
@@ -121,57 +561,363 @@ export interface IStorage {
   createFlyer(flyer: InsertFlyer): Promise<Flyer>;
   updateFlyer(id: string, data: Partial<InsertFlyer>): Promise<Flyer | undefined>;
   incrementFlyerViews(id: string): Promise<void>;
+
+  // Production Reports
+  getActivitiesCreatedBetween(from: Date, to: Date): Promise<ActivitySummary[]>;
+  getMarketingAssetsCreatedBetween(from: Date, to: Date): Promise<MarketingAssetSummary[]>;
+  getFlyersCreatedBetween(from: Date, to: Date): Promise<FlyerSummary[]>;
 }
 
 export class DatabaseStorage implements IStorage {
   // Transactions
-  async getTransactions(userId?: string, userEmail?: string): Promise<Transaction[]> {
-    // If no user context, return all (admin view)
-    if (!userId && !userEmail) {
-      return await db.select().from(transactions).orderBy(desc(transactions.createdAt));
+  async getTransactions(userId?: string, userEmail?: string, options: TransactionListOptions = {}): Promise<Transaction[]> {
+    const visibility = await this.buildVisibilityCondition(userId, userEmail, options.teamOwnerIds);
+    const sortExpression = getSortExpression(options.sort || "createdAt");
+    const direction = options.direction || "desc";
+
+    const query = db
+      .select()
+      .from(transactions)
+      .where(and(visibility, ...buildFilterConditions(options)))
+      .orderBy(...buildOrderBy(sortExpression, direction));
+    return options.limit ? await query.limit(options.limit) : await query;
+  }
+
+  /**
+   * One page of a filtered, sorted transaction list using keyset pagination on
+   * (sort value, id), so pages stay stable while rows are added or archived.
+   */
+  async getTransactionPage(userId: string | undefined, userEmail: string | undefined, options: TransactionListOptions): Promise<TransactionPage> {
+    const visibility = await this.buildVisibilityCondition(userId, userEmail, options.teamOwnerIds);
+    const sort = options.sort || "createdAt";
+    const sortExpression = getSortExpression(sort);
+    const direction = options.direction || "desc";
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+
+    const filters = and(visibility, ...buildFilterConditions(options));
+    const cursor = options.cursor ? decodeTransactionCursor(options.cursor, sort) : null;
+    const where = cursor ? and(filters, buildCursorCondition(sortExpression, direction, cursor)) : filters;
+
+    const rows = await db
+      .select({ transaction: transactions, sortValue: sql<string | number | null>`${sortExpression}` })
+      .from(transactions)
+      .where(where)
+      .orderBy(...buildOrderBy(sortExpression, direction))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const pageRows = hasMore ? rows.slice(0, limit) : rows;
+    const last = pageRows[pageRows.length - 1];
+
+    const [[{ total }], [{ filtered }]] = await Promise.all([
+      db.select({ total: sql<number>`count(*)::int` }).from(transactions)
+        .where(and(visibility, ...buildFilterConditions({ archived: options.archived }))),
+      db.select({ filtered: sql<number>`count(*)::int` }).from(transactions).where(filters),
+    ]);
+
+    return {
+      transactions: pageRows.map(row => row.transaction),
+      nextCursor: hasMore && last ? encodeTransactionCursor({ value: last.sortValue, id: last.transaction.id }) : null,
+      totalCount: total,
+      filteredCount: filtered,
+    };
+  }
+
+  // Same filters as getTransactionPage, without fetching any rows
+  async countTransactions(userId: string | undefined, userEmail: string | undefined, options: TransactionListOptions): Promise<number> {
+    const visibility = await this.buildVisibilityCondition(userId, userEmail, options.teamOwnerIds);
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(transactions)
+      .where(and(visibility, ...buildFilterConditions(options)));
+    return count;
+  }
+
+  /**
+   * Ranked full-text hits across transactions (address, MLS number, client, notes),
+   * their documents (name, notes) and timeline entries, limited to what the user can see.
+   */
+  async searchTransactions(userId: string | undefined, userEmail: string | undefined, text: string, options: SearchOptions): Promise<SearchHit[]> {
+    const queryText = buildSearchTsQuery(text);
+    if (!queryText) return [];
+
+    const visibility = await this.buildVisibilityCondition(userId, userEmail, options.teamOwnerIds);
+    const tsQuery = sql`to_tsquery('english', ${queryText})`;
+    const transactionVector = transactionSearchVector(transactions);
+    const documentVector = documentSearchVector(contractDocuments);
+    const activityVector = activitySearchVector(activities);
+
+    const [transactionRows, documentRows, activityRows] = await Promise.all([
+      db
+        .select({
+          id: transactions.id,
+          propertyAddress: transactions.propertyAddress,
+          isArchived: transactions.isArchived,
+          createdAt: transactions.createdAt,
+          rank: sql<number>`ts_rank(${transactionVector}, ${tsQuery})`,
+          snippet: headline(sql`concat_ws(' - ', ${transactions.fubClientName}, ${transactions.mlsNumber}, ${transactions.notes})`, tsQuery),
+        })
+        .from(transactions)
+        .where(and(visibility, isNull(transactions.deletedAt), sql`${transactionVector} @@ ${tsQuery}`))
+        .orderBy(sql`ts_rank(${transactionVector}, ${tsQuery}) DESC`)
+        .limit(options.limit),
+      db
+        .select({
+          id: contractDocuments.id,
+          transactionId: contractDocuments.transactionId,
+          name: contractDocuments.name,
+          fileName: contractDocuments.fileName,
+          propertyAddress: transactions.propertyAddress,
+          isArchived: transactions.isArchived,
+          createdAt: contractDocuments.createdAt,
+          rank: sql<number>`ts_rank(${documentVector}, ${tsQuery})`,
+          snippet: headline(sql`coalesce(${contractDocuments.notes}, '')`, tsQuery),
+        })
+        .from(contractDocuments)
+        .innerJoin(transactions, eq(contractDocuments.transactionId, transactions.id))
+        .where(and(visibility, isNull(transactions.deletedAt), sql`${documentVector} @@ ${tsQuery}`))
+        .orderBy(sql`ts_rank(${documentVector}, ${tsQuery}) DESC`)
+        .limit(options.limit),
+      db
+        .select({
+          id: activities.id,
+          transactionId: activities.transactionId,
+          type: activities.type,
+          propertyAddress: transactions.propertyAddress,
+          isArchived: transactions.isArchived,
+          createdAt: activities.createdAt,
+          rank: sql<number>`ts_rank(${activityVector}, ${tsQuery})`,
+          snippet: headline(sql`${activities.description}`, tsQuery),
+        })
+        .from(activities)
+        .innerJoin(transactions, eq(activities.transactionId, transactions.id))
+        .where(and(visibility, isNull(transactions.deletedAt), sql`${activityVector} @@ ${tsQuery}`))
+        .orderBy(sql`ts_rank(${activityVector}, ${tsQuery}) DESC`)
+        .limit(options.limit),
+    ]);
+
+    const hits: SearchHit[] = [
+      ...transactionRows.map(row => ({
+        type: "transaction" as const,
+        id: row.id,
+        transactionId: row.id,
+        propertyAddress: row.propertyAddress,
+        title: row.propertyAddress,
+        snippet: row.snippet,
+        rank: row.rank,
+        tab: SEARCH_HIT_TABS.transaction,
+        isArchived: !!row.isArchived,
+        createdAt: row.createdAt?.toISOString() ?? null,
+      })),
+      ...documentRows.map(row => ({
+        type: "document" as const,
+        id: row.id,
+        transactionId: row.transactionId,
+        propertyAddress: row.propertyAddress,
+        title: row.name || row.fileName,
+        snippet: row.snippet,
+        rank: row.rank,
+        tab: SEARCH_HIT_TABS.document,
+        isArchived: !!row.isArchived,
+        createdAt: row.createdAt?.toISOString() ?? null,
+      })),
+      ...activityRows.map(row => ({
+        type: "activity" as const,
+        id: row.id,
+        transactionId: row.transactionId,
+        propertyAddress: row.propertyAddress,
+        title: humanizeActivityType(row.type),
+        snippet: row.snippet,
+        rank: row.rank,
+        tab: SEARCH_HIT_TABS.activity,
+        isArchived: !!row.isArchived,
+        createdAt: row.createdAt?.toISOString() ?? null,
+      })),
+    ];
+
+    return hits.sort((a, b) => b.rank - a.rank).slice(0, options.limit);
+  }
+
+  /**
+   * Open transactions that might duplicate a new one: same leading address token or
+   * same MLS number (ignoring the ACT prefix). Callers confirm address matches after
+   * normalizing. Closed, cancelled and archived deals are skipped - a house can sell twice.
+   * Not scoped to the caller: a duplicate owned by another agent matters most.
+   */
+  async findDuplicateCandidates(addressPrefix: string, normalizedMls: string | null, excludeId?: string): Promise<Transaction[]> {
+    const matches: SQL[] = [];
+    if (addressPrefix) {
+      matches.push(ilike(transactions.propertyAddress, `${addressPrefix.replace(/[\\%_]/g, (c) => `\\${c}`)}%`));
+    }
+    if (normalizedMls) {
+      matches.push(sql`regexp_replace(regexp_replace(upper(${transactions.mlsNumber}), '[^A-Z0-9]', '', 'g'), '^ACT', '') = ${normalizedMls}`);
     }
+    if (matches.length === 0) return [];
 
-    // Get transactions user created
-    const ownedTransactions = userId ? await db
+    return await db
       .select()
       .from(transactions)
-      .where(eq(transactions.userId, userId))
-      .orderBy(desc(transactions.createdAt)) : [];
+      .where(and(
+        or(...matches),
+        isNull(transactions.deletedAt),
+        or(isNull(transactions.isArchived), eq(transactions.isArchived, false)),
+        notInArray(transactions.status, ["closed", "cancelled"]),
+        excludeId ? ne(transactions.id, excludeId) : undefined,
+      ))
+      .orderBy(desc(transactions.createdAt));
+  }
+
+  /**
+   * Move the source transaction's activities, documents, photos, marketing assets,
+   * flyers, notes and sent notifications onto the target, along with any contacts,
+   * checklist tasks, deadlines and notification settings the target doesn't already
+   * have, then delete the source. Its field history is dropped: version numbers are
+   * per transaction and would read as the target's. The target's version only moves
+   * with bumpVersion, when the caller records the filled-in fields.
+   */
+  async mergeTransactions(
+    targetId: string,
+    sourceId: string,
+    targetUpdate: Partial<InsertTransaction>,
+    bumpVersion: boolean
+  ): Promise<TransactionMergeResult> {
+    return await db.transaction(async (tx) => {
+      const moved = async (table: typeof activities | typeof contractDocuments | typeof transactionPhotos | typeof marketingAssets | typeof flyers) => {
+        const rows = await tx
+          .update(table)
+          .set({ transactionId: targetId })
+          .where(eq(table.transactionId, sourceId))
+          .returning({ id: table.id });
+        return rows.length;
+      };
+
+      const counts: TransactionMergeCounts = {
+        activities: await moved(activities),
+        documents: await moved(contractDocuments),
+        photos: await moved(transactionPhotos),
+        marketingAssets: await moved(marketingAssets),
+        flyers: await moved(flyers),
+        contacts: 0,
+        notes: 0,
+        tasks: 0,
+        deadlines: 0,
+      };
+
+      const movedNotes = await tx
+        .update(transactionNotes)
+        .set({ transactionId: targetId })
+        .where(eq(transactionNotes.transactionId, sourceId))
+        .returning({ id: transactionNotes.id });
+      counts.notes = movedNotes.length;
+
+      // Same person = same role and email (or name when there's no email)
+      const targetContacts = await tx.select().from(transactionContacts).where(eq(transactionContacts.transactionId, targetId));
+      const contactKey = (c: TransactionContact) => `${c.role}:${(c.email || c.name).trim().toLowerCase()}`;
+      const existing = new Set(targetContacts.map(contactKey));
+      const sourceContacts = await tx.select().from(transactionContacts).where(eq(transactionContacts.transactionId, sourceId));
+      const newContactIds = sourceContacts.filter(c => !existing.has(contactKey(c))).map(c => c.id);
+      if (newContactIds.length > 0) {
+        await tx.update(transactionContacts).set({ transactionId: targetId }).where(inArray(transactionContacts.id, newContactIds));
+        counts.contacts = newContactIds.length;
+      }
+
+      // Same task = same template and title; ad hoc tasks always move. A task done on
+      // either side stays done.
+      const targetTasks = await tx.select().from(transactionTasks).where(eq(transactionTasks.transactionId, targetId));
+      const taskKey = (t: TransactionTask) => `${t.templateId}:${t.title.trim().toLowerCase()}`;
+      const targetTasksByKey = new Map(targetTasks.filter(t => t.templateId).map(t => [taskKey(t), t]));
+      const sourceTasks = await tx.select().from(transactionTasks).where(eq(transactionTasks.transactionId, sourceId));
+      const newTaskIds: string[] = [];
+      for (const task of sourceTasks) {
+        const match = task.templateId ? targetTasksByKey.get(taskKey(task)) : undefined;
+        if (!match) {
+          newTaskIds.push(task.id);
+        } else if (task.isCompleted && !match.isCompleted) {
+          await tx
+            .update(transactionTasks)
+            .set({ isCompleted: true, completedAt: task.completedAt, completedBy: task.completedBy })
+            .where(eq(transactionTasks.id, match.id));
+        }
+      }
+      if (newTaskIds.length > 0) {
+        await tx.update(transactionTasks).set({ transactionId: targetId }).where(inArray(transactionTasks.id, newTaskIds));
+        counts.tasks = newTaskIds.length;
+      }
+
+      // Same deadline = same type and label
+      const deadlineKey = (d: TransactionDeadline) => `${d.type}:${d.label.trim().toLowerCase()}`;
+      const targetDeadlines = await tx.select().from(transactionDeadlines).where(eq(transactionDeadlines.transactionId, targetId));
+      const existingDeadlines = new Set(targetDeadlines.map(deadlineKey));
+      const sourceDeadlines = await tx.select().from(transactionDeadlines).where(eq(transactionDeadlines.transactionId, sourceId));
+      const newDeadlineIds = sourceDeadlines.filter(d => !existingDeadlines.has(deadlineKey(d))).map(d => d.id);
+      if (newDeadlineIds.length > 0) {
+        await tx.update(transactionDeadlines).set({ transactionId: targetId }).where(inArray(transactionDeadlines.id, newDeadlineIds));
+        counts.deadlines = newDeadlineIds.length;
+      }
+
+      // A user's own settings on the target win over theirs on the source
+      const targetSettings = await tx.select().from(notificationSettings).where(eq(notificationSettings.transactionId, targetId));
+      const usersWithSettings = targetSettings.map(setting => setting.userId);
+      await tx
+        .update(notificationSettings)
+        .set({ transactionId: targetId })
+        .where(and(
+          eq(notificationSettings.transactionId, sourceId),
+          usersWithSettings.length > 0 ? notInArray(notificationSettings.userId, usersWithSettings) : undefined,
+        ));
+
+      await tx.delete(transactionContacts).where(eq(transactionContacts.transactionId, sourceId));
+      await tx.delete(transactionTasks).where(eq(transactionTasks.transactionId, sourceId));
+      await tx.delete(transactionDeadlines).where(eq(transactionDeadlines.transactionId, sourceId));
+      await tx.delete(notificationSettings).where(eq(notificationSettings.transactionId, sourceId));
+      await tx.delete(transactionVersions).where(eq(transactionVersions.transactionId, sourceId));
+      await tx.update(sentNotifications).set({ transactionId: targetId }).where(eq(sentNotifications.transactionId, sourceId));
+      await tx.update(calendarFeeds).set({ transactionId: targetId }).where(eq(calendarFeeds.transactionId, sourceId));
+      await tx.update(openHouses).set({ transactionId: targetId }).where(eq(openHouses.transactionId, sourceId));
+      await tx.update(offers).set({ transactionId: targetId }).where(eq(offers.transactionId, sourceId));
+      await tx.update(netSheets).set({ transactionId: targetId }).where(eq(netSheets.transactionId, sourceId));
+      await tx.update(mlsListingHistory).set({ transactionId: targetId }).where(eq(mlsListingHistory.transactionId, sourceId));
+      await tx.update(mlsSyncResults).set({ transactionId: targetId }).where(eq(mlsSyncResults.transactionId, sourceId));
+      await tx.delete(transactions).where(eq(transactions.id, sourceId));
+
+      const [target] = await tx
+        .update(transactions)
+        .set(bumpVersion ? { ...targetUpdate, version: sql`${transactions.version} + 1` } : targetUpdate)
+        .where(eq(transactions.id, targetId))
+        .returning();
+
+      return { counts, target };
+    });
+  }
+
+  // Owned, coordinated (by the user's coordinator email) or team-owned transactions; undefined = no restriction
+  private async buildVisibilityCondition(userId?: string, userEmail?: string, teamOwnerIds: string[] = []): Promise<SQL | undefined> {
+    if (!userId && !userEmail) return undefined;
+
+    const conditions: SQL[] = [];
+    if (userId) conditions.push(eq(transactions.userId, userId));
+    if (teamOwnerIds.length > 0) conditions.push(inArray(transactions.userId, teamOwnerIds));
 
-    // If user has email, check if they're a coordinator
     if (userEmail) {
-      // Find coordinator by email
       const [coordinator] = await db
         .select()
         .from(coordinators)
         .where(eq(coordinators.email, userEmail))
         .limit(1);
-
       if (coordinator) {
-        // Get transactions where this coordinator is assigned
-        const assignedTransactions = await db
-          .select()
-          .from(transactions)
-          .where(
-            sql`${coordinator.id} = ANY(${transactions.coordinatorIds})`
-          )
-          .orderBy(desc(transactions.createdAt));
-
-        // Merge and deduplicate
-        const allTransactions = [...ownedTransactions, ...assignedTransactions];
-        const uniqueTransactions = allTransactions.filter(
-          (t, index, self) => index === self.findIndex(x => x.id === t.id)
-        );
-        
-        return uniqueTransactions;
+        conditions.push(sql`${coordinator.id} = ANY(${transactions.coordinatorIds})`);
       }
     }
 
-    return ownedTransactions;
+    return conditions.length > 0 ? or(...conditions) : sql`false`;
   }
 
+  // Transactions in the recycle bin are not found here - see getDeletedTransaction
   async getTransaction(id: string): Promise<Transaction | undefined> {
-    const [transaction] = await db.select().from(transactions).where(eq(transactions.id, id));
+    const [transaction] = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.id, id), isNull(transactions.deletedAt)));
     return transaction;
   }
 
@@ -182,23 +928,111 @@ export class DatabaseStorage implements IStorage {
         ...transaction,
         coordinatorIds: transaction.coordinatorIds || [],
         propertyImages: transaction.propertyImages || [],
+        statusChangedAt: new Date(),
       })
       .returning();
     return newTransaction;
   }
 
-  async updateTransaction(id: string, update: Partial<InsertTransaction>): Promise<Transaction | undefined> {
+  // Background writes (MLS data, Gmail and Slack ids) leave the version alone so open editors don't conflict
+  async updateTransaction(id: string, update: Partial<InsertTransaction>, options: TransactionWriteOptions = {}): Promise<Transaction | undefined> {
+    const { expectedVersion, bumpVersion } = options;
     const [updated] = await db
       .update(transactions)
-      .set(update)
-      .where(eq(transactions.id, id))
+      .set(bumpVersion ? { ...update, version: sql`${transactions.version} + 1` } : update)
+      .where(and(
+        eq(transactions.id, id),
+        expectedVersion !== undefined ? eq(transactions.version, expectedVersion) : undefined,
+      ))
       .returning();
     return updated;
   }
 
-  async deleteTransaction(id: string): Promise<boolean> {
-    const result = await db.delete(transactions).where(eq(transactions.id, id));
-    return true;
+  // Recycle Bin
+  async softDeleteTransaction(id: string, deletedBy: string | null): Promise<Transaction | undefined> {
+    const [deleted] = await db
+      .update(transactions)
+      .set({ deletedAt: new Date(), deletedBy, version: sql`${transactions.version} + 1` })
+      .where(and(eq(transactions.id, id), isNull(transactions.deletedAt)))
+      .returning();
+    return deleted;
+  }
+
+  async restoreTransaction(id: string): Promise<Transaction | undefined> {
+    const [restored] = await db
+      .update(transactions)
+      .set({ deletedAt: null, deletedBy: null, version: sql`${transactions.version} + 1` })
+      .where(and(eq(transactions.id, id), isNotNull(transactions.deletedAt)))
+      .returning();
+    return restored;
+  }
+
+  async getDeletedTransaction(id: string): Promise<Transaction | undefined> {
+    const [transaction] = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.id, id), isNotNull(transactions.deletedAt)));
+    return transaction;
+  }
+
+  async getDeletedTransactions(userId?: string, userEmail?: string, teamOwnerIds: string[] = []): Promise<Transaction[]> {
+    const visibility = await this.buildVisibilityCondition(userId, userEmail, teamOwnerIds);
+    return await db
+      .select()
+      .from(transactions)
+      .where(and(visibility, isNotNull(transactions.deletedAt)))
+      .orderBy(desc(transactions.deletedAt));
+  }
+
+  async getTransactionsDeletedBefore(cutoff: Date): Promise<Transaction[]> {
+    return await db
+      .select()
+      .from(transactions)
+      .where(and(isNotNull(transactions.deletedAt), lt(transactions.deletedAt, cutoff)));
+  }
+
+  /**
+   * Permanently remove a transaction and every row that hangs off it. Audit log
+   * entries are kept. Files in object storage and Slack/Gmail are the caller's job.
+   */
+  async purgeTransaction(id: string): Promise<TransactionPurgeCounts> {
+    return await db.transaction(async (tx) => {
+      const removed = async (table: typeof activities | typeof contractDocuments | typeof transactionPhotos | typeof marketingAssets | typeof flyers) => {
+        const rows = await tx.delete(table).where(eq(table.transactionId, id)).returning({ id: table.id });
+        return rows.length;
+      };
+
+      const counts: TransactionPurgeCounts = {
+        activities: await removed(activities),
+        documents: await removed(contractDocuments),
+        photos: await removed(transactionPhotos),
+        marketingAssets: await removed(marketingAssets),
+        flyers: await removed(flyers),
+        notes: 0,
+      };
+
+      const notes = await tx.delete(transactionNotes).where(eq(transactionNotes.transactionId, id)).returning({ id: transactionNotes.id });
+      if (notes.length > 0) {
+        await tx.delete(transactionNoteRevisions).where(inArray(transactionNoteRevisions.noteId, notes.map(note => note.id)));
+      }
+      counts.notes = notes.length;
+
+      await tx.delete(transactionContacts).where(eq(transactionContacts.transactionId, id));
+      await tx.delete(transactionTasks).where(eq(transactionTasks.transactionId, id));
+      await tx.delete(transactionDeadlines).where(eq(transactionDeadlines.transactionId, id));
+      await tx.delete(transactionVersions).where(eq(transactionVersions.transactionId, id));
+      await tx.delete(notificationSettings).where(eq(notificationSettings.transactionId, id));
+      await tx.delete(sentNotifications).where(eq(sentNotifications.transactionId, id));
+      await tx.delete(calendarFeeds).where(eq(calendarFeeds.transactionId, id));
+      await tx.delete(openHouses).where(eq(openHouses.transactionId, id));
+      await tx.delete(offers).where(eq(offers.transactionId, id));
+      await tx.delete(netSheets).where(eq(netSheets.transactionId, id));
+      await tx.delete(mlsListingHistory).where(eq(mlsListingHistory.transactionId, id));
+      await tx.delete(mlsSyncResults).where(eq(mlsSyncResults.transactionId, id));
+      await tx.delete(transactions).where(eq(transactions.id, id));
+
+      return counts;
+    });
   }
 
   // Coordinators
@@ -397,6 +1231,719 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  // Checklist Templates
+  async getChecklistTemplates(): Promise<ChecklistTemplate[]> {
+    return await db
+      .select()
+      .from(checklistTemplates)
+      .orderBy(checklistTemplates.transactionType, checklistTemplates.status, checklistTemplates.name);
+  }
+
+  async getChecklistTemplate(id: string): Promise<ChecklistTemplate | undefined> {
+    const [template] = await db.select().from(checklistTemplates).where(eq(checklistTemplates.id, id));
+    return template;
+  }
+
+  async getActiveChecklistTemplates(transactionType: string, status: string): Promise<ChecklistTemplate[]> {
+    return await db
+      .select()
+      .from(checklistTemplates)
+      .where(
+        and(
+          eq(checklistTemplates.transactionType, transactionType),
+          eq(checklistTemplates.status, status),
+          eq(checklistTemplates.isActive, true)
+        )
+      );
+  }
+
+  async createChecklistTemplate(template: InsertChecklistTemplate): Promise<ChecklistTemplate> {
+    const [created] = await db.insert(checklistTemplates).values(template).returning();
+    return created;
+  }
+
+  async updateChecklistTemplate(id: string, update: Partial<InsertChecklistTemplate>): Promise<ChecklistTemplate | undefined> {
+    const [updated] = await db
+      .update(checklistTemplates)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(checklistTemplates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteChecklistTemplate(id: string): Promise<boolean> {
+    const deleted = await db.delete(checklistTemplates).where(eq(checklistTemplates.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Auto-Archive
+  async getAutoArchiveRules(): Promise<AutoArchiveRule[]> {
+    return await db.select().from(autoArchiveRules).orderBy(autoArchiveRules.status);
+  }
+
+  async upsertAutoArchiveRule(rule: InsertAutoArchiveRule, updatedBy: string | null): Promise<AutoArchiveRule> {
+    const [saved] = await db
+      .insert(autoArchiveRules)
+      .values({ ...rule, updatedBy })
+      .onConflictDoUpdate({
+        target: autoArchiveRules.status,
+        set: { ...rule, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  /**
+   * Fill in statusChangedAt for rows saved before it was tracked, from the last
+   * status_changed timeline entry into their current status. Rows with no such
+   * entry stay null. Returns how many rows were filled.
+   */
+  async backfillStatusChangedAt(): Promise<number> {
+    const filled = await db
+      .update(transactions)
+      .set({ statusChangedAt: lastStatusChangeFromTimeline() })
+      .where(and(isNull(transactions.statusChangedAt), sql`${lastStatusChangeFromTimeline()} IS NOT NULL`))
+      .returning({ id: transactions.id });
+    return filled.length;
+  }
+
+  // The same timeline lookup as backfillStatusChangedAt, without writing it
+  async getStatusChangeTimesFromTimeline(transactionIds: string[]): Promise<Map<string, Date>> {
+    if (transactionIds.length === 0) return new Map();
+    const rows = await db
+      .select({ id: transactions.id, changedAt: sql<Date | null>`max(${activities.createdAt})` })
+      .from(transactions)
+      .innerJoin(activities, and(eq(activities.transactionId, transactions.id), isEntryIntoCurrentStatus()))
+      .where(inArray(transactions.id, transactionIds))
+      .groupBy(transactions.id);
+    return new Map(
+      rows.filter(row => row.changedAt).map(row => [row.id, new Date(row.changedAt!)] as [string, Date])
+    );
+  }
+
+  async getUnarchivedTransactionsByStatus(statuses: string[]): Promise<Transaction[]> {
+    if (statuses.length === 0) return [];
+    return await db
+      .select()
+      .from(transactions)
+      .where(and(
+        inArray(transactions.status, statuses),
+        or(eq(transactions.isArchived, false), isNull(transactions.isArchived)),
+        isNull(transactions.deletedAt),
+      ));
+  }
+
+  // Transaction Tasks
+  async getTasksByTransaction(transactionId: string): Promise<TransactionTask[]> {
+    return await db
+      .select()
+      .from(transactionTasks)
+      .where(eq(transactionTasks.transactionId, transactionId))
+      .orderBy(transactionTasks.sortOrder, transactionTasks.createdAt);
+  }
+
+  async getTask(id: string): Promise<TransactionTask | undefined> {
+    const [task] = await db.select().from(transactionTasks).where(eq(transactionTasks.id, id));
+    return task;
+  }
+
+  async createTask(task: InsertTransactionTask): Promise<TransactionTask> {
+    const [created] = await db.insert(transactionTasks).values(task).returning();
+    return created;
+  }
+
+  async createTasks(tasks: InsertTransactionTask[]): Promise<TransactionTask[]> {
+    if (tasks.length === 0) return [];
+    return await db.insert(transactionTasks).values(tasks).returning();
+  }
+
+  async updateTask(id: string, update: Partial<InsertTransactionTask>): Promise<TransactionTask | undefined> {
+    const [updated] = await db
+      .update(transactionTasks)
+      .set(update)
+      .where(eq(transactionTasks.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTask(id: string): Promise<boolean> {
+    const deleted = await db.delete(transactionTasks).where(eq(transactionTasks.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Transaction Notes
+  async getNotesByTransaction(transactionId: string): Promise<TransactionNote[]> {
+    return await db
+      .select()
+      .from(transactionNotes)
+      .where(eq(transactionNotes.transactionId, transactionId))
+      .orderBy(transactionNotes.createdAt);
+  }
+
+  async getNote(id: string): Promise<TransactionNote | undefined> {
+    const [note] = await db.select().from(transactionNotes).where(eq(transactionNotes.id, id));
+    return note;
+  }
+
+  async createNote(note: InsertTransactionNote, mentions: NoteMention[]): Promise<TransactionNote> {
+    const [created] = await db.insert(transactionNotes).values({ ...note, mentions }).returning();
+    return created;
+  }
+
+  // Saves the old body as an 'edit' revision in the same database transaction
+  async updateNote(id: string, body: string, mentions: NoteMention[], changedBy: string | null): Promise<TransactionNote | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(transactionNotes).where(and(eq(transactionNotes.id, id), isNull(transactionNotes.deletedAt)));
+      if (!current) return undefined;
+
+      await tx.insert(transactionNoteRevisions).values({ noteId: id, action: 'edit', body: current.body, changedBy });
+      const [updated] = await tx
+        .update(transactionNotes)
+        .set({ body, mentions, editedAt: new Date() })
+        .where(eq(transactionNotes.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Clears the body (kept as a 'delete' revision) so replies keep their place in the thread
+  async deleteNote(id: string, changedBy: string | null): Promise<TransactionNote | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(transactionNotes).where(and(eq(transactionNotes.id, id), isNull(transactionNotes.deletedAt)));
+      if (!current) return undefined;
+
+      await tx.insert(transactionNoteRevisions).values({ noteId: id, action: 'delete', body: current.body, changedBy });
+      const [deleted] = await tx
+        .update(transactionNotes)
+        .set({ body: '', mentions: [], deletedAt: new Date() })
+        .where(eq(transactionNotes.id, id))
+        .returning();
+      return deleted;
+    });
+  }
+
+  async getNoteRevisions(noteId: string): Promise<TransactionNoteRevision[]> {
+    return await db
+      .select()
+      .from(transactionNoteRevisions)
+      .where(eq(transactionNoteRevisions.noteId, noteId))
+      .orderBy(desc(transactionNoteRevisions.createdAt));
+  }
+
+  // Transaction Deadlines
+  async getDeadlinesByTransaction(transactionId: string): Promise<TransactionDeadline[]> {
+    return await db
+      .select()
+      .from(transactionDeadlines)
+      .where(eq(transactionDeadlines.transactionId, transactionId))
+      .orderBy(sql`${transactionDeadlines.dueDate} ASC NULLS LAST`, transactionDeadlines.createdAt);
+  }
+
+  async getDeadline(id: string): Promise<TransactionDeadline | undefined> {
+    const [deadline] = await db.select().from(transactionDeadlines).where(eq(transactionDeadlines.id, id));
+    return deadline;
+  }
+
+  async getOpenDeadlines(): Promise<TransactionDeadline[]> {
+    // Upcoming deadlines with a resolved due date - used by the reminder scheduler
+    return await db
+      .select()
+      .from(transactionDeadlines)
+      .where(and(
+        eq(transactionDeadlines.status, "upcoming"),
+        sql`${transactionDeadlines.dueDate} IS NOT NULL`
+      ));
+  }
+
+  async createDeadline(deadline: InsertTransactionDeadline): Promise<TransactionDeadline> {
+    const [created] = await db.insert(transactionDeadlines).values(deadline).returning();
+    return created;
+  }
+
+  async createDeadlines(deadlines: InsertTransactionDeadline[]): Promise<TransactionDeadline[]> {
+    if (deadlines.length === 0) return [];
+    return await db.insert(transactionDeadlines).values(deadlines).returning();
+  }
+
+  async updateDeadline(id: string, update: Partial<InsertTransactionDeadline>): Promise<TransactionDeadline | undefined> {
+    const [updated] = await db
+      .update(transactionDeadlines)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(transactionDeadlines.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteDeadline(id: string): Promise<boolean> {
+    const deleted = await db.delete(transactionDeadlines).where(eq(transactionDeadlines.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Transaction Contacts
+  async getContactsByTransaction(transactionId: string): Promise<TransactionContact[]> {
+    return await db
+      .select()
+      .from(transactionContacts)
+      .where(eq(transactionContacts.transactionId, transactionId))
+      .orderBy(transactionContacts.role, transactionContacts.createdAt);
+  }
+
+  async getContact(id: string): Promise<TransactionContact | undefined> {
+    const [contact] = await db.select().from(transactionContacts).where(eq(transactionContacts.id, id));
+    return contact;
+  }
+
+  async createContact(contact: InsertTransactionContact): Promise<TransactionContact> {
+    const [created] = await db.insert(transactionContacts).values(contact).returning();
+    return created;
+  }
+
+  async updateContact(id: string, update: Partial<InsertTransactionContact>): Promise<TransactionContact | undefined> {
+    const [updated] = await db
+      .update(transactionContacts)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(transactionContacts.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteContact(id: string): Promise<boolean> {
+    const deleted = await db.delete(transactionContacts).where(eq(transactionContacts.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Open Houses
+  async getOpenHousesByTransaction(transactionId: string): Promise<OpenHouse[]> {
+    return await db
+      .select()
+      .from(openHouses)
+      .where(eq(openHouses.transactionId, transactionId))
+      .orderBy(openHouses.date, openHouses.startTime);
+  }
+
+  async getOpenHousesByTransactionIds(transactionIds: string[]): Promise<OpenHouse[]> {
+    if (transactionIds.length === 0) return [];
+    return await db
+      .select()
+      .from(openHouses)
+      .where(inArray(openHouses.transactionId, transactionIds))
+      .orderBy(openHouses.date, openHouses.startTime);
+  }
+
+  async getOpenHouse(id: string): Promise<OpenHouse | undefined> {
+    const [openHouse] = await db.select().from(openHouses).where(eq(openHouses.id, id));
+    return openHouse;
+  }
+
+  async createOpenHouse(openHouse: InsertOpenHouse): Promise<OpenHouse> {
+    const [created] = await db.insert(openHouses).values(openHouse).returning();
+    return created;
+  }
+
+  async updateOpenHouse(id: string, update: Partial<InsertOpenHouse> & { slackPostedAt?: Date | null }): Promise<OpenHouse | undefined> {
+    const [updated] = await db
+      .update(openHouses)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(openHouses.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteOpenHouse(id: string): Promise<boolean> {
+    const deleted = await db.delete(openHouses).where(eq(openHouses.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Open houses dated fromDate..toDate (YYYY-MM-DD, inclusive) that haven't been announced yet
+  async getOpenHousesAwaitingSlackPost(fromDate: string, toDate: string): Promise<OpenHouse[]> {
+    return await db
+      .select()
+      .from(openHouses)
+      .where(and(
+        isNull(openHouses.slackPostedAt),
+        gte(openHouses.date, fromDate),
+        lte(openHouses.date, toDate),
+      ))
+      .orderBy(openHouses.date, openHouses.startTime);
+  }
+
+  async markOpenHouseSlackPosted(id: string): Promise<void> {
+    await db.update(openHouses).set({ slackPostedAt: new Date() }).where(eq(openHouses.id, id));
+  }
+
+  // Offers
+  async getOffersByTransaction(transactionId: string): Promise<Offer[]> {
+    return await db
+      .select()
+      .from(offers)
+      .where(eq(offers.transactionId, transactionId))
+      .orderBy(desc(offers.createdAt));
+  }
+
+  async getOffer(id: string): Promise<Offer | undefined> {
+    const [offer] = await db.select().from(offers).where(eq(offers.id, id));
+    return offer;
+  }
+
+  async createOffer(offer: InsertOffer): Promise<Offer> {
+    const [created] = await db.insert(offers).values({ ...offer, statusChangedAt: new Date() }).returning();
+    return created;
+  }
+
+  // statusChangedAt follows status
+  async updateOffer(id: string, update: Partial<InsertOffer>): Promise<Offer | undefined> {
+    const [updated] = await db
+      .update(offers)
+      .set({ ...update, ...(update.status !== undefined && { statusChangedAt: new Date() }), updatedAt: new Date() })
+      .where(eq(offers.id, id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Mark an offer accepted only if it's still open. Undefined when it isn't, or when
+   * another offer on the transaction got accepted first (UQ_offers_accepted).
+   */
+  async acceptOffer(id: string): Promise<Offer | undefined> {
+    try {
+      const [accepted] = await db
+        .update(offers)
+        .set({ status: "accepted", statusChangedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(offers.id, id), inArray(offers.status, [...OPEN_OFFER_STATUSES])))
+        .returning();
+      return accepted;
+    } catch (error: any) {
+      if (error?.code === '23505') return undefined;
+      throw error;
+    }
+  }
+
+  async deleteOffer(id: string): Promise<boolean> {
+    const deleted = await db.delete(offers).where(eq(offers.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Net Sheets
+  async getNetSheetFeeSchedules(): Promise<NetSheetFeeSchedule[]> {
+    return await db.select().from(netSheetFeeSchedules).orderBy(netSheetFeeSchedules.name);
+  }
+
+  async getNetSheetFeeSchedule(id: string): Promise<NetSheetFeeSchedule | undefined> {
+    const [schedule] = await db.select().from(netSheetFeeSchedules).where(eq(netSheetFeeSchedules.id, id));
+    return schedule;
+  }
+
+  async getDefaultNetSheetFeeSchedule(): Promise<NetSheetFeeSchedule | undefined> {
+    const [schedule] = await db.select().from(netSheetFeeSchedules).where(eq(netSheetFeeSchedules.isDefault, true));
+    return schedule;
+  }
+
+  // Only one schedule is the default - making one the default clears the flag on the rest
+  async createNetSheetFeeSchedule(schedule: InsertNetSheetFeeSchedule): Promise<NetSheetFeeSchedule> {
+    return await db.transaction(async (tx) => {
+      if (schedule.isDefault) {
+        await tx.update(netSheetFeeSchedules).set({ isDefault: false }).where(eq(netSheetFeeSchedules.isDefault, true));
+      }
+      const [created] = await tx.insert(netSheetFeeSchedules).values(schedule).returning();
+      return created;
+    });
+  }
+
+  async updateNetSheetFeeSchedule(id: string, update: Partial<InsertNetSheetFeeSchedule>): Promise<NetSheetFeeSchedule | undefined> {
+    return await db.transaction(async (tx) => {
+      if (update.isDefault) {
+        await tx.update(netSheetFeeSchedules).set({ isDefault: false }).where(and(eq(netSheetFeeSchedules.isDefault, true), ne(netSheetFeeSchedules.id, id)));
+      }
+      const [updated] = await tx
+        .update(netSheetFeeSchedules)
+        .set({ ...update, updatedAt: new Date() })
+        .where(eq(netSheetFeeSchedules.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async deleteNetSheetFeeSchedule(id: string): Promise<boolean> {
+    const deleted = await db.delete(netSheetFeeSchedules).where(eq(netSheetFeeSchedules.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Newest version first
+  async getNetSheetsByTransaction(transactionId: string): Promise<NetSheet[]> {
+    return await db
+      .select()
+      .from(netSheets)
+      .where(eq(netSheets.transactionId, transactionId))
+      .orderBy(desc(netSheets.createdAt));
+  }
+
+  async getNetSheet(id: string): Promise<NetSheet | undefined> {
+    const [sheet] = await db.select().from(netSheets).where(eq(netSheets.id, id));
+    return sheet;
+  }
+
+  async createNetSheetVersion(sheet: Omit<InsertNetSheet, "version">): Promise<NetSheet> {
+    return await db.transaction(async (tx) => {
+      const [latest] = await tx
+        .select({ version: sql<number>`coalesce(max(${netSheets.version}), 0)` })
+        .from(netSheets)
+        .where(and(eq(netSheets.transactionId, sheet.transactionId), eq(netSheets.type, sheet.type)));
+      const [created] = await tx
+        .insert(netSheets)
+        .values({ ...sheet, version: Number(latest?.version ?? 0) + 1 })
+        .returning();
+      return created;
+    });
+  }
+
+  // MLS Listing History - oldest first, for charting
+  async getMLSListingHistory(transactionId: string): Promise<MLSListingHistoryEntry[]> {
+    return await db
+      .select()
+      .from(mlsListingHistory)
+      .where(eq(mlsListingHistory.transactionId, transactionId))
+      .orderBy(mlsListingHistory.capturedAt);
+  }
+
+  async createMLSListingHistoryEntry(entry: InsertMLSListingHistoryEntry): Promise<MLSListingHistoryEntry> {
+    const [created] = await db.insert(mlsListingHistory).values(entry).returning();
+    return created;
+  }
+
+  // MLS Listing Cache
+  async getMLSListingCacheEntry(cacheKey: string): Promise<MLSListingCacheEntry | undefined> {
+    const [entry] = await db.select().from(mlsListingCache).where(eq(mlsListingCache.cacheKey, cacheKey));
+    return entry;
+  }
+
+  async upsertMLSListingCacheEntry(entry: InsertMLSListingCacheEntry): Promise<MLSListingCacheEntry> {
+    const [saved] = await db
+      .insert(mlsListingCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: mlsListingCache.cacheKey,
+        set: { status: entry.status, data: entry.data, fetchedAt: entry.fetchedAt },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getMLSListingCacheSize(): Promise<{ entries: number; oldestFetchedAt: Date | null }> {
+    const [row] = await db
+      .select({
+        entries: sql<number>`count(*)::int`,
+        oldestFetchedAt: sql<Date | null>`min(${mlsListingCache.fetchedAt})`,
+      })
+      .from(mlsListingCache);
+    return { entries: row?.entries ?? 0, oldestFetchedAt: row?.oldestFetchedAt ? new Date(row.oldestFetchedAt) : null };
+  }
+
+  // Closed listings are fetched before closedBefore, everything else before activeBefore
+  async deleteExpiredMLSListingCacheEntries(activeBefore: Date, closedBefore: Date): Promise<number> {
+    const isClosed = inArray(sql`coalesce(lower(${mlsListingCache.status}), '')`, CLOSED_LISTING_STATUSES);
+    const deleted = await db
+      .delete(mlsListingCache)
+      .where(or(
+        and(isClosed, lt(mlsListingCache.fetchedAt, closedBefore)),
+        and(sql`not ${isClosed}`, lt(mlsListingCache.fetchedAt, activeBefore))
+      ))
+      .returning({ cacheKey: mlsListingCache.cacheKey });
+    return deleted.length;
+  }
+
+  // MLS Sync Runs - newest first
+  async getMLSSyncRuns(limit: number): Promise<MLSSyncRun[]> {
+    return await db.select().from(mlsSyncRuns).orderBy(desc(mlsSyncRuns.startedAt)).limit(limit);
+  }
+
+  async getMLSSyncRun(id: string): Promise<MLSSyncRun | undefined> {
+    const [run] = await db.select().from(mlsSyncRuns).where(eq(mlsSyncRuns.id, id));
+    return run;
+  }
+
+  async createMLSSyncRun(run: InsertMLSSyncRun): Promise<MLSSyncRun> {
+    const [created] = await db.insert(mlsSyncRuns).values(run).returning();
+    return created;
+  }
+
+  async updateMLSSyncRun(id: string, update: Partial<InsertMLSSyncRun>): Promise<MLSSyncRun | undefined> {
+    const [updated] = await db.update(mlsSyncRuns).set(update).where(eq(mlsSyncRuns.id, id)).returning();
+    return updated;
+  }
+
+  // Runs still marked running when the server starts were cut off by a restart
+  async failInterruptedMLSSyncRuns(): Promise<number> {
+    const updated = await db
+      .update(mlsSyncRuns)
+      .set({ status: "failed", error: "Interrupted by a server restart", finishedAt: new Date() })
+      .where(eq(mlsSyncRuns.status, "running"))
+      .returning({ id: mlsSyncRuns.id });
+    return updated.length;
+  }
+
+  async getMLSSyncResultsByRun(runId: string): Promise<MLSSyncResult[]> {
+    return await db.select().from(mlsSyncResults).where(eq(mlsSyncResults.runId, runId)).orderBy(mlsSyncResults.createdAt);
+  }
+
+  // The most recent result for each transaction, for backoff decisions
+  async getLatestMLSSyncResults(transactionIds: string[]): Promise<MLSSyncResult[]> {
+    if (transactionIds.length === 0) return [];
+    return await db
+      .selectDistinctOn([mlsSyncResults.transactionId])
+      .from(mlsSyncResults)
+      .where(inArray(mlsSyncResults.transactionId, transactionIds))
+      .orderBy(mlsSyncResults.transactionId, desc(mlsSyncResults.createdAt));
+  }
+
+  async createMLSSyncResult(result: InsertMLSSyncResult): Promise<MLSSyncResult> {
+    const [created] = await db.insert(mlsSyncResults).values(result).returning();
+    return created;
+  }
+
+  // Transaction Versions
+  // version is the transaction's version after the edit, so history lines up with If-Match
+  async createTransactionVersion(transactionId: string, version: number, changes: FieldChange[], meta: TransactionVersionMeta): Promise<TransactionVersion[]> {
+    if (changes.length === 0) return [];
+    return await db
+      .insert(transactionVersions)
+      .values(changes.map(change => ({
+        transactionId,
+        version,
+        field: change.field,
+        oldValue: change.oldValue,
+        newValue: change.newValue,
+        source: meta.source,
+        revertedVersionId: meta.revertedVersionId || null,
+        changedBy: meta.changedBy || null,
+        changedByEmail: meta.changedByEmail || null,
+        requestId: meta.requestId || null,
+      })))
+      .returning();
+  }
+
+  async getTransactionVersions(transactionId: string): Promise<TransactionVersion[]> {
+    return await db
+      .select()
+      .from(transactionVersions)
+      .where(eq(transactionVersions.transactionId, transactionId))
+      .orderBy(desc(transactionVersions.version), transactionVersions.field);
+  }
+
+  async getTransactionVersionChange(id: string): Promise<TransactionVersion | undefined> {
+    const [change] = await db.select().from(transactionVersions).where(eq(transactionVersions.id, id));
+    return change;
+  }
+
+  async getAuditLogsByRequestIds(requestIds: string[]): Promise<AuditLog[]> {
+    if (requestIds.length === 0) return [];
+    return await db.select().from(auditLogs).where(inArray(auditLogs.requestId, requestIds));
+  }
+
+  // Organizations & Teams
+  async getOrganizations(): Promise<Organization[]> {
+    return await db.select().from(organizations).orderBy(organizations.name);
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async createOrganization(organization: InsertOrganization): Promise<Organization> {
+    const [created] = await db.insert(organizations).values(organization).returning();
+    return created;
+  }
+
+  async updateOrganization(id: string, update: Partial<InsertOrganization>): Promise<Organization | undefined> {
+    const [updated] = await db
+      .update(organizations)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteOrganization(id: string): Promise<boolean> {
+    await db.delete(organizationMembers).where(eq(organizationMembers.organizationId, id));
+    await db.delete(teams).where(eq(teams.organizationId, id));
+    const deleted = await db.delete(organizations).where(eq(organizations.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getTeamsByOrganization(organizationId: string): Promise<Team[]> {
+    return await db.select().from(teams).where(eq(teams.organizationId, organizationId)).orderBy(teams.name);
+  }
+
+  async getTeam(id: string): Promise<Team | undefined> {
+    const [team] = await db.select().from(teams).where(eq(teams.id, id));
+    return team;
+  }
+
+  async createTeam(team: InsertTeam): Promise<Team> {
+    const [created] = await db.insert(teams).values(team).returning();
+    return created;
+  }
+
+  async updateTeam(id: string, update: Partial<InsertTeam>): Promise<Team | undefined> {
+    const [updated] = await db
+      .update(teams)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(teams.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTeam(id: string): Promise<boolean> {
+    // Members stay in the organization, just off the team
+    await db
+      .update(organizationMembers)
+      .set({ teamId: null, updatedAt: new Date() })
+      .where(eq(organizationMembers.teamId, id));
+    const deleted = await db.delete(teams).where(eq(teams.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]> {
+    return await db
+      .select()
+      .from(organizationMembers)
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(organizationMembers.createdAt);
+  }
+
+  async getMembershipsByUser(userId: string): Promise<OrganizationMember[]> {
+    return await db.select().from(organizationMembers).where(eq(organizationMembers.userId, userId));
+  }
+
+  async getMembershipsByTeams(teamIds: string[]): Promise<OrganizationMember[]> {
+    if (teamIds.length === 0) return [];
+    return await db.select().from(organizationMembers).where(inArray(organizationMembers.teamId, teamIds));
+  }
+
+  async getOrganizationMember(id: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db.select().from(organizationMembers).where(eq(organizationMembers.id, id));
+    return member;
+  }
+
+  async createOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember> {
+    const [created] = await db.insert(organizationMembers).values(member).returning();
+    return created;
+  }
+
+  async updateOrganizationMember(id: string, update: Partial<InsertOrganizationMember>): Promise<OrganizationMember | undefined> {
+    const [updated] = await db
+      .update(organizationMembers)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(organizationMembers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteOrganizationMember(id: string): Promise<boolean> {
+    const deleted = await db.delete(organizationMembers).where(eq(organizationMembers.id, id)).returning();
+    return deleted.length > 0;
+  }
+
   // Notification Settings
   async getNotificationSettings(userId: string, transactionId?: string | null): Promise<NotificationSetting | undefined> {
     // First try to get transaction-specific settings if transactionId is provided
@@ -465,6 +2012,7 @@ export class DatabaseStorage implements IStorage {
     // Get all transactions that have a closing date and a Slack channel
     const results = await db.select().from(transactions);
     return results.filter(t => 
+      !t.deletedAt &&
       t.closingDate && 
       t.slackChannelId && 
       t.status !== 'closed' && 
@@ -610,6 +2158,37 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Calendar Feeds
+  async getCalendarFeedsByUser(userId: string): Promise<CalendarFeed[]> {
+    return await db
+      .select()
+      .from(calendarFeeds)
+      .where(eq(calendarFeeds.userId, userId))
+      .orderBy(desc(calendarFeeds.createdAt));
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+
+  async createCalendarFeed(feed: InsertCalendarFeed): Promise<CalendarFeed> {
+    const [created] = await db.insert(calendarFeeds).values(feed).returning();
+    return created;
+  }
+
+  async deleteCalendarFeed(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(calendarFeeds)
+      .where(and(eq(calendarFeeds.id, id), eq(calendarFeeds.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async markCalendarFeedAccessed(id: string): Promise<void> {
+    await db.update(calendarFeeds).set({ lastAccessedAt: new Date() }).where(eq(calendarFeeds.id, id));
+  }
+
   // Agent Marketing Profiles
   async getAgentMarketingProfile(userId: string): Promise<AgentMarketingProfile | undefined> {
     const [profile] = await db
@@ -692,6 +2271,28 @@ export class DatabaseStorage implements IStorage {
         .where(eq(flyers.id, id));
     }
   }
+
+  // Production Reports
+  async getActivitiesCreatedBetween(from: Date, to: Date): Promise<ActivitySummary[]> {
+    return await db
+      .select({ transactionId: activities.transactionId, type: activities.type, createdAt: activities.createdAt })
+      .from(activities)
+      .where(and(gte(activities.createdAt, from), lt(activities.createdAt, to)));
+  }
+
+  async getMarketingAssetsCreatedBetween(from: Date, to: Date): Promise<MarketingAssetSummary[]> {
+    return await db
+      .select({ transactionId: marketingAssets.transactionId, type: marketingAssets.type, createdAt: marketingAssets.createdAt })
+      .from(marketingAssets)
+      .where(and(gte(marketingAssets.createdAt, from), lt(marketingAssets.createdAt, to)));
+  }
+
+  async getFlyersCreatedBetween(from: Date, to: Date): Promise<FlyerSummary[]> {
+    return await db
+      .select({ id: flyers.id, transactionId: flyers.transactionId, userId: flyers.userId, createdAt: flyers.createdAt })
+      .from(flyers)
+      .where(and(gte(flyers.createdAt, from), lt(flyers.createdAt, to)));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,64 @@
+// Auto-archive policy matching, shared by the nightly job and the admin dry-run preview
+
+import { autoArchiveStatuses, type Transaction } from "../schema";
+
+export type AutoArchiveStatus = typeof autoArchiveStatuses[number];
+
+export const DEFAULT_DAYS_AFTER_STATUS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AutoArchiveRuleSettings {
+  status: AutoArchiveStatus;
+  daysAfterStatus: number;
+  isActive: boolean;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export interface AutoArchivePolicy {
+  rules: AutoArchiveRuleSettings[];
+  // Whether AUTO_ARCHIVE_SLACK_CHANNEL_ID is set, so runs post a summary
+  slackSummary: boolean;
+}
+
+export interface AutoArchiveCandidate {
+  id: string;
+  propertyAddress: string;
+  status: string;
+  statusChangedAt: string;
+  archiveOn: string;
+}
+
+export interface AutoArchiveRunResult {
+  dryRun: boolean;
+  ranAt: string;
+  candidates: AutoArchiveCandidate[];
+  archived: number;
+  failed: number;
+}
+
+export function isAutoArchiveStatus(status: string): status is AutoArchiveStatus {
+  return (autoArchiveStatuses as readonly string[]).includes(status);
+}
+
+/**
+ * When the transaction reached its current status. Closed deals from before
+ * statusChangedAt was tracked fall back to the closing date; anything else without
+ * it is unknown (null) and never auto-archived - creation date says nothing about
+ * when a deal was cancelled.
+ */
+export function getStatusChangedAt(
+  transaction: Pick<Transaction, "status" | "statusChangedAt" | "closingDate">
+): Date | null {
+  if (transaction.statusChangedAt) return new Date(transaction.statusChangedAt);
+  if (transaction.status === "closed" && transaction.closingDate) {
+    const closing = new Date(transaction.closingDate);
+    if (!isNaN(closing.getTime())) return closing;
+  }
+  return null;
+}
+
+export function getAutoArchiveDate(statusChangedAt: Date | string, daysAfterStatus: number): Date {
+  return new Date(new Date(statusChangedAt).getTime() + daysAfterStatus * DAY_MS);
+}
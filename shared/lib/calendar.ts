@@ -0,0 +1,101 @@
+// Calendar events for a transaction, shared by the .ics feeds and the in-app calendar
+
+import type { OpenHouse, Transaction } from "../schema";
+import { formatOpenHouseTimeRange } from "./open-houses";
+
+export const calendarEventTypes = ["contract", "closing", "go_live", "photography", "open_house"] as const;
+export type CalendarEventType = typeof calendarEventTypes[number];
+
+export const CALENDAR_EVENT_LABELS: Record<CalendarEventType, string> = {
+  contract: "Contract",
+  closing: "Closing",
+  go_live: "Go Live",
+  photography: "Photography",
+  open_house: "Open House",
+};
+
+export interface CalendarEvent {
+  id: string; // stable across feed refreshes: transactionId:type, plus :openHouseId for open houses
+  transactionId: string;
+  type: CalendarEventType;
+  title: string;
+  date: string; // YYYY-MM-DD
+  startTime?: string; // HH:MM, only on timed events
+  endTime?: string;
+  description?: string;
+  propertyAddress: string;
+  status: string;
+  slackChannelId: string | null;
+}
+
+export interface CalendarFeedSummary {
+  id: string;
+  url: string;
+  transactionId: string | null;
+  propertyAddress: string | null;
+  statuses: string[];
+  createdAt: string | null;
+  lastAccessedAt: string | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+type CalendarTransaction = Pick<
+  Transaction,
+  "id" | "propertyAddress" | "status" | "slackChannelId" | "contractDate" | "closingDate" | "goLiveDate" | "photographyAppointmentDate"
+>;
+
+type TransactionDateEventType = Exclude<CalendarEventType, "open_house">;
+
+const EVENT_DATE_FIELDS: Record<TransactionDateEventType, keyof CalendarTransaction> = {
+  contract: "contractDate",
+  closing: "closingDate",
+  go_live: "goLiveDate",
+  photography: "photographyAppointmentDate",
+};
+
+export function getSlackChannelUrl(channelId: string): string {
+  return `https://slack.com/app_redirect?channel=${channelId}`;
+}
+
+// One event per date the transaction has set; values that aren't dates are skipped
+export function getTransactionCalendarEvents(transaction: CalendarTransaction): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  for (const type of Object.keys(EVENT_DATE_FIELDS) as TransactionDateEventType[]) {
+    const value = transaction[EVENT_DATE_FIELDS[type]];
+    if (typeof value !== "string" || !DATE_PATTERN.test(value)) continue;
+    events.push({
+      id: `${transaction.id}:${type}`,
+      transactionId: transaction.id,
+      type,
+      title: `${CALENDAR_EVENT_LABELS[type]}: ${transaction.propertyAddress}`,
+      date: value.slice(0, 10),
+      propertyAddress: transaction.propertyAddress,
+      status: transaction.status,
+      slackChannelId: transaction.slackChannelId,
+    });
+  }
+  return events;
+}
+
+// One timed event per open house on the transaction
+export function getOpenHouseCalendarEvents(
+  transaction: Pick<CalendarTransaction, "id" | "propertyAddress" | "status" | "slackChannelId">,
+  openHouses: Array<Pick<OpenHouse, "id" | "date" | "startTime" | "endTime" | "hostName">>
+): CalendarEvent[] {
+  return openHouses.map((openHouse) => ({
+    id: `${transaction.id}:open_house:${openHouse.id}`,
+    transactionId: transaction.id,
+    type: "open_house",
+    title: `${CALENDAR_EVENT_LABELS.open_house}: ${transaction.propertyAddress}`,
+    date: openHouse.date,
+    startTime: openHouse.startTime,
+    endTime: openHouse.endTime,
+    description: [formatOpenHouseTimeRange(openHouse), openHouse.hostName ? `Host: ${openHouse.hostName}` : null]
+      .filter(Boolean)
+      .join("\n"),
+    propertyAddress: transaction.propertyAddress,
+    status: transaction.status,
+    slackChannelId: transaction.slackChannelId,
+  }));
+}
@@ -0,0 +1,79 @@
+// GCI and agent/brokerage split, shared by the revenue reports and the commission card
+
+import type { Transaction } from "../schema";
+
+/**
+ * Agent share of GCI (after referral fees) when a transaction doesn't set its own.
+ * Company-generated leads carry a lower agent split than agent-sourced business.
+ */
+export const DEFAULT_AGENT_SPLIT_PERCENT = 70;
+export const COMPANY_LEAD_AGENT_SPLIT_PERCENT = 50;
+
+export type CommissionInput = Pick<
+  Transaction,
+  | "status"
+  | "listPrice"
+  | "salePrice"
+  | "isCompanyLead"
+  | "commissionType"
+  | "commissionPercent"
+  | "commissionFlat"
+  | "agentSplitPercent"
+  | "referralFeePercent"
+>;
+
+export interface CommissionBreakdown {
+  basePrice: number | null;
+  gci: number;
+  referralFee: number;
+  agentSplitPercent: number;
+  agentShare: number;
+  brokerageShare: number;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function getAgentSplitPercent(transaction: Pick<Transaction, "agentSplitPercent" | "isCompanyLead">): number {
+  if (transaction.agentSplitPercent !== null && transaction.agentSplitPercent !== undefined) {
+    return transaction.agentSplitPercent;
+  }
+  return transaction.isCompanyLead ? COMPANY_LEAD_AGENT_SPLIT_PERCENT : DEFAULT_AGENT_SPLIT_PERCENT;
+}
+
+/**
+ * Compute GCI and splits. Percent commissions use the sale price when known and
+ * fall back to the list price, so open deals still project revenue.
+ * Returns null when the transaction has no commission terms yet.
+ */
+export function calculateCommission(transaction: CommissionInput): CommissionBreakdown | null {
+  const basePrice = transaction.salePrice ?? transaction.listPrice ?? null;
+
+  let gci: number;
+  if (transaction.commissionType === "flat") {
+    if (!transaction.commissionFlat) return null;
+    gci = transaction.commissionFlat;
+  } else {
+    if (!transaction.commissionPercent || !basePrice) return null;
+    gci = basePrice * (transaction.commissionPercent / 100);
+  }
+
+  const referralFee = gci * ((transaction.referralFeePercent || 0) / 100);
+  const agentSplitPercent = getAgentSplitPercent(transaction);
+  const agentShare = (gci - referralFee) * (agentSplitPercent / 100);
+  const brokerageShare = gci - referralFee - agentShare;
+
+  return {
+    basePrice,
+    gci: roundCents(gci),
+    referralFee: roundCents(referralFee),
+    agentSplitPercent,
+    agentShare: roundCents(agentShare),
+    brokerageShare: roundCents(brokerageShare),
+  };
+}
+
+export function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(value);
+}
@@ -0,0 +1,105 @@
+// Contract deadline date math (YYYY-MM-DD strings) shared by the deadline engine and the deadline strip
+
+import type { DeadlineDayType, DeadlineStatus, DeadlineType } from "../schema";
+
+// Longest offset a deadline may have from the contract date
+export const MAX_DEADLINE_OFFSET_DAYS = 365;
+
+export interface DefaultDeadline {
+  type: DeadlineType;
+  label: string;
+  offsetDays: number;
+  dayType: DeadlineDayType;
+}
+
+/**
+ * Standard deadlines added to a transaction on request. Offsets follow the
+ * typical TREC resale contract; coordinators adjust per deal.
+ */
+export const DEFAULT_DEADLINES: DefaultDeadline[] = [
+  { type: "option", label: "Option Period", offsetDays: 7, dayType: "calendar" },
+  { type: "survey", label: "Survey", offsetDays: 10, dayType: "calendar" },
+  { type: "appraisal", label: "Appraisal", offsetDays: 14, dayType: "calendar" },
+  { type: "financing", label: "Financing Approval", offsetDays: 21, dayType: "calendar" },
+];
+
+export const DEADLINE_TYPE_LABELS: Record<DeadlineType, string> = {
+  option: "Option Period",
+  financing: "Financing",
+  appraisal: "Appraisal",
+  survey: "Survey",
+  inspection: "Inspection",
+  title: "Title Commitment",
+  other: "Other",
+};
+
+function parseDate(date: string): Date {
+  // Anchor at UTC midnight so day arithmetic isn't affected by local DST shifts
+  return new Date(`${date.split("T")[0]}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Add calendar or business days to a YYYY-MM-DD date.
+ * Business days skip Saturdays and Sundays (holidays are not accounted for).
+ */
+export function addDeadlineDays(date: string, days: number, dayType: DeadlineDayType = "calendar"): string {
+  const result = parseDate(date);
+
+  if (dayType === "calendar") {
+    result.setUTCDate(result.getUTCDate() + days);
+    return formatDate(result);
+  }
+
+  // One pass per day, so never walk further than a valid offset
+  const step = days >= 0 ? 1 : -1;
+  let remaining = Math.min(Math.abs(days), MAX_DEADLINE_OFFSET_DAYS);
+  while (remaining > 0) {
+    result.setUTCDate(result.getUTCDate() + step);
+    const dayOfWeek = result.getUTCDay();
+    if (dayOfWeek !== 0 && dayOfWeek !== 6) {
+      remaining--;
+    }
+  }
+  return formatDate(result);
+}
+
+/**
+ * Compute a deadline's due date from the contract date.
+ * Returns null when the contract date or offset is missing.
+ */
+export function computeDeadlineDueDate(
+  contractDate: string | null | undefined,
+  offsetDays: number | null | undefined,
+  dayType: DeadlineDayType = "calendar"
+): string | null {
+  if (!contractDate || offsetDays === null || offsetDays === undefined) return null;
+  return addDeadlineDays(contractDate, offsetDays, dayType);
+}
+
+/**
+ * Whole days from today until the given date (negative when past).
+ */
+export function getDaysUntil(date: string, today: Date = new Date()): number {
+  const todayStr = formatDate(new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())));
+  const diff = parseDate(date).getTime() - parseDate(todayStr).getTime();
+  return Math.round(diff / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * The status to display for a deadline. An upcoming deadline whose due date
+ * has passed is reported as missed even before the daily job persists it.
+ */
+export function getEffectiveDeadlineStatus(
+  deadline: { status: string; dueDate: string | null },
+  today: Date = new Date()
+): DeadlineStatus {
+  const status = deadline.status as DeadlineStatus;
+  if (status === "upcoming" && deadline.dueDate && getDaysUntil(deadline.dueDate, today) < 0) {
+    return "missed";
+  }
+  return status;
+}
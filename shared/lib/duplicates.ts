@@ -0,0 +1,89 @@
+// Duplicate transaction detection by normalized street address or MLS number
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: "st",
+  avenue: "ave",
+  av: "ave",
+  road: "rd",
+  drive: "dr",
+  lane: "ln",
+  boulevard: "blvd",
+  court: "ct",
+  circle: "cir",
+  place: "pl",
+  parkway: "pkwy",
+  highway: "hwy",
+  terrace: "ter",
+  trail: "trl",
+  cove: "cv",
+  way: "way",
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+  northeast: "ne",
+  northwest: "nw",
+  southeast: "se",
+  southwest: "sw",
+  apartment: "unit",
+  apt: "unit",
+  suite: "unit",
+  ste: "unit",
+};
+
+/**
+ * Normalize the street line of an address ("123 Main Street, Austin, TX" and
+ * "123 main st." both become "123 main st") so formatting differences between
+ * agents don't hide a duplicate.
+ */
+export function normalizeAddress(address: string | null | undefined): string {
+  if (!address) return "";
+  const streetLine = address.split(",")[0];
+  return streetLine
+    .toLowerCase()
+    .replace(/#/g, " unit ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => STREET_ABBREVIATIONS[word] || word)
+    .join(" ");
+}
+
+// MLS numbers are stored with and without the ACT prefix (see add-mls)
+export function normalizeMlsNumber(mlsNumber: string | null | undefined): string {
+  if (!mlsNumber) return "";
+  return mlsNumber.toUpperCase().replace(/[^A-Z0-9]/g, "").replace(/^ACT/, "");
+}
+
+export type DuplicateReason = "address" | "mls";
+
+export interface DuplicateTransaction {
+  id: string;
+  propertyAddress: string;
+  mlsNumber: string | null;
+  status: string;
+  transactionType: string;
+  ownerName: string | null;
+  reasons: DuplicateReason[];
+  createdAt: string | null;
+}
+
+// A match the caller can't open: who owns it and why it matched, nothing more
+export interface HiddenDuplicate {
+  ownerName: string | null;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateCheck {
+  duplicates: DuplicateTransaction[];
+  hidden: HiddenDuplicate[];
+}
+
+export function hasDuplicates(check: DuplicateCheck): boolean {
+  return check.duplicates.length > 0 || check.hidden.length > 0;
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  address: "Same address",
+  mls: "Same MLS number",
+};
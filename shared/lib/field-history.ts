@@ -0,0 +1,130 @@
+// Which transaction fields are versioned, and how updates and versions are diffed
+
+import type { Transaction, TransactionVersion } from "../schema";
+
+export const versionSources = ["edit", "revert", "add_mls", "offer_accepted", "archive", "photos", "merge", "mls_sync"] as const;
+export type VersionSource = typeof versionSources[number];
+
+// Bookkeeping and bulk MLS fields - not something a person edits or would revert
+export const UNTRACKED_TRANSACTION_FIELDS: readonly string[] = [
+  "id",
+  "userId",
+  "createdAt",
+  "mlsData",
+  "mlsLastSyncedAt",
+  "previousReminderSettings",
+  "gmailFilterId",
+  "gmailLabelId",
+  "gmailPendingForEmail",
+  "slackChannelId",
+  "slackChannelName",
+  "version",
+  "deletedAt",
+  "deletedBy",
+  "statusChangedAt",
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  propertyAddress: "Address",
+  mlsNumber: "MLS #",
+  contractDate: "Contract Date",
+  closingDate: "Expected Closing",
+  goLiveDate: "Date Going Live",
+  fubClientName: "Client Name",
+  fubClientEmail: "Client Email",
+  fubClientPhone: "Client Phone",
+  coordinatorIds: "Coordinators",
+  sqft: "Square Feet",
+  isOffMarket: "Off Market",
+  isComingSoon: "Coming Soon",
+  isCompanyLead: "Company Lead",
+};
+
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface VersionAudit {
+  action: string;
+  status: string;
+  timestamp: string;
+}
+
+// One edit of a transaction: every field it changed plus its audit log entry
+export interface TransactionHistoryVersion {
+  version: number;
+  source: VersionSource;
+  changedBy: string | null;
+  changedByEmail: string | null;
+  requestId: string | null;
+  createdAt: string | null;
+  audit: VersionAudit | null;
+  changes: TransactionVersion[];
+}
+
+export function getFieldLabel(field: string): string {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const words = field.replace(/([A-Z])/g, " $1").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Dates become ISO strings and undefined becomes null, so equal values compare equal
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  return JSON.parse(JSON.stringify(value));
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+}
+
+/**
+ * Fields an update would actually change on this transaction, with before and
+ * after values. Unknown keys and untracked fields are ignored.
+ */
+export function diffTransactionFields(current: Transaction, update: Record<string, unknown>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [field, value] of Object.entries(update)) {
+    if (!(field in current) || UNTRACKED_TRANSACTION_FIELDS.includes(field) || value === undefined) continue;
+    const oldValue = current[field as keyof Transaction];
+    if (isSameValue(oldValue, value)) continue;
+    changes.push({ field, oldValue: normalizeValue(oldValue), newValue: normalizeValue(value) });
+  }
+  return changes;
+}
+
+/**
+ * Net change of each field between two versions (fromVersion exclusive, toVersion
+ * inclusive): the value before the first change in range and after the last one.
+ */
+export function compareVersions(changes: TransactionVersion[], fromVersion: number, toVersion: number): FieldChange[] {
+  const [low, high] = fromVersion <= toVersion ? [fromVersion, toVersion] : [toVersion, fromVersion];
+  const inRange = changes
+    .filter((change) => change.version > low && change.version <= high)
+    .sort((a, b) => a.version - b.version);
+
+  const byField = new Map<string, FieldChange>();
+  for (const change of inRange) {
+    const existing = byField.get(change.field);
+    if (existing) {
+      existing.newValue = change.newValue;
+    } else {
+      byField.set(change.field, { field: change.field, oldValue: change.oldValue, newValue: change.newValue });
+    }
+  }
+
+  const result = Array.from(byField.values()).filter((change) => !isSameValue(change.oldValue, change.newValue));
+  return fromVersion <= toVersion
+    ? result
+    : result.map((change) => ({ field: change.field, oldValue: change.newValue, newValue: change.oldValue }));
+}
+
+export function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.length === 0 ? "—" : value.join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,25 @@
+// Collapsing MLS listing snapshots to the ones where price or status changed
+
+import type { MLSListingHistoryEntry } from "../schema";
+
+type ListingSnapshot = Pick<MLSListingHistoryEntry, "listPrice" | "status">;
+
+export function isListingChange(previous: ListingSnapshot, next: ListingSnapshot): boolean {
+  return previous.listPrice !== next.listPrice || previous.status !== next.status;
+}
+
+// Entries must be oldest first
+export function collapseListingHistory<T extends ListingSnapshot>(entries: T[]): T[] {
+  return entries.filter((entry, index) =>
+    index === 0 || index === entries.length - 1 || isListingChange(entries[index - 1], entry)
+  );
+}
+
+// Change in list price from the first snapshot to the latest, or null without two priced snapshots
+export function getTotalPriceChange(entries: ListingSnapshot[]): { amount: number; percent: number } | null {
+  const priced = entries.filter(entry => entry.listPrice);
+  if (priced.length < 2) return null;
+  const first = priced[0].listPrice!;
+  const amount = priced[priced.length - 1].listPrice! - first;
+  return { amount, percent: Math.round((amount / first) * 1000) / 10 };
+}
@@ -0,0 +1,48 @@
+// MLS listing cache TTLs and metrics; the read-through cache is server/services/mls-cache.ts
+
+export const DEFAULT_ACTIVE_TTL_MINUTES = 15;
+export const DEFAULT_CLOSED_TTL_MINUTES = 7 * 24 * 60;
+// Past its TTL by more than this, an entry is too old to serve while revalidating
+export const DEFAULT_MAX_STALE_MINUTES = 24 * 60;
+
+// Repliers statuses after which a listing rarely changes
+export const CLOSED_LISTING_STATUSES = ["closed", "sold", "expired", "withdrawn", "canceled", "cancelled", "terminated"];
+
+export interface MLSCacheTtls {
+  activeTtlMinutes: number;
+  closedTtlMinutes: number;
+  maxStaleMinutes: number;
+}
+
+// fresh: serve as-is; stale: serve and refresh in the background; expired: refetch first
+export type ListingCacheFreshness = "fresh" | "stale" | "expired";
+
+export interface MLSCacheMetrics {
+  since: string; // counters reset when the server restarts
+  hits: number;
+  staleHits: number;
+  misses: number;
+  bypasses: number;
+  fetches: number;
+  fetchFailures: number;
+  hitRate: number | null;
+  entries: number;
+  oldestFetchedAt: string | null;
+  ttls: MLSCacheTtls;
+}
+
+export function isClosedListingStatus(status: string | null | undefined): boolean {
+  return CLOSED_LISTING_STATUSES.includes((status || "").toLowerCase());
+}
+
+export function getListingCacheFreshness(
+  status: string | null,
+  fetchedAt: Date,
+  ttls: MLSCacheTtls,
+  now: Date = new Date()
+): ListingCacheFreshness {
+  const ttlMinutes = isClosedListingStatus(status) ? ttls.closedTtlMinutes : ttls.activeTtlMinutes;
+  const ageMinutes = (now.getTime() - fetchedAt.getTime()) / 60000;
+  if (ageMinutes <= ttlMinutes) return "fresh";
+  return ageMinutes <= ttlMinutes + ttls.maxStaleMinutes ? "stale" : "expired";
+}
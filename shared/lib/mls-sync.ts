@@ -0,0 +1,42 @@
+// MLS sync run labels and per-listing failure backoff
+
+import type { MLSSyncOutcome, MLSSyncResult, MLSSyncRun, MLSSyncTrigger } from "../schema";
+
+export const MLS_SYNC_OUTCOME_LABELS: Record<MLSSyncOutcome, string> = {
+  success: "Synced",
+  skipped_rental: "Skipped (rental)",
+  error: "Failed",
+};
+
+export const MLS_SYNC_TRIGGER_LABELS: Record<MLSSyncTrigger, string> = {
+  scheduled: "Scheduled",
+  manual: "Manual",
+  transaction: "Single transaction",
+};
+
+// After this many errors in a row a listing is skipped, for a window that doubles with each further failure up to a day
+export const FAILURES_BEFORE_BACKOFF = 3;
+const BASE_BACKOFF_MINUTES = 30;
+const MAX_BACKOFF_MINUTES = 24 * 60;
+
+export interface MLSSyncRunDetail {
+  run: MLSSyncRun;
+  results: MLSSyncResult[];
+}
+
+// Error streak after a new outcome, given the transaction's previous result
+export function getConsecutiveFailures(outcome: MLSSyncOutcome, previous?: Pick<MLSSyncResult, "consecutiveFailures"> | null): number {
+  return outcome === "error" ? (previous?.consecutiveFailures ?? 0) + 1 : 0;
+}
+
+// When a listing may be tried again, or null if it isn't backed off
+export function getSyncBackoffUntil(latest: Pick<MLSSyncResult, "consecutiveFailures" | "createdAt">): Date | null {
+  if (latest.consecutiveFailures < FAILURES_BEFORE_BACKOFF || !latest.createdAt) return null;
+  const minutes = Math.min(BASE_BACKOFF_MINUTES * 2 ** (latest.consecutiveFailures - FAILURES_BEFORE_BACKOFF), MAX_BACKOFF_MINUTES);
+  return new Date(new Date(latest.createdAt).getTime() + minutes * 60 * 1000);
+}
+
+export function isSyncBackedOff(latest: Pick<MLSSyncResult, "consecutiveFailures" | "createdAt"> | undefined, now: Date = new Date()): boolean {
+  const until = latest ? getSyncBackoffUntil(latest) : null;
+  return !!until && until > now;
+}
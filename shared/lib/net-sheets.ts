@@ -0,0 +1,226 @@
+// Seller net proceeds and buyer cash to close, previewed on the client and recalculated on save
+
+import type { HoaFrequency, MLSData, NetSheetFee, NetSheetType, Transaction } from "../schema";
+
+export const NET_SHEET_TYPE_LABELS: Record<NetSheetType, string> = {
+  seller: "Seller Net Sheet",
+  buyer: "Buyer Cash to Close",
+};
+
+// Used when a transaction has no commission terms of its own
+export const DEFAULT_LISTING_COMMISSION_PERCENT = 3;
+export const DEFAULT_BUYER_AGENT_COMMISSION_PERCENT = 3;
+
+// Fees applied when no schedule has been set up in admin
+export const DEFAULT_NET_SHEET_FEE_SCHEDULE_NAME = "Standard";
+export const DEFAULT_NET_SHEET_FEES: NetSheetFee[] = [
+  { label: "Owner's title policy", side: "seller", kind: "percent", amount: 0.55 },
+  { label: "Escrow fee", side: "seller", kind: "flat", amount: 400 },
+  { label: "Tax certificate", side: "seller", kind: "flat", amount: 60 },
+  { label: "Escrow fee", side: "buyer", kind: "flat", amount: 400 },
+  { label: "Lender's title policy", side: "buyer", kind: "flat", amount: 200 },
+  { label: "Recording fees", side: "buyer", kind: "flat", amount: 100 },
+];
+
+interface NetSheetBaseInputs {
+  price: number;
+  closingDate: string; // YYYY-MM-DD
+  annualPropertyTax: number;
+  hoaDues: number;
+  hoaFrequency: HoaFrequency;
+  sellerConcessions: number;
+  otherCosts: number;
+}
+
+export interface SellerNetSheetInputs extends NetSheetBaseInputs {
+  type: "seller";
+  loanPayoff: number;
+  listingCommissionPercent: number;
+  buyerAgentCommissionPercent: number;
+}
+
+export interface BuyerNetSheetInputs extends NetSheetBaseInputs {
+  type: "buyer";
+  downPaymentPercent: number;
+  earnestMoney: number;
+  optionFee: number;
+  lenderFees: number;
+  annualInsurance: number;
+  // Months of taxes and insurance the lender collects up front for the escrow account
+  taxReserveMonths: number;
+  insuranceReserveMonths: number;
+}
+
+export type NetSheetInputs = SellerNetSheetInputs | BuyerNetSheetInputs;
+
+export type NetSheetLineCategory = "price" | "commission" | "fee" | "proration" | "payoff" | "credit" | "loan" | "prepaid";
+
+// Seller lines are signed toward proceeds (costs negative); buyer lines toward cash owed (credits negative)
+export interface NetSheetLine {
+  label: string;
+  category: NetSheetLineCategory;
+  amount: number;
+}
+
+export interface NetSheetResult {
+  type: NetSheetType;
+  price: number;
+  lines: NetSheetLine[];
+  total: number; // seller: estimated net proceeds; buyer: estimated cash to close
+  loanAmount: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toUtcDay(date: string): number {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`).getTime();
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toUtcDay(to) - toUtcDay(from)) / DAY_MS);
+}
+
+function addMonths(date: string, months: number): string {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().slice(0, 10);
+}
+
+// Taxes are paid in arrears (Texas): the seller owes January 1 through the closing date, closing day included
+export function getTaxProration(annualPropertyTax: number, closingDate: string): number {
+  if (!annualPropertyTax) return 0;
+  const year = closingDate.slice(0, 4);
+  const daysInYear = daysBetween(`${year}-01-01`, `${Number(year) + 1}-01-01`);
+  const daysOwned = daysBetween(`${year}-01-01`, closingDate) + 1;
+  return roundCents(annualPropertyTax * (daysOwned / daysInYear));
+}
+
+// Share of the current, already-paid HOA period that falls after closing
+export function getHoaProration(hoaDues: number, frequency: HoaFrequency, closingDate: string): number {
+  if (!hoaDues) return 0;
+  const [year, month] = closingDate.split("-").map(Number);
+  const periodMonths = frequency === "monthly" ? 1 : frequency === "quarterly" ? 3 : 12;
+  const startMonth = frequency === "monthly" ? month : frequency === "quarterly" ? Math.floor((month - 1) / 3) * 3 + 1 : 1;
+  const periodStart = `${year}-${String(startMonth).padStart(2, "0")}-01`;
+  const periodEnd = addMonths(periodStart, periodMonths);
+  const remaining = daysBetween(closingDate, periodEnd) - 1;
+  return roundCents(hoaDues * (Math.max(remaining, 0) / daysBetween(periodStart, periodEnd)));
+}
+
+function getFeeLines(fees: NetSheetFee[], side: NetSheetType, price: number): NetSheetLine[] {
+  return fees
+    .filter(fee => fee.side === side)
+    .map(fee => ({
+      label: fee.kind === "percent" ? `${fee.label} (${fee.amount}%)` : fee.label,
+      category: "fee" as const,
+      amount: roundCents(fee.kind === "percent" ? price * (fee.amount / 100) : fee.amount),
+    }));
+}
+
+// Drop lines that don't apply (zero amounts), keeping the price line
+function withoutEmptyLines(lines: NetSheetLine[]): NetSheetLine[] {
+  return lines.filter(line => line.amount !== 0 || line.category === "price");
+}
+
+function sumLines(lines: NetSheetLine[]): number {
+  return roundCents(lines.reduce((sum, line) => sum + line.amount, 0));
+}
+
+export function calculateSellerNetSheet(inputs: SellerNetSheetInputs, fees: NetSheetFee[]): NetSheetResult {
+  const price = inputs.price;
+  const lines = withoutEmptyLines([
+    { label: "Sale price", category: "price", amount: price },
+    { label: `Listing commission (${inputs.listingCommissionPercent}%)`, category: "commission", amount: -roundCents(price * inputs.listingCommissionPercent / 100) },
+    { label: `Buyer agent commission (${inputs.buyerAgentCommissionPercent}%)`, category: "commission", amount: -roundCents(price * inputs.buyerAgentCommissionPercent / 100) },
+    ...getFeeLines(fees, "seller", price).map(line => ({ ...line, amount: -line.amount })),
+    { label: "Property tax proration", category: "proration", amount: -getTaxProration(inputs.annualPropertyTax, inputs.closingDate) },
+    { label: "HOA dues proration", category: "proration", amount: getHoaProration(inputs.hoaDues, inputs.hoaFrequency, inputs.closingDate) },
+    { label: "Seller concessions", category: "credit", amount: -inputs.sellerConcessions },
+    { label: "Loan payoff", category: "payoff", amount: -inputs.loanPayoff },
+    { label: "Other costs", category: "fee", amount: -inputs.otherCosts },
+  ]);
+
+  return { type: "seller", price, lines, total: sumLines(lines), loanAmount: null };
+}
+
+export function calculateBuyerNetSheet(inputs: BuyerNetSheetInputs, fees: NetSheetFee[]): NetSheetResult {
+  const price = inputs.price;
+  const downPayment = roundCents(price * inputs.downPaymentPercent / 100);
+  const loanAmount = roundCents(price - downPayment);
+  const lines = withoutEmptyLines([
+    { label: `Down payment (${inputs.downPaymentPercent}%)`, category: "price", amount: downPayment },
+    { label: "Lender fees", category: "loan", amount: loanAmount > 0 ? inputs.lenderFees : 0 },
+    ...getFeeLines(fees, "buyer", price),
+    { label: "Homeowner's insurance (first year)", category: "prepaid", amount: inputs.annualInsurance },
+    { label: `Tax reserves (${inputs.taxReserveMonths} mo)`, category: "prepaid", amount: loanAmount > 0 ? roundCents(inputs.annualPropertyTax / 12 * inputs.taxReserveMonths) : 0 },
+    { label: `Insurance reserves (${inputs.insuranceReserveMonths} mo)`, category: "prepaid", amount: loanAmount > 0 ? roundCents(inputs.annualInsurance / 12 * inputs.insuranceReserveMonths) : 0 },
+    { label: "HOA dues proration", category: "proration", amount: getHoaProration(inputs.hoaDues, inputs.hoaFrequency, inputs.closingDate) },
+    { label: "Property tax proration (seller credit)", category: "proration", amount: -getTaxProration(inputs.annualPropertyTax, inputs.closingDate) },
+    { label: "Seller concessions", category: "credit", amount: -inputs.sellerConcessions },
+    { label: "Earnest money", category: "credit", amount: -inputs.earnestMoney },
+    { label: "Option fee", category: "credit", amount: -inputs.optionFee },
+    { label: "Other costs", category: "fee", amount: inputs.otherCosts },
+  ]);
+
+  return { type: "buyer", price, lines, total: sumLines(lines), loanAmount: loanAmount > 0 ? loanAmount : null };
+}
+
+export function calculateNetSheet(inputs: NetSheetInputs, fees: NetSheetFee[]): NetSheetResult {
+  return inputs.type === "seller" ? calculateSellerNetSheet(inputs, fees) : calculateBuyerNetSheet(inputs, fees);
+}
+
+function toHoaFrequency(value: string | undefined): HoaFrequency {
+  const normalized = (value || "").toLowerCase();
+  if (normalized.startsWith("quarter")) return "quarterly";
+  if (normalized.startsWith("annual") || normalized.startsWith("year")) return "annually";
+  return "monthly";
+}
+
+/**
+ * Starting inputs from the transaction: sale price (else list price), closing date
+ * (else 30 days out), MLS taxAmount/hoaFee, and the transaction's commission percent.
+ */
+export function getNetSheetDefaults(
+  type: NetSheetType,
+  transaction: Pick<Transaction, "salePrice" | "listPrice" | "closingDate" | "commissionType" | "commissionPercent" | "mlsData">,
+  today: Date = new Date()
+): NetSheetInputs {
+  const mls = (transaction.mlsData ?? {}) as Partial<Pick<MLSData, "taxAmount" | "hoaFee" | "hoaFrequency">>;
+  const fallbackClose = new Date(today.getTime() + 30 * DAY_MS).toISOString().slice(0, 10);
+  const base = {
+    price: transaction.salePrice ?? transaction.listPrice ?? 0,
+    closingDate: transaction.closingDate?.slice(0, 10) || fallbackClose,
+    annualPropertyTax: mls.taxAmount ?? 0,
+    hoaDues: mls.hoaFee ?? 0,
+    hoaFrequency: toHoaFrequency(mls.hoaFrequency),
+    sellerConcessions: 0,
+    otherCosts: 0,
+  };
+
+  if (type === "seller") {
+    return {
+      ...base,
+      type: "seller",
+      loanPayoff: 0,
+      listingCommissionPercent: transaction.commissionType !== "flat" && transaction.commissionPercent
+        ? transaction.commissionPercent
+        : DEFAULT_LISTING_COMMISSION_PERCENT,
+      buyerAgentCommissionPercent: DEFAULT_BUYER_AGENT_COMMISSION_PERCENT,
+    };
+  }
+  return {
+    ...base,
+    type: "buyer",
+    downPaymentPercent: 20,
+    earnestMoney: 0,
+    optionFee: 0,
+    lenderFees: 0,
+    annualInsurance: 0,
+    taxReserveMonths: 3,
+    insuranceReserveMonths: 2,
+  };
+}
@@ -0,0 +1,51 @@
+// Threaded transaction notes and "@Full Name" mention matching
+
+import type { NoteMention, TransactionNote } from "../schema";
+
+export const NOTE_MAX_LENGTH = 5000;
+
+export interface MentionablePerson extends NoteMention {
+  email: string | null;
+}
+
+export interface NoteThread extends TransactionNote {
+  replies: TransactionNote[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * The people mentioned in a note body. Longer names are matched first so
+ * "@Ann Lee" doesn't also count as a mention of "@Ann".
+ */
+export function findMentions(body: string, people: readonly MentionablePerson[]): NoteMention[] {
+  let remaining = body;
+  const found = new Map<string, NoteMention>();
+
+  const byLength = [...people].filter(p => p.name.trim()).sort((a, b) => b.name.length - a.name.length);
+  for (const person of byLength) {
+    const pattern = new RegExp(`@${escapeRegExp(person.name.trim())}(?![\\w])`, "gi");
+    if (!pattern.test(remaining)) continue;
+    remaining = remaining.replace(pattern, " ");
+    found.set(`${person.type}:${person.id}`, { type: person.type, id: person.id, name: person.name });
+  }
+  return Array.from(found.values());
+}
+
+// Group notes into threads, oldest first; replies to a missing parent become top-level
+export function buildNoteThreads(notes: readonly TransactionNote[]): NoteThread[] {
+  const sorted = [...notes].sort((a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime());
+  const threads = new Map<string, NoteThread>();
+  for (const note of sorted) {
+    if (!note.parentId) threads.set(note.id, { ...note, replies: [] });
+  }
+  for (const note of sorted) {
+    if (!note.parentId) continue;
+    const thread = threads.get(note.parentId);
+    if (thread) thread.replies.push(note);
+    else threads.set(note.id, { ...note, replies: [] });
+  }
+  return Array.from(threads.values());
+}
@@ -0,0 +1,90 @@
+// Offer labels, estimated seller net and the transaction update accepting an offer makes
+
+import type { FinancingType, Offer, OfferStatus, Transaction } from "../schema";
+import { calculateCommission, type CommissionInput } from "./commission";
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  received: "Received",
+  countered: "Countered",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+};
+
+export const FINANCING_TYPE_LABELS: Record<FinancingType, string> = {
+  cash: "Cash",
+  conventional: "Conventional",
+  fha: "FHA",
+  va: "VA",
+  usda: "USDA",
+  other: "Other",
+};
+
+// Title policy, escrow and recording fees as a rough share of price - a comparison aid, not a net sheet
+export const ESTIMATED_SELLER_CLOSING_COST_PERCENT = 1;
+
+// Statuses whose offers are still in play
+export const OPEN_OFFER_STATUSES: readonly OfferStatus[] = ["received", "countered"];
+
+export function isOpenOfferStatus(status: string): status is OfferStatus {
+  return (OPEN_OFFER_STATUSES as readonly string[]).includes(status);
+}
+
+export type OfferNetInput = Pick<Offer, "price" | "sellerConcessions" | "buyerAgentCommissionPercent">;
+
+export interface SellerNetEstimate {
+  price: number;
+  listingCommission: number;
+  buyerAgentCommission: number;
+  sellerConcessions: number;
+  closingCosts: number;
+  net: number;
+}
+
+function roundDollars(value: number): number {
+  return Math.round(value);
+}
+
+/**
+ * Seller proceeds before loan payoff and prorations: price less the listing side's
+ * commission (the transaction's terms applied at the offer price), buyer agent
+ * compensation, concessions and estimated closing costs.
+ */
+export function estimateSellerNet(offer: OfferNetInput, transaction: CommissionInput): SellerNetEstimate {
+  const listingCommission = calculateCommission({ ...transaction, salePrice: offer.price })?.gci ?? 0;
+  const buyerAgentCommission = offer.price * ((offer.buyerAgentCommissionPercent ?? 0) / 100);
+  const sellerConcessions = offer.sellerConcessions ?? 0;
+  const closingCosts = offer.price * (ESTIMATED_SELLER_CLOSING_COST_PERCENT / 100);
+
+  return {
+    price: offer.price,
+    listingCommission: roundDollars(listingCommission),
+    buyerAgentCommission: roundDollars(buyerAgentCommission),
+    sellerConcessions,
+    closingCosts: roundDollars(closingCosts),
+    net: roundDollars(offer.price - listingCommission - buyerAgentCommission - sellerConcessions - closingCosts),
+  };
+}
+
+// Only a listing that isn't under contract yet takes an offer - later on, accepting
+// would quietly replace the contract terms already on the deal
+export function canAcceptOffers(transaction: Pick<Transaction, "status">): boolean {
+  return transaction.status === "active";
+}
+
+/**
+ * The transaction fields accepting an offer sets: the offer's terms, and the move
+ * from active to in_contract. Callers check canAcceptOffers first.
+ */
+export function getOfferAcceptanceUpdate(
+  transaction: Pick<Transaction, "closingDate">,
+  offer: Pick<Offer, "price" | "closeDate">,
+  contractDate: string
+): Record<string, unknown> {
+  return {
+    salePrice: offer.price,
+    contractDate,
+    closingDate: offer.closeDate ?? transaction.closingDate,
+    status: "in_contract",
+  };
+}
@@ -0,0 +1,58 @@
+// Open house ordering and display formatting (dates YYYY-MM-DD, times HH:MM local)
+
+import type { OpenHouse } from "../schema";
+
+type OpenHouseWindow = Pick<OpenHouse, "date" | "startTime" | "endTime">;
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function toLocalDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function toLocalTimeKey(date: Date): string {
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function isValidOpenHouseWindow(startTime: string, endTime: string): boolean {
+  return endTime > startTime;
+}
+
+export function compareOpenHouses(a: OpenHouseWindow, b: OpenHouseWindow): number {
+  return a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime) || a.endTime.localeCompare(b.endTime);
+}
+
+// Local start of the open house, for "how long until" checks
+export function getOpenHouseStart(openHouse: OpenHouseWindow): Date {
+  return new Date(`${openHouse.date}T${openHouse.startTime}:00`);
+}
+
+// Still upcoming or in progress at `now`
+export function isOpenHouseUpcoming(openHouse: OpenHouseWindow, now: Date = new Date()): boolean {
+  const today = toLocalDateKey(now);
+  if (openHouse.date !== today) return openHouse.date > today;
+  return openHouse.endTime > toLocalTimeKey(now);
+}
+
+export function getNextOpenHouse<T extends OpenHouseWindow>(openHouses: T[], now: Date = new Date()): T | null {
+  return openHouses.filter(openHouse => isOpenHouseUpcoming(openHouse, now)).sort(compareOpenHouses)[0] ?? null;
+}
+
+// "13:00" -> "1:00 PM"
+export function formatOpenHouseTime(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const period = hours >= 12 ? "PM" : "AM";
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  return `${hour12}:${pad(minutes)} ${period}`;
+}
+
+export function formatOpenHouseTimeRange(openHouse: OpenHouseWindow): string {
+  return `${formatOpenHouseTime(openHouse.startTime)} - ${formatOpenHouseTime(openHouse.endTime)}`;
+}
+
+// "2026-01-17" -> "Saturday, January 17"
+export function formatOpenHouseDate(date: string): string {
+  return new Date(`${date}T12:00:00`).toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" });
+}
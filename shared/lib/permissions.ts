@@ -0,0 +1,48 @@
+// Organization roles and the permissions they grant; enforced in server/middleware/permissions.ts
+
+import type { MemberRole } from "../schema";
+
+export const permissions = [
+  "transactions:own", // transactions the user owns or is assigned to as coordinator
+  "transactions:team", // transactions owned by members of teams the user leads
+  "transactions:all", // every transaction
+  "marketing:all", // marketing assets on any transaction, without the rest of the transaction
+  "reports:all", // brokerage-wide revenue and production reports
+  "admin", // organizations, teams, templates and integration settings
+] as const;
+export type Permission = typeof permissions[number];
+
+export const MEMBER_ROLE_LABELS: Record<MemberRole, string> = {
+  agent: "Agent",
+  coordinator: "Coordinator",
+  marketing: "Marketing",
+  team_lead: "Team Lead",
+  broker_admin: "Broker Admin",
+};
+
+export const ROLE_PERMISSIONS: Record<MemberRole, readonly Permission[]> = {
+  agent: ["transactions:own"],
+  coordinator: ["transactions:own"],
+  marketing: ["marketing:all"],
+  team_lead: ["transactions:own", "transactions:team"],
+  broker_admin: ["transactions:own", "transactions:all", "marketing:all", "reports:all", "admin"],
+};
+
+/**
+ * Union of the permissions granted by each role. Users without any membership
+ * are treated as agents so single-agent installs keep working unchanged.
+ */
+export function getPermissionsForRoles(roles: readonly MemberRole[]): Permission[] {
+  const effectiveRoles: readonly MemberRole[] = roles.length > 0 ? roles : ["agent"];
+  const granted = new Set<Permission>();
+  for (const role of effectiveRoles) {
+    for (const permission of ROLE_PERMISSIONS[role] || []) {
+      granted.add(permission);
+    }
+  }
+  return Array.from(granted);
+}
+
+export function hasPermission(granted: readonly Permission[], permission: Permission): boolean {
+  return granted.includes(permission);
+}
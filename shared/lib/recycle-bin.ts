@@ -0,0 +1,35 @@
+// Recycle bin retention for soft-deleted transactions
+
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DeletedTransaction {
+  id: string;
+  propertyAddress: string;
+  status: string;
+  mlsNumber: string | null;
+  isArchived: boolean;
+  deletedAt: string;
+  deletedBy: string | null;
+  purgeAt: string;
+}
+
+export interface RecycleBinResponse {
+  retentionDays: number;
+  transactions: DeletedTransaction[];
+}
+
+export function getPurgeDate(deletedAt: Date | string, retentionDays: number): Date {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS);
+}
+
+// Anything deleted before this is due for purging
+export function getPurgeCutoff(retentionDays: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+}
+
+// Whole days left before the purge job may remove it (0 = due on the next run)
+export function getDaysUntilPurge(purgeAt: Date | string, now: Date = new Date()): number {
+  return Math.max(0, Math.ceil((new Date(purgeAt).getTime() - now.getTime()) / DAY_MS));
+}
@@ -0,0 +1,67 @@
+// Hit types returned by GET /api/search and the transaction tab each one opens
+
+export const searchHitTypes = ["transaction", "document", "activity"] as const;
+export type SearchHitType = typeof searchHitTypes[number];
+
+export const SEARCH_HIT_TABS: Record<SearchHitType, string> = {
+  transaction: "overview",
+  document: "documents",
+  activity: "timeline",
+};
+
+export const SEARCH_HIT_LABELS: Record<SearchHitType, string> = {
+  transaction: "Transactions",
+  document: "Documents",
+  activity: "Timeline",
+};
+
+export const MIN_SEARCH_LENGTH = 2;
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+// Matched terms in snippets are wrapped in these markers
+export const SEARCH_HIGHLIGHT_START = "<mark>";
+export const SEARCH_HIGHLIGHT_END = "</mark>";
+
+export interface SearchHit {
+  type: SearchHitType;
+  id: string; // transaction, document or activity id
+  transactionId: string;
+  propertyAddress: string;
+  title: string;
+  snippet: string | null;
+  rank: number;
+  tab: string;
+  isArchived: boolean;
+  createdAt: string | null;
+}
+
+export interface SearchResponse {
+  query: string;
+  hits: SearchHit[];
+}
+
+export function getSearchHitUrl(hit: Pick<SearchHit, "transactionId" | "tab">): string {
+  return `/transactions/${hit.transactionId}?tab=${hit.tab}`;
+}
+
+/**
+ * Split a highlighted snippet into plain and matched segments so it can be
+ * rendered without injecting HTML.
+ */
+export function splitHighlights(snippet: string): Array<{ text: string; match: boolean }> {
+  const segments: Array<{ text: string; match: boolean }> = [];
+  let rest = snippet;
+  while (rest) {
+    const start = rest.indexOf(SEARCH_HIGHLIGHT_START);
+    const end = start === -1 ? -1 : rest.indexOf(SEARCH_HIGHLIGHT_END, start);
+    if (start === -1 || end === -1) {
+      segments.push({ text: rest, match: false });
+      break;
+    }
+    if (start > 0) segments.push({ text: rest.slice(0, start), match: false });
+    segments.push({ text: rest.slice(start + SEARCH_HIGHLIGHT_START.length, end), match: true });
+    rest = rest.slice(end + SEARCH_HIGHLIGHT_END.length);
+  }
+  return segments;
+}
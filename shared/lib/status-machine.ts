@@ -0,0 +1,151 @@
+// Allowed status transitions, their entry requirements and side effects
+
+import { transactionStatuses, type TransactionStatus } from "../schema";
+
+export const TRANSACTION_STATUS_LABELS: Record<TransactionStatus, string> = {
+  active: "Active Listing",
+  in_contract: "In Contract",
+  pending_inspection: "Pending Inspection",
+  clear_to_close: "Clear to Close",
+  closed: "Closed",
+  cancelled: "Cancelled",
+};
+
+/**
+ * Allowed next statuses for each status. Deals can fall back to an earlier
+ * stage (e.g. a failed inspection) but a closed transaction is final.
+ */
+export const STATUS_TRANSITIONS: Record<TransactionStatus, readonly TransactionStatus[]> = {
+  active: ["in_contract", "cancelled"],
+  in_contract: ["pending_inspection", "clear_to_close", "active", "cancelled"],
+  pending_inspection: ["in_contract", "clear_to_close", "active", "cancelled"],
+  clear_to_close: ["closed", "in_contract", "cancelled"],
+  closed: [],
+  cancelled: ["active", "in_contract"],
+};
+
+/** The fields guards look at - the transaction merged with any pending updates */
+export interface StatusGuardContext {
+  contractDate?: string | null;
+  closingDate?: string | null;
+}
+
+interface StatusGuard {
+  check: (context: StatusGuardContext) => boolean;
+  message: string;
+}
+
+/** Conditions that must hold before a transaction can enter a status */
+export const STATUS_GUARDS: Partial<Record<TransactionStatus, StatusGuard[]>> = {
+  clear_to_close: [
+    { check: (c) => !!c.closingDate, message: "A closing date is required before marking a transaction Clear to Close" },
+  ],
+  closed: [
+    { check: (c) => !!c.closingDate, message: "A closing date is required before closing a transaction" },
+  ],
+};
+
+export type StatusSideEffect = "timeline" | "slack";
+
+/**
+ * Side effects run by the server after a successful transition. Every change is
+ * logged to the timeline; milestones are also announced in the Slack channel.
+ */
+export const STATUS_SIDE_EFFECTS: Record<TransactionStatus, readonly StatusSideEffect[]> = {
+  active: ["timeline"],
+  in_contract: ["timeline", "slack"],
+  pending_inspection: ["timeline"],
+  clear_to_close: ["timeline", "slack"],
+  closed: ["timeline", "slack"],
+  cancelled: ["timeline", "slack"],
+};
+
+export type StatusTransitionErrorCode = "invalid_status" | "invalid_transition" | "guard_failed";
+
+export type StatusTransitionResult =
+  | { ok: true; sideEffects: readonly StatusSideEffect[] }
+  | { ok: false; code: StatusTransitionErrorCode; message: string };
+
+export function isTransactionStatus(value: unknown): value is TransactionStatus {
+  return typeof value === "string" && (transactionStatuses as readonly string[]).includes(value);
+}
+
+export function getTransactionStatusLabel(status: string): string {
+  return isTransactionStatus(status) ? TRANSACTION_STATUS_LABELS[status] : status;
+}
+
+/**
+ * The first guard for `status` that the context fails, or null. Also used to stop
+ * edits that would break the current status (e.g. clearing the closing date of a
+ * Clear to Close transaction).
+ */
+export function getStatusGuardViolation(status: string, context: StatusGuardContext): string | null {
+  if (!isTransactionStatus(status)) return null;
+  const failedGuard = (STATUS_GUARDS[status] || []).find((guard) => !guard.check(context));
+  return failedGuard ? failedGuard.message : null;
+}
+
+/**
+ * Check whether a transaction may move from `from` to `to`.
+ * Re-submitting the current status is always allowed and has no side effects.
+ */
+export function validateStatusTransition(
+  from: string,
+  to: unknown,
+  context: StatusGuardContext
+): StatusTransitionResult {
+  if (!isTransactionStatus(to)) {
+    return {
+      ok: false,
+      code: "invalid_status",
+      message: `Invalid status "${String(to)}". Expected one of: ${transactionStatuses.join(", ")}`,
+    };
+  }
+
+  if (from === to) {
+    return { ok: true, sideEffects: [] };
+  }
+
+  // Legacy rows may hold a status outside the enum; let them move to any valid status
+  if (isTransactionStatus(from) && !STATUS_TRANSITIONS[from].includes(to)) {
+    return {
+      ok: false,
+      code: "invalid_transition",
+      message: `Cannot change status from ${TRANSACTION_STATUS_LABELS[from]} to ${TRANSACTION_STATUS_LABELS[to]}`,
+    };
+  }
+
+  const guardViolation = getStatusGuardViolation(to, context);
+  if (guardViolation) {
+    return { ok: false, code: "guard_failed", message: guardViolation };
+  }
+
+  return { ok: true, sideEffects: STATUS_SIDE_EFFECTS[to] };
+}
+
+export interface StatusOption {
+  status: TransactionStatus;
+  label: string;
+  allowed: boolean;
+  reason?: string;
+}
+
+/**
+ * Every next status reachable from the current one, with the reason it is
+ * blocked when a guard fails. Used to render status pickers.
+ */
+export function getStatusOptions(from: string, context: StatusGuardContext): StatusOption[] {
+  const candidates = isTransactionStatus(from)
+    ? STATUS_TRANSITIONS[from]
+    : transactionStatuses.filter((s) => s !== from);
+
+  return candidates.map((status) => {
+    const result = validateStatusTransition(from, status, context);
+    return {
+      status,
+      label: TRANSACTION_STATUS_LABELS[status],
+      allowed: result.ok,
+      reason: result.ok ? undefined : result.message,
+    };
+  });
+}
@@ -0,0 +1,123 @@
+// Filter, sort and page parameters for GET /api/transactions, built by the client and parsed by the server
+
+import type { Transaction } from "../schema";
+
+export const transactionSortFields = ["address", "createdAt", "closingDate", "status", "daysRemaining"] as const;
+export type TransactionSortField = typeof transactionSortFields[number];
+
+export type SortDirection = "asc" | "desc";
+
+// exclude = active list, only = archive page, include = everything
+export const archiveFilters = ["exclude", "include", "only"] as const;
+export type ArchiveFilter = typeof archiveFilters[number];
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export interface TransactionQuery {
+  status?: string[];
+  closingFrom?: string | null; // YYYY-MM-DD, inclusive
+  closingTo?: string | null; // YYYY-MM-DD, inclusive
+  // Any calendar date (contract, closing, go-live, photography, open house) in the range
+  eventsFrom?: string | null; // YYYY-MM-DD, inclusive
+  eventsTo?: string | null; // YYYY-MM-DD, inclusive
+  coordinatorId?: string | null;
+  search?: string;
+  archived?: ArchiveFilter;
+  sort?: TransactionSortField;
+  direction?: SortDirection;
+  limit?: number;
+  cursor?: string | null; // opaque, from a previous page's nextCursor
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor: string | null;
+  totalCount: number; // visible transactions before filters
+  filteredCount: number; // visible transactions matching the filters
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function buildTransactionQueryString(query: TransactionQuery): string {
+  const params = new URLSearchParams();
+  if (query.status && query.status.length > 0) params.set("status", query.status.join(","));
+  if (query.closingFrom) params.set("closingFrom", query.closingFrom);
+  if (query.closingTo) params.set("closingTo", query.closingTo);
+  if (query.eventsFrom) params.set("eventsFrom", query.eventsFrom);
+  if (query.eventsTo) params.set("eventsTo", query.eventsTo);
+  if (query.coordinatorId) params.set("coordinatorId", query.coordinatorId);
+  if (query.search?.trim()) params.set("search", query.search.trim());
+  if (query.archived) params.set("archived", query.archived);
+  if (query.sort) params.set("sort", query.sort);
+  if (query.direction) params.set("direction", query.direction);
+  if (query.limit) params.set("limit", String(query.limit));
+  if (query.cursor) params.set("cursor", query.cursor);
+  return params.toString();
+}
+
+/**
+ * Validate query-string params into a TransactionQuery. Returns an error message
+ * for the first invalid param instead of silently ignoring it.
+ */
+export function parseTransactionQuery(
+  params: Record<string, unknown>
+): { query: TransactionQuery } | { error: string } {
+  const str = (key: string): string | undefined => {
+    const value = params[key];
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  };
+
+  const query: TransactionQuery = {
+    archived: "exclude",
+    sort: "createdAt",
+    direction: "desc",
+    limit: DEFAULT_PAGE_SIZE,
+  };
+
+  const status = str("status");
+  if (status) query.status = status.split(",").map(s => s.trim()).filter(Boolean);
+
+  for (const key of ["closingFrom", "closingTo", "eventsFrom", "eventsTo"] as const) {
+    const value = str(key);
+    if (value && !DATE_PATTERN.test(value)) return { error: `${key} must be a YYYY-MM-DD date` };
+    if (value) query[key] = value;
+  }
+
+  query.coordinatorId = str("coordinatorId") ?? null;
+  query.search = str("search");
+  query.cursor = str("cursor") ?? null;
+
+  const archived = str("archived");
+  if (archived) {
+    if (!archiveFilters.includes(archived as ArchiveFilter)) {
+      return { error: `archived must be one of: ${archiveFilters.join(", ")}` };
+    }
+    query.archived = archived as ArchiveFilter;
+  }
+
+  const sort = str("sort");
+  if (sort) {
+    if (!transactionSortFields.includes(sort as TransactionSortField)) {
+      return { error: `sort must be one of: ${transactionSortFields.join(", ")}` };
+    }
+    query.sort = sort as TransactionSortField;
+  }
+
+  const direction = str("direction");
+  if (direction) {
+    if (direction !== "asc" && direction !== "desc") return { error: "direction must be asc or desc" };
+    query.direction = direction;
+  }
+
+  const limit = str("limit");
+  if (limit) {
+    const parsed = parseInt(limit, 10);
+    if (isNaN(parsed) || parsed < 1 || parsed > MAX_PAGE_SIZE) {
+      return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+    }
+    query.limit = parsed;
+  }
+
+  return { query };
+}
@@ -1,16 +1,40 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, serial } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, serial, real, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { NOTE_MAX_LENGTH } from "./lib/notes";
+import { MAX_DEADLINE_OFFSET_DAYS } from "./lib/deadlines";
 
 // Transaction status enum
 export const transactionStatuses = ["active", "in_contract", "pending_inspection", "clear_to_close", "closed", "cancelled"] as const;
 export type TransactionStatus = typeof transactionStatuses[number];
 
+// Commission type enum
+export const commissionTypes = ["percent", "flat"] as const;
+export type CommissionType = typeof commissionTypes[number];
+
 // Transaction type enum (buy/sell)
 export const transactionTypes = ["buy", "sell"] as const;
 export type TransactionType = typeof transactionTypes[number];
 
+// Full-text search vectors. The GIN indexes below and the /api/search queries in
+// server/storage.ts both build them here - Postgres only uses an expression index
+// when the query repeats the exact expression.
+export function transactionSearchVector(t: { propertyAddress: AnyPgColumn; mlsNumber: AnyPgColumn; fubClientName: AnyPgColumn; notes: AnyPgColumn }): SQL {
+  return sql`(setweight(to_tsvector('english', coalesce(${t.propertyAddress}, '') || ' ' || coalesce(${t.mlsNumber}, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(${t.fubClientName}, '')), 'B')
+    || setweight(to_tsvector('english', coalesce(${t.notes}, '')), 'C'))`;
+}
+
+export function documentSearchVector(d: { name: AnyPgColumn; notes: AnyPgColumn }): SQL {
+  return sql`(setweight(to_tsvector('english', coalesce(${d.name}, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(${d.notes}, '')), 'C'))`;
+}
+
+export function activitySearchVector(a: { description: AnyPgColumn }): SQL {
+  return sql`to_tsvector('english', ${a.description})`;
+}
+
 // Transactions table
 export const transactions = pgTable("transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -31,6 +55,13 @@ export const transactions = pgTable("transactions", {
   yearBuilt: integer("year_built"),
   propertyType: text("property_type"),
   isCompanyLead: boolean("is_company_lead").default(false),
+  // Commission - see shared/lib/commission.ts for how GCI and splits are derived
+  commissionType: text("commission_type").default("percent"), // percent or flat
+  commissionPercent: real("commission_percent"), // e.g. 3 for 3% of sale price
+  commissionFlat: integer("commission_flat"), // flat commission in dollars
+  agentSplitPercent: real("agent_split_percent"), // agent's share of GCI after referral; null = default for lead source
+  referralFeePercent: real("referral_fee_percent"), // percent of GCI paid out as a referral fee
+  referralPartner: text("referral_partner"),
   isOffMarket: boolean("is_off_market").default(false),
   isComingSoon: boolean("is_coming_soon").default(false), // Post to #coming-soon-listings Slack channel
   orderPhotography: boolean("order_photography").default(false),
@@ -57,8 +88,14 @@ export const transactions = pgTable("transactions", {
   isArchived: boolean("is_archived").default(false),
   archivedAt: timestamp("archived_at"),
   previousReminderSettings: jsonb("previous_reminder_settings"), // Store notification settings before archive for potential restoration
+  version: integer("version").notNull().default(1), // Bumped on every write; served as the ETag and checked against If-Match
+  deletedAt: timestamp("deleted_at"), // Set when moved to the recycle bin; purged after the retention period
+  deletedBy: text("deleted_by"),
+  statusChangedAt: timestamp("status_changed_at"), // When status last changed; drives the auto-archive policy
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_transactions_search").using("gin", transactionSearchVector(table)),
+]);
 
 // Transaction coordinators
 export const coordinators = pgTable("coordinators", {
@@ -92,7 +129,9 @@ export const activities = pgTable("activities", {
   description: text("description").notNull(),
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_activities_search").using("gin", activitySearchVector(table)),
+]);
 
 // Marketing assets for transactions
 export const marketingAssets = pgTable("marketing_assets", {
@@ -181,6 +220,388 @@ export const contractDocuments = pgTable("contract_documents", {
   notes: text("notes"), // Optional notes about the document
   uploadedBy: text("uploaded_by"), // User who uploaded
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_contract_documents_search").using("gin", documentSearchVector(table)),
+]);
+
+// Task assignee roles for checklist items
+export const taskAssigneeTypes = ["coordinator", "agent"] as const;
+export type TaskAssigneeType = typeof taskAssigneeTypes[number];
+
+// A single item in a checklist template. Due dates are resolved relative to an anchor date
+// on the transaction when the template is instantiated.
+export interface ChecklistTemplateItem {
+  title: string;
+  description?: string;
+  assigneeType: TaskAssigneeType;
+  dueAnchor?: "created" | "contract" | "closing";
+  dueOffsetDays?: number;
+}
+
+// Checklist templates - admin-editable, keyed by transaction type and status
+export const checklistTemplates = pgTable("checklist_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  transactionType: text("transaction_type").notNull(), // buy or sell
+  status: text("status").notNull(), // transaction status that triggers this template
+  items: jsonb("items").$type<ChecklistTemplateItem[]>().notNull().default([]),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Auto-archive policy - one admin-edited rule per terminal status
+export const autoArchiveStatuses = ["closed", "cancelled"] as const;
+
+export const autoArchiveRules = pgTable("auto_archive_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  status: text("status").notNull().unique(),
+  daysAfterStatus: integer("days_after_status").notNull(), // archive this many days after the status was set
+  isActive: boolean("is_active").default(false),
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Tasks attached to a transaction (closing checklist)
+export const transactionTasks = pgTable("transaction_tasks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  templateId: varchar("template_id"), // null = ad hoc task
+  title: text("title").notNull(),
+  description: text("description"),
+  assigneeType: text("assignee_type").notNull().default("coordinator"), // coordinator or agent
+  assigneeId: varchar("assignee_id"), // coordinator id or user id depending on assigneeType
+  dueDate: text("due_date"),
+  sortOrder: integer("sort_order").default(0),
+  isCompleted: boolean("is_completed").default(false),
+  completedAt: timestamp("completed_at"),
+  completedBy: varchar("completed_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// People who can be @mentioned in a transaction note
+export const noteMentionTypes = ["coordinator", "agent"] as const;
+export type NoteMentionType = typeof noteMentionTypes[number];
+
+export interface NoteMention {
+  type: NoteMentionType;
+  id: string;
+  name: string;
+}
+
+// Comments on a transaction. Replies point at a top-level note; edits and deletes keep
+// the previous body in transaction_note_revisions.
+export const transactionNotes = pgTable("transaction_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  parentId: varchar("parent_id"), // null = top-level note
+  authorId: varchar("author_id"),
+  authorName: text("author_name"),
+  authorEmail: text("author_email"),
+  body: text("body").notNull(),
+  mentions: jsonb("mentions").$type<NoteMention[]>().notNull().default([]),
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"), // body is cleared; replies stay in the thread
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const transactionNoteRevisions = pgTable("transaction_note_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  noteId: varchar("note_id").notNull(),
+  action: text("action").notNull(), // edit, delete
+  body: text("body").notNull(), // the body before this change
+  changedBy: text("changed_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Contract deadlines
+export const deadlineTypes = ["option", "financing", "appraisal", "survey", "inspection", "title", "other"] as const;
+export type DeadlineType = typeof deadlineTypes[number];
+
+export const deadlineStatuses = ["upcoming", "met", "missed", "waived"] as const;
+export type DeadlineStatus = typeof deadlineStatuses[number];
+
+export const deadlineDayTypes = ["calendar", "business"] as const;
+export type DeadlineDayType = typeof deadlineDayTypes[number];
+
+// Deadlines between contract and closing. Computed deadlines are offsets from contractDate and
+// are recalculated when it changes; manual deadlines keep whatever dueDate was entered.
+export const transactionDeadlines = pgTable("transaction_deadlines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  type: text("type").notNull(), // option, financing, appraisal, survey, etc.
+  label: text("label").notNull(),
+  offsetDays: integer("offset_days"), // null for manual deadlines
+  dayType: text("day_type").notNull().default("calendar"), // calendar or business
+  isManual: boolean("is_manual").default(false),
+  dueDate: text("due_date"), // YYYY-MM-DD, null until contractDate is known
+  status: text("status").notNull().default("upcoming"), // upcoming, met, missed, waived
+  statusChangedAt: timestamp("status_changed_at"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Transaction parties
+export const contactRoles = [
+  "buyer",
+  "seller",
+  "buyer_agent",
+  "listing_agent",
+  "lender",
+  "title_officer",
+  "escrow_officer",
+  "inspector",
+  "appraiser",
+  "attorney",
+  "other",
+] as const;
+export type ContactRole = typeof contactRoles[number];
+
+// People on a transaction - multiple contacts per role allowed
+export const transactionContacts = pgTable("transaction_contacts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  role: text("role").notNull(), // buyer, seller, lender, title_officer, etc.
+  name: text("name").notNull(),
+  email: text("email"),
+  phone: text("phone"),
+  company: text("company"),
+  fubPersonId: text("fub_person_id"), // Optional link to a Follow Up Boss person
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One sign-in sheet entry from an open house
+export interface OpenHouseSignIn {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  notes?: string | null;
+}
+
+// Scheduled open houses - times are local to the property, like every other date on a transaction
+export const openHouses = pgTable("open_houses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD
+  startTime: text("start_time").notNull(), // HH:MM, 24-hour
+  endTime: text("end_time").notNull(), // HH:MM, 24-hour
+  hostUserId: varchar("host_user_id"), // hosting agent when they have an account
+  hostName: text("host_name"),
+  notes: text("notes"),
+  signIns: jsonb("sign_ins").$type<OpenHouseSignIn[]>().default([]),
+  slackPostedAt: timestamp("slack_posted_at"), // set once the pre-event Slack post goes out
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_open_houses_transaction").on(table.transactionId, table.date),
+]);
+
+// Offers received on a listing
+export const offerStatuses = ["received", "countered", "accepted", "rejected", "withdrawn"] as const;
+export type OfferStatus = typeof offerStatuses[number];
+
+export const financingTypes = ["cash", "conventional", "fha", "va", "usda", "other"] as const;
+export type FinancingType = typeof financingTypes[number];
+
+// Offers on a sell-side transaction before it goes under contract. Money is whole dollars;
+// buyer agent compensation is a percent of price, the same way commissionPercent is.
+export const offers = pgTable("offers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  buyerName: text("buyer_name"),
+  buyerAgentName: text("buyer_agent_name").notNull(),
+  buyerAgentBrokerage: text("buyer_agent_brokerage"),
+  buyerAgentEmail: text("buyer_agent_email"),
+  buyerAgentPhone: text("buyer_agent_phone"),
+  price: integer("price").notNull(),
+  financingType: text("financing_type").notNull().default("conventional"),
+  downPaymentPercent: real("down_payment_percent"),
+  earnestMoney: integer("earnest_money"),
+  optionFee: integer("option_fee"),
+  optionDays: integer("option_days"),
+  sellerConcessions: integer("seller_concessions"), // closing costs the seller pays for the buyer
+  buyerAgentCommissionPercent: real("buyer_agent_commission_percent"),
+  closeDate: text("close_date"), // YYYY-MM-DD proposed closing
+  expiresAt: timestamp("expires_at"),
+  status: text("status").notNull().default("received"), // received, countered, accepted, rejected, withdrawn
+  statusChangedAt: timestamp("status_changed_at"),
+  notes: text("notes"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_offers_transaction").on(table.transactionId),
+  // At most one accepted offer per transaction, even when two accepts race
+  uniqueIndex("UQ_offers_accepted").on(table.transactionId).where(sql`${table.status} = 'accepted'`),
+]);
+
+// Net sheet calculators
+export const netSheetTypes = ["seller", "buyer"] as const;
+export type NetSheetType = typeof netSheetTypes[number];
+
+export const hoaFrequencies = ["monthly", "quarterly", "annually"] as const;
+export type HoaFrequency = typeof hoaFrequencies[number];
+
+export const netSheetFeeKinds = ["flat", "percent"] as const;
+export type NetSheetFeeKind = typeof netSheetFeeKinds[number];
+
+// One closing cost line: a flat dollar amount or a percent of the price, charged to one side
+export interface NetSheetFee {
+  label: string;
+  side: NetSheetType;
+  kind: NetSheetFeeKind;
+  amount: number;
+}
+
+// Brokerage and title/escrow fee schedules that net sheets are calculated against; admins maintain them
+export const netSheetFeeSchedules = pgTable("net_sheet_fee_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  fees: jsonb("fees").$type<NetSheetFee[]>().notNull().default([]),
+  isDefault: boolean("is_default").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Saved net sheet calculations - every save is a new version; inputs and result are kept as calculated
+export const netSheets = pgTable("net_sheets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  type: text("type").notNull(), // seller or buyer
+  version: integer("version").notNull(), // increments per transaction and type
+  feeScheduleId: varchar("fee_schedule_id"),
+  feeScheduleName: text("fee_schedule_name"),
+  inputs: jsonb("inputs").notNull(), // NetSheetInputs from shared/lib/net-sheets
+  result: jsonb("result").notNull(), // NetSheetResult from shared/lib/net-sheets
+  createdBy: varchar("created_by"),
+  createdByEmail: text("created_by_email"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_net_sheets_transaction").on(table.transactionId, table.type, table.version),
+]);
+
+// One row per MLS sync of a transaction's listing - the price, status and DOM Repliers reported at that time
+export const mlsListingHistory = pgTable("mls_listing_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  mlsNumber: varchar("mls_number").notNull(),
+  listPrice: integer("list_price"),
+  status: text("status"),
+  lastStatus: text("last_status"), // Repliers' lastStatus code (e.g. Sc, Pc, Sld)
+  daysOnMarket: integer("days_on_market"),
+  capturedAt: timestamp("captured_at").defaultNow(),
+}, (table) => [
+  index("IDX_mls_listing_history_transaction").on(table.transactionId, table.capturedAt),
+]);
+
+// Normalized Repliers listings, shared by MLS search, detail views and the sync job - see server/services/mls-cache.ts
+export const mlsListingCache = pgTable("mls_listing_cache", {
+  cacheKey: varchar("cache_key").primaryKey(), // boardId:mlsNumber, plus :variant for alternate responses
+  mlsNumber: varchar("mls_number").notNull(),
+  boardId: varchar("board_id").notNull(),
+  status: text("status"), // listing status at fetch time; closed listings are kept longer
+  data: jsonb("data").notNull(), // MLSListingData from server/repliers.ts
+  fetchedAt: timestamp("fetched_at").notNull(),
+});
+
+// MLS sync runs
+export const mlsSyncTriggers = ["scheduled", "manual", "transaction"] as const;
+export type MLSSyncTrigger = typeof mlsSyncTriggers[number];
+
+export const mlsSyncRunStatuses = ["running", "completed", "failed"] as const;
+export type MLSSyncRunStatus = typeof mlsSyncRunStatuses[number];
+
+export const mlsSyncOutcomes = ["success", "skipped_rental", "error"] as const;
+export type MLSSyncOutcome = typeof mlsSyncOutcomes[number];
+
+// One row per run of the MLS sync job (or a single-transaction re-sync from admin)
+export const mlsSyncRuns = pgTable("mls_sync_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trigger: text("trigger").notNull(), // scheduled, manual, transaction
+  triggeredBy: varchar("triggered_by"), // user id for manual and transaction runs
+  status: text("status").notNull().default("running"),
+  total: integer("total").notNull().default(0),
+  successful: integer("successful").notNull().default(0),
+  skippedRental: integer("skipped_rental").notNull().default(0),
+  failed: integer("failed").notNull().default(0),
+  backedOff: integer("backed_off").notNull().default(0), // listings not attempted because of repeated failures
+  error: text("error"), // why a failed run stopped
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("IDX_mls_sync_runs_started").on(table.startedAt),
+]);
+
+// Per-transaction outcome of a sync run
+export const mlsSyncResults = pgTable("mls_sync_results", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").notNull(),
+  transactionId: varchar("transaction_id").notNull(),
+  mlsNumber: varchar("mls_number"),
+  address: text("address"),
+  outcome: text("outcome").notNull(), // success, skipped_rental, error
+  changedFields: jsonb("changed_fields").$type<Array<{ field: string; oldValue: unknown; newValue: unknown }>>().notNull().default([]),
+  error: text("error"),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0), // error streak including this result; drives backoff
+  durationMs: integer("duration_ms"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_mls_sync_results_run").on(table.runId),
+  index("IDX_mls_sync_results_transaction").on(table.transactionId, table.createdAt),
+]);
+
+// Field-level change history - one row per changed field, rows written by the same edit share a version
+export const transactionVersions = pgTable("transaction_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  version: integer("version").notNull(), // increments per edit of this transaction
+  field: text("field").notNull(), // Transaction property name, e.g. closingDate
+  oldValue: jsonb("old_value"),
+  newValue: jsonb("new_value"),
+  source: text("source").notNull().default("edit"), // edit, revert, add_mls, offer_accepted, archive, photos, merge, mls_sync
+  revertedVersionId: varchar("reverted_version_id"), // the row a revert undid
+  changedBy: varchar("changed_by"), // user id
+  changedByEmail: text("changed_by_email"),
+  requestId: text("request_id"), // joins to audit_logs.request_id
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_transaction_versions_transaction").on(table.transactionId, table.version),
+]);
+
+// Organization roles - what a member can see and do is derived from these in shared/lib/permissions
+export const memberRoles = ["agent", "coordinator", "marketing", "team_lead", "broker_admin"] as const;
+export type MemberRole = typeof memberRoles[number];
+
+// Brokerages
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Teams within a brokerage
+export const teams = pgTable("teams", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A user's role in an organization - team leads see transactions owned by members of their team
+export const organizationMembers = pgTable("organization_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  teamId: varchar("team_id"), // null = not on a team
+  role: text("role").notNull().default("agent"), // agent, coordinator, marketing, team_lead, broker_admin
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Notification settings per user/transaction
@@ -253,6 +674,27 @@ export const updateUserNotificationPreferencesSchema = z.object({
   reminderDayOf: z.boolean().optional(),
 });
 
+// iCalendar subscription feeds, authenticated by the secret token in the URL.
+// A feed with transactionId covers that one transaction; otherwise every transaction
+// the user can see, optionally limited to some statuses.
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  token: text("token").notNull().unique(),
+  transactionId: varchar("transaction_id"),
+  statuses: text("statuses").array(), // null or empty = all statuses
+  createdAt: timestamp("created_at").defaultNow(),
+  lastAccessedAt: timestamp("last_accessed_at"),
+});
+
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type InsertCalendarFeed = typeof calendarFeeds.$inferInsert;
+
+export const createCalendarFeedSchema = z.object({
+  transactionId: z.string().min(1).nullable().optional(),
+  statuses: z.array(z.enum(transactionStatuses)).optional(),
+});
+
 // Agent profiles for marketing
 export const agentProfiles = pgTable("agent_profiles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -307,6 +749,10 @@ export const agentMarketingProfiles = pgTable("agent_marketing_profiles", {
 // Insert schemas
 export const insertTransactionSchema = createInsertSchema(transactions).omit({
   id: true,
+  version: true,
+  deletedAt: true,
+  deletedBy: true,
+  statusChangedAt: true,
   createdAt: true,
 });
 
@@ -338,6 +784,206 @@ export const insertContractDocumentSchema = createInsertSchema(contractDocuments
   createdAt: true,
 });
 
+const checklistTemplateItemSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  assigneeType: z.enum(taskAssigneeTypes),
+  dueAnchor: z.enum(["created", "contract", "closing"]).optional(),
+  dueOffsetDays: z.number().int().min(-365).max(365).optional(),
+});
+
+export const insertChecklistTemplateSchema = createInsertSchema(checklistTemplates, {
+  transactionType: z.enum(transactionTypes),
+  status: z.enum(transactionStatuses),
+  items: z.array(checklistTemplateItemSchema),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAutoArchiveRuleSchema = createInsertSchema(autoArchiveRules, {
+  status: z.enum(autoArchiveStatuses),
+  daysAfterStatus: z.number().int().min(1).max(3650),
+}).omit({
+  id: true,
+  updatedBy: true,
+  updatedAt: true,
+});
+
+export const insertTransactionTaskSchema = createInsertSchema(transactionTasks, {
+  title: z.string().min(1).max(200),
+  assigneeType: z.enum(taskAssigneeTypes),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTransactionNoteSchema = createInsertSchema(transactionNotes, {
+  body: z.string().trim().min(1).max(NOTE_MAX_LENGTH),
+}).omit({
+  id: true,
+  mentions: true,
+  editedAt: true,
+  deletedAt: true,
+  createdAt: true,
+});
+
+export const insertTransactionDeadlineSchema = createInsertSchema(transactionDeadlines, {
+  type: z.enum(deadlineTypes),
+  label: z.string().min(1).max(100),
+  offsetDays: z.number().int().min(0).max(MAX_DEADLINE_OFFSET_DAYS).nullable().optional(),
+  dayType: z.enum(deadlineDayTypes),
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  status: z.enum(deadlineStatuses),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// What a client sends to create or edit a deadline; the server fills in the rest
+export const deadlineInputSchema = insertTransactionDeadlineSchema.pick({
+  type: true,
+  label: true,
+  offsetDays: true,
+  dayType: true,
+  dueDate: true,
+  notes: true,
+  status: true,
+});
+
+export const insertTransactionContactSchema = createInsertSchema(transactionContacts, {
+  role: z.enum(contactRoles),
+  name: z.string().min(1).max(200),
+  email: z.string().email().nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+const openHouseTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM");
+
+export const openHouseSignInSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  email: z.string().email().nullable().optional(),
+  phone: z.string().max(50).nullable().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+export const insertOpenHouseSchema = createInsertSchema(openHouses, {
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  startTime: openHouseTime,
+  endTime: openHouseTime,
+  hostName: z.string().max(200).nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  signIns: z.array(openHouseSignInSchema).max(500).optional(),
+}).omit({
+  id: true,
+  slackPostedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+const offerDollars = z.number().int().min(0).nullable().optional();
+
+export const insertOfferSchema = createInsertSchema(offers, {
+  buyerName: z.string().max(200).nullable().optional(),
+  buyerAgentName: z.string().trim().min(1).max(200),
+  buyerAgentEmail: z.string().email().nullable().optional(),
+  price: z.number().int().positive(),
+  financingType: z.enum(financingTypes),
+  downPaymentPercent: z.number().min(0).max(100).nullable().optional(),
+  earnestMoney: offerDollars,
+  optionFee: offerDollars,
+  optionDays: z.number().int().min(0).max(60).nullable().optional(),
+  sellerConcessions: offerDollars,
+  buyerAgentCommissionPercent: z.number().min(0).max(100).nullable().optional(),
+  closeDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  status: z.enum(offerStatuses),
+  notes: z.string().max(2000).nullable().optional(),
+}).omit({
+  id: true,
+  statusChangedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const netSheetFeeSchema = z.object({
+  label: z.string().trim().min(1).max(100),
+  side: z.enum(netSheetTypes),
+  kind: z.enum(netSheetFeeKinds),
+  amount: z.number().min(0).max(1_000_000),
+}).refine(fee => fee.kind !== "percent" || fee.amount <= 100, { message: "Percent fees must be 100 or less" });
+
+export const insertNetSheetFeeScheduleSchema = createInsertSchema(netSheetFeeSchedules, {
+  name: z.string().trim().min(1).max(100),
+  fees: z.array(netSheetFeeSchema).max(50),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+const netSheetDollars = z.number().min(0).max(100_000_000);
+const netSheetPercent = z.number().min(0).max(100);
+
+const netSheetBaseInputsSchema = z.object({
+  price: z.number().positive().max(100_000_000),
+  closingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  annualPropertyTax: netSheetDollars,
+  hoaDues: netSheetDollars,
+  hoaFrequency: z.enum(hoaFrequencies),
+  sellerConcessions: netSheetDollars,
+  otherCosts: netSheetDollars,
+});
+
+// Calculator inputs - see shared/lib/net-sheets.ts for how each is applied
+export const netSheetInputsSchema = z.discriminatedUnion("type", [
+  netSheetBaseInputsSchema.extend({
+    type: z.literal("seller"),
+    loanPayoff: netSheetDollars,
+    listingCommissionPercent: netSheetPercent,
+    buyerAgentCommissionPercent: netSheetPercent,
+  }),
+  netSheetBaseInputsSchema.extend({
+    type: z.literal("buyer"),
+    downPaymentPercent: netSheetPercent,
+    earnestMoney: netSheetDollars,
+    optionFee: netSheetDollars,
+    lenderFees: netSheetDollars,
+    annualInsurance: netSheetDollars,
+    taxReserveMonths: z.number().int().min(0).max(12),
+    insuranceReserveMonths: z.number().int().min(0).max(12),
+  }),
+]);
+
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  name: z.string().min(1).max(200),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTeamSchema = createInsertSchema(teams, {
+  name: z.string().min(1).max(200),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers, {
+  role: z.enum(memberRoles),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertNotificationSettingsSchema = createInsertSchema(notificationSettings).omit({
   id: true,
   createdAt: true,
@@ -429,6 +1075,61 @@ export type InsertFlyer = z.infer<typeof insertFlyerSchema>;
 export type ContractDocument = typeof contractDocuments.$inferSelect;
 export type InsertContractDocument = z.infer<typeof insertContractDocumentSchema>;
 
+export type ChecklistTemplate = typeof checklistTemplates.$inferSelect;
+export type InsertChecklistTemplate = z.infer<typeof insertChecklistTemplateSchema>;
+
+export type AutoArchiveRule = typeof autoArchiveRules.$inferSelect;
+export type InsertAutoArchiveRule = z.infer<typeof insertAutoArchiveRuleSchema>;
+
+export type TransactionTask = typeof transactionTasks.$inferSelect;
+export type InsertTransactionTask = z.infer<typeof insertTransactionTaskSchema>;
+
+export type TransactionNote = typeof transactionNotes.$inferSelect;
+export type InsertTransactionNote = z.infer<typeof insertTransactionNoteSchema>;
+export type TransactionNoteRevision = typeof transactionNoteRevisions.$inferSelect;
+
+export type TransactionDeadline = typeof transactionDeadlines.$inferSelect;
+export type InsertTransactionDeadline = z.infer<typeof insertTransactionDeadlineSchema>;
+
+export type TransactionContact = typeof transactionContacts.$inferSelect;
+export type InsertTransactionContact = z.infer<typeof insertTransactionContactSchema>;
+
+export type TransactionVersion = typeof transactionVersions.$inferSelect;
+export type InsertTransactionVersion = typeof transactionVersions.$inferInsert;
+
+export type NetSheetFeeSchedule = typeof netSheetFeeSchedules.$inferSelect;
+export type InsertNetSheetFeeSchedule = z.infer<typeof insertNetSheetFeeScheduleSchema>;
+
+export type NetSheet = typeof netSheets.$inferSelect;
+export type InsertNetSheet = typeof netSheets.$inferInsert;
+
+export type MLSListingHistoryEntry = typeof mlsListingHistory.$inferSelect;
+export type InsertMLSListingHistoryEntry = typeof mlsListingHistory.$inferInsert;
+
+export type MLSListingCacheEntry = typeof mlsListingCache.$inferSelect;
+export type InsertMLSListingCacheEntry = typeof mlsListingCache.$inferInsert;
+
+export type MLSSyncRun = typeof mlsSyncRuns.$inferSelect;
+export type InsertMLSSyncRun = typeof mlsSyncRuns.$inferInsert;
+
+export type MLSSyncResult = typeof mlsSyncResults.$inferSelect;
+export type InsertMLSSyncResult = typeof mlsSyncResults.$inferInsert;
+
+export type Offer = typeof offers.$inferSelect;
+export type InsertOffer = z.infer<typeof insertOfferSchema>;
+
+export type OpenHouse = typeof openHouses.$inferSelect;
+export type InsertOpenHouse = z.infer<typeof insertOpenHouseSchema>;
+
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+
+export type Team = typeof teams.$inferSelect;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
+
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
+
 export type NotificationSetting = typeof notificationSettings.$inferSelect;
 export type InsertNotificationSetting = z.infer<typeof insertNotificationSettingsSchema>;
 